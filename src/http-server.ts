@@ -0,0 +1,394 @@
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import {
+  createServer as createHttpServer,
+  type IncomingMessage,
+  type Server as HttpServer,
+  type ServerResponse,
+} from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+export type TransportMode = 'stdio' | 'http';
+
+export interface TransportConfig {
+  mode: TransportMode;
+  host: string;
+  port: number;
+  authToken: string | null;
+  /** Sessions without a request for this long are closed. */
+  sessionIdleTimeoutMs: number;
+  /** New sessions are refused with 503 while this many are open. */
+  maxSessions: number;
+}
+
+/** An extra bearer token whose requests carry `clientId` as MCP `authInfo`, e.g. for per-client site policies. */
+export interface HttpClientToken {
+  clientId: string;
+  token: string;
+}
+
+export interface HttpServerHandle {
+  url: string;
+  activeSessions(): number;
+  close(): Promise<void>;
+}
+
+const MCP_PATH = '/mcp';
+const SSE_PATH = '/sse';
+const SSE_MESSAGES_PATH = '/messages';
+const HEALTH_PATH = '/healthz';
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+const DEFAULT_HTTP_HOST = '127.0.0.1';
+const DEFAULT_HTTP_PORT = 3333;
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const DEFAULT_MAX_SESSIONS = 100;
+/** Upper bound on how long an idle session outlives its timeout. */
+const MAX_SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+
+function readCliFlag(argv: string[], name: string): string | undefined {
+  const prefix = `--${name}=`;
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+    if (arg.startsWith(prefix)) {
+      return arg.slice(prefix.length);
+    }
+    if (arg === `--${name}`) {
+      return argv[index + 1];
+    }
+  }
+  return undefined;
+}
+
+function readPositiveInteger(env: NodeJS.ProcessEnv, name: string, fallback: number): number {
+  const raw = env[name]?.trim();
+  if (!raw) {
+    return fallback;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`Invalid ${name} "${raw}". Expected a positive integer.`);
+  }
+  return value;
+}
+
+/**
+ * Resolve the transport from CLI flags (`--transport`, `--host`, `--port`)
+ * with `GSC_TRANSPORT`, `GSC_HTTP_HOST`, `GSC_HTTP_PORT` and
+ * `GSC_HTTP_AUTH_TOKEN` as fallbacks. CLI flags take precedence. Session
+ * limits come from `GSC_HTTP_SESSION_IDLE_TIMEOUT_MS` and `GSC_HTTP_MAX_SESSIONS`.
+ */
+export function resolveTransportConfig(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env,
+): TransportConfig {
+  const rawMode = (readCliFlag(argv, 'transport') ?? env.GSC_TRANSPORT ?? 'stdio').toLowerCase();
+  if (rawMode !== 'stdio' && rawMode !== 'http') {
+    throw new Error(`Unsupported transport "${rawMode}". Expected "stdio" or "http".`);
+  }
+
+  const rawPort = readCliFlag(argv, 'port') ?? env.GSC_HTTP_PORT;
+  const port = rawPort === undefined || rawPort === '' ? DEFAULT_HTTP_PORT : Number(rawPort);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid HTTP port "${rawPort}". Expected an integer between 0 and 65535.`);
+  }
+
+  const authToken = env.GSC_HTTP_AUTH_TOKEN?.trim() ?? '';
+  if (rawMode === 'http' && authToken.length === 0) {
+    throw new Error('GSC_HTTP_AUTH_TOKEN environment variable is required when the HTTP transport is enabled.');
+  }
+
+  return {
+    mode: rawMode,
+    host: readCliFlag(argv, 'host') ?? env.GSC_HTTP_HOST ?? DEFAULT_HTTP_HOST,
+    port,
+    authToken: authToken.length > 0 ? authToken : null,
+    sessionIdleTimeoutMs: readPositiveInteger(env, 'GSC_HTTP_SESSION_IDLE_TIMEOUT_MS', DEFAULT_SESSION_IDLE_TIMEOUT_MS),
+    maxSessions: readPositiveInteger(env, 'GSC_HTTP_MAX_SESSIONS', DEFAULT_MAX_SESSIONS),
+  };
+}
+
+function tokenMatches(provided: Buffer, expectedToken: string): boolean {
+  const expected = Buffer.from(expectedToken, 'utf8');
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+/**
+ * Check the bearer token against the server token and the client tokens.
+ * A client token's id is attached to the request as MCP `authInfo`.
+ */
+function authenticate(
+  req: IncomingMessage & { auth?: AuthInfo },
+  authToken: string,
+  clientTokens: HttpClientToken[],
+): boolean {
+  const header = req.headers.authorization;
+  if (typeof header !== 'string') {
+    return false;
+  }
+  const match = /^Bearer\s+(.+)$/i.exec(header.trim());
+  if (!match) {
+    return false;
+  }
+  const provided = Buffer.from(match[1], 'utf8');
+  if (tokenMatches(provided, authToken)) {
+    return true;
+  }
+  const client = clientTokens.find((candidate) => tokenMatches(provided, candidate.token));
+  if (client) {
+    req.auth = { token: match[1], clientId: client.clientId, scopes: [] };
+  }
+  return client !== undefined;
+}
+
+function sendJson(
+  res: ServerResponse,
+  statusCode: number,
+  payload: Record<string, unknown>,
+  headers: Record<string, string> = {},
+): void {
+  if (res.headersSent) {
+    return;
+  }
+  res.writeHead(statusCode, { 'content-type': 'application/json', ...headers });
+  res.end(JSON.stringify(payload));
+}
+
+function sendJsonRpcError(res: ServerResponse, statusCode: number, message: string): void {
+  sendJson(res, statusCode, {
+    jsonrpc: '2.0',
+    error: { code: -32000, message },
+    id: null,
+  });
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk as string);
+    size += buffer.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes.`);
+    }
+    chunks.push(buffer);
+  }
+  const text = Buffer.concat(chunks).toString('utf8');
+  return text.length > 0 ? (JSON.parse(text) as unknown) : undefined;
+}
+
+function getSessionHeader(req: IncomingMessage): string | undefined {
+  const value = req.headers['mcp-session-id'];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+interface HttpSession<T> {
+  transport: T;
+  server: Server;
+  /** `Date.now()` of the last request in the session. */
+  lastActivity: number;
+}
+
+/** Close sessions whose last request was at or before `cutoff`; closing the server also closes its transport. */
+function evictIdleSessions<T>(sessions: Map<string, HttpSession<T>>, cutoff: number): void {
+  for (const [sessionId, session] of sessions) {
+    if (session.lastActivity <= cutoff) {
+      sessions.delete(sessionId);
+      void session.server.close().catch(() => undefined);
+    }
+  }
+}
+
+/**
+ * Serve MCP over Streamable HTTP (`/mcp`) with the legacy SSE transport
+ * (`GET /sse` + `POST /messages`) as a fallback for older clients.
+ *
+ * Every session gets its own `Server` from `createMcpServer`, so callers keep
+ * shared state (runtime cache, quota, telemetry) outside the factory. Clients
+ * that disappear without closing their session are evicted after
+ * `sessionIdleTimeoutMs`, and at most `maxSessions` are open at once.
+ */
+export async function startHttpServer(
+  createMcpServer: () => Server,
+  config: Pick<TransportConfig, 'host' | 'port' | 'authToken'> &
+    Partial<Pick<TransportConfig, 'sessionIdleTimeoutMs' | 'maxSessions'>> & { clientTokens?: HttpClientToken[] },
+): Promise<HttpServerHandle> {
+  if (!config.authToken) {
+    throw new Error('HTTP transport requires a bearer auth token.');
+  }
+  const authToken = config.authToken;
+  const sessionIdleTimeoutMs = config.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+  const maxSessions = config.maxSessions ?? DEFAULT_MAX_SESSIONS;
+
+  const streamableSessions = new Map<string, HttpSession<StreamableHTTPServerTransport>>();
+  const sseSessions = new Map<string, HttpSession<SSEServerTransport>>();
+  // Initialize requests still in flight hold a slot, so concurrent ones cannot overshoot `maxSessions`.
+  let pendingInitializes = 0;
+  const sessionCount = () => streamableSessions.size + sseSessions.size + pendingInitializes;
+
+  const rejectIfFull = (res: ServerResponse): boolean => {
+    if (sessionCount() < maxSessions) {
+      return false;
+    }
+    sendJsonRpcError(res, 503, `Too many open MCP sessions (${maxSessions}). Close a session or retry later.`);
+    return true;
+  };
+
+  const sweep = setInterval(
+    () => {
+      const cutoff = Date.now() - sessionIdleTimeoutMs;
+      evictIdleSessions(streamableSessions, cutoff);
+      evictIdleSessions(sseSessions, cutoff);
+    },
+    Math.min(sessionIdleTimeoutMs, MAX_SESSION_SWEEP_INTERVAL_MS),
+  );
+  sweep.unref();
+
+  const handleStreamable = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const sessionId = getSessionHeader(req);
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    if (sessionId) {
+      const session = streamableSessions.get(sessionId);
+      if (!session) {
+        sendJsonRpcError(res, 404, `Unknown MCP session "${sessionId}".`);
+        return;
+      }
+      session.lastActivity = Date.now();
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, 'Missing mcp-session-id header for a non-initialize request.');
+      return;
+    }
+    if (rejectIfFull(res)) {
+      return;
+    }
+
+    pendingInitializes += 1;
+    let transport: StreamableHTTPServerTransport | undefined;
+    let registered = false;
+    try {
+      const server = createMcpServer();
+      const sessionTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (newSessionId) => {
+          registered = true;
+          streamableSessions.set(newSessionId, { transport: sessionTransport, server, lastActivity: Date.now() });
+        },
+      });
+      transport = sessionTransport;
+      // server.close() closes the transport, which calls onclose again.
+      let closed = false;
+      sessionTransport.onclose = () => {
+        if (closed) {
+          return;
+        }
+        closed = true;
+        if (sessionTransport.sessionId) {
+          streamableSessions.delete(sessionTransport.sessionId);
+        }
+        void server.close().catch(() => undefined);
+      };
+      await server.connect(sessionTransport);
+      await sessionTransport.handleRequest(req, res, body);
+    } finally {
+      pendingInitializes -= 1;
+      if (!registered) {
+        // The initialize failed or was rejected: nothing will ever reach this server again.
+        void transport?.close().catch(() => undefined);
+      }
+    }
+  };
+
+  const handleSseConnect = async (res: ServerResponse): Promise<void> => {
+    if (rejectIfFull(res)) {
+      return;
+    }
+    const server = createMcpServer();
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    sseSessions.set(transport.sessionId, { transport, server, lastActivity: Date.now() });
+    res.on('close', () => {
+      sseSessions.delete(transport.sessionId);
+    });
+    await server.connect(transport);
+  };
+
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> => {
+    const sessionId = url.searchParams.get('sessionId') ?? '';
+    const session = sseSessions.get(sessionId);
+    if (!session) {
+      sendJsonRpcError(res, 404, `Unknown SSE session "${sessionId}".`);
+      return;
+    }
+    session.lastActivity = Date.now();
+    const body = await readJsonBody(req);
+    await session.transport.handlePostMessage(req, res, body);
+  };
+
+  const httpServer: HttpServer = createHttpServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (url.pathname === HEALTH_PATH && req.method === 'GET') {
+      sendJson(res, 200, { ok: true });
+      return;
+    }
+
+    if (!authenticate(req, authToken, config.clientTokens ?? [])) {
+      sendJson(res, 401, { error: 'Unauthorized', code: 'AUTH_ERROR' }, { 'www-authenticate': 'Bearer' });
+      return;
+    }
+
+    let handled: Promise<void>;
+    if (url.pathname === MCP_PATH && ['GET', 'POST', 'DELETE'].includes(req.method ?? '')) {
+      handled = handleStreamable(req, res);
+    } else if (url.pathname === SSE_PATH && req.method === 'GET') {
+      handled = handleSseConnect(res);
+    } else if (url.pathname === SSE_MESSAGES_PATH && req.method === 'POST') {
+      handled = handleSseMessage(req, res, url);
+    } else {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    handled.catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[http] ${req.method} ${url.pathname} failed: ${message}`);
+      sendJsonRpcError(res, error instanceof SyntaxError ? 400 : 500, message);
+    });
+  });
+
+  await new Promise<void>((resolvePromise, rejectPromise) => {
+    httpServer.once('error', rejectPromise);
+    httpServer.listen(config.port, config.host, () => {
+      httpServer.off('error', rejectPromise);
+      resolvePromise();
+    });
+  });
+
+  const address = httpServer.address() as AddressInfo;
+  const displayHost = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+
+  return {
+    url: `http://${displayHost}:${address.port}`,
+    activeSessions: sessionCount,
+    close: async () => {
+      clearInterval(sweep);
+      const sessions = [...streamableSessions.values(), ...sseSessions.values()];
+      streamableSessions.clear();
+      sseSessions.clear();
+      await Promise.allSettled(sessions.map((session) => session.server.close()));
+      await new Promise<void>((resolvePromise) => {
+        httpServer.close(() => resolvePromise());
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
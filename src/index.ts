@@ -2,26 +2,36 @@
 
 import { randomUUID } from 'node:crypto';
 
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  type CallToolRequest,
+  type ServerNotification,
 } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { zodToJsonSchema } from 'zod-to-json-schema';
 
-import { GSCError, SearchConsoleService } from './service.js';
+import { resolveTransportConfig, startHttpServer } from './http-server.js';
+import { resolveMetricsConfig, startMetricsServer } from './metrics-server.js';
+import { attachPrompts } from './prompts.js';
+import { ResourceCatalog } from './resources.js';
+import { SitePolicy, resolveSiteRules } from './site-policy.js';
+import { TOOL_GROUP_IDS, ToolAccess, resolveToolAccessPolicy } from './tool-access.js';
+import { GSCCancelledError, GSCError, GSCQuotaError, SearchConsoleService } from './service.js';
 import {
   DEFAULT_TOOL_HINTS,
+  GOOGLE_WRITE_TOOLS,
   MUTATING_TOOLS,
   NON_CACHEABLE_TOOLS,
+  SUGGESTED_NEXT_TOOL,
   TOOL_NAME_SET,
   TOOL_REGISTRY,
 } from './tool-registry.js';
 import {
   errorResult,
-  jsonResult,
   toEnvelopedResult,
   type ResponseMode,
   type ResponseSummary,
@@ -72,21 +82,106 @@ import {
   type IdempotencyMeta,
   type QuotaSnapshot,
 } from './utils/runtime.js';
-import { withRetryTraceContext } from './utils/retry.js';
+import { resolveRetryPolicies, withRetryTraceContext } from './utils/retry.js';
+import { applyConfigEnv, applySiteDefaults, configRetryPolicies, loadServerConfig } from './utils/config.js';
+import { ApiRateLimiter, withRateLimitTraceContext } from './utils/rate-limiter.js';
+import { resolveApiQuotaLimits } from './utils/api-quota.js';
+import {
+  createDeadlineSignal,
+  currentCancellationScope,
+  throwIfAborted,
+  withCancellationScope,
+  type CancellationScope,
+} from './utils/cancellation.js';
 import { redactSensitiveData } from './utils/redaction.js';
-import { ConsoleTelemetrySink, TelemetryRecorder } from './utils/telemetry.js';
-import { handleHealthSnapshot } from './tools/operations.js';
+import { ProgressReporter, withProgressReporter } from './utils/progress.js';
+import { ConsoleTelemetrySink, MultiTelemetrySink, TelemetryRecorder } from './utils/telemetry.js';
+import { OtlpTelemetrySink, resolveOtlpConfig } from './utils/otlp.js';
+import { setSpanProcessor, withSpan } from './utils/tracing.js';
+import { handleConfigShow, handleGscHealthcheck, handleHealthSnapshot } from './tools/operations.js';
 import { normalizeQuotaTrackedArgs } from './utils/quota.js';
+import {
+  CredentialRouter,
+  DEFAULT_ACCOUNT_ID,
+  createCredentialRouter,
+  type AccountService,
+} from './utils/credentials.js';
+import { resolveFixtureConfig, withFixtures } from './utils/fixtures.js';
+import { resolveOAuthClientConfig, runOAuthLogin } from './utils/oauth.js';
+import { AnalyticsWarehouse, resolveWarehousePath } from './utils/warehouse.js';
+import { handleSyncSearchAnalytics } from './tools/warehouse.js';
+import { handleExportSearchAnalytics } from './tools/export.js';
+import { handleForecastTraffic } from './tools/forecast.js';
+import { handleAnomalyScan } from './tools/anomaly.js';
+import { handleExplainTrafficChange } from './tools/explain.js';
 import { createDefaultSeoProviders, createSeoProviderRegistry } from './providers/index.js';
 
 // ---------------------------------------------------------------------------
 // Environment
 // ---------------------------------------------------------------------------
 
-const GOOGLE_APPLICATION_CREDENTIALS = process.env.GOOGLE_APPLICATION_CREDENTIALS;
-if (!GOOGLE_APPLICATION_CREDENTIALS) {
+// Optional GSC_CONFIG file (JSON/YAML). Its `env` section is applied first so
+// environment-only settings below can come from the file too.
+const SERVER_CONFIG = (() => {
+  try {
+    const loaded = loadServerConfig({ toolNames: TOOL_NAME_SET, toolGroups: TOOL_GROUP_IDS });
+    applyConfigEnv(loaded.config);
+    return loaded;
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+})();
+/** Tools hidden from `tools/list` and rejected with `TOOL_DISABLED`. */
+const TOOL_ACCESS = (() => {
+  try {
+    return new ToolAccess(resolveToolAccessPolicy(SERVER_CONFIG.config.toolAccess));
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+})();
+/** Properties this server and each HTTP client token may query or change; denials fail with `POLICY_DENIED`. */
+const SITE_POLICY = new SitePolicy(
+  resolveSiteRules(SERVER_CONFIG.config.sitePolicy),
+  Object.fromEntries(
+    Object.entries(SERVER_CONFIG.config.sitePolicy?.clients ?? {}).map(([clientId, client]) => [
+      clientId,
+      { read: client.read, write: client.write },
+    ]),
+  ),
+);
+/** Tools whose result lists properties, so it differs per HTTP client under a site policy. */
+const SITE_LISTING_TOOLS = new Set(['list_sites', 'gsc_healthcheck']);
+
+// GOOGLE_APPLICATION_CREDENTIALS (service account), GSC_OAUTH_CLIENT_ID/SECRET
+// (installed-app OAuth) and/or GSC_CREDENTIALS_MAP (multi-account routing by
+// siteUrl) — at least one is required, except in GSC_MODE=replay where every
+// Google API call is served from recorded fixtures.
+const FIXTURES = (() => {
+  try {
+    return resolveFixtureConfig();
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+})();
+const credentialRouter = (() => {
+  try {
+    return (
+      createCredentialRouter() ??
+      (FIXTURES.mode === 'replay'
+        ? new CredentialRouter([{ id: DEFAULT_ACCOUNT_ID, keyFile: 'replay-fixtures', sites: ['*'] }], DEFAULT_ACCOUNT_ID)
+        : null)
+    );
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+})();
+if (!credentialRouter) {
   console.error(
-    'GOOGLE_APPLICATION_CREDENTIALS environment variable is required',
+    'GOOGLE_APPLICATION_CREDENTIALS, GSC_CREDENTIALS_MAP, or GSC_OAUTH_CLIENT_ID/GSC_OAUTH_CLIENT_SECRET environment variables are required',
   );
   process.exit(1);
 }
@@ -100,22 +195,116 @@ function envFlag(name: string, fallback: boolean): boolean {
   return ['1', 'true', 'yes', 'on'].includes(value.toLowerCase());
 }
 
-const TELEMETRY_ENABLED = envFlag('GSC_TELEMETRY_ENABLED', true);
-const DEBUG_MODE = envFlag('GSC_DEBUG_MODE', false);
+const TELEMETRY_ENABLED = envFlag('GSC_TELEMETRY_ENABLED', SERVER_CONFIG.config.server?.telemetryEnabled ?? true);
+const DEBUG_MODE = envFlag('GSC_DEBUG_MODE', SERVER_CONFIG.config.server?.debugMode ?? false);
+const RATE_LIMIT_ENABLED = envFlag('GSC_RATE_LIMIT_ENABLED', SERVER_CONFIG.config.server?.rateLimitEnabled ?? true);
 
 // ---------------------------------------------------------------------------
-// Server
+// Shared runtime state (one instance per process, shared by every session)
 // ---------------------------------------------------------------------------
 
-const server = new Server(
-  { name: 'mcp-server-gsc-pro', version: '1.2.3' },
-  { capabilities: { tools: {} } },
-);
-
 const RESPONSE_SCHEMA_VERSION = '1.0.0';
-const runtime = new RuntimeCoordinator();
-const telemetry = new TelemetryRecorder(new ConsoleTelemetrySink(), TELEMETRY_ENABLED);
+const runtime = (() => {
+  try {
+    return new RuntimeCoordinator({ config: SERVER_CONFIG.config });
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+})();
+const otlpSink = (() => {
+  const config = TELEMETRY_ENABLED ? resolveOtlpConfig() : null;
+  if (!config) {
+    return null;
+  }
+  const sink = new OtlpTelemetrySink(config);
+  setSpanProcessor(sink);
+  sink.start();
+  process.once('beforeExit', () => void sink.shutdown());
+  return sink;
+})();
+const telemetry = new TelemetryRecorder(
+  otlpSink ? new MultiTelemetrySink([new ConsoleTelemetrySink(), otlpSink]) : new ConsoleTelemetrySink(),
+  TELEMETRY_ENABLED,
+);
 const providerRegistry = createSeoProviderRegistry(createDefaultSeoProviders());
+const servicesByAccount = new Map<string, SearchConsoleService>();
+/** Shared by every account's service: Google enforces per-minute limits per Cloud project. */
+const rateLimiter = RATE_LIMIT_ENABLED
+  ? new ApiRateLimiter(resolveApiQuotaLimits())
+  : undefined;
+const retryPolicyFor = (() => {
+  try {
+    return resolveRetryPolicies(process.env, configRetryPolicies(SERVER_CONFIG.config));
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+})();
+const WAREHOUSE_PATH = resolveWarehousePath();
+let warehousePromise: Promise<AnalyticsWarehouse> | null = null;
+
+/** Lazily open the shared analytics warehouse; null when GSC_WAREHOUSE_PATH is empty. */
+async function getWarehouse(): Promise<AnalyticsWarehouse | null> {
+  if (!WAREHOUSE_PATH) {
+    return null;
+  }
+  warehousePromise ??= AnalyticsWarehouse.open(WAREHOUSE_PATH).catch((error: unknown) => {
+    warehousePromise = null;
+    throw error;
+  });
+  return warehousePromise;
+}
+
+function getAccountService(accountId: string): AccountService {
+  const account = credentialRouter!.accounts().find((candidate) => candidate.id === accountId)!;
+  let service = servicesByAccount.get(account.id);
+  if (!service) {
+    service = withFixtures(
+      new SearchConsoleService(credentialRouter!.credentialsFor(account), GOOGLE_CLOUD_API_KEY, {
+        rateLimiter,
+        circuitBreaker: runtime.circuitBreaker,
+        reserveApiQuota: (call) => {
+          runtime.reserveApiQuota(call);
+          const scope = currentCancellationScope();
+          if (scope) {
+            scope.quotaUnitsSpent += runtime.quotaUnitsFor(call);
+          }
+        },
+        onApiCall: (event) => runtime.recordApiCall(event),
+      }),
+      FIXTURES,
+    );
+    servicesByAccount.set(account.id, service);
+  }
+  return { accountId: account.id, service };
+}
+
+function getAllAccountServices(): AccountService[] {
+  return credentialRouter!.accounts().map((account) => getAccountService(account.id));
+}
+
+function resolveAccountIdForSite(siteUrl: string): string | null {
+  try {
+    return credentialRouter!.resolve(siteUrl).id;
+  } catch {
+    return null;
+  }
+}
+
+/** The property or URL a tool call targets, used to pick credentials. */
+function getRoutingTarget(args: unknown): string | undefined {
+  if (!args || typeof args !== 'object') {
+    return undefined;
+  }
+  const objectArgs = args as Record<string, unknown>;
+  for (const key of ['siteUrl', 'url', 'origin']) {
+    if (typeof objectArgs[key] === 'string' && objectArgs[key]) {
+      return objectArgs[key] as string;
+    }
+  }
+  return undefined;
+}
 
 type ToolDefinition = {
   name: string;
@@ -151,45 +340,9 @@ function getResponseMode(args: unknown): ResponseMode {
 
 const VALID_TOOL_NAMES = TOOL_NAME_SET;
 
-const SUGGESTED_NEXT_TOOL: Record<string, string> = {
-  list_sites: 'search_analytics',
-  gsc_healthcheck: 'list_sites',
-  search_analytics: 'detect_quick_wins',
-  search_analytics_cursor: 'enhanced_search_analytics',
-  enhanced_search_analytics: 'detect_quick_wins',
-  recommend_next_actions: 'page_health_dashboard',
-  run_seo_audit_workflow: 'recommend_next_actions',
-  detect_quick_wins: 'ctr_analysis',
-  index_inspect: 'indexing_health_report',
-  list_sitemaps: 'get_sitemap',
-  get_sitemap: 'indexing_health_report',
-  compare_periods: 'detect_content_decay',
-  detect_content_decay: 'drop_alerts',
-  detect_cannibalization: 'cannibalization_resolver',
-  diff_keywords: 'search_analytics',
-  batch_inspect: 'indexing_health_report',
-  ctr_analysis: 'detect_quick_wins',
-  search_type_breakdown: 'search_analytics',
-  page_health_dashboard: 'pagespeed_insights',
-  indexing_health_report: 'index_inspect',
-  serp_feature_tracking: 'search_analytics',
-  cannibalization_resolver: 'detect_cannibalization',
-  drop_alerts: 'compare_periods',
-  get_site: 'search_analytics',
-  add_site: 'gsc_healthcheck',
-  delete_site: 'list_sites',
-  mobile_friendly_test: 'pagespeed_insights',
-  pagespeed_insights: 'crux_query',
-  indexing_publish: 'indexing_status',
-  indexing_status: 'index_inspect',
-  crux_query: 'crux_history',
-  crux_history: 'page_health_dashboard',
-  health_snapshot: 'gsc_healthcheck',
-};
-
 function getSuggestedNextTool(toolName: string, isError: boolean): string | undefined {
   const candidate = isError ? 'gsc_healthcheck' : SUGGESTED_NEXT_TOOL[toolName];
-  if (candidate && VALID_TOOL_NAMES.has(candidate)) {
+  if (candidate && VALID_TOOL_NAMES.has(candidate) && TOOL_ACCESS.isEnabled(candidate)) {
     return candidate;
   }
   return undefined;
@@ -284,34 +437,105 @@ const TOOLS: ToolDefinition[] = TOOL_REGISTRY.map((tool) => ({
   inputSchema: zodToJsonSchema(tool.schema),
 }));
 
-server.setRequestHandler(ListToolsRequestSchema, async () => ({
-  tools: TOOLS.map((tool) => ({
-    ...tool,
-    description: TOOL_EXAMPLES[tool.name]
-      ? `${tool.description} Example input: ${JSON.stringify(TOOL_EXAMPLES[tool.name])}`
-      : tool.description,
-    inputSchema: withResponseModeInputSchema(tool.inputSchema as Record<string, unknown>),
-    annotations: {
-      readOnlyHint: !MUTATING_TOOLS.has(tool.name),
-      ...(TOOL_HINTS[tool.name] ?? DEFAULT_TOOL_HINTS),
-    },
-  })),
-}));
+/** Top-level argument names per tool, used to decide which config site defaults apply. */
+const TOOL_ARGUMENT_NAMES = new Map(
+  TOOLS.map((tool) => [
+    tool.name,
+    new Set(Object.keys(((tool.inputSchema as { properties?: Record<string, unknown> }).properties) ?? {})),
+  ]),
+);
+
+async function listTools() {
+  return {
+    tools: TOOLS.filter((tool) => TOOL_ACCESS.isEnabled(tool.name)).map((tool) => ({
+      ...tool,
+      description: TOOL_EXAMPLES[tool.name]
+        ? `${tool.description} Example input: ${JSON.stringify(TOOL_EXAMPLES[tool.name])}`
+        : tool.description,
+      inputSchema: withResponseModeInputSchema(tool.inputSchema as Record<string, unknown>),
+      annotations: {
+        readOnlyHint: !MUTATING_TOOLS.has(tool.name),
+        ...(TOOL_HINTS[tool.name] ?? DEFAULT_TOOL_HINTS),
+      },
+    })),
+  };
+}
 
 // ---------------------------------------------------------------------------
 // Tool dispatch
 // ---------------------------------------------------------------------------
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-  const service = new SearchConsoleService(GOOGLE_APPLICATION_CREDENTIALS, GOOGLE_CLOUD_API_KEY);
+/**
+ * Each call runs in a `tools/call <name>` span; retries and Google API requests
+ * become child spans. The call is aborted by the client's `notifications/cancelled`
+ * (surfaced by the SDK as `extra.signal`) or by its per-tool deadline. When the
+ * client sends a `progressToken`, long-running tools emit `notifications/progress`.
+ * HTTP client tokens arrive as `extra.authInfo` and select that client's site policy.
+ */
+async function callTool(
+  request: CallToolRequest,
+  extra?: {
+    signal?: AbortSignal;
+    sendNotification?: (notification: ServerNotification) => Promise<void>;
+    authInfo?: Pick<AuthInfo, 'clientId'>;
+  },
+): Promise<ToolResult> {
+  const { name } = request.params;
+  const progressToken = request.params._meta?.progressToken;
+  const sendNotification = extra?.sendNotification;
+  const progress =
+    progressToken !== undefined && sendNotification
+      ? new ProgressReporter((update) => {
+          sendNotification({ method: 'notifications/progress', params: { progressToken, ...update } }).catch(
+            (error: unknown) => console.error(`[progress] ${name}: ${error instanceof Error ? error.message : String(error)}`),
+          );
+        })
+      : undefined;
+  const timeoutMs = runtime.getToolTimeoutMs(name);
+  const deadline = createDeadlineSignal({
+    parent: extra?.signal,
+    timeoutMs,
+    cancelledReason: () => new GSCCancelledError(`${name} was cancelled by the client.`, 'CANCELLED'),
+    timeoutReason: () =>
+      new GSCCancelledError(
+        `${name} did not finish within ${timeoutMs / 1000}s. Narrow the request or raise GSC_TOOL_TIMEOUT_SEC.`,
+        'TIMEOUT',
+      ),
+  });
+  const cancellation: CancellationScope = { signal: deadline.signal, quotaUnitsSpent: 0 };
+  try {
+    return await withSpan(`tools/call ${name}`, { attributes: { 'gsc.tool.name': name } }, () =>
+      withCancellationScope(cancellation, () =>
+        withProgressReporter(progress, () => executeToolCall(request, cancellation, extra?.authInfo?.clientId)),
+      ),
+    );
+  } finally {
+    deadline.dispose();
+  }
+}
+
+async function executeToolCall(
+  request: CallToolRequest,
+  cancellation: CancellationScope,
+  clientId?: string,
+): Promise<ToolResult> {
+  const { name } = request.params;
+  const args = applySiteDefaults(
+    SERVER_CONFIG.config,
+    TOOL_ARGUMENT_NAMES.get(name) ?? new Set(),
+    request.params.arguments,
+  );
   const mode = getResponseMode(args);
   const requestId = randomUUID();
   const startTimeMs = Date.now();
   const cacheEligible = !MUTATING_TOOLS.has(name) && !NON_CACHEABLE_TOOLS.has(name);
-  const cacheKey = cacheEligible ? runtime.buildCacheKey(name, args) : null;
+  const cacheKey = cacheEligible
+    ? runtime.buildCacheKey(name, args, SITE_LISTING_TOOLS.has(name) ? clientId : undefined)
+    : null;
+  const isSiteAllowed = (siteUrl: string) => SITE_POLICY.isAllowed(siteUrl, 'read', clientId);
   const idempotencyKey = MUTATING_TOOLS.has(name) ? getIdempotencyKey(args) : null;
   let retries = 0;
+  let rateLimitWaitMs = 0;
   let quotaUnitsEstimated = 0;
   let quotaSnapshot: QuotaSnapshot | undefined;
 
@@ -366,10 +590,12 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       status,
       latencyMs,
       retries,
+      rateLimitWaitMs,
       quotaUnitsEstimated,
       quotaUnitsReserved: quotaSnapshot?.toolUnitsReserved ?? 0,
       cacheHit: state.cacheHit,
       idempotencyReplay: state.idempotencyReplay,
+      ...(clientId ? { clientId } : {}),
       ...getErrorTelemetryFields(result),
     });
 
@@ -377,7 +603,20 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   };
 
   try {
-    if (!args && !['list_sites', 'gsc_healthcheck', 'health_snapshot'].includes(name)) {
+    const disabledReason = TOOL_ACCESS.disabledReason(name);
+    if (disabledReason) {
+      throw new GSCError(`Tool ${name} is disabled on this server: ${disabledReason}.`, 'TOOL_DISABLED', 403);
+    }
+
+    const target = getRoutingTarget(args);
+    const policyDenial = target
+      ? SITE_POLICY.deniedReason(target, GOOGLE_WRITE_TOOLS.has(name) ? 'write' : 'read', clientId)
+      : null;
+    if (policyDenial) {
+      throw new GSCError(`Site policy denied ${name}: ${policyDenial}.`, 'POLICY_DENIED', 403);
+    }
+
+    if (!args && !['list_sites', 'gsc_healthcheck', 'health_snapshot', 'config_show'].includes(name)) {
       return finalizeResult(errorResult({
         error: 'Arguments are required',
       }), {
@@ -390,8 +629,9 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     }
 
     if (cacheEligible && cacheKey) {
-      const cached = runtime.getCached(cacheKey);
+      const cached = await runtime.getCached(cacheKey);
       if (cached) {
+        resources.recordReport({ requestId, toolName: name, args, cacheKey, result: cached.result }, false);
         return finalizeResult(cached.result, {
           cacheHit: true,
           cacheAgeSec: cached.ageSec,
@@ -422,108 +662,137 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     quotaUnitsEstimated = runtime.estimateQuotaUnits(name, quotaArgs);
     quotaSnapshot = runtime.reserveQuota(name, quotaUnitsEstimated);
 
-    const traced = await withRetryTraceContext(async () =>
-      runtime.withConcurrencyLimit(name, async () => {
-        switch (name) {
-          case 'list_sites':
-            return await handleListSites(service);
-          case 'gsc_healthcheck': {
-            const response = await service.listSites();
-            const entries = (response.data?.siteEntry ?? []) as Array<unknown>;
-            return jsonResult({
-              ok: true,
-              auth: 'ok',
-              siteCount: entries.length,
+    const { result: traced, waitMs } = await withRateLimitTraceContext(() =>
+      withRetryTraceContext(async () =>
+        runtime.withConcurrencyLimit(name, async () => {
+          if (name === 'list_sites') {
+            return await handleListSites(getAllAccountServices(), resolveAccountIdForSite, isSiteAllowed);
+          }
+          if (name === 'gsc_healthcheck') {
+            return await handleGscHealthcheck(getAllAccountServices(), resolveAccountIdForSite, {
               cruxApiKeyConfigured: Boolean(GOOGLE_CLOUD_API_KEY),
-              indexingApiConfigured: true,
+              isSiteAllowed,
+            });
+          }
+
+          if (name === 'config_show') {
+            return await handleConfigShow(runtime, SERVER_CONFIG, args, {
+              toolNames: TOOL_REGISTRY.map((tool) => tool.name),
+              retryPolicyFor,
+              telemetryEnabled: telemetry.isEnabled(),
+              debugMode: DEBUG_MODE,
+              rateLimitEnabled: RATE_LIMIT_ENABLED,
+              toolAccess: TOOL_ACCESS.snapshot(),
+              sitePolicy: SITE_POLICY.snapshot(),
             });
           }
-          case 'health_snapshot':
+
+          if (name === 'health_snapshot') {
             return await handleHealthSnapshot(runtime, providerRegistry, args, {
               debugMode: DEBUG_MODE,
               telemetryEnabled: telemetry.isEnabled(),
             });
-          case 'search_analytics':
-            return await handleSearchAnalytics(service, args);
-          case 'search_analytics_cursor':
-            return await handleSearchAnalyticsCursor(service, args);
-          case 'enhanced_search_analytics':
-            return await handleEnhancedSearchAnalytics(service, args);
-          case 'detect_quick_wins':
-            return await handleDetectQuickWins(service, args);
-          case 'recommend_next_actions':
-            return await handleRecommendNextActions(service, args);
-          case 'run_seo_audit_workflow':
-            return await handleRunSeoAuditWorkflow(service, args);
-          case 'index_inspect':
-            return await handleIndexInspect(service, args);
-          case 'list_sitemaps':
-            return await handleListSitemaps(service, args);
-          case 'get_sitemap':
-            return await handleGetSitemap(service, args);
-          case 'submit_sitemap':
-            return await handleSubmitSitemap(service, args);
-          case 'delete_sitemap':
-            return await handleDeleteSitemap(service, args);
-          // Computed intelligence tools
-          case 'compare_periods':
-            return await handleComparePeriods(service, args);
-          case 'detect_content_decay':
-            return await handleContentDecay(service, args);
-          case 'detect_cannibalization':
-            return await handleCannibalization(service, args);
-          case 'diff_keywords':
-            return await handleDiffKeywords(service, args);
-          case 'batch_inspect':
-            return await handleBatchInspect(service, args);
-          case 'ctr_analysis':
-            return await handleCtrAnalysis(service, args);
-          case 'search_type_breakdown':
-            return await handleSearchTypeBreakdown(service, args);
-          // Computed intelligence v2
-          case 'page_health_dashboard':
-            return await handlePageHealthDashboard(service, args);
-          case 'indexing_health_report':
-            return await handleIndexingHealthReport(service, args);
-          case 'serp_feature_tracking':
-            return await handleSerpFeatureTracking(service, args);
-          case 'cannibalization_resolver':
-            return await handleCannibalizationResolver(service, args);
-          case 'drop_alerts':
-            return await handleDropAlerts(service, args);
-          // Sites CRUD
-          case 'get_site':
-            return await handleGetSite(service, args);
-          case 'add_site':
-            return await handleAddSite(service, args);
-          case 'delete_site':
-            return await handleDeleteSite(service, args);
-          // Mobile-Friendly Test
-          case 'mobile_friendly_test':
-            return await handleMobileFriendlyTest(service, args);
-          // PageSpeed Insights
-          case 'pagespeed_insights':
-            return await handlePageSpeedInsights(service, args);
-          // Indexing API
-          case 'indexing_publish':
-            return await handleIndexingPublish(service, args);
-          case 'indexing_status':
-            return await handleIndexingStatus(service, args);
-          // CrUX
-          case 'crux_query':
-            return await handleCrUXQuery(service, args);
-          case 'crux_history':
-            return await handleCrUXHistory(service, args);
-          default:
-            throw new Error(`Unknown tool: ${name}`);
-        }
-      }),
+          }
+
+          const { service } = getAccountService(credentialRouter!.resolve(getRoutingTarget(args)).id);
+          switch (name) {
+            case 'search_analytics':
+              return await handleSearchAnalytics(service, args);
+            case 'sync_search_analytics':
+              return await handleSyncSearchAnalytics(service, await getWarehouse(), args);
+            case 'search_analytics_cursor':
+              return await handleSearchAnalyticsCursor(service, args);
+            case 'export_search_analytics':
+              return await handleExportSearchAnalytics(service, args);
+            case 'enhanced_search_analytics':
+              return await handleEnhancedSearchAnalytics(service, args);
+            case 'detect_quick_wins':
+              return await handleDetectQuickWins(service, args);
+            case 'recommend_next_actions':
+              return await handleRecommendNextActions(service, args);
+            case 'run_seo_audit_workflow':
+              return await handleRunSeoAuditWorkflow(service, args);
+            case 'index_inspect':
+              return await handleIndexInspect(service, args);
+            case 'list_sitemaps':
+              return await handleListSitemaps(service, args);
+            case 'get_sitemap':
+              return await handleGetSitemap(service, args);
+            case 'submit_sitemap':
+              return await handleSubmitSitemap(service, args);
+            case 'delete_sitemap':
+              return await handleDeleteSitemap(service, args);
+            // Computed intelligence tools
+            case 'compare_periods':
+              return await handleComparePeriods(service, args, await getWarehouse());
+            case 'detect_content_decay':
+              return await handleContentDecay(service, args, await getWarehouse());
+            case 'detect_cannibalization':
+              return await handleCannibalization(service, args);
+            case 'diff_keywords':
+              return await handleDiffKeywords(service, args);
+            case 'batch_inspect':
+              return await handleBatchInspect(service, args);
+            case 'ctr_analysis':
+              return await handleCtrAnalysis(service, args);
+            case 'search_type_breakdown':
+              return await handleSearchTypeBreakdown(service, args);
+            case 'forecast_traffic':
+              return await handleForecastTraffic(service, args, await getWarehouse());
+            case 'anomaly_scan':
+              return await handleAnomalyScan(service, args, await getWarehouse());
+            case 'explain_traffic_change':
+              return await handleExplainTrafficChange(service, args, await getWarehouse());
+            // Computed intelligence v2
+            case 'page_health_dashboard':
+              return await handlePageHealthDashboard(service, args);
+            case 'indexing_health_report':
+              return await handleIndexingHealthReport(service, args);
+            case 'serp_feature_tracking':
+              return await handleSerpFeatureTracking(service, args);
+            case 'cannibalization_resolver':
+              return await handleCannibalizationResolver(service, args);
+            case 'drop_alerts':
+              return await handleDropAlerts(service, args, await getWarehouse());
+            // Sites CRUD
+            case 'get_site':
+              return await handleGetSite(service, args);
+            case 'add_site':
+              return await handleAddSite(service, args);
+            case 'delete_site':
+              return await handleDeleteSite(service, args);
+            // Mobile-Friendly Test
+            case 'mobile_friendly_test':
+              return await handleMobileFriendlyTest(service, args);
+            // PageSpeed Insights
+            case 'pagespeed_insights':
+              return await handlePageSpeedInsights(service, args);
+            // Indexing API
+            case 'indexing_publish':
+              return await handleIndexingPublish(service, args);
+            case 'indexing_status':
+              return await handleIndexingStatus(service, args);
+            // CrUX
+            case 'crux_query':
+              return await handleCrUXQuery(service, args);
+            case 'crux_history':
+              return await handleCrUXHistory(service, args);
+            default:
+              throw new Error(`Unknown tool: ${name}`);
+          }
+        }, cancellation.signal),
+        retryPolicyFor(name),
+      ),
     );
     retries = traced.retries;
+    rateLimitWaitMs = waitMs;
+    // Handlers that report per-item errors would otherwise return a partial result.
+    throwIfAborted(cancellation.signal);
     const result = traced.result;
 
     if (cacheEligible && cacheKey && !result.isError) {
-      runtime.setCached(cacheKey, name, result);
+      await runtime.setCached(cacheKey, name, result);
+      resources.recordReport({ requestId, toolName: name, args, cacheKey, result }, true);
     }
 
     if (idempotencyKey && !result.isError) {
@@ -553,11 +822,20 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         idempotencyReplay: false,
       });
     }
+    if (error instanceof GSCCancelledError && quotaSnapshot) {
+      runtime.refundQuota(name, quotaSnapshot.toolUnitsReserved - cancellation.quotaUnitsSpent);
+    }
     if (error instanceof GSCError) {
       return finalizeResult(errorResult({
         error: error.message,
         code: error.code,
         statusCode: error.statusCode,
+        ...(error instanceof GSCQuotaError
+          ? {
+              reason: error.reason,
+              ...(error.retryAfterMs !== undefined ? { retryAfterSec: Math.ceil(error.retryAfterMs / 1000) } : {}),
+            }
+          : {}),
       }), {
         ...cacheMetaBase,
         ...idempotencyMetaBase,
@@ -595,15 +873,84 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       idempotencyReplay: false,
     });
   }
-});
+}
+
+// ---------------------------------------------------------------------------
+// Server
+// ---------------------------------------------------------------------------
+
+const callToolInternal = (name: string, args: Record<string, unknown>, clientId?: string) =>
+  callTool({ method: 'tools/call', params: { name, arguments: args } }, clientId ? { authInfo: { clientId } } : undefined);
+const resources = new ResourceCatalog(runtime, callToolInternal, (siteUrl, clientId) =>
+  SITE_POLICY.isAllowed(siteUrl, 'read', clientId),
+);
+
+function createMcpServer(): Server {
+  const server = new Server(
+    { name: 'mcp-server-gsc-pro', version: '1.2.3' },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true, listChanged: true },
+        prompts: {},
+        completions: {},
+      },
+    },
+  );
+  server.setRequestHandler(ListToolsRequestSchema, listTools);
+  server.setRequestHandler(CallToolRequestSchema, callTool);
+  resources.attach(server);
+  attachPrompts(server, callToolInternal);
+  return server;
+}
 
 // ---------------------------------------------------------------------------
 // Start
 // ---------------------------------------------------------------------------
 
+/** `mcp-server-gsc-pro auth login`: store an OAuth refresh token for OAuth mode. */
+async function runAuthCommand(args: string[]) {
+  if (args[0] !== 'login') {
+    throw new Error(`Unknown auth command "${args[0] ?? ''}". Usage: mcp-server-gsc-pro auth login`);
+  }
+  const oauthConfig = resolveOAuthClientConfig();
+  if (!oauthConfig) {
+    throw new Error('GSC_OAUTH_CLIENT_ID and GSC_OAUTH_CLIENT_SECRET are required for auth login.');
+  }
+  const { tokenPath } = await runOAuthLogin(oauthConfig);
+  console.error(`OAuth refresh token saved to ${tokenPath}`);
+}
+
 async function main() {
+  const cliArgs = process.argv.slice(2);
+  if (cliArgs[0] === 'auth') {
+    await runAuthCommand(cliArgs.slice(1));
+    return;
+  }
+
+  const transportConfig = resolveTransportConfig();
+  const metricsConfig = resolveMetricsConfig();
+  if (metricsConfig) {
+    const metrics = await startMetricsServer(() => runtime.getMetricsSnapshot(), metricsConfig);
+    console.error(`Prometheus metrics on ${metrics.url}/metrics`);
+  }
+
+  if (transportConfig.mode === 'http') {
+    const handle = await startHttpServer(createMcpServer, {
+      ...transportConfig,
+      clientTokens: Object.entries(SERVER_CONFIG.config.sitePolicy?.clients ?? {}).map(([clientId, client]) => ({
+        clientId,
+        token: client.token,
+      })),
+    });
+    console.error(
+      `mcp-server-gsc-pro running on ${handle.url}/mcp (Streamable HTTP, SSE fallback at ${handle.url}/sse)`,
+    );
+    return;
+  }
+
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await createMcpServer().connect(transport);
   console.error('mcp-server-gsc-pro running on stdio');
 }
 
@@ -0,0 +1,287 @@
+import { createServer as createHttpServer, type Server as HttpServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import type { MetricsSnapshot } from './utils/runtime.js';
+
+export interface MetricsConfig {
+  host: string;
+  port: number;
+}
+
+export interface MetricsServerHandle {
+  url: string;
+  close(): Promise<void>;
+}
+
+const METRICS_PATH = '/metrics';
+const DEFAULT_METRICS_HOST = '127.0.0.1';
+const CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/**
+ * Resolve the Prometheus listener from `GSC_METRICS_PORT` and
+ * `GSC_METRICS_HOST`. Returns null (no listener) unless a port is set.
+ */
+export function resolveMetricsConfig(env: NodeJS.ProcessEnv = process.env): MetricsConfig | null {
+  const rawPort = env.GSC_METRICS_PORT?.trim();
+  if (!rawPort) {
+    return null;
+  }
+  const port = Number(rawPort);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid GSC_METRICS_PORT "${rawPort}". Expected an integer between 0 and 65535.`);
+  }
+  return { host: env.GSC_METRICS_HOST?.trim() || DEFAULT_METRICS_HOST, port };
+}
+
+type Labels = Record<string, string>;
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Number.POSITIVE_INFINITY) return '+Inf';
+  if (value === Number.NEGATIVE_INFINITY) return '-Inf';
+  return String(value);
+}
+
+function sample(name: string, labels: Labels, value: number): string {
+  const entries = Object.entries(labels);
+  const labelText =
+    entries.length > 0 ? `{${entries.map(([key, label]) => `${key}="${escapeLabelValue(label)}"`).join(',')}}` : '';
+  return `${name}${labelText} ${formatValue(value)}`;
+}
+
+class PrometheusWriter {
+  private readonly lines: string[] = [];
+
+  family(
+    name: string,
+    type: 'counter' | 'gauge' | 'histogram',
+    help: string,
+    samples: Array<[Labels, number]>,
+  ): void {
+    this.lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+    for (const [labels, value] of samples) {
+      this.lines.push(sample(name, labels, value));
+    }
+  }
+
+  histogram(name: string, help: string, lines: string[]): void {
+    this.lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} histogram`, ...lines);
+  }
+
+  toString(): string {
+    return `${this.lines.join('\n')}\n`;
+  }
+}
+
+/** Render a runtime metrics snapshot in the Prometheus text exposition format (0.0.4). */
+export function renderPrometheusMetrics(snapshot: MetricsSnapshot): string {
+  const writer = new PrometheusWriter();
+  const boundsSec = snapshot.latencyBucketsMs.map((bound) => bound / 1000);
+
+  writer.family('gsc_uptime_seconds', 'gauge', 'Seconds since the server started.', [[{}, snapshot.uptimeSec]]);
+
+  writer.family(
+    'gsc_tool_calls_total',
+    'counter',
+    'Tool calls by outcome.',
+    snapshot.tools.flatMap((tool): Array<[Labels, number]> => [
+      [{ tool: tool.tool, status: 'success' }, tool.success],
+      [{ tool: tool.tool, status: 'failure' }, tool.failure],
+    ]),
+  );
+
+  writer.histogram(
+    'gsc_tool_latency_seconds',
+    'Tool call latency.',
+    snapshot.tools.flatMap((tool) => {
+      let cumulative = 0;
+      const buckets = tool.latencyBucketCounts.map((count, index) => {
+        cumulative += count;
+        const le = index < boundsSec.length ? String(boundsSec[index]) : '+Inf';
+        return sample('gsc_tool_latency_seconds_bucket', { tool: tool.tool, le }, cumulative);
+      });
+      return [
+        ...buckets,
+        sample('gsc_tool_latency_seconds_sum', { tool: tool.tool }, tool.totalLatencyMs / 1000),
+        sample('gsc_tool_latency_seconds_count', { tool: tool.tool }, tool.success + tool.failure),
+      ];
+    }),
+  );
+
+  writer.family(
+    'gsc_api_calls_total',
+    'counter',
+    'Google API calls by API family and outcome, after retries.',
+    snapshot.apiFamilies.flatMap((family): Array<[Labels, number]> => [
+      [{ family: family.family, status: 'success' }, family.success],
+      [{ family: family.family, status: 'failure' }, family.failure],
+    ]),
+  );
+  writer.family(
+    'gsc_api_errors_total',
+    'counter',
+    'Failed Google API calls by API family and GSCError code.',
+    snapshot.apiFamilies.flatMap((family) =>
+      Object.entries(family.errorsByCode).map(([code, count]): [Labels, number] => [
+        { family: family.family, code },
+        count,
+      ]),
+    ),
+  );
+  writer.family(
+    'gsc_api_latency_seconds_total',
+    'counter',
+    'Total time spent in Google API calls, including retries.',
+    snapshot.apiFamilies.map((family): [Labels, number] => [{ family: family.family }, family.totalLatencyMs / 1000]),
+  );
+  writer.family(
+    'gsc_api_rate_limit_wait_seconds_total',
+    'counter',
+    'Time Google API requests spent waiting for client-side rate-limit tokens.',
+    snapshot.apiFamilies.map((family): [Labels, number] => [{ family: family.family }, family.rateLimitWaitMs / 1000]),
+  );
+
+  const apiQuota = Object.entries(snapshot.apiQuota.apis);
+  writer.family(
+    'gsc_api_quota_limit',
+    'gauge',
+    'Configured Google API request limit per window; scope="property" limits apply to each property separately.',
+    apiQuota.flatMap(([family, usage]) =>
+      usage!.limits.map((limit): [Labels, number] => [{ family, window: limit.window, scope: limit.scope }, limit.limit]),
+    ),
+  );
+  writer.family(
+    'gsc_api_quota_remaining',
+    'gauge',
+    'Google API requests left in the current window, project-wide or per property (site label).',
+    apiQuota.flatMap(([family, usage]) => [
+      ...Object.entries(usage!.remaining).map(([window, remaining]): [Labels, number] => [{ family, window }, remaining]),
+      ...Object.entries(usage!.sites).flatMap(([site, siteUsage]) =>
+        Object.entries(siteUsage.remaining).map(([window, remaining]): [Labels, number] => [
+          { family, window, site },
+          remaining,
+        ]),
+      ),
+    ]),
+  );
+  writer.family(
+    'gsc_api_quota_calls_today',
+    'gauge',
+    'Google API requests metered today (UTC), including retries.',
+    apiQuota.map(([family, usage]): [Labels, number] => [{ family }, usage!.callsToday]),
+  );
+
+  writer.family(
+    'gsc_api_circuit_open',
+    'gauge',
+    '1 while the API family circuit breaker fails calls fast, 0 otherwise.',
+    Object.entries(snapshot.circuitBreakers).map(([family, circuit]): [Labels, number] => [
+      { family },
+      circuit!.state === 'open' ? 1 : 0,
+    ]),
+  );
+
+  const { global, perTool } = snapshot.concurrency;
+  const concurrency = (key: 'active' | 'queued' | 'maxConcurrency'): Array<[Labels, number]> =>
+    Object.entries(perTool).map(([tool, semaphore]) => [{ tool }, semaphore[key]]);
+  writer.family('gsc_concurrency_global_active', 'gauge', 'Tool calls running.', [[{}, global.active]]);
+  writer.family('gsc_concurrency_global_queued', 'gauge', 'Tool calls waiting for a global slot.', [
+    [{}, global.queued],
+  ]);
+  writer.family('gsc_concurrency_global_limit', 'gauge', 'Global concurrency limit.', [[{}, global.maxConcurrency]]);
+  writer.family('gsc_concurrency_tool_active', 'gauge', 'Tool calls running per tool.', concurrency('active'));
+  writer.family('gsc_concurrency_tool_queued', 'gauge', 'Tool calls waiting per tool.', concurrency('queued'));
+  writer.family('gsc_concurrency_tool_limit', 'gauge', 'Per-tool concurrency limit.', concurrency('maxConcurrency'));
+
+  const { quota } = snapshot;
+  writer.family('gsc_quota_global_used_units', 'gauge', 'Quota units reserved today (UTC).', [
+    [{}, quota.globalUsed],
+  ]);
+  writer.family('gsc_quota_global_budget_units', 'gauge', 'Daily global quota budget.', [[{}, quota.globalBudget]]);
+  writer.family(
+    'gsc_quota_tool_used_units',
+    'gauge',
+    'Quota units reserved today (UTC) per tool.',
+    Object.entries(quota.perToolUsed).map(([tool, units]): [Labels, number] => [{ tool }, units]),
+  );
+  writer.family(
+    'gsc_quota_tool_budget_units',
+    'gauge',
+    'Daily quota budget per tool.',
+    Object.entries(quota.perToolBudget).map(([tool, units]): [Labels, number] => [{ tool }, units]),
+  );
+
+  const stores = snapshot.cacheStores;
+  const perStore = (read: (stats: (typeof stores)[number]) => number | null): Array<[Labels, number]> =>
+    stores.flatMap((stats) => {
+      const value = read(stats);
+      return value === null ? [] : [[{ store: stats.backend }, value] as [Labels, number]];
+    });
+  writer.family('gsc_cache_hits_total', 'counter', 'Response cache hits.', perStore((stats) => stats.hits));
+  writer.family('gsc_cache_misses_total', 'counter', 'Response cache misses.', perStore((stats) => stats.misses));
+  writer.family(
+    'gsc_cache_evictions_total',
+    'counter',
+    'Entries evicted to stay under the byte limit.',
+    perStore((stats) => stats.evictions),
+  );
+  writer.family('gsc_cache_errors_total', 'counter', 'Cache backend errors.', perStore((stats) => stats.errors));
+  writer.family('gsc_cache_entries', 'gauge', 'Entries held by the cache.', perStore((stats) => stats.entries));
+  writer.family('gsc_cache_bytes', 'gauge', 'Serialized bytes held by the cache.', perStore((stats) => stats.bytes));
+
+  return writer.toString();
+}
+
+/**
+ * Serve `GET /metrics` on a separate, unauthenticated listener. The socket is
+ * unref'd so it never keeps a stdio server alive after its client exits.
+ */
+export async function startMetricsServer(
+  getSnapshot: () => MetricsSnapshot,
+  config: MetricsConfig,
+): Promise<MetricsServerHandle> {
+  const httpServer: HttpServer = createHttpServer((req, res) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    if (pathname !== METRICS_PATH) {
+      res.writeHead(404, { 'content-type': 'text/plain' }).end('Not found\n');
+      return;
+    }
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.writeHead(405, { allow: 'GET, HEAD', 'content-type': 'text/plain' }).end('Method not allowed\n');
+      return;
+    }
+    try {
+      const body = renderPrometheusMetrics(getSnapshot());
+      res.writeHead(200, { 'content-type': CONTENT_TYPE }).end(req.method === 'HEAD' ? undefined : body);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[metrics] GET ${METRICS_PATH} failed: ${message}`);
+      res.writeHead(500, { 'content-type': 'text/plain' }).end(`${message}\n`);
+    }
+  });
+
+  await new Promise<void>((resolvePromise, rejectPromise) => {
+    httpServer.once('error', rejectPromise);
+    httpServer.listen(config.port, config.host, () => {
+      httpServer.off('error', rejectPromise);
+      resolvePromise();
+    });
+  });
+  httpServer.unref();
+
+  const address = httpServer.address() as AddressInfo;
+  const displayHost = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+
+  return {
+    url: `http://${displayHost}:${address.port}`,
+    close: () =>
+      new Promise<void>((resolvePromise) => {
+        httpServer.close(() => resolvePromise());
+        httpServer.closeAllConnections();
+      }),
+  };
+}
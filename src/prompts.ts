@@ -0,0 +1,224 @@
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CompleteRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  McpError,
+  type GetPromptResult,
+  type Prompt,
+} from '@modelcontextprotocol/sdk/types.js';
+
+import { listSiteUrls, siteResourceUri, type ToolCaller } from './resources.js';
+import { SUGGESTED_NEXT_TOOL } from './tool-registry.js';
+
+const MAX_COMPLETIONS = 100;
+const FOLLOW_UP_DEPTH = 3;
+
+interface PromptStep {
+  tool: string;
+  args: Record<string, unknown>;
+  purpose: string;
+}
+
+interface PromptDefinition extends Prompt {
+  /** Ordered tool calls the prompt walks the agent through. */
+  steps(args: Record<string, string>): PromptStep[];
+  /** Closing instruction after the steps. */
+  outcome(args: Record<string, string>): string;
+}
+
+const SITE_URL_ARGUMENT = {
+  name: 'siteUrl',
+  description: 'Search Console property, e.g. sc-domain:example.com or https://example.com/',
+  required: true,
+};
+
+function positiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export const PROMPTS: PromptDefinition[] = [
+  {
+    name: 'diagnose_traffic_drop',
+    title: 'Diagnose a traffic drop',
+    description: 'Find which pages and queries lost clicks, when it started, and whether the cause is ranking, CTR, or page health.',
+    arguments: [
+      SITE_URL_ARGUMENT,
+      { name: 'days', description: 'Comparison window in days (default 7)' },
+      { name: 'page', description: 'Fully-qualified URL to focus on, if already known' },
+    ],
+    steps: (args) => {
+      const days = positiveInt(args.days, 7);
+      return [
+        {
+          tool: 'drop_alerts',
+          args: { siteUrl: args.siteUrl, days },
+          purpose: 'List pages whose clicks fell and when each change started.',
+        },
+        {
+          tool: 'compare_periods',
+          args: { siteUrl: args.siteUrl, days, dimensions: ['page', 'query'] },
+          purpose: 'Split the drop into position loss vs CTR loss vs demand loss per page and query.',
+        },
+        {
+          tool: 'detect_content_decay',
+          args: { siteUrl: args.siteUrl },
+          purpose: 'Check whether the drop is part of a longer decline rather than a one-off event.',
+        },
+        {
+          tool: 'page_health_dashboard',
+          args: { siteUrl: args.siteUrl, url: args.page ?? '<worst page from drop_alerts>' },
+          purpose: 'Rule out indexing, Core Web Vitals, and rich result problems on the most affected page.',
+        },
+      ];
+    },
+    outcome: () =>
+      'Summarize the likely cause (ranking loss, CTR change, lost demand, indexing, or page health), the affected pages and queries, and the start date. End with the three highest-impact fixes.',
+  },
+  {
+    name: 'monthly_client_report',
+    title: 'Prepare a monthly client report',
+    description: 'Build the monthly SEO report for a client and add prioritized next actions.',
+    arguments: [
+      SITE_URL_ARGUMENT,
+      { name: 'brandName', description: 'Client brand name shown on the report' },
+      { name: 'days', description: 'Reporting window in days (default 28)' },
+    ],
+    steps: (args) => {
+      const days = positiveInt(args.days, 28);
+      return [
+        {
+          tool: 'run_seo_audit_workflow',
+          args: {
+            siteUrl: args.siteUrl,
+            days,
+            profile: 'content',
+            reportPack: 'monthly_seo',
+            reportFormat: 'all',
+            ...(args.brandName ? { brand: { name: args.brandName } } : {}),
+          },
+          purpose: `Generate the monthly report. The Markdown version is then available as the ${siteResourceUri(args.siteUrl, 'workflow/latest.md')} resource.`,
+        },
+        {
+          tool: 'recommend_next_actions',
+          args: { siteUrl: args.siteUrl, days },
+          purpose: 'Rank the opportunities to propose for next month.',
+        },
+      ];
+    },
+    outcome: () =>
+      'Write a short client-facing summary: headline KPIs vs last month, notable wins, and next month\'s priorities in plain language. Keep analyst detail in an appendix.',
+  },
+  {
+    name: 'triage_sitemap_indexing',
+    title: 'Triage indexing for a sitemap',
+    description: 'Check whether URLs in a newly submitted sitemap are being indexed and explain the ones that are not.',
+    arguments: [
+      SITE_URL_ARGUMENT,
+      { name: 'sitemapUrl', description: 'Fully-qualified sitemap URL', required: true },
+    ],
+    steps: (args) => [
+      {
+        tool: 'get_sitemap',
+        args: { siteUrl: args.siteUrl, feedpath: args.sitemapUrl },
+        purpose: 'Confirm Google has read the sitemap and note submitted vs indexed counts and errors.',
+      },
+      {
+        tool: 'indexing_health_report',
+        args: { siteUrl: args.siteUrl, source: 'sitemap', sitemapUrls: [args.sitemapUrl] },
+        purpose: 'Inspect sitemap URLs and group them by coverage state and template.',
+      },
+      {
+        tool: 'batch_inspect',
+        args: { siteUrl: args.siteUrl, urls: ['<non-indexed URLs from indexing_health_report>'] },
+        purpose: 'Get canonical, robots, and crawl details for the URLs that are not indexed.',
+      },
+    ],
+    outcome: () =>
+      'Group the non-indexed URLs by reason (discovered not crawled, crawled not indexed, canonical mismatch, blocked, errors) and give one fix per group.',
+  },
+];
+
+const PROMPTS_BY_NAME = new Map(PROMPTS.map((prompt) => [prompt.name, prompt]));
+
+/** Walk the suggested-next-tool graph from `tool`, stopping at a repeat. */
+export function followUpChain(tool: string, depth = FOLLOW_UP_DEPTH): string[] {
+  const chain: string[] = [];
+  let current = SUGGESTED_NEXT_TOOL[tool];
+  while (current && chain.length < depth && current !== tool && !chain.includes(current)) {
+    chain.push(current);
+    current = SUGGESTED_NEXT_TOOL[current];
+  }
+  return chain;
+}
+
+export function renderPrompt(name: string, rawArgs: Record<string, string> = {}): GetPromptResult {
+  const prompt = PROMPTS_BY_NAME.get(name);
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+  const missing = (prompt.arguments ?? [])
+    .filter((argument) => argument.required && !rawArgs[argument.name]?.trim())
+    .map((argument) => argument.name);
+  if (missing.length > 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Missing required prompt arguments: ${missing.join(', ')}`);
+  }
+
+  const args = Object.fromEntries(Object.entries(rawArgs).map(([key, value]) => [key, value.trim()]));
+  const steps = prompt.steps(args);
+  const lastTool = steps[steps.length - 1]!.tool;
+  const chain = followUpChain(lastTool);
+  const lines = [
+    `${prompt.description} Property: ${args.siteUrl}.`,
+    '',
+    'Call these tools in order. Replace <placeholders> with values from earlier steps:',
+    ...steps.map(
+      (step, index) => `${index + 1}. \`${step.tool}\` ${JSON.stringify(step.args)} — ${step.purpose}`,
+    ),
+    '',
+    prompt.outcome(args),
+    ...(chain.length > 0
+      ? ['', `If more evidence is needed, continue with the suggested follow-ups: ${[lastTool, ...chain].join(' → ')}.`]
+      : []),
+  ];
+
+  return {
+    description: prompt.description,
+    messages: [{ role: 'user', content: { type: 'text', text: lines.join('\n') } }],
+  };
+}
+
+/** Register prompt and `siteUrl` completion handlers on a server. */
+export function attachPrompts(server: Server, callTool: ToolCaller): void {
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: PROMPTS.map(({ name, title, description, arguments: promptArguments }) => ({
+      name,
+      title,
+      description,
+      arguments: promptArguments,
+    })),
+  }));
+  server.setRequestHandler(GetPromptRequestSchema, async (request) =>
+    renderPrompt(request.params.name, request.params.arguments),
+  );
+  server.setRequestHandler(CompleteRequestSchema, async (request, extra) => {
+    const { ref, argument } = request.params;
+    if (ref.type !== 'ref/prompt' || !PROMPTS_BY_NAME.has(ref.name) || argument.name !== 'siteUrl') {
+      return { completion: { values: [] } };
+    }
+    const needle = argument.value.toLowerCase();
+    // Completions go through the caller's site policy, like its own list_sites call would.
+    const matches = (await listSiteUrls(callTool, extra.authInfo?.clientId)).filter((siteUrl) =>
+      siteUrl.toLowerCase().includes(needle),
+    );
+    return {
+      completion: {
+        values: matches.slice(0, MAX_COMPLETIONS),
+        total: matches.length,
+        hasMore: matches.length > MAX_COMPLETIONS,
+      },
+    };
+  });
+}
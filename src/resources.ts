@@ -0,0 +1,342 @@
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ErrorCode,
+  ListResourceTemplatesRequestSchema,
+  ListResourcesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type Resource,
+  type ResourceTemplate,
+} from '@modelcontextprotocol/sdk/types.js';
+
+import type { RuntimeCoordinator } from './utils/runtime.js';
+import type { ToolResult } from './utils/types.js';
+
+/** JSON-RPC error code the MCP spec assigns to unknown resources. */
+const RESOURCE_NOT_FOUND = -32002;
+const MAX_REPORTS = 100;
+const WORKFLOW_TOOL = 'run_seo_audit_workflow';
+const SITES_URI = 'gsc://sites';
+
+type WorkflowDocument = 'markdown' | 'html';
+
+const WORKFLOW_DOCUMENTS: Record<WorkflowDocument, { path: string; field: string; mimeType: string }> = {
+  markdown: { path: 'workflow/latest.md', field: 'markdownReport', mimeType: 'text/markdown' },
+  html: { path: 'workflow/latest.html', field: 'htmlReport', mimeType: 'text/html' },
+};
+
+/**
+ * Runs a tool through the normal dispatch path (cache, quota, telemetry).
+ * `clientId` applies that HTTP client's site policy as if it had called the tool itself.
+ */
+export type ToolCaller = (name: string, args: Record<string, unknown>, clientId?: string) => Promise<ToolResult>;
+
+interface ReportRef {
+  requestId: string;
+  toolName: string;
+  siteUrl: string;
+  cacheKey: string;
+  createdAt: string;
+  documents: WorkflowDocument[];
+}
+
+export type ParsedResourceUri =
+  | { kind: 'sites' }
+  | { kind: 'sitemaps'; siteUrl: string }
+  | { kind: 'report'; siteUrl: string; requestId: string }
+  | { kind: 'workflow'; siteUrl: string; document: WorkflowDocument };
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: 'gsc://{site}/sitemaps',
+    name: 'site-sitemaps',
+    description: 'Sitemaps submitted for a property (list_sitemaps). {site} is the URL-encoded siteUrl.',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'gsc://{site}/reports/{requestId}',
+    name: 'site-report',
+    description:
+      'A cached tool result for a property, addressed by the requestId from the tool response. Available while the result is cached.',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'gsc://{site}/workflow/latest.md',
+    name: 'site-workflow-markdown',
+    description: 'Markdown report from the latest run_seo_audit_workflow call with reportFormat markdown or all.',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: 'gsc://{site}/workflow/latest.html',
+    name: 'site-workflow-html',
+    description: 'HTML report from the latest run_seo_audit_workflow call with reportFormat html or all.',
+    mimeType: 'text/html',
+  },
+];
+
+export function siteResourceUri(siteUrl: string, path: string): string {
+  return `gsc://${encodeURIComponent(siteUrl)}/${path}`;
+}
+
+export function parseResourceUri(uri: string): ParsedResourceUri | null {
+  if (uri === SITES_URI) {
+    return { kind: 'sites' };
+  }
+  const match = /^gsc:\/\/([^/]+)\/(.+)$/.exec(uri);
+  if (!match) {
+    return null;
+  }
+  let siteUrl: string;
+  try {
+    siteUrl = decodeURIComponent(match[1]);
+  } catch {
+    return null;
+  }
+  const path = match[2];
+  if (path === 'sitemaps') {
+    return { kind: 'sitemaps', siteUrl };
+  }
+  const report = /^reports\/([A-Za-z0-9-]+)$/.exec(path);
+  if (report) {
+    return { kind: 'report', siteUrl, requestId: report[1] };
+  }
+  for (const [document, spec] of Object.entries(WORKFLOW_DOCUMENTS)) {
+    if (path === spec.path) {
+      return { kind: 'workflow', siteUrl, document: document as WorkflowDocument };
+    }
+  }
+  return null;
+}
+
+function notFound(message: string): McpError {
+  return new McpError(RESOURCE_NOT_FOUND, message);
+}
+
+function resultText(result: ToolResult): string {
+  return result.content[0]?.text ?? '';
+}
+
+function resultPayload(result: ToolResult): Record<string, unknown> {
+  const payload = result.structuredContent;
+  return payload && typeof payload === 'object' && !Array.isArray(payload) ? (payload as Record<string, unknown>) : {};
+}
+
+/** Site URLs from `list_sites` as `clientId` sees them; empty when the call fails. */
+export async function listSiteUrls(callTool: ToolCaller, clientId?: string): Promise<string[]> {
+  try {
+    const result = await callTool('list_sites', { mode: 'full' }, clientId);
+    if (result.isError) {
+      return [];
+    }
+    const entries = resultPayload(result).siteEntry;
+    return Array.isArray(entries)
+      ? entries
+          .map((entry) => (entry as { siteUrl?: unknown }).siteUrl)
+          .filter((siteUrl): siteUrl is string => typeof siteUrl === 'string' && siteUrl.length > 0)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * MCP resources for sites, sitemaps, and cached tool results. Reports are
+ * indexed by requestId and read back from the runtime cache, so they live as
+ * long as the cache entry does.
+ */
+export class ResourceCatalog {
+  /** Insertion order doubles as age order for eviction and "latest" lookups. */
+  private readonly reports = new Map<string, ReportRef>();
+
+  private readonly subscriptions = new Map<Server, Set<string>>();
+
+  constructor(
+    private readonly runtime: Pick<RuntimeCoordinator, 'getCached'>,
+    private readonly callTool: ToolCaller,
+    /** Site policy check for the HTTP client reading resources; hidden sites read as not found. */
+    private readonly isSiteAllowed: (siteUrl: string, clientId?: string) => boolean = () => true,
+  ) {}
+
+  /** Register resource handlers on a server; its subscriptions are dropped when it closes. */
+  attach(server: Server): void {
+    this.subscriptions.set(server, new Set());
+    const previousOnClose = server.onclose;
+    server.onclose = () => {
+      this.subscriptions.delete(server);
+      previousOnClose?.();
+    };
+
+    server.setRequestHandler(ListResourcesRequestSchema, async (_request, extra) => ({
+      resources: await this.list(extra.authInfo?.clientId),
+    }));
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: RESOURCE_TEMPLATES,
+    }));
+    server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => ({
+      contents: [await this.read(request.params.uri, extra.authInfo?.clientId)],
+    }));
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      if (!parseResourceUri(request.params.uri)) {
+        throw notFound(`Unknown resource: ${request.params.uri}`);
+      }
+      this.subscriptions.get(server)?.add(request.params.uri);
+      return {};
+    });
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.subscriptions.get(server)?.delete(request.params.uri);
+      return {};
+    });
+  }
+
+  /**
+   * Index a cached result for a site-scoped tool call. `refreshed` marks a
+   * fresh execution (not a cache hit); subscribers to reports sharing its
+   * cache entry, and to the site's latest workflow documents, are notified.
+   */
+  recordReport(
+    entry: { requestId: string; toolName: string; args: unknown; cacheKey: string; result: ToolResult },
+    refreshed: boolean,
+  ): void {
+    const siteUrl = (entry.args as Record<string, unknown> | undefined)?.siteUrl;
+    if (typeof siteUrl !== 'string' || !siteUrl) {
+      return;
+    }
+
+    const payload = resultPayload(entry.result);
+    const documents = (Object.keys(WORKFLOW_DOCUMENTS) as WorkflowDocument[]).filter(
+      (document) => typeof payload[WORKFLOW_DOCUMENTS[document].field] === 'string',
+    );
+    this.reports.set(entry.requestId, {
+      requestId: entry.requestId,
+      toolName: entry.toolName,
+      siteUrl,
+      cacheKey: entry.cacheKey,
+      createdAt: new Date().toISOString(),
+      documents,
+    });
+    if (this.reports.size > MAX_REPORTS) {
+      this.reports.delete(this.reports.keys().next().value as string);
+    }
+
+    if (!refreshed) {
+      return;
+    }
+    const updated = Array.from(this.reports.values())
+      .filter((report) => report.cacheKey === entry.cacheKey && report.requestId !== entry.requestId)
+      .map((report) => siteResourceUri(report.siteUrl, `reports/${report.requestId}`));
+    for (const document of documents) {
+      updated.push(siteResourceUri(siteUrl, WORKFLOW_DOCUMENTS[document].path));
+    }
+
+    for (const [server, uris] of this.subscriptions) {
+      for (const uri of updated) {
+        if (uris.has(uri)) {
+          void server.sendResourceUpdated({ uri }).catch(() => undefined);
+        }
+      }
+      void server.sendResourceListChanged().catch(() => undefined);
+    }
+  }
+
+  async list(clientId?: string): Promise<Resource[]> {
+    const resources: Resource[] = [
+      {
+        uri: SITES_URI,
+        name: 'sites',
+        title: 'Search Console properties',
+        description: 'Properties visible to the configured credentials (list_sites).',
+        mimeType: 'application/json',
+      },
+    ];
+
+    const siteUrls = (await listSiteUrls(this.callTool, clientId)).filter((siteUrl) => this.isSiteAllowed(siteUrl, clientId));
+    for (const siteUrl of siteUrls) {
+      resources.push({
+        uri: siteResourceUri(siteUrl, 'sitemaps'),
+        name: `${siteUrl} sitemaps`,
+        description: `Sitemaps submitted for ${siteUrl} (list_sitemaps).`,
+        mimeType: 'application/json',
+      });
+    }
+
+    const latestWorkflow = new Map<string, ReportRef>();
+    for (const report of this.reports.values()) {
+      if (!this.isSiteAllowed(report.siteUrl, clientId) || !(await this.runtime.getCached(report.cacheKey))) {
+        continue;
+      }
+      resources.push({
+        uri: siteResourceUri(report.siteUrl, `reports/${report.requestId}`),
+        name: `${report.toolName} ${report.requestId}`,
+        description: `${report.toolName} result for ${report.siteUrl}, cached at ${report.createdAt}.`,
+        mimeType: 'application/json',
+      });
+      if (report.toolName === WORKFLOW_TOOL && report.documents.length > 0) {
+        latestWorkflow.set(report.siteUrl, report);
+      }
+    }
+
+    for (const report of latestWorkflow.values()) {
+      for (const document of report.documents) {
+        const spec = WORKFLOW_DOCUMENTS[document];
+        resources.push({
+          uri: siteResourceUri(report.siteUrl, spec.path),
+          name: `${report.siteUrl} workflow report (${document})`,
+          description: `Latest run_seo_audit_workflow ${document} report for ${report.siteUrl}.`,
+          mimeType: spec.mimeType,
+        });
+      }
+    }
+
+    return resources;
+  }
+
+  async read(uri: string, clientId?: string): Promise<{ uri: string; mimeType: string; text: string }> {
+    const parsed = parseResourceUri(uri);
+    if (!parsed || (parsed.kind !== 'sites' && !this.isSiteAllowed(parsed.siteUrl, clientId))) {
+      throw notFound(`Unknown resource: ${uri}`);
+    }
+
+    if (parsed.kind === 'sites' || parsed.kind === 'sitemaps') {
+      const result =
+        parsed.kind === 'sites'
+          ? await this.callTool('list_sites', { mode: 'full' }, clientId)
+          : await this.callTool('list_sitemaps', { siteUrl: parsed.siteUrl, mode: 'full' }, clientId);
+      if (result.isError) {
+        throw new McpError(ErrorCode.InternalError, resultText(result));
+      }
+      return { uri, mimeType: 'application/json', text: resultText(result) };
+    }
+
+    if (parsed.kind === 'report') {
+      const report = this.reports.get(parsed.requestId);
+      if (!report || report.siteUrl !== parsed.siteUrl) {
+        throw notFound(`No cached report ${parsed.requestId} for ${parsed.siteUrl}.`);
+      }
+      const cached = await this.runtime.getCached(report.cacheKey);
+      if (!cached) {
+        throw notFound(`Report ${parsed.requestId} has expired from the cache. Call ${report.toolName} again.`);
+      }
+      return { uri, mimeType: 'application/json', text: resultText(cached.result) };
+    }
+
+    const spec = WORKFLOW_DOCUMENTS[parsed.document];
+    const latest = Array.from(this.reports.values())
+      .reverse()
+      .find(
+        (report) =>
+          report.toolName === WORKFLOW_TOOL &&
+          report.siteUrl === parsed.siteUrl &&
+          report.documents.includes(parsed.document),
+      );
+    const cached = latest ? await this.runtime.getCached(latest.cacheKey) : null;
+    const text = cached ? resultPayload(cached.result)[spec.field] : undefined;
+    if (typeof text !== 'string') {
+      throw notFound(
+        `No cached ${parsed.document} workflow report for ${parsed.siteUrl}. Run ${WORKFLOW_TOOL} with reportFormat "${parsed.document}" or "all".`,
+      );
+    }
+    return { uri, mimeType: spec.mimeType, text };
+  }
+}
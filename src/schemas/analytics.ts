@@ -8,6 +8,7 @@ import {
   FilterOperatorValues,
   DataStateValues,
   DeviceValues,
+  FilterFieldsSchema,
 } from './base.js';
 
 /** search_analytics tool schema */
@@ -70,7 +71,7 @@ export const SearchAnalyticsSchema = SiteUrlSchema.merge(DateRangeSchema).extend
         'Operator for page/query filters: equals, contains, notEquals, notContains, includingRegex, excludingRegex',
       ),
   },
-);
+).merge(FilterFieldsSchema);
 
 /** enhanced_search_analytics tool schema — adds regex + quick wins on top of base analytics */
 export const EnhancedSearchAnalyticsSchema = SearchAnalyticsSchema.extend({
@@ -130,7 +131,14 @@ export const SearchAnalyticsCursorSchema = SearchAnalyticsSchema.extend({
     .string()
     .optional()
     .describe(
-      'Opaque cursor token returned by a previous search_analytics_cursor call. When provided, date/filter parameters are ignored and resumed from cursor state.',
+      'Opaque signed cursor token returned by a previous search_analytics_cursor call. When provided, date/filter parameters are ignored and resumed from cursor state. siteUrl must match the scan. Tokens expire (default 1 hour); edited or expired tokens fail with INVALID_CURSOR / CURSOR_EXPIRED.',
+    ),
+  pinFinalData: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe(
+      'Force dataState "final" for the whole scan so fresh-data revisions cannot shift rows between pages. Ignored when resuming from a cursor.',
     ),
   pageSize: z
     .number()
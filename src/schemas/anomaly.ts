@@ -0,0 +1,98 @@
+import { z } from 'zod';
+import { SiteUrlSchema, DateStringSchema, SearchTypeValues, DataSourceSchema } from './base.js';
+
+export const AnomalySliceValues = ['site', 'query', 'country', 'device', 'searchAppearance', 'countryDevice'] as const;
+
+export type AnomalySliceDimension = (typeof AnomalySliceValues)[number];
+
+/** anomaly_scan tool schema */
+export const AnomalyScanSchema = SiteUrlSchema.extend({
+  days: z
+    .number()
+    .min(28)
+    .max(480)
+    .optional()
+    .default(90)
+    .describe('Days of daily history to scan, including the first windowDays used only as baseline (default 90).'),
+  endDate: DateStringSchema.optional().describe(
+    'Last day to scan (YYYY-MM-DD). Defaults to, and is capped at, 3 days ago, the latest finalized data.',
+  ),
+  windowDays: z
+    .number()
+    .min(14)
+    .max(90)
+    .optional()
+    .default(28)
+    .describe('Trailing days behind each day\'s rolling median/MAD baseline (default 28).'),
+  threshold: z
+    .number()
+    .min(2)
+    .max(10)
+    .optional()
+    .default(3.5)
+    .describe('Robust z-score a day must reach to be flagged (default 3.5; higher = fewer, larger anomalies).'),
+  metrics: z
+    .array(z.enum(['clicks', 'impressions']))
+    .min(1)
+    .optional()
+    .default(['clicks', 'impressions'])
+    .describe('Metrics to scan'),
+  slices: z
+    .array(z.enum(AnomalySliceValues))
+    .min(1)
+    .optional()
+    .default([...AnomalySliceValues])
+    .describe(
+      'Slices to scan: site total, top queries, each country, each device, each searchAppearance, and country×device pairs (default all).',
+    ),
+  topQueries: z
+    .number()
+    .min(1)
+    .max(100)
+    .optional()
+    .default(25)
+    .describe('Number of top queries by clicks to scan (default 25).'),
+  maxSlices: z
+    .number()
+    .min(1)
+    .max(50)
+    .optional()
+    .default(10)
+    .describe('Top countries, search appearances and country×device pairs by clicks to scan (default 10 each).'),
+  maxEvents: z
+    .number()
+    .min(1)
+    .max(500)
+    .optional()
+    .default(100)
+    .describe('Maximum anomalies to return, most severe first (default 100).'),
+  type: z
+    .enum(SearchTypeValues)
+    .optional()
+    .describe('Search type filter'),
+  maxRows: z
+    .number()
+    .min(1000)
+    .max(500000)
+    .optional()
+    .default(100000)
+    .describe('Row cap for each date×query, date×country and date×country×device fetch.'),
+  dataSource: DataSourceSchema,
+}).superRefine((data, ctx) => {
+  if (data.days < data.windowDays + 7) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['days'],
+      message: 'days must be at least windowDays + 7 so there are days to scan after the baseline window',
+    });
+  }
+  if (data.dataSource === 'warehouse' && data.slices.includes('searchAppearance')) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['slices'],
+      message: 'The warehouse does not store searchAppearance; remove it from slices or use dataSource "auto"',
+    });
+  }
+});
+
+export type AnomalyScanInput = z.infer<typeof AnomalyScanSchema>;
@@ -1,6 +1,8 @@
 import { z } from 'zod';
 
-const DateStringSchema = z
+import { missingOrFilterDimensions, re2ToRegExp, type FilterGroup } from '../utils/filters.js';
+
+export const DateStringSchema = z
   .string()
   .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
   .refine((value) => {
@@ -84,3 +86,82 @@ export const DataStateValues = ['final', 'all'] as const;
 
 /** Device types for filtering */
 export const DeviceValues = ['DESKTOP', 'MOBILE', 'TABLET'] as const;
+
+/** Where computed tools read Search Analytics rows from */
+export const DataSourceValues = ['auto', 'api', 'warehouse'] as const;
+
+export const DataSourceSchema = z
+  .enum(DataSourceValues)
+  .optional()
+  .default('auto')
+  .describe(
+    'auto reads from the local warehouse when every day in the range has been synced with sync_search_analytics, otherwise the live API. api always queries live; warehouse fails if the range is not synced.',
+  );
+
+/** Dimensions Search Analytics rows can be filtered on */
+export const FilterDimensionValues = ['query', 'page', 'country', 'device', 'searchAppearance'] as const;
+
+export const DimensionFilterSchema = z
+  .object({
+    dimension: z.enum(FilterDimensionValues).describe('Dimension to filter on'),
+    operator: z
+      .enum(FilterOperatorValues)
+      .default('equals')
+      .describe('equals, contains, notEquals, notContains, includingRegex, excludingRegex (RE2 syntax)'),
+    expression: z
+      .string()
+      .min(1)
+      .describe('Value or pattern to match. Countries are ISO 3166-1 alpha-3 (USA), devices DESKTOP/MOBILE/TABLET.'),
+  })
+  .superRefine((data, ctx) => {
+    if (data.operator !== 'includingRegex' && data.operator !== 'excludingRegex') return;
+    try {
+      re2ToRegExp(data.expression);
+    } catch (error) {
+      const message = error instanceof SyntaxError ? error.message : 'Invalid regular expression';
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['expression'], message });
+    }
+  });
+
+export const FilterGroupSchema = z.object({
+  groupType: z
+    .enum(['and', 'or'])
+    .default('and')
+    .describe('"and": every filter must match. "or": at least one must match (applied to the returned rows).'),
+  filters: z.array(DimensionFilterSchema).min(1).max(20),
+});
+
+/** Structured filters shared by Search Analytics tools; combined with AND. */
+export const FilterFieldsSchema = z.object({
+  filters: z
+    .array(DimensionFilterSchema)
+    .max(20)
+    .optional()
+    .describe(
+      'Filters that must all match, several per dimension allowed, each with its own operator. Example: [{dimension:"query",operator:"contains",expression:"shoes"},{dimension:"page",operator:"excludingRegex",expression:"/blog/"}]',
+    ),
+  filterGroups: z
+    .array(FilterGroupSchema)
+    .max(10)
+    .optional()
+    .describe(
+      'Filter groups that must all match. An "or" group, e.g. country USA or CAN or GBR, is applied to the returned rows, so its dimensions must be among the dimensions returned.',
+    ),
+});
+
+/**
+ * superRefine check that every dimension an OR group uses is returned, read
+ * from `dimensions` or, for tools with fixed dimensions, `defaultDimensions`.
+ */
+export function refineOrFilterDimensions(defaultDimensions: readonly string[] = []) {
+  return (data: { dimensions?: readonly string[]; filterGroups?: FilterGroup[] }, ctx: z.RefinementCtx) => {
+    const missing = missingOrFilterDimensions(data.filterGroups ?? [], data.dimensions ?? defaultDimensions);
+    if (missing.length > 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['filterGroups'],
+        message: `"or" groups are applied to the returned rows, so the dimensions must include ${missing.join(', ')}`,
+      });
+    }
+  };
+}
@@ -1,17 +1,105 @@
 import { z } from 'zod';
-import { SiteUrlSchema, DateRangeSchema, SearchTypeValues, DeviceValues } from './base.js';
+import {
+  SiteUrlSchema,
+  DateRangeSchema,
+  DateStringSchema,
+  SearchTypeValues,
+  DeviceValues,
+  DataSourceSchema,
+  FilterFieldsSchema,
+  refineOrFilterDimensions,
+} from './base.js';
 import { inclusiveDayCount } from '../utils/dates.js';
 
-/** compare_periods tool schema */
-export const ComparePeriodsSchema = SiteUrlSchema.extend({
+const ComparisonRangeSchema = z.object({
+  startDate: DateStringSchema.describe('Start date (YYYY-MM-DD)'),
+  endDate: DateStringSchema.describe('End date (YYYY-MM-DD)'),
+});
+
+/** Comparison mode fields shared by compare_periods and explain_traffic_change */
+export const ComparisonPeriodFieldsSchema = z.object({
+  mode: z
+    .enum(['previous', 'yoy', 'mom', 'custom'])
+    .default('previous')
+    .describe(
+      'previous: last `days` vs the `days` before. yoy: last `days` vs the same window a year earlier. ' +
+        'mom: calendar `month` vs the month before. custom: explicit `periodA` vs `periodB`.',
+    ),
   days: z
     .number()
     .min(1)
     .max(90)
     .default(28)
     .describe(
-      'Length of each period in days. Two equal periods are compared: recent vs previous.',
+      'Length of each period in days for mode "previous" and "yoy". Ignored by "mom" and "custom".',
+    ),
+  yoyAlignment: z
+    .enum(['weekday', 'calendar'])
+    .default('weekday')
+    .describe(
+      'For mode "yoy": "weekday" shifts back 364 days so weekdays line up; "calendar" uses the same dates last year.',
     ),
+  month: z
+    .string()
+    .regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Month must be in YYYY-MM format')
+    .optional()
+    .describe('For mode "mom": the month to compare (YYYY-MM). Defaults to the last complete month.'),
+  periodA: ComparisonRangeSchema.optional().describe('For mode "custom": the recent or test period.'),
+  periodB: ComparisonRangeSchema.optional().describe(
+    'For mode "custom": the baseline period. May differ in length from periodA; metrics are then compared per day.',
+  ),
+});
+
+/** superRefine check that each comparison mode gets the period arguments it needs, and only those. */
+export function refineComparisonPeriods(
+  data: z.infer<typeof ComparisonPeriodFieldsSchema>,
+  ctx: z.RefinementCtx,
+): void {
+  if (data.mode === 'custom') {
+    for (const key of ['periodA', 'periodB'] as const) {
+      const range = data[key];
+      if (!range) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [key],
+          message: `${key} is required when mode is "custom"`,
+        });
+      } else if (range.startDate > range.endDate) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [key, 'endDate'],
+          message: 'endDate must not be before startDate',
+        });
+      } else if (inclusiveDayCount(range.startDate, range.endDate) > 366) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [key],
+          message: 'Custom periods may span at most 366 days',
+        });
+      }
+    }
+  } else if (data.periodA || data.periodB) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [data.periodA ? 'periodA' : 'periodB'],
+      message: 'periodA and periodB are only used when mode is "custom"',
+    });
+  }
+  if (data.month && data.mode !== 'mom') {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['month'],
+      message: 'month is only used when mode is "mom"',
+    });
+  }
+}
+
+/** compare_periods tool schema */
+export const ComparePeriodsSchema = SiteUrlSchema.merge(ComparisonPeriodFieldsSchema).extend({
+  confidence: z
+    .union([z.literal(0.9), z.literal(0.95), z.literal(0.99)])
+    .default(0.95)
+    .describe('Confidence level for the significance flags on click and CTR deltas.'),
   dimensions: z
     .array(z.enum(['query', 'page', 'country', 'device'] as const))
     .optional()
@@ -30,6 +118,10 @@ export const ComparePeriodsSchema = SiteUrlSchema.extend({
     .max(25000)
     .default(1000)
     .describe('Max rows per period'),
+  dataSource: DataSourceSchema,
+}).merge(FilterFieldsSchema).superRefine((data, ctx) => {
+  refineOrFilterDimensions(['query'])(data, ctx);
+  refineComparisonPeriods(data, ctx);
 });
 
 /** detect_content_decay tool schema */
@@ -52,8 +144,11 @@ export const ContentDecaySchema = SiteUrlSchema.merge(DateRangeSchema)
       .max(25000)
       .default(5000)
       .describe('Max rows per period query'),
+    dataSource: DataSourceSchema,
   })
+  .merge(FilterFieldsSchema)
   .superRefine((data, ctx) => {
+    refineOrFilterDimensions(['page'])(data, ctx);
     const hasStart = data.startDate !== undefined;
     const hasEnd = data.endDate !== undefined;
 
@@ -114,7 +209,9 @@ export const DiffKeywordsSchema = SiteUrlSchema.extend({
     .max(25000)
     .default(5000)
     .describe('Max rows per period'),
-});
+})
+  .merge(FilterFieldsSchema)
+  .superRefine(refineOrFilterDimensions(['query']));
 
 /** batch_inspect tool schema */
 export const BatchInspectSchema = SiteUrlSchema.extend({
@@ -1,10 +1,22 @@
 import { z } from 'zod';
-import { SiteUrlSchema, DateRangeSchema } from './base.js';
+import {
+  SiteUrlSchema,
+  DateRangeSchema,
+  DataSourceSchema,
+  FilterFieldsSchema,
+  refineOrFilterDimensions,
+} from './base.js';
 import { inclusiveDayCount } from '../utils/dates.js';
 
 const PSI_CATEGORIES = ['performance', 'accessibility', 'best-practices', 'seo', 'pwa'] as const;
 const PSI_STRATEGIES = ['mobile', 'desktop'] as const;
 
+/** One custom URL template mapping rule; also used for per-site defaults in the server config. */
+export const TemplateRuleSchema = z.object({
+  name: z.string().min(1).describe('Template label, e.g. docs, blog, product'),
+  pattern: z.string().min(1).describe('Substring or regex-like literal matched against URL path'),
+});
+
 /** page_health_dashboard tool schema */
 export const PageHealthDashboardSchema = SiteUrlSchema.merge(DateRangeSchema).extend({
   url: z
@@ -65,12 +77,7 @@ export const IndexingHealthReportSchema = SiteUrlSchema.merge(DateRangeSchema)
       .default('en-US')
       .describe('Language code for inspection messages'),
     templateRules: z
-      .array(
-        z.object({
-          name: z.string().min(1).describe('Template label, e.g. docs, blog, product'),
-          pattern: z.string().min(1).describe('Substring or regex-like literal matched against URL path'),
-        }),
-      )
+      .array(TemplateRuleSchema)
       .max(20)
       .optional()
       .describe('Optional custom URL template mapping rules applied before built-in template heuristics.'),
@@ -176,8 +183,11 @@ export const DropAlertsSchema = SiteUrlSchema.merge(DateRangeSchema)
       .optional()
       .default(2)
       .describe('Sensitivity multiplier for change-point detection (higher = stricter).'),
+    dataSource: DataSourceSchema,
   })
+  .merge(FilterFieldsSchema)
   .superRefine((data, ctx) => {
+    refineOrFilterDimensions(['page'])(data, ctx);
     const hasStart = data.startDate !== undefined;
     const hasEnd = data.endDate !== undefined;
 
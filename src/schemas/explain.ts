@@ -0,0 +1,60 @@
+import { z } from 'zod';
+import { SiteUrlSchema, SearchTypeValues, DataSourceSchema } from './base.js';
+import { ComparisonPeriodFieldsSchema, refineComparisonPeriods } from './computed.js';
+import { TemplateRuleSchema } from './computed2.js';
+
+export const ExplainDimensionValues = ['device', 'country', 'searchType', 'template', 'brand', 'intent'] as const;
+
+export type ExplainDimension = (typeof ExplainDimensionValues)[number];
+
+/** explain_traffic_change tool schema */
+export const ExplainTrafficChangeSchema = SiteUrlSchema.merge(ComparisonPeriodFieldsSchema)
+  .extend({
+    dimensions: z
+      .array(z.enum(ExplainDimensionValues))
+      .min(1)
+      .optional()
+      .default([...ExplainDimensionValues])
+      .describe(
+        'Dimensions to decompose the click change by: device, country, searchType (web/image/video/news), page template, brand vs non-brand, query intent (default all).',
+      ),
+    type: z
+      .enum(SearchTypeValues)
+      .optional()
+      .describe('Search type for every dimension except searchType (default web).'),
+    brandTerms: z
+      .array(z.string().min(2))
+      .max(10)
+      .optional()
+      .describe('Explicit brand terms for the brand dimension; terms from the site hostname are always included.'),
+    templateRules: z
+      .array(TemplateRuleSchema)
+      .max(20)
+      .optional()
+      .describe('Custom URL template rules checked before the built-in ones for the template dimension.'),
+    maxSegments: z
+      .number()
+      .min(1)
+      .max(50)
+      .optional()
+      .default(8)
+      .describe('Segments listed per dimension, largest change first; the rest are summed into "(other)" (default 8).'),
+    maxDrivers: z
+      .number()
+      .min(1)
+      .max(50)
+      .optional()
+      .default(10)
+      .describe('Length of the ranked cross-dimension driver list (default 10).'),
+    maxRows: z
+      .number()
+      .min(1000)
+      .max(100000)
+      .optional()
+      .default(25000)
+      .describe('Row cap per period for the page and query fetches behind template, brand and intent.'),
+    dataSource: DataSourceSchema,
+  })
+  .superRefine(refineComparisonPeriods);
+
+export type ExplainTrafficChangeInput = z.infer<typeof ExplainTrafficChangeSchema>;
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import { SearchAnalyticsSchema } from './analytics.js';
+
+export const ExportFormatValues = ['csv', 'ndjson', 'parquet'] as const;
+
+/** export_search_analytics tool schema */
+export const ExportSearchAnalyticsSchema = SearchAnalyticsSchema.omit({ rowLimit: true, startRow: true }).extend({
+  format: z
+    .enum(ExportFormatValues)
+    .optional()
+    .default('csv')
+    .describe('Output file format: csv (RFC 4180, header row), ndjson (one JSON object per line), or parquet'),
+  maxRows: z
+    .number()
+    .min(1)
+    .max(100000)
+    .optional()
+    .default(100000)
+    .describe('Row cap per date chunk, fetched 25K rows per request (default and max 100000).'),
+  chunkDays: z
+    .number()
+    .int()
+    .min(1)
+    .max(500)
+    .optional()
+    .describe(
+      'Split the date range into windows of this many days and export each one up to maxRows. Adds periodStart/periodEnd columns. Use it to go past the 100K-row cap.',
+    ),
+  fileName: z
+    .string()
+    .max(200)
+    .regex(/^[A-Za-z0-9][A-Za-z0-9._-]*$/, 'fileName must be a plain file name without directories')
+    .optional()
+    .describe(
+      'File name inside GSC_EXPORT_DIR. The format extension is added when missing. Defaults to <site>-<startDate>-<endDate>-<timestamp>.',
+    ),
+  overwrite: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Replace an existing file with the same name instead of failing.'),
+});
+
+export type ExportSearchAnalyticsInput = z.infer<typeof ExportSearchAnalyticsSchema>;
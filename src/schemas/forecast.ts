@@ -0,0 +1,79 @@
+import { z } from 'zod';
+import { SiteUrlSchema, DateStringSchema, SearchTypeValues, DataSourceSchema } from './base.js';
+import { TemplateRuleSchema } from './computed2.js';
+
+export const ForecastScopeValues = ['site', 'page', 'query', 'queryCluster', 'template'] as const;
+
+/** forecast_traffic tool schema */
+export const ForecastTrafficSchema = SiteUrlSchema.extend({
+  scope: z
+    .enum(ForecastScopeValues)
+    .optional()
+    .default('site')
+    .describe(
+      'What to forecast: the whole site, one page URL, one exact query, a query cluster (as labelled by detect_quick_wins intentAware) or a page template (blog, docs, product, location, home, other or a custom rule name).',
+    ),
+  target: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('The page URL, query, cluster label or template name to forecast. Required unless scope is "site".'),
+  templateRules: z
+    .array(TemplateRuleSchema)
+    .max(20)
+    .optional()
+    .describe('Custom URL template rules checked before the built-in ones; only read when scope is "template".'),
+  historyDays: z
+    .number()
+    .min(28)
+    .max(480)
+    .optional()
+    .default(112)
+    .describe('Days of daily history to fit the model on (default 112, i.e. 16 weeks).'),
+  endDate: DateStringSchema.optional().describe(
+    'Last day of history (YYYY-MM-DD). Defaults to, and is capped at, 3 days ago, the latest finalized data.',
+  ),
+  horizonDays: z
+    .number()
+    .min(1)
+    .max(90)
+    .optional()
+    .default(28)
+    .describe('Days to project past the end of history (default 28).'),
+  confidence: z
+    .union([z.literal(0.8), z.literal(0.9), z.literal(0.95), z.literal(0.99)])
+    .default(0.95)
+    .describe('Prediction interval level, also used to flag anomalous actuals.'),
+  anomalyWindowDays: z
+    .number()
+    .min(0)
+    .max(90)
+    .optional()
+    .default(28)
+    .describe('Check the most recent N days of history against their one-step-ahead prediction interval (0 disables).'),
+  type: z
+    .enum(SearchTypeValues)
+    .optional()
+    .describe('Search type filter'),
+  maxRows: z
+    .number()
+    .min(1000)
+    .max(500000)
+    .optional()
+    .default(100000)
+    .describe('Row cap for the date×query or date×page rows behind queryCluster and template scopes.'),
+  dataSource: DataSourceSchema,
+}).superRefine((data, ctx) => {
+  if (data.scope === 'site' && data.target !== undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['target'], message: 'target is not used when scope is "site"' });
+  }
+  if (data.scope !== 'site' && data.target === undefined) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['target'],
+      message: `target is required when scope is "${data.scope}"`,
+    });
+  }
+});
+
+export type ForecastTrafficInput = z.infer<typeof ForecastTrafficSchema>;
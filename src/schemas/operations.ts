@@ -9,3 +9,12 @@ export const HealthSnapshotSchema = z.object({
 });
 
 export type HealthSnapshotInput = z.infer<typeof HealthSnapshotSchema>;
+
+export const ConfigShowSchema = z.object({
+  tool: z
+    .string()
+    .optional()
+    .describe('Only report the effective settings of this tool (default: every tool).'),
+});
+
+export type ConfigShowInput = z.infer<typeof ConfigShowSchema>;
@@ -0,0 +1,63 @@
+import { z } from 'zod';
+import { SiteUrlSchema, DateRangeSchema, SearchTypeValues } from './base.js';
+import { inclusiveDayCount } from '../utils/dates.js';
+
+/** sync_search_analytics tool schema */
+export const SyncSearchAnalyticsSchema = SiteUrlSchema.merge(DateRangeSchema)
+  .extend({
+    days: z
+      .number()
+      .min(1)
+      .max(500)
+      .optional()
+      .default(30)
+      .describe(
+        'Days to backfill, ending 3 days ago (the latest finalized data). Ignored when startDate/endDate are set; a later endDate is clamped to 3 days ago so unfinished days are never synced.',
+      ),
+    type: z
+      .enum(SearchTypeValues)
+      .optional()
+      .default('web')
+      .describe('Search type to sync'),
+    maxDays: z
+      .number()
+      .min(1)
+      .max(120)
+      .optional()
+      .default(31)
+      .describe('Maximum number of unsynced days to fetch in this call, oldest first. Call again to continue.'),
+    maxRowsPerDay: z
+      .number()
+      .min(1000)
+      .max(500000)
+      .optional()
+      .default(100000)
+      .describe('Row cap per day (paginated 25K at a time). Days that hit the cap are flagged as truncated.'),
+    force: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe('Re-fetch days that are already synced.'),
+  })
+  .superRefine((data, ctx) => {
+    const hasStart = data.startDate !== undefined;
+    const hasEnd = data.endDate !== undefined;
+
+    if (hasStart !== hasEnd) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: hasStart ? ['endDate'] : ['startDate'],
+        message: 'startDate and endDate must be provided together',
+      });
+    }
+
+    if (hasStart && hasEnd && inclusiveDayCount(data.startDate!, data.endDate!) < 1) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['startDate'],
+        message: 'startDate must not be after endDate',
+      });
+    }
+  });
+
+export type SyncSearchAnalyticsInput = z.infer<typeof SyncSearchAnalyticsSchema>;
@@ -6,8 +6,18 @@ import {
   pagespeedonline_v5,
   chromeuxreport_v1,
 } from 'googleapis';
-import { GoogleAuth } from 'google-auth-library';
-import { withRetry } from './utils/retry.js';
+import type { AuthClient, GoogleAuth } from 'google-auth-library';
+import { getErrorReason, getRetryAfterMs, isDailyLimitReason, isQuotaReason, withRetry } from './utils/retry.js';
+import { traceApiClient } from './utils/tracing.js';
+import { currentAbortSignal, throwIfAborted } from './utils/cancellation.js';
+import type { ApiCircuitBreaker } from './utils/circuit-breaker.js';
+import type { ApiRateLimiter } from './utils/rate-limiter.js';
+import {
+  GOOGLE_API_SCOPES,
+  isOAuthGrantError,
+  loadOAuthClient,
+  type OAuthClientConfig,
+} from './utils/oauth.js';
 
 type SearchAnalyticsRequest =
   webmasters_v3.Params$Resource$Searchanalytics$Query['requestBody'];
@@ -45,15 +55,48 @@ export class GSCAuthError extends GSCError {
   }
 }
 
+/**
+ * Google quota error reason: `rateLimitExceeded`, `userRateLimitExceeded`,
+ * `dailyLimitExceeded`, `quotaExceeded`, or `circuitOpen` when the API family's
+ * circuit breaker is failing calls fast.
+ */
+export type QuotaErrorReason =
+  | 'rateLimitExceeded'
+  | 'userRateLimitExceeded'
+  | 'dailyLimitExceeded'
+  | 'quotaExceeded'
+  | 'circuitOpen'
+  | (string & {});
+
 export class GSCQuotaError extends GSCError {
-  constructor(message?: string) {
+  constructor(
+    message?: string,
+    public readonly reason: QuotaErrorReason = 'rateLimitExceeded',
+    public readonly retryAfterMs?: number,
+  ) {
     super(
-      message ?? 'API quota exceeded. Wait a moment and retry, or reduce request frequency.',
+      message ??
+        (isDailyLimitReason(reason)
+          ? `Daily API quota exhausted (${reason}). Retrying today will not help; wait for the quota to reset or request more quota in Google Cloud Console.`
+          : 'API quota exceeded. Wait a moment and retry, or reduce request frequency.'),
       'QUOTA_ERROR',
       429,
     );
     this.name = 'GSCQuotaError';
   }
+
+  /** True when the quota will not reset within minutes, so retries are pointless. */
+  get daily(): boolean {
+    return isDailyLimitReason(this.reason);
+  }
+}
+
+/** A tool call stopped early: the client sent `notifications/cancelled` or the per-tool deadline passed. */
+export class GSCCancelledError extends GSCError {
+  constructor(message: string, code: 'CANCELLED' | 'TIMEOUT') {
+    super(message, code, code === 'TIMEOUT' ? 504 : 499);
+    this.name = 'GSCCancelledError';
+  }
 }
 
 export class GSCPermissionError extends GSCError {
@@ -71,48 +114,159 @@ export class GSCPermissionError extends GSCError {
 // Service
 // ---------------------------------------------------------------------------
 
+/**
+ * Either a service account key file path or an installed-app OAuth client
+ * whose refresh token is stored at `tokenPath`.
+ */
+export type ServiceCredentials = string | OAuthClientConfig;
+
+/** Google API surface a service method calls, used to label metrics. */
+export type ApiFamily =
+  | 'sites'
+  | 'searchanalytics'
+  | 'sitemaps'
+  | 'urlInspection'
+  | 'mobileFriendlyTest'
+  | 'pagespeed'
+  | 'indexing'
+  | 'crux';
+
+/** A Google API request made by a service method. */
+export interface ApiCall {
+  family: ApiFamily;
+  /** googleapis method name, e.g. `query` or `publish`. */
+  method: string;
+  siteUrl?: string;
+}
+
+/** One service method call, reported after retries have finished. */
+export interface ApiCallEvent extends ApiCall {
+  latencyMs: number;
+  /** Part of `latencyMs` spent waiting for rate-limit tokens, summed over attempts. */
+  rateLimitWaitMs: number;
+  status: 'success' | 'error';
+  /** `GSCError.code`, `HTTP_<status>` for unclassified API errors, or `UNKNOWN`. */
+  errorCode?: string;
+}
+
+export interface SearchConsoleServiceOptions {
+  /** Waited on before every request attempt so fan-outs stay under per-minute limits. */
+  rateLimiter?: Pick<ApiRateLimiter, 'acquire'>;
+  /** Shared per-family breaker; open circuits fail calls fast with `GSCQuotaError` (`circuitOpen`). */
+  circuitBreaker?: Pick<ApiCircuitBreaker, 'check' | 'recordSuccess' | 'recordFailure'>;
+  /** Called before every request attempt, including retries; throw to refuse the request. */
+  reserveApiQuota?: (call: ApiCall) => void;
+  onApiCall?: (event: ApiCallEvent) => void;
+}
+
 export class SearchConsoleService {
-  private auth: GoogleAuth;
+  private auth: GoogleAuth | null = null;
+  private oauth: OAuthClientConfig | null = null;
+  private oauthClient: AuthClient | null = null;
   private apiKey?: string;
+  private readonly rateLimiter?: Pick<ApiRateLimiter, 'acquire'>;
+  private readonly circuitBreaker?: Pick<ApiCircuitBreaker, 'check' | 'recordSuccess' | 'recordFailure'>;
+  private readonly reserveApiQuota?: (call: ApiCall) => void;
+  private readonly onApiCall?: (event: ApiCallEvent) => void;
 
-  constructor(credentials: string, apiKey?: string) {
+  constructor(credentials: ServiceCredentials, apiKey?: string, options: SearchConsoleServiceOptions = {}) {
     this.apiKey = apiKey;
-    this.auth = new google.auth.GoogleAuth({
-      keyFile: credentials,
-      scopes: [
-        'https://www.googleapis.com/auth/webmasters',
-        'https://www.googleapis.com/auth/webmasters.readonly',
-        'https://www.googleapis.com/auth/indexing',
-      ],
-    });
+    this.rateLimiter = options.rateLimiter;
+    this.circuitBreaker = options.circuitBreaker;
+    this.reserveApiQuota = options.reserveApiQuota;
+    this.onApiCall = options.onApiCall;
+    if (typeof credentials === 'string') {
+      this.auth = new google.auth.GoogleAuth({
+        keyFile: credentials,
+        scopes: GOOGLE_API_SCOPES,
+      });
+    } else {
+      this.oauth = credentials;
+    }
+  }
+
+  private authErrorMessage(): string | undefined {
+    return this.oauth
+      ? `OAuth authorization failed or was revoked. Run \`mcp-server-gsc-pro auth login\` to re-authorize (token file: ${this.oauth.tokenPath}).`
+      : undefined;
+  }
+
+  private async getAuthClient(): Promise<AuthClient> {
+    if (this.auth) {
+      return (await this.auth.getClient()) as AuthClient;
+    }
+
+    const oauth = this.oauth as OAuthClientConfig;
+    if (!this.oauthClient) {
+      let client: AuthClient | null;
+      try {
+        client = loadOAuthClient(oauth);
+      } catch (err) {
+        throw new GSCAuthError(
+          `${err instanceof Error ? err.message : String(err)} Run \`mcp-server-gsc-pro auth login\` to re-authorize.`,
+        );
+      }
+      if (!client) {
+        throw new GSCAuthError(
+          `No OAuth refresh token found at ${oauth.tokenPath}. Run \`mcp-server-gsc-pro auth login\` to authorize.`,
+        );
+      }
+      this.oauthClient = client;
+    }
+
+    // Refresh up front so a revoked grant surfaces as GSCAuthError on every API.
+    try {
+      await this.oauthClient.getAccessToken();
+    } catch (err) {
+      if (isOAuthGrantError(err)) {
+        throw new GSCAuthError(this.authErrorMessage());
+      }
+      throw err;
+    }
+    return this.oauthClient;
   }
 
   private async getWebmasters() {
-    const authClient = await this.auth.getClient();
-    return google.webmasters({
-      version: 'v3',
-      auth: authClient,
-    } as webmasters_v3.Options);
+    const authClient = await this.getAuthClient();
+    return traceApiClient(
+      google.webmasters({
+        version: 'v3',
+        auth: authClient,
+        signal: currentAbortSignal(),
+      } as webmasters_v3.Options),
+      'webmasters',
+    );
   }
 
   private async getSearchConsole() {
-    const authClient = await this.auth.getClient();
-    return google.searchconsole({
-      version: 'v1',
-      auth: authClient,
-    } as searchconsole_v1.Options);
+    const authClient = await this.getAuthClient();
+    return traceApiClient(
+      google.searchconsole({
+        version: 'v1',
+        auth: authClient,
+        signal: currentAbortSignal(),
+      } as searchconsole_v1.Options),
+      'searchconsole',
+    );
   }
 
   private async getIndexing() {
-    const authClient = await this.auth.getClient();
-    return google.indexing({
-      version: 'v3',
-      auth: authClient,
-    } as indexing_v3.Options);
+    const authClient = await this.getAuthClient();
+    return traceApiClient(
+      google.indexing({
+        version: 'v3',
+        auth: authClient,
+        signal: currentAbortSignal(),
+      } as indexing_v3.Options),
+      'indexing',
+    );
   }
 
   private getPageSpeed() {
-    return google.pagespeedonline({ version: 'v5' } as pagespeedonline_v5.Options);
+    return traceApiClient(
+      google.pagespeedonline({ version: 'v5', signal: currentAbortSignal() } as pagespeedonline_v5.Options),
+      'pagespeedonline',
+    );
   }
 
   private getCrUX() {
@@ -122,7 +276,10 @@ export class SearchConsoleService {
         'CONFIG_ERROR',
       );
     }
-    return google.chromeuxreport({ version: 'v1' } as chromeuxreport_v1.Options);
+    return traceApiClient(
+      google.chromeuxreport({ version: 'v1', signal: currentAbortSignal() } as chromeuxreport_v1.Options),
+      'chromeuxreport',
+    );
   }
 
   private normalizeUrl(url: string): string {
@@ -155,16 +312,21 @@ export class SearchConsoleService {
   }
 
   private classifyError(err: unknown, context?: string): never {
-    if (!(err instanceof Error)) throw err;
+    if (!(err instanceof Error) || err instanceof GSCError) throw err;
 
     const msg = err.message.toLowerCase();
     const status = this.getStatusCode(err);
 
     if (status === 401 || msg.includes('authentication') || msg.includes('credentials')) {
-      throw new GSCAuthError();
+      throw new GSCAuthError(this.authErrorMessage());
     }
-    if (status === 429 || msg.includes('quota') || msg.includes('rate limit')) {
-      throw new GSCQuotaError();
+    const reason = getErrorReason(err);
+    if (status === 429 || isQuotaReason(reason) || msg.includes('quota') || msg.includes('rate limit')) {
+      throw new GSCQuotaError(
+        undefined,
+        isQuotaReason(reason) ? reason : /daily|per day/.test(msg) ? 'dailyLimitExceeded' : 'rateLimitExceeded',
+        getRetryAfterMs(err),
+      );
     }
     if (
       status === 403 ||
@@ -178,21 +340,29 @@ export class SearchConsoleService {
     throw err;
   }
 
+  /**
+   * Run `operation`, retrying once with `fallback` on a permission error.
+   * `admitRequest` runs before the fallback so its request is rate-limited
+   * and metered like the first.
+   */
   private async withPermissionFallback<T>(
     operation: () => Promise<T>,
     fallback: () => Promise<T>,
-    siteUrl?: string,
+    siteUrl: string | undefined,
+    admitRequest: () => Promise<void>,
   ): Promise<T> {
     try {
       return await operation();
     } catch (err) {
       const status = this.getStatusCode(err);
       if (
-        status === 403 ||
-        (err instanceof Error &&
-          (err.message.toLowerCase().includes('permission') ||
-            err.message.toLowerCase().includes('forbidden')))
+        !isQuotaReason(getErrorReason(err)) &&
+        (status === 403 ||
+          (err instanceof Error &&
+            (err.message.toLowerCase().includes('permission') ||
+              err.message.toLowerCase().includes('forbidden'))))
       ) {
+        await admitRequest();
         try {
           return await fallback();
         } catch (fallbackErr) {
@@ -202,27 +372,73 @@ export class SearchConsoleService {
               ? fallbackErr.message.toLowerCase()
               : '';
           if (
-            fallbackStatus === 403 ||
-            fallbackMessage.includes('permission') ||
-            fallbackMessage.includes('forbidden')
+            !isQuotaReason(getErrorReason(fallbackErr)) &&
+            (fallbackStatus === 403 ||
+              fallbackMessage.includes('permission') ||
+              fallbackMessage.includes('forbidden'))
           ) {
             // Both permission paths failed.
             throw new GSCPermissionError(siteUrl ?? 'unknown');
           }
-          // Preserve non-permission fallback errors (e.g. 429/5xx) so retry/classification remains accurate.
-          throw fallbackErr;
+          // Classify non-permission fallback errors (e.g. 429 reasons); 5xx stay raw so retries still apply.
+          this.classifyError(fallbackErr, siteUrl);
         }
       }
       this.classifyError(err, siteUrl);
     }
   }
 
+  /**
+   * Run `operation` with retries unless the family's circuit is open. Each
+   * request waits for a rate-limit token and is metered against the API
+   * quota: callApi admits the first request of every attempt, and `operation`
+   * calls `admitRequest` before any further one. The outcome goes to the
+   * circuit breaker and `onApiCall`. The tool call's abort signal stops waits
+   * and in-flight requests, and surfaces as its `GSCCancelledError` reason.
+   */
+  private async callApi<T>(call: ApiCall, operation: (admitRequest: () => Promise<void>) => Promise<T>): Promise<T> {
+    const signal = currentAbortSignal();
+    let rateLimitWaitMs = 0;
+    const admitRequest = async () => {
+      if (this.rateLimiter) {
+        rateLimitWaitMs += await this.rateLimiter.acquire(call);
+      }
+      throwIfAborted(signal);
+      this.reserveApiQuota?.(call);
+    };
+    const attempt = async () => {
+      await admitRequest();
+      return operation(admitRequest);
+    };
+    const startedAt = Date.now();
+    try {
+      throwIfAborted(signal);
+      this.circuitBreaker?.check(call.family);
+      const result = await withRetry(attempt, { signal });
+      this.circuitBreaker?.recordSuccess(call.family);
+      this.onApiCall?.({ ...call, latencyMs: Date.now() - startedAt, rateLimitWaitMs, status: 'success' });
+      return result;
+    } catch (caught) {
+      const err: unknown = signal?.aborted ? signal.reason : caught;
+      this.circuitBreaker?.recordFailure(call.family, err);
+      const status = this.getStatusCode(err);
+      this.onApiCall?.({
+        ...call,
+        latencyMs: Date.now() - startedAt,
+        rateLimitWaitMs,
+        status: 'error',
+        errorCode: err instanceof GSCError ? err.code : status !== undefined ? `HTTP_${status}` : 'UNKNOWN',
+      });
+      throw err;
+    }
+  }
+
   // ---------------------------------------------------------------------------
   // Sites
   // ---------------------------------------------------------------------------
 
   async listSites() {
-    return withRetry(async () => {
+    return this.callApi({ family: 'sites', method: 'list' }, async () => {
       try {
         const wm = await this.getWebmasters();
         return await wm.sites.list();
@@ -233,34 +449,37 @@ export class SearchConsoleService {
   }
 
   async getSite(siteUrl: string) {
-    return withRetry(async () => {
+    return this.callApi({ family: 'sites', method: 'get', siteUrl }, async (admitRequest) => {
       const wm = await this.getWebmasters();
       return this.withPermissionFallback(
         () => wm.sites.get({ siteUrl }),
         () => wm.sites.get({ siteUrl: this.normalizeUrl(siteUrl) }),
         siteUrl,
+        admitRequest,
       );
     });
   }
 
   async addSite(siteUrl: string) {
-    return withRetry(async () => {
+    return this.callApi({ family: 'sites', method: 'add', siteUrl }, async (admitRequest) => {
       const wm = await this.getWebmasters();
       return this.withPermissionFallback(
         () => wm.sites.add({ siteUrl }),
         () => wm.sites.add({ siteUrl: this.normalizeUrl(siteUrl) }),
         siteUrl,
+        admitRequest,
       );
     });
   }
 
   async deleteSite(siteUrl: string) {
-    return withRetry(async () => {
+    return this.callApi({ family: 'sites', method: 'delete', siteUrl }, async (admitRequest) => {
       const wm = await this.getWebmasters();
       return this.withPermissionFallback(
         () => wm.sites.delete({ siteUrl }),
         () => wm.sites.delete({ siteUrl: this.normalizeUrl(siteUrl) }),
         siteUrl,
+        admitRequest,
       );
     });
   }
@@ -270,7 +489,7 @@ export class SearchConsoleService {
   // ---------------------------------------------------------------------------
 
   async searchAnalytics(siteUrl: string, body: SearchAnalyticsRequest) {
-    return withRetry(async () => {
+    return this.callApi({ family: 'searchanalytics', method: 'query', siteUrl }, async (admitRequest) => {
       const wm = await this.getWebmasters();
       return this.withPermissionFallback(
         () => wm.searchanalytics.query({ siteUrl, requestBody: body }),
@@ -280,6 +499,7 @@ export class SearchConsoleService {
             requestBody: body,
           }),
         siteUrl,
+        admitRequest,
       );
     });
   }
@@ -289,7 +509,8 @@ export class SearchConsoleService {
   // ---------------------------------------------------------------------------
 
   async indexInspect(body: InspectRequest) {
-    return withRetry(async () => {
+    const siteUrl = body?.siteUrl ?? undefined;
+    return this.callApi({ family: 'urlInspection', method: 'inspect', siteUrl }, async () => {
       try {
         const sc = await this.getSearchConsole();
         return await sc.urlInspection.index.inspect({ requestBody: body });
@@ -305,7 +526,7 @@ export class SearchConsoleService {
   // ---------------------------------------------------------------------------
 
   async mobileFriendlyTest(url: string, requestScreenshot?: boolean) {
-    return withRetry(async () => {
+    return this.callApi({ family: 'mobileFriendlyTest', method: 'run' }, async () => {
       try {
         const sc = await this.getSearchConsole();
         return await sc.urlTestingTools.mobileFriendlyTest.run({
@@ -327,7 +548,7 @@ export class SearchConsoleService {
     strategy?: string;
     locale?: string;
   }) {
-    return withRetry(async () => {
+    return this.callApi({ family: 'pagespeed', method: 'runpagespeed' }, async () => {
       try {
         const psi = this.getPageSpeed();
         return await psi.pagespeedapi.runpagespeed({
@@ -348,7 +569,7 @@ export class SearchConsoleService {
   // ---------------------------------------------------------------------------
 
   async indexingPublish(url: string, type: 'URL_UPDATED' | 'URL_DELETED') {
-    return withRetry(async () => {
+    return this.callApi({ family: 'indexing', method: 'publish' }, async () => {
       try {
         const idx = await this.getIndexing();
         return await idx.urlNotifications.publish({
@@ -361,7 +582,7 @@ export class SearchConsoleService {
   }
 
   async indexingGetMetadata(url: string) {
-    return withRetry(async () => {
+    return this.callApi({ family: 'indexing', method: 'getMetadata' }, async () => {
       try {
         const idx = await this.getIndexing();
         return await idx.urlNotifications.getMetadata({ url });
@@ -381,7 +602,7 @@ export class SearchConsoleService {
     formFactor?: string;
     metrics?: string[];
   }) {
-    return withRetry(async () => {
+    return this.callApi({ family: 'crux', method: 'queryRecord' }, async () => {
       try {
         const crux = this.getCrUX();
         return await crux.records.queryRecord({
@@ -405,7 +626,7 @@ export class SearchConsoleService {
     formFactor?: string;
     metrics?: string[];
   }) {
-    return withRetry(async () => {
+    return this.callApi({ family: 'crux', method: 'queryHistoryRecord' }, async () => {
       try {
         const crux = this.getCrUX();
         return await crux.records.queryHistoryRecord({
@@ -428,7 +649,7 @@ export class SearchConsoleService {
   // ---------------------------------------------------------------------------
 
   async listSitemaps(params: ListSitemapsParams) {
-    return withRetry(async () => {
+    return this.callApi({ family: 'sitemaps', method: 'list', siteUrl: params.siteUrl }, async (admitRequest) => {
       const wm = await this.getWebmasters();
       return this.withPermissionFallback(
         () => wm.sitemaps.list(params),
@@ -438,12 +659,13 @@ export class SearchConsoleService {
             siteUrl: this.normalizeUrl(params.siteUrl!),
           }),
         params.siteUrl,
+        admitRequest,
       );
     });
   }
 
   async getSitemap(params: GetSitemapParams) {
-    return withRetry(async () => {
+    return this.callApi({ family: 'sitemaps', method: 'get', siteUrl: params.siteUrl }, async (admitRequest) => {
       const wm = await this.getWebmasters();
       return this.withPermissionFallback(
         () => wm.sitemaps.get(params),
@@ -453,12 +675,13 @@ export class SearchConsoleService {
             siteUrl: this.normalizeUrl(params.siteUrl!),
           }),
         params.siteUrl,
+        admitRequest,
       );
     });
   }
 
   async submitSitemap(params: SubmitSitemapParams) {
-    return withRetry(async () => {
+    return this.callApi({ family: 'sitemaps', method: 'submit', siteUrl: params.siteUrl }, async (admitRequest) => {
       const wm = await this.getWebmasters();
       return this.withPermissionFallback(
         () => wm.sitemaps.submit(params),
@@ -468,12 +691,13 @@ export class SearchConsoleService {
             siteUrl: this.normalizeUrl(params.siteUrl!),
           }),
         params.siteUrl,
+        admitRequest,
       );
     });
   }
 
   async deleteSitemap(params: DeleteSitemapParams) {
-    return withRetry(async () => {
+    return this.callApi({ family: 'sitemaps', method: 'delete', siteUrl: params.siteUrl }, async (admitRequest) => {
       const wm = await this.getWebmasters();
       return this.withPermissionFallback(
         () => wm.sitemaps.delete(params),
@@ -483,6 +707,7 @@ export class SearchConsoleService {
             siteUrl: this.normalizeUrl(params.siteUrl!),
           }),
         params.siteUrl,
+        admitRequest,
       );
     });
   }
@@ -0,0 +1,84 @@
+import { matchSitePattern } from './utils/credentials.js';
+
+/**
+ * Property patterns (`*`, `sc-domain:example.com`, or a URL prefix) a caller
+ * may read or write. Omitted lists do not restrict; `write` defaults to `read`,
+ * and properties in `write` are readable too.
+ */
+export interface SiteRules {
+  read?: string[];
+  write?: string[];
+}
+
+export type SiteAccess = 'read' | 'write';
+
+export interface SitePolicySnapshot {
+  restricted: boolean;
+  read: string[] | null;
+  write: string[] | null;
+  clients: Record<string, { read: string[] | null; write: string[] | null }>;
+}
+
+function parseList(value: string | undefined): string[] | undefined {
+  if (value === undefined) return undefined;
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/** Server rules from `GSC_SITE_POLICY_READ` / `GSC_SITE_POLICY_WRITE` (comma-separated), over the config file's. */
+export function resolveSiteRules(configured: SiteRules = {}, env: NodeJS.ProcessEnv = process.env): SiteRules {
+  return {
+    read: parseList(env.GSC_SITE_POLICY_READ) ?? configured.read,
+    write: parseList(env.GSC_SITE_POLICY_WRITE) ?? configured.write,
+  };
+}
+
+function allows(rules: SiteRules, target: string, access: SiteAccess): boolean {
+  const matchesAny = (patterns: string[]) => patterns.some((pattern) => matchSitePattern(pattern, target) >= 0);
+  if (access === 'write') {
+    const patterns = rules.write ?? rules.read;
+    return patterns === undefined || matchesAny(patterns);
+  }
+  return rules.read === undefined || matchesAny(rules.read) || matchesAny(rules.write ?? []);
+}
+
+/**
+ * Which properties this server, and each HTTP client token, may query or
+ * change. A call must pass both the server rules and its client's rules.
+ */
+export class SitePolicy {
+  constructor(
+    private readonly server: SiteRules = {},
+    private readonly clients: Record<string, SiteRules> = {},
+  ) {}
+
+  /** Why `clientId` may not access `target`, or null when it may. */
+  deniedReason(target: string, access: SiteAccess, clientId?: string): string | null {
+    if (!allows(this.server, target, access)) {
+      return `${access} access to ${target} is not allowed by this server's site policy`;
+    }
+    const client = clientId ? this.clients[clientId] : undefined;
+    if (client && !allows(client, target, access)) {
+      return `${access} access to ${target} is not allowed for client ${clientId}`;
+    }
+    return null;
+  }
+
+  isAllowed(target: string, access: SiteAccess, clientId?: string): boolean {
+    return this.deniedReason(target, access, clientId) === null;
+  }
+
+  snapshot(): SitePolicySnapshot {
+    const rules = (source: SiteRules) => ({ read: source.read ?? null, write: source.write ?? null });
+    return {
+      restricted:
+        this.server.read !== undefined ||
+        this.server.write !== undefined ||
+        Object.values(this.clients).some((client) => client.read !== undefined || client.write !== undefined),
+      ...rules(this.server),
+      clients: Object.fromEntries(Object.entries(this.clients).map(([clientId, client]) => [clientId, rules(client)])),
+    };
+  }
+}
@@ -0,0 +1,106 @@
+import { TOOL_GROUPS, TOOL_REGISTRY, type ToolRegistryEntry } from './tool-registry.js';
+
+export interface ToolAccessPolicy {
+  /** Tool names or group ids; when non-empty, only matching tools are exposed. */
+  allow?: string[];
+  /** Tool names or group ids that are never exposed; wins over `allow`. */
+  deny?: string[];
+  /** Hide every tool that writes to Google (sitemap, site and Indexing API changes). */
+  readOnly?: boolean;
+}
+
+export interface ToolAccessSnapshot {
+  readOnly: boolean;
+  allow: string[];
+  deny: string[];
+  enabledTools: number;
+  disabledTools: Record<string, string>;
+}
+
+export const TOOL_GROUP_IDS: ReadonlySet<string> = new Set(TOOL_GROUPS.map((group) => group.id));
+
+function parseList(value: string | undefined): string[] | undefined {
+  if (value === undefined) return undefined;
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function parseFlag(value: string | undefined): boolean | undefined {
+  if (!value) return undefined;
+  return ['1', 'true', 'yes', 'on'].includes(value.toLowerCase());
+}
+
+/**
+ * Access policy from `GSC_TOOLS_ALLOW`, `GSC_TOOLS_DENY` (comma-separated tool
+ * names or group ids) and `GSC_READ_ONLY`, each overriding the config file's
+ * `toolAccess` field. Unknown names fail startup.
+ */
+export function resolveToolAccessPolicy(
+  configured: ToolAccessPolicy = {},
+  env: NodeJS.ProcessEnv = process.env,
+): ToolAccessPolicy {
+  const allow = parseList(env.GSC_TOOLS_ALLOW);
+  const deny = parseList(env.GSC_TOOLS_DENY);
+  for (const [variable, entries] of [
+    ['GSC_TOOLS_ALLOW', allow],
+    ['GSC_TOOLS_DENY', deny],
+  ] as const) {
+    const unknown = (entries ?? []).filter(
+      (entry) => !TOOL_GROUP_IDS.has(entry) && !TOOL_REGISTRY.some((tool) => tool.name === entry),
+    );
+    if (unknown.length > 0) {
+      throw new Error(`Invalid ${variable}: unknown tool or group ${unknown.map((entry) => `"${entry}"`).join(', ')}`);
+    }
+  }
+  return {
+    allow: allow ?? configured.allow,
+    deny: deny ?? configured.deny,
+    readOnly: parseFlag(env.GSC_READ_ONLY) ?? configured.readOnly,
+  };
+}
+
+/** Decides which registry tools are listed and callable. */
+export class ToolAccess {
+  private readonly disabled = new Map<string, string>();
+
+  private readonly enabledCount: number;
+
+  constructor(
+    private readonly policy: ToolAccessPolicy = {},
+    registry: ToolRegistryEntry[] = TOOL_REGISTRY,
+  ) {
+    const matches = (entries: string[] | undefined, tool: ToolRegistryEntry) =>
+      (entries ?? []).some((entry) => entry === tool.name || entry === tool.group);
+    for (const tool of registry) {
+      if (matches(policy.deny, tool)) {
+        this.disabled.set(tool.name, 'denied by the tool denylist');
+      } else if (policy.allow?.length && !matches(policy.allow, tool)) {
+        this.disabled.set(tool.name, 'not in the tool allowlist');
+      } else if (policy.readOnly && tool.writesGoogle) {
+        this.disabled.set(tool.name, 'the server is in read-only mode');
+      }
+    }
+    this.enabledCount = registry.length - this.disabled.size;
+  }
+
+  isEnabled(toolName: string): boolean {
+    return !this.disabled.has(toolName);
+  }
+
+  /** Why `toolName` is disabled, or null when it may be called. */
+  disabledReason(toolName: string): string | null {
+    return this.disabled.get(toolName) ?? null;
+  }
+
+  snapshot(): ToolAccessSnapshot {
+    return {
+      readOnly: Boolean(this.policy.readOnly),
+      allow: this.policy.allow ?? [],
+      deny: this.policy.deny ?? [],
+      enabledTools: this.enabledCount,
+      disabledTools: Object.fromEntries(this.disabled),
+    };
+  }
+}
@@ -29,7 +29,12 @@ import { MobileFriendlyTestSchema } from './schemas/mobilefriendly.js';
 import { PageSpeedInsightsSchema } from './schemas/pagespeed.js';
 import { IndexingPublishSchema, IndexingStatusSchema } from './schemas/indexing.js';
 import { CrUXQuerySchema, CrUXHistorySchema } from './schemas/crux.js';
-import { HealthSnapshotSchema } from './schemas/operations.js';
+import { ConfigShowSchema, HealthSnapshotSchema } from './schemas/operations.js';
+import { SyncSearchAnalyticsSchema } from './schemas/warehouse.js';
+import { ExportSearchAnalyticsSchema } from './schemas/export.js';
+import { ForecastTrafficSchema } from './schemas/forecast.js';
+import { AnomalyScanSchema } from './schemas/anomaly.js';
+import { ExplainTrafficChangeSchema } from './schemas/explain.js';
 import {
   PageHealthDashboardSchema,
   IndexingHealthReportSchema,
@@ -54,6 +59,11 @@ export interface ToolRegistryEntry {
   example?: Record<string, unknown>;
   hints?: ToolHints;
   mutating?: boolean;
+  /**
+   * Changes Search Console or Indexing API state; hidden in read-only mode.
+   * Tools that only write local files, such as exports, are just `mutating`.
+   */
+  writesGoogle?: boolean;
   cacheable?: boolean;
 }
 
@@ -126,6 +136,40 @@ export const TOOL_REGISTRY: ToolRegistryEntry[] = [
     },
     cacheable: false,
   },
+  {
+    name: 'config_show',
+    group: 'operations',
+    description:
+      'Effective server configuration after merging the GSC_CONFIG file, environment variable overrides and built-in defaults: per-tool concurrency, cache TTL, deadlines, quota budgets and retry policy, plus per-site defaults. Secrets are redacted.',
+    schema: ConfigShowSchema,
+    example: {
+      tool: 'batch_inspect',
+    },
+    hints: {
+      latencyHint: 'low',
+      costHint: 'low',
+      quotaHint: 'No external API quota consumed; reads the loaded server configuration.',
+    },
+    cacheable: false,
+  },
+  {
+    name: 'sync_search_analytics',
+    group: 'operations',
+    description:
+      'Incrementally backfill daily query×page×country×device Search Analytics rows into the local SQLite warehouse so compare_periods, detect_content_decay and drop_alerts can read history beyond the API\'s ~16 month retention.',
+    schema: SyncSearchAnalyticsSchema,
+    example: {
+      siteUrl: 'sc-domain:example.com',
+      days: 90,
+      maxDays: 31,
+    },
+    hints: {
+      latencyHint: 'high',
+      costHint: 'high',
+      quotaHint: 'One or more Search Analytics requests per unsynced day (25K rows per request); already-synced days are skipped.',
+    },
+    mutating: true,
+  },
   {
     name: 'search_analytics',
     group: 'core',
@@ -161,6 +205,26 @@ export const TOOL_REGISTRY: ToolRegistryEntry[] = [
         'Optimized for high-volume retrieval; iterate using nextCursor instead of requesting one huge payload.',
     },
   },
+  {
+    name: 'export_search_analytics',
+    group: 'core',
+    description:
+      'Stream Search Analytics rows (up to 100K per date chunk) to a local CSV, NDJSON or Parquet file in GSC_EXPORT_DIR and return only the file path, row count, column schema and SHA-256 checksum.',
+    schema: ExportSearchAnalyticsSchema,
+    example: {
+      siteUrl: 'sc-domain:example.com',
+      days: 90,
+      dimensions: ['date', 'query', 'page'],
+      format: 'parquet',
+      chunkDays: 7,
+    },
+    hints: {
+      latencyHint: 'high',
+      costHint: 'medium',
+      quotaHint: 'One Search Analytics request per 25K rows in each date chunk; rows go to disk instead of the response.',
+    },
+    mutating: true,
+  },
   {
     name: 'enhanced_search_analytics',
     group: 'core',
@@ -246,6 +310,7 @@ export const TOOL_REGISTRY: ToolRegistryEntry[] = [
     description: 'Submit a new sitemap to Google Search Console',
     schema: SubmitSitemapSchema,
     mutating: true,
+    writesGoogle: true,
   },
   {
     name: 'delete_sitemap',
@@ -253,12 +318,13 @@ export const TOOL_REGISTRY: ToolRegistryEntry[] = [
     description: 'Delete a sitemap from Google Search Console',
     schema: DeleteSitemapSchema,
     mutating: true,
+    writesGoogle: true,
   },
   {
     name: 'compare_periods',
     group: 'computed',
     description:
-      'Compare two time periods side-by-side with delta and % change for clicks, impressions, CTR, and position',
+      'Compare two time periods side-by-side with delta and % change for clicks, impressions, CTR, and position. Modes: previous period, year-over-year (weekday-aligned), calendar month-over-month, or custom ranges compared per day; deltas carry significance flags.',
     schema: ComparePeriodsSchema,
     example: {
       siteUrl: 'sc-domain:example.com',
@@ -314,6 +380,54 @@ export const TOOL_REGISTRY: ToolRegistryEntry[] = [
       'Compare performance across search types (web, image, video, discover, news) in a single call',
     schema: SearchTypeBreakdownSchema,
   },
+  {
+    name: 'forecast_traffic',
+    group: 'computed',
+    description:
+      'Project daily clicks and impressions up to 90 days ahead for a site, page, query, query cluster or page template with a weekly-seasonal Holt-Winters model and prediction intervals. Recent actuals outside their interval are flagged as anomalies.',
+    schema: ForecastTrafficSchema,
+    example: {
+      siteUrl: 'sc-domain:example.com',
+      scope: 'template',
+      target: 'blog',
+      historyDays: 112,
+      horizonDays: 28,
+    },
+  },
+  {
+    name: 'anomaly_scan',
+    group: 'computed',
+    description:
+      'Scan daily clicks and impressions for spikes and dips with a rolling, weekday-adjusted median/MAD baseline across the site total, top queries, countries, devices, search appearances and country×device pairs. Each anomaly has a severity, onset date and the narrower slices that contributed to it.',
+    schema: AnomalyScanSchema,
+    example: {
+      siteUrl: 'sc-domain:example.com',
+      days: 90,
+      threshold: 3.5,
+    },
+    hints: {
+      latencyHint: 'medium',
+      costHint: 'medium',
+      quotaHint: 'Five Search Analytics requests plus one per scanned search appearance; large date×query breakdowns paginate 25K rows at a time.',
+    },
+  },
+  {
+    name: 'explain_traffic_change',
+    group: 'computed',
+    description:
+      'Explain a click change between two periods as a ranked waterfall: additive contributions by device, country, search type, page template, brand vs non-brand and query intent, plus a split of the total into impressions, average-position and CTR effects. Includes summary sentences ready to narrate.',
+    schema: ExplainTrafficChangeSchema,
+    example: {
+      siteUrl: 'sc-domain:example.com',
+      mode: 'previous',
+      days: 28,
+    },
+    hints: {
+      latencyHint: 'medium',
+      costHint: 'medium',
+      quotaHint: 'Up to 18 Search Analytics requests: one per period for the totals and for each device, country, page and query breakdown, plus eight for searchType.',
+    },
+  },
   {
     name: 'page_health_dashboard',
     group: 'multiApi',
@@ -378,6 +492,7 @@ export const TOOL_REGISTRY: ToolRegistryEntry[] = [
     description: 'Add a new site property to Google Search Console',
     schema: AddSiteSchema,
     mutating: true,
+    writesGoogle: true,
   },
   {
     name: 'delete_site',
@@ -385,6 +500,7 @@ export const TOOL_REGISTRY: ToolRegistryEntry[] = [
     description: 'Remove a site property from Google Search Console',
     schema: DeleteSiteSchema,
     mutating: true,
+    writesGoogle: true,
   },
   {
     name: 'mobile_friendly_test',
@@ -412,6 +528,7 @@ export const TOOL_REGISTRY: ToolRegistryEntry[] = [
       quotaHint: 'Indexing API default quota is roughly 200 publish calls/day.',
     },
     mutating: true,
+    writesGoogle: true,
   },
   {
     name: 'indexing_status',
@@ -450,6 +567,51 @@ export const TOOL_NAME_SET = new Set(TOOL_REGISTRY.map((tool) => tool.name));
 export const MUTATING_TOOLS = new Set(
   TOOL_REGISTRY.filter((tool) => tool.mutating).map((tool) => tool.name),
 );
+export const GOOGLE_WRITE_TOOLS = new Set(
+  TOOL_REGISTRY.filter((tool) => tool.writesGoogle).map((tool) => tool.name),
+);
 export const NON_CACHEABLE_TOOLS = new Set(
   TOOL_REGISTRY.filter((tool) => tool.cacheable === false).map((tool) => tool.name),
 );
+
+/** Follow-up tool suggested in each successful response's `summary.suggestedNextTool`. */
+export const SUGGESTED_NEXT_TOOL: Record<string, string> = {
+  list_sites: 'search_analytics',
+  gsc_healthcheck: 'list_sites',
+  search_analytics: 'detect_quick_wins',
+  search_analytics_cursor: 'enhanced_search_analytics',
+  enhanced_search_analytics: 'detect_quick_wins',
+  recommend_next_actions: 'page_health_dashboard',
+  run_seo_audit_workflow: 'recommend_next_actions',
+  detect_quick_wins: 'ctr_analysis',
+  index_inspect: 'indexing_health_report',
+  list_sitemaps: 'get_sitemap',
+  get_sitemap: 'indexing_health_report',
+  compare_periods: 'detect_content_decay',
+  detect_content_decay: 'drop_alerts',
+  detect_cannibalization: 'cannibalization_resolver',
+  diff_keywords: 'search_analytics',
+  batch_inspect: 'indexing_health_report',
+  ctr_analysis: 'detect_quick_wins',
+  search_type_breakdown: 'search_analytics',
+  forecast_traffic: 'drop_alerts',
+  anomaly_scan: 'compare_periods',
+  explain_traffic_change: 'anomaly_scan',
+  page_health_dashboard: 'pagespeed_insights',
+  indexing_health_report: 'index_inspect',
+  serp_feature_tracking: 'search_analytics',
+  cannibalization_resolver: 'detect_cannibalization',
+  drop_alerts: 'compare_periods',
+  get_site: 'search_analytics',
+  add_site: 'gsc_healthcheck',
+  delete_site: 'list_sites',
+  mobile_friendly_test: 'pagespeed_insights',
+  pagespeed_insights: 'crux_query',
+  indexing_publish: 'indexing_status',
+  indexing_status: 'index_inspect',
+  crux_query: 'crux_history',
+  crux_history: 'page_health_dashboard',
+  health_snapshot: 'gsc_healthcheck',
+  sync_search_analytics: 'compare_periods',
+  export_search_analytics: 'search_analytics',
+};
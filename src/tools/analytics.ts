@@ -1,49 +1,72 @@
-import { SearchConsoleService } from '../service.js';
+import { GSCError, SearchConsoleService } from '../service.js';
 import {
   SearchAnalyticsSchema,
   EnhancedSearchAnalyticsSchema,
   QuickWinsSchema,
   SearchAnalyticsCursorSchema,
 } from '../schemas/analytics.js';
+import { refineOrFilterDimensions } from '../schemas/base.js';
+import type { AccountService } from '../utils/credentials.js';
+import { queryFingerprint, signCursor, verifyCursor } from '../utils/cursor.js';
 import { resolveDateRange } from '../utils/dates.js';
+import {
+  applyOrGroups,
+  fetchFilteredRows,
+  orFilterSummary,
+  planFilters,
+  withFilterGroups,
+  type DimensionFilter,
+  type FilterGroup,
+  type FilterPlan,
+} from '../utils/filters.js';
 import { paginateSearchAnalytics } from '../utils/pagination.js';
 import { clusterQuery, labelQueryIntent } from '../utils/seo-analysis.js';
-import { jsonResult, type ToolResult, type SearchAnalyticsRow } from '../utils/types.js';
+import {
+  jsonResult,
+  type ToolResult,
+  type SearchAnalyticsRow,
+  type SiteEntry,
+} from '../utils/types.js';
 
 interface SearchAnalyticsCursorState {
   siteUrl: string;
   body: Record<string, unknown>;
+  /** Client-side OR groups applied to each page; absent when there are none. */
+  orGroups?: FilterGroup[];
   nextStartRow: number;
   pageSize: number;
   maxRows: number;
 }
 
-function encodeCursor(state: SearchAnalyticsCursorState): string {
-  return Buffer.from(JSON.stringify(state), 'utf8').toString('base64url');
-}
-
-function decodeCursor(token: string): SearchAnalyticsCursorState {
-  const decoded = Buffer.from(token, 'base64url').toString('utf8');
-  return JSON.parse(decoded) as SearchAnalyticsCursorState;
+/** Everything that defines a scan except the position within it. */
+function cursorQuery(state: SearchAnalyticsCursorState) {
+  return {
+    siteUrl: state.siteUrl,
+    body: state.body,
+    ...(state.orGroups ? { orGroups: state.orGroups } : {}),
+    pageSize: state.pageSize,
+    maxRows: state.maxRows,
+  };
 }
 
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
-/** Build dimensionFilterGroups from the flat filter params */
-function buildFilters(args: {
+/**
+ * Plan the API filter groups and client-side OR groups from the flat filter
+ * params plus the structured `filters` and `filterGroups`.
+ */
+export function buildFilters(args: {
   pageFilter?: string;
   queryFilter?: string;
   countryFilter?: string;
   deviceFilter?: string;
   filterOperator?: string;
-}) {
-  const filters: Array<{
-    dimension: string;
-    operator: string;
-    expression: string;
-  }> = [];
+  filters?: DimensionFilter[];
+  filterGroups?: FilterGroup[];
+}): FilterPlan {
+  const filters: DimensionFilter[] = [];
 
   if (args.pageFilter) {
     filters.push({
@@ -74,9 +97,7 @@ function buildFilters(args: {
     });
   }
 
-  return filters.length > 0
-    ? [{ groupType: 'and' as const, filters }]
-    : undefined;
+  return planFilters([...filters, ...(args.filters ?? [])], args.filterGroups);
 }
 
 /** Detect quick-win opportunities from analytics rows */
@@ -136,18 +157,62 @@ function detectQuickWins(
 // Tool handlers
 // ---------------------------------------------------------------------------
 
+/**
+ * List properties for every configured credential account and tag each entry
+ * with the account that listed it and the account requests are routed to.
+ * Fails only when every account fails, so one broken key does not hide the rest.
+ */
+export async function listSitesAcrossAccounts(
+  accounts: AccountService[],
+  resolveAccountId: (siteUrl: string) => string | null = () => null,
+  isSiteAllowed: (siteUrl: string) => boolean = () => true,
+): Promise<{
+  siteEntry: Array<SiteEntry & { account: string; routedAccount: string | null }>;
+  accounts: Array<{ id: string; siteCount: number; error?: string }>;
+}> {
+  const settled = await Promise.allSettled(accounts.map(({ service }) => service.listSites()));
+
+  if (settled.length > 0 && settled.every((outcome) => outcome.status === 'rejected')) {
+    throw (settled[0] as PromiseRejectedResult).reason;
+  }
+
+  const siteEntry: Array<SiteEntry & { account: string; routedAccount: string | null }> = [];
+  const accountSummaries = settled.map((outcome, index) => {
+    const accountId = accounts[index].accountId;
+    if (outcome.status === 'rejected') {
+      const reason = outcome.reason as Error | undefined;
+      return { id: accountId, siteCount: 0, error: reason?.message ?? 'list_sites failed' };
+    }
+    const entries = ((outcome.value.data as { siteEntry?: SiteEntry[] })?.siteEntry ?? []).filter(
+      (entry) => !entry.siteUrl || isSiteAllowed(entry.siteUrl),
+    );
+    for (const entry of entries) {
+      siteEntry.push({
+        ...entry,
+        account: accountId,
+        routedAccount: entry.siteUrl ? resolveAccountId(entry.siteUrl) : null,
+      });
+    }
+    return { id: accountId, siteCount: entries.length };
+  });
+
+  return { siteEntry, accounts: accountSummaries };
+}
+
+/** Properties across every account; `isSiteAllowed` hides those the site policy denies. */
 export async function handleListSites(
-  service: SearchConsoleService,
+  accounts: AccountService[],
+  resolveAccountId?: (siteUrl: string) => string | null,
+  isSiteAllowed?: (siteUrl: string) => boolean,
 ): Promise<ToolResult> {
-  const response = await service.listSites();
-  return jsonResult(response.data);
+  return jsonResult(await listSitesAcrossAccounts(accounts, resolveAccountId, isSiteAllowed));
 }
 
 export async function handleSearchAnalytics(
   service: SearchConsoleService,
   raw: unknown,
 ): Promise<ToolResult> {
-  const args = SearchAnalyticsSchema.parse(raw);
+  const args = SearchAnalyticsSchema.superRefine(refineOrFilterDimensions()).parse(raw);
   const { startDate, endDate } = resolveDateRange(args);
 
   const body: Record<string, unknown> = {
@@ -161,18 +226,33 @@ export async function handleSearchAnalytics(
     startRow: args.startRow,
   };
 
-  const filterGroups = buildFilters(args);
-  if (filterGroups) body.dimensionFilterGroups = filterGroups;
+  const plan = buildFilters(args);
+  if (plan.orGroups.length === 0) {
+    if (plan.dimensionFilterGroups) body.dimensionFilterGroups = plan.dimensionFilterGroups;
+    return jsonResult((await service.searchAnalytics(args.siteUrl, body)).data);
+  }
 
-  const response = await service.searchAnalytics(args.siteUrl, body);
-  return jsonResult(response.data);
+  let data: Record<string, unknown> = {};
+  const filtered = await fetchFilteredRows(
+    plan,
+    args.dimensions ?? [],
+    args.rowLimit,
+    async (dimensionFilterGroups) => {
+      const response = await service.searchAnalytics(args.siteUrl, withFilterGroups(body, dimensionFilterGroups));
+      data = response.data as Record<string, unknown>;
+      return (response.data as { rows?: SearchAnalyticsRow[] }).rows ?? [];
+    },
+    // A startRow page of merged branches would not line up with the API's pages.
+    args.startRow ? 1 : undefined,
+  );
+  return jsonResult({ ...data, rows: filtered.rows, ...orFilterSummary(plan.orGroups, filtered) });
 }
 
 export async function handleEnhancedSearchAnalytics(
   service: SearchConsoleService,
   raw: unknown,
 ): Promise<ToolResult> {
-  const args = EnhancedSearchAnalyticsSchema.parse(raw);
+  const args = EnhancedSearchAnalyticsSchema.superRefine(refineOrFilterDimensions()).parse(raw);
   const { startDate, endDate } = resolveDateRange(args);
 
   const body: Record<string, unknown> = {
@@ -187,7 +267,8 @@ export async function handleEnhancedSearchAnalytics(
   };
 
   // Build base filters
-  const filterGroups = buildFilters(args) ?? [];
+  const { dimensionFilterGroups, orGroups } = buildFilters(args);
+  const filterGroups = dimensionFilterGroups ?? [];
 
   // Add regex filter if provided
   if (args.regexFilter && args.dimensions?.includes('query')) {
@@ -203,28 +284,35 @@ export async function handleEnhancedSearchAnalytics(
     });
   }
 
-  if (filterGroups.length > 0) body.dimensionFilterGroups = filterGroups;
-
   const shouldPaginate = args.maxRows > args.rowLimit && args.startRow === undefined;
-  const rows = shouldPaginate
-    ? await paginateSearchAnalytics(service, args.siteUrl, body, {
-        maxRows: args.maxRows,
-        pageSize: args.rowLimit,
-      })
-    : null;
-
-  const data = rows
-    ? ({
-        rows,
-      } as { rows?: SearchAnalyticsRow[] })
-    : ((await service.searchAnalytics(args.siteUrl, body))
-        .data as { rows?: SearchAnalyticsRow[] });
+  let response: { rows?: SearchAnalyticsRow[] } = {};
+  const filtered = await fetchFilteredRows(
+    { ...(filterGroups.length > 0 ? { dimensionFilterGroups: filterGroups } : {}), orGroups },
+    args.dimensions ?? [],
+    shouldPaginate ? args.maxRows : args.rowLimit,
+    async (dimensionFilterGroups) => {
+      const request = withFilterGroups(body, dimensionFilterGroups);
+      if (shouldPaginate) {
+        return paginateSearchAnalytics(service, args.siteUrl, request, {
+          maxRows: args.maxRows,
+          pageSize: args.rowLimit,
+        });
+      }
+      response = (await service.searchAnalytics(args.siteUrl, request)).data as { rows?: SearchAnalyticsRow[] };
+      return response.rows ?? [];
+    },
+    // A startRow page of merged branches would not line up with the API's pages.
+    args.startRow ? 1 : undefined,
+  );
+  const data = shouldPaginate || orGroups.length > 0 ? { ...response, rows: filtered.rows } : response;
+  const orFilter = orFilterSummary(orGroups, filtered);
 
   // Attach quick-wins if requested
   if (args.enableQuickWins && data.rows) {
     const quickWins = detectQuickWins(data.rows, args.quickWinsThresholds);
     return jsonResult({
       ...data,
+      ...orFilter,
       quickWins,
       enhancedFeatures: {
         regexFilterApplied: !!args.regexFilter,
@@ -238,6 +326,7 @@ export async function handleEnhancedSearchAnalytics(
 
   return jsonResult({
     ...data,
+    ...orFilter,
     enhancedFeatures: {
       regexFilterApplied: !!args.regexFilter,
       quickWinsEnabled: false,
@@ -304,11 +393,18 @@ export async function handleSearchAnalyticsCursor(
   service: SearchConsoleService,
   raw: unknown,
 ): Promise<ToolResult> {
-  const args = SearchAnalyticsCursorSchema.parse(raw);
+  const args = SearchAnalyticsCursorSchema.superRefine(refineOrFilterDimensions()).parse(raw);
 
   let state: SearchAnalyticsCursorState;
   if (args.cursor) {
-    state = decodeCursor(args.cursor);
+    state = verifyCursor<SearchAnalyticsCursorState>(args.cursor, cursorQuery).state;
+    if (state.siteUrl !== args.siteUrl) {
+      throw new GSCError(
+        `Invalid cursor: it belongs to a scan of ${state.siteUrl}, not ${args.siteUrl}.`,
+        'INVALID_CURSOR',
+        400,
+      );
+    }
   } else {
     const { startDate, endDate } = resolveDateRange(args);
     const body: Record<string, unknown> = {
@@ -317,15 +413,18 @@ export async function handleSearchAnalyticsCursor(
       dimensions: args.dimensions,
       searchType: args.type,
       aggregationType: args.aggregationType,
-      dataState: args.dataState,
+      // Fresh (dataState "all") rows are revised while a scan is in progress,
+      // which can shift rows across pages; "final" keeps page boundaries stable.
+      dataState: args.pinFinalData ? 'final' : args.dataState,
     };
 
-    const filterGroups = buildFilters(args);
-    if (filterGroups) body.dimensionFilterGroups = filterGroups;
+    const { dimensionFilterGroups, orGroups } = buildFilters(args);
+    if (dimensionFilterGroups) body.dimensionFilterGroups = dimensionFilterGroups;
 
     state = {
       siteUrl: args.siteUrl,
       body,
+      ...(orGroups.length > 0 ? { orGroups } : {}),
       nextStartRow: 0,
       pageSize: args.pageSize,
       maxRows: args.maxRows,
@@ -334,6 +433,10 @@ export async function handleSearchAnalyticsCursor(
 
   const remainingRows = Math.max(0, state.maxRows - state.nextStartRow);
   const rowLimit = Math.min(state.pageSize, remainingRows);
+  const scan = {
+    queryFingerprint: queryFingerprint(cursorQuery(state)),
+    dataState: (state.body.dataState as string | undefined) ?? null,
+  };
 
   if (rowLimit <= 0) {
     return jsonResult({
@@ -343,6 +446,7 @@ export async function handleSearchAnalyticsCursor(
         nextCursor: null,
         startRow: state.nextStartRow,
         rowLimit: 0,
+        ...scan,
       },
     });
   }
@@ -353,9 +457,13 @@ export async function handleSearchAnalyticsCursor(
     rowLimit,
   });
 
-  const rows = ((response.data as { rows?: SearchAnalyticsRow[] }).rows ?? []) as SearchAnalyticsRow[];
-  const nextStartRow = state.nextStartRow + rows.length;
-  const hasMore = rows.length === rowLimit && nextStartRow < state.maxRows;
+  const fetched = ((response.data as { rows?: SearchAnalyticsRow[] }).rows ?? []) as SearchAnalyticsRow[];
+  const nextStartRow = state.nextStartRow + fetched.length;
+  const hasMore = fetched.length === rowLimit && nextStartRow < state.maxRows;
+  // OR groups filter each page after the fetch, so a page can hold fewer rows than fetchedRows.
+  const rows = state.orGroups
+    ? applyOrGroups(fetched, (state.body.dimensions as string[] | undefined) ?? [], state.orGroups)
+    : fetched;
 
   return jsonResult({
     rows,
@@ -363,14 +471,11 @@ export async function handleSearchAnalyticsCursor(
       hasMore,
       startRow: state.nextStartRow,
       rowLimit,
-      fetchedRows: rows.length,
+      fetchedRows: fetched.length,
+      ...(state.orGroups ? { matchedRows: rows.length } : {}),
       maxRows: state.maxRows,
-      nextCursor: hasMore
-        ? encodeCursor({
-            ...state,
-            nextStartRow,
-          })
-        : null,
+      nextCursor: hasMore ? signCursor({ ...state, nextStartRow }, cursorQuery(state)) : null,
+      ...scan,
     },
   });
 }
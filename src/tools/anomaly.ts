@@ -0,0 +1,304 @@
+import { SearchConsoleService } from '../service.js';
+import { AnomalyScanSchema, type AnomalySliceDimension } from '../schemas/anomaly.js';
+import {
+  anomalySeverity,
+  detectRollingAnomalies,
+  groupAnomalyRuns,
+  rollingBaseline,
+  type AnomalyDirection,
+  type AnomalySeverity,
+} from '../utils/anomaly.js';
+import { daysAgo, eachDate, formatDate } from '../utils/dates.js';
+import { jsonResult, type SearchAnalyticsRow, type ToolResult } from '../utils/types.js';
+import {
+  fetchSearchAnalyticsRows,
+  resolveDataSource,
+  summarizeSources,
+  type AnalyticsWarehouse,
+} from '../utils/warehouse.js';
+
+/** GSC data is finalized after roughly three days. */
+const FINAL_DATA_LAG_DAYS = 3;
+
+const SEVERITY_RANK: Record<AnomalySeverity, number> = { high: 0, medium: 1, low: 2 };
+
+interface SliceSeries {
+  slice: AnomalySliceDimension;
+  key: Record<string, string>;
+  clicks: Map<string, number>;
+  impressions: Map<string, number>;
+  totalClicks: number;
+}
+
+interface AnomalyEvent {
+  slice: AnomalySliceDimension;
+  key: Record<string, string>;
+  label: string;
+  metric: 'clicks' | 'impressions';
+  direction: AnomalyDirection;
+  severity: AnomalySeverity;
+  onset: string;
+  end: string;
+  days: number;
+  peakZ: number;
+  actual: number;
+  expected: number;
+  delta: number;
+  deltaPct: number | null;
+}
+
+function round1(value: number): number {
+  return Number(value.toFixed(1));
+}
+
+function sliceLabel(key: Record<string, string>): string {
+  const parts = Object.entries(key).map(([dimension, value]) => `${dimension}=${value}`);
+  return parts.length > 0 ? parts.join(', ') : 'site';
+}
+
+/** Group `date`-first rows into one series per combination of the remaining keys. */
+function collectSeries(
+  rows: SearchAnalyticsRow[],
+  slice: AnomalySliceDimension,
+  keyDimensions: string[],
+): SliceSeries[] {
+  const bySlice = new Map<string, SliceSeries>();
+  for (const row of rows) {
+    const [date, ...values] = row.keys ?? [];
+    if (!date) continue;
+    const key = Object.fromEntries(keyDimensions.map((dimension, i) => [dimension, values[i] ?? '']));
+    const id = JSON.stringify(key);
+    let series = bySlice.get(id);
+    if (!series) {
+      series = { slice, key, clicks: new Map(), impressions: new Map(), totalClicks: 0 };
+      bySlice.set(id, series);
+    }
+    series.clicks.set(date, (series.clicks.get(date) ?? 0) + (row.clicks ?? 0));
+    series.impressions.set(date, (series.impressions.get(date) ?? 0) + (row.impressions ?? 0));
+    series.totalClicks += row.clicks ?? 0;
+  }
+  return [...bySlice.values()];
+}
+
+function topByClicks(series: SliceSeries[], limit: number): SliceSeries[] {
+  return [...series]
+    .sort((a, b) => b.totalClicks - a.totalClicks || sliceLabel(a.key).localeCompare(sliceLabel(b.key)))
+    .slice(0, limit);
+}
+
+/** Whether `child` narrows `parent`: it has more dimensions and agrees on every dimension of `parent`. */
+function refines(parent: Record<string, string>, child: Record<string, string>): boolean {
+  const parentEntries = Object.entries(parent);
+  return (
+    Object.keys(child).length > parentEntries.length &&
+    parentEntries.every(([dimension, value]) => child[dimension] === value)
+  );
+}
+
+export async function handleAnomalyScan(
+  service: SearchConsoleService,
+  raw: unknown,
+  warehouse: AnalyticsWarehouse | null = null,
+): Promise<ToolResult> {
+  const args = AnomalyScanSchema.parse(raw);
+  // Days inside the data lag are partial and would be flagged as drops, so the scan stops before them.
+  const lastFinalDate = formatDate(daysAgo(FINAL_DATA_LAG_DAYS));
+  const endDate = args.endDate && args.endDate < lastFinalDate ? args.endDate : lastFinalDate;
+  const startDate = formatDate(daysAgo(args.days - 1, new Date(`${endDate}T00:00:00.000Z`)));
+  const wanted = new Set(args.slices);
+  const sources: Array<'api' | 'warehouse'> = [];
+  const truncated: AnomalySliceDimension[] = [];
+
+  const bodyFor = (dimensions: string[], rowLimit: number, extra: Record<string, unknown> = {}) => ({
+    startDate,
+    endDate,
+    dimensions,
+    rowLimit,
+    ...extra,
+    ...(args.type ? { searchType: args.type } : {}),
+  });
+  // The site series and every slice read from one source so contributor deltas add up.
+  const dataSource = resolveDataSource(
+    warehouse,
+    args.siteUrl,
+    [
+      bodyFor(['date'], 25000),
+      ...(
+        [
+          ['query', ['query']],
+          ['country', ['country']],
+          ['device', ['device']],
+          ['searchAppearance', ['searchAppearance']],
+          ['countryDevice', ['country', 'device']],
+        ] as const
+      )
+        .filter(([slice]) => wanted.has(slice))
+        .map(([slice, keyDimensions]) =>
+          bodyFor(slice === 'searchAppearance' ? [...keyDimensions] : ['date', ...keyDimensions], args.maxRows),
+        ),
+    ],
+    args.dataSource,
+  );
+
+  const fetchRows = async (
+    dimensions: string[],
+    rowLimit: number,
+    extra: Record<string, unknown> = {},
+  ): Promise<SearchAnalyticsRow[]> => {
+    const result = await fetchSearchAnalyticsRows(
+      service,
+      warehouse,
+      args.siteUrl,
+      bodyFor(dimensions, rowLimit, extra),
+      dataSource,
+    );
+    sources.push(result.source);
+    return result.rows;
+  };
+  const fetchBreakdown = async (slice: AnomalySliceDimension, keyDimensions: string[]) => {
+    const rows = await fetchRows(['date', ...keyDimensions], args.maxRows);
+    if (rows.length >= args.maxRows) truncated.push(slice);
+    return collectSeries(rows, slice, keyDimensions);
+  };
+
+  // searchAppearance cannot be grouped with date, so each appearance gets its own date-only request.
+  const fetchAppearances = async (): Promise<SliceSeries[]> => {
+    const totals = await fetchRows(['searchAppearance'], 1000);
+    const top = [...totals]
+      .sort((a, b) => (b.clicks ?? 0) - (a.clicks ?? 0))
+      .slice(0, args.maxSlices)
+      .map((row) => row.keys?.[0] ?? '')
+      .filter((appearance) => appearance.length > 0);
+    return Promise.all(
+      top.map(async (appearance) => {
+        const rows = await fetchRows(['date'], 25000, {
+          dimensionFilterGroups: [
+            { groupType: 'and', filters: [{ dimension: 'searchAppearance', operator: 'equals', expression: appearance }] },
+          ],
+        });
+        const [series] = collectSeries(rows, 'searchAppearance', []);
+        return {
+          slice: 'searchAppearance' as const,
+          key: { searchAppearance: appearance },
+          clicks: series?.clicks ?? new Map<string, number>(),
+          impressions: series?.impressions ?? new Map<string, number>(),
+          totalClicks: series?.totalClicks ?? 0,
+        };
+      }),
+    );
+  };
+
+  const [siteRows, queries, countries, devices, appearances, countryDevices] = await Promise.all([
+    fetchRows(['date'], 25000),
+    wanted.has('query') ? fetchBreakdown('query', ['query']) : [],
+    wanted.has('country') ? fetchBreakdown('country', ['country']) : [],
+    wanted.has('device') ? fetchBreakdown('device', ['device']) : [],
+    wanted.has('searchAppearance') ? fetchAppearances() : [],
+    wanted.has('countryDevice') ? fetchBreakdown('countryDevice', ['country', 'device']) : [],
+  ]);
+
+  const site = collectSeries(siteRows, 'site', []);
+  const slices: SliceSeries[] = [
+    ...(wanted.has('site') ? site : []),
+    ...topByClicks(queries, args.topQueries),
+    ...topByClicks(countries, args.maxSlices),
+    ...devices,
+    ...appearances,
+    ...topByClicks(countryDevices, args.maxSlices),
+  ];
+
+  // Stop at the last day with sitewide data so unfinished days do not read as dips.
+  const observed = [...(site[0]?.clicks.keys() ?? [])].sort();
+  const dates = observed.length > 0 ? eachDate(startDate, observed[observed.length - 1]) : [];
+
+  const events: Array<AnomalyEvent & { indexes: number[]; deviations: number[] }> = [];
+  for (const series of slices) {
+    for (const metric of args.metrics) {
+      const values = dates.map((date) => series[metric].get(date) ?? 0);
+      const baselines = rollingBaseline(values, args.windowDays);
+      const deviations = values.map((value, i) => value - (baselines[i]?.expected ?? value));
+      const runs = groupAnomalyRuns(detectRollingAnomalies(values, args.windowDays, args.threshold, baselines));
+      for (const run of runs) {
+        const delta = run.actual - run.expected;
+        events.push({
+          slice: series.slice,
+          key: series.key,
+          label: sliceLabel(series.key),
+          metric,
+          direction: run.direction,
+          severity: anomalySeverity(run, args.threshold),
+          onset: dates[run.start],
+          end: dates[run.end],
+          days: run.end - run.start + 1,
+          peakZ: Number(run.peakZ.toFixed(2)),
+          actual: run.actual,
+          expected: round1(run.expected),
+          delta: round1(delta),
+          deltaPct: run.expected > 0 ? round1((delta / run.expected) * 100) : null,
+          indexes: run.indexes,
+          deviations,
+        });
+      }
+    }
+  }
+
+  // A contributor is a narrower slice with an overlapping anomaly in the same direction; its
+  // delta is its own deviation on the days this anomaly was flagged, so shares are comparable.
+  const withContributors = events.map(({ indexes, deviations: _deviations, ...event }) => {
+    const contributors = events
+      .filter(
+        (other) =>
+          other.metric === event.metric &&
+          other.direction === event.direction &&
+          other.onset <= event.end &&
+          other.end >= event.onset &&
+          refines(event.key, other.key),
+      )
+      .map((other) => ({ other, delta: indexes.reduce((sum, i) => sum + other.deviations[i], 0) }))
+      .sort(
+        (a, b) =>
+          Math.abs(b.delta) - Math.abs(a.delta) ||
+          Object.keys(b.other.key).length - Object.keys(a.other.key).length,
+      )
+      .slice(0, 5)
+      .map(({ other, delta }) => ({
+        label: other.label,
+        slice: other.slice,
+        key: other.key,
+        onset: other.onset,
+        delta: round1(delta),
+        sharePct: event.delta !== 0 ? round1((delta / event.delta) * 100) : null,
+      }));
+    return { ...event, contributors };
+  });
+
+  withContributors.sort(
+    (a, b) =>
+      SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] ||
+      Math.abs(b.delta) - Math.abs(a.delta) ||
+      b.onset.localeCompare(a.onset),
+  );
+
+  const slicesScanned = Object.fromEntries(
+    args.slices.map((slice) => [slice, slices.filter((series) => series.slice === slice).length]),
+  );
+
+  return jsonResult({
+    siteUrl: args.siteUrl,
+    period: { startDate, endDate: dates[dates.length - 1] ?? endDate, days: dates.length },
+    scannedFrom: dates[args.windowDays] ?? null,
+    method: 'rolling-median-mad',
+    windowDays: args.windowDays,
+    threshold: args.threshold,
+    dataSource: sources.length > 0 ? summarizeSources(sources) : 'api',
+    ...(truncated.length > 0 ? { truncated } : {}),
+    slicesScanned,
+    eventCount: events.length,
+    bySeverity: {
+      high: events.filter((event) => event.severity === 'high').length,
+      medium: events.filter((event) => event.severity === 'medium').length,
+      low: events.filter((event) => event.severity === 'low').length,
+    },
+    events: withContributors.slice(0, args.maxEvents),
+  });
+}
@@ -1,6 +1,7 @@
 import { SearchConsoleService } from '../service.js';
 import {
   ComparePeriodsSchema,
+  type ComparePeriodsInput,
   ContentDecaySchema,
   CannibalizationSchema,
   DiffKeywordsSchema,
@@ -8,10 +9,30 @@ import {
   CtrAnalysisSchema,
   SearchTypeBreakdownSchema,
 } from '../schemas/computed.js';
-import { comparePeriods, resolveDateRange, splitExplicitDateRange } from '../utils/dates.js';
+import {
+  comparePeriods,
+  inclusiveDayCount,
+  resolveComparisonPeriods,
+  resolveDateRange,
+  splitExplicitDateRange,
+} from '../utils/dates.js';
+import {
+  fetchFilteredRows,
+  filterGroupVariants,
+  orFilterSummary,
+  planFilters,
+  withFilterGroups,
+} from '../utils/filters.js';
+import { reportProgress } from '../utils/progress.js';
 import { rateLimited } from '../utils/retry.js';
-import { clusterQuery, labelQueryIntent } from '../utils/seo-analysis.js';
+import { clusterQuery, expectedCtr, labelQueryIntent } from '../utils/seo-analysis.js';
 import { jsonResult, type ToolResult, type SearchAnalyticsRow } from '../utils/types.js';
+import {
+  fetchSearchAnalyticsRows,
+  resolveDataSource,
+  summarizeSources,
+  type AnalyticsWarehouse,
+} from '../utils/warehouse.js';
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -28,23 +49,27 @@ function pctChange(current: number, previous: number): number | null {
   return Number((((current - previous) / previous) * 100).toFixed(2));
 }
 
-/** Average position CTR benchmarks (rough Google organic) */
-const CTR_BENCHMARKS: Record<number, number> = {
-  1: 28.5,
-  2: 15.7,
-  3: 11.0,
-  4: 8.0,
-  5: 7.2,
-  6: 5.1,
-  7: 4.0,
-  8: 3.2,
-  9: 2.8,
-  10: 2.5,
+/** Two-sided z critical values for the supported confidence levels */
+const Z_CRITICAL: Record<ComparePeriodsInput['confidence'], number> = {
+  0.9: 1.645,
+  0.95: 1.96,
+  0.99: 2.576,
 };
 
-function expectedCtr(position: number): number {
-  const rounded = Math.min(Math.max(Math.round(position), 1), 10);
-  return CTR_BENCHMARKS[rounded] ?? 2.0;
+/** z-score for a change in daily click rate, treating clicks as Poisson counts */
+function rateChangeZ(countA: number, daysA: number, countB: number, daysB: number): number {
+  const variance = countA / daysA ** 2 + countB / daysB ** 2;
+  if (variance === 0) return 0;
+  return Number(((countA / daysA - countB / daysB) / Math.sqrt(variance)).toFixed(2));
+}
+
+/** Two-proportion z-score for a CTR change; null without impressions in both periods */
+function ctrChangeZ(clicksA: number, imprA: number, clicksB: number, imprB: number): number | null {
+  if (imprA === 0 || imprB === 0) return null;
+  const pooled = (clicksA + clicksB) / (imprA + imprB);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / imprA + 1 / imprB));
+  if (standardError === 0) return 0;
+  return Number(((clicksA / imprA - clicksB / imprB) / standardError).toFixed(2));
 }
 
 // ---------------------------------------------------------------------------
@@ -54,42 +79,52 @@ function expectedCtr(position: number): number {
 export async function handleComparePeriods(
   service: SearchConsoleService,
   raw: unknown,
+  warehouse: AnalyticsWarehouse | null = null,
 ): Promise<ToolResult> {
   const args = ComparePeriodsSchema.parse(raw);
-  const { periodA, periodB } = comparePeriods(args.days);
-
+  const { periodA, periodB } = resolveComparisonPeriods(args);
+  const daysA = inclusiveDayCount(periodA.startDate, periodA.endDate);
+  const daysB = inclusiveDayCount(periodB.startDate, periodB.endDate);
+  // Periods of different lengths (months, custom ranges) are compared per day.
+  const normalized = daysA !== daysB;
+  const perDay = (value: number, days: number) => Number((value / days).toFixed(2));
+  const zCritical = Z_CRITICAL[args.confidence];
+
+  const dimensions = args.dimensions ?? ['query'];
   const baseBody: Record<string, unknown> = {
-    dimensions: args.dimensions ?? ['query'],
+    dimensions,
     rowLimit: args.rowLimit,
     searchType: args.type,
   };
 
-  if (args.deviceFilter) {
-    baseBody.dimensionFilterGroups = [
-      {
-        groupType: 'and',
-        filters: [
-          { dimension: 'device', operator: 'equals', expression: args.deviceFilter },
-        ],
-      },
-    ];
-  }
+  const plan = planFilters(
+    [
+      ...(args.deviceFilter ? [{ dimension: 'device', operator: 'equals', expression: args.deviceFilter }] : []),
+      ...(args.filters ?? []),
+    ],
+    args.filterGroups,
+  );
+  const { orGroups } = plan;
+
+  const bodyA = { ...baseBody, startDate: periodA.startDate, endDate: periodA.endDate };
+  const bodyB = { ...baseBody, startDate: periodB.startDate, endDate: periodB.endDate };
+  const dataSource = resolveDataSource(
+    warehouse,
+    args.siteUrl,
+    filterGroupVariants(plan, dimensions).flatMap((groups) => [bodyA, bodyB].map((body) => withFilterGroups(body, groups))),
+    args.dataSource,
+  );
+  const sources: Array<'api' | 'warehouse'> = [];
+  const fetchPeriod = (body: Record<string, unknown>) =>
+    fetchFilteredRows(plan, dimensions, args.rowLimit, async (groups) => {
+      const result = await fetchSearchAnalyticsRows(service, warehouse, args.siteUrl, withFilterGroups(body, groups), dataSource);
+      sources.push(result.source);
+      return result.rows;
+    });
+  const [resA, resB] = await Promise.all([fetchPeriod(bodyA), fetchPeriod(bodyB)]);
 
-  const [resA, resB] = await Promise.all([
-    service.searchAnalytics(args.siteUrl, {
-      ...baseBody,
-      startDate: periodA.startDate,
-      endDate: periodA.endDate,
-    }),
-    service.searchAnalytics(args.siteUrl, {
-      ...baseBody,
-      startDate: periodB.startDate,
-      endDate: periodB.endDate,
-    }),
-  ]);
-
-  const dataA = (resA.data as { rows?: SearchAnalyticsRow[] }).rows ?? [];
-  const dataB = (resB.data as { rows?: SearchAnalyticsRow[] }).rows ?? [];
+  const dataA = resA.rows;
+  const dataB = resB.rows;
 
   // Index both periods by key
   const mapA = new Map<string, SearchAnalyticsRow>();
@@ -111,28 +146,62 @@ export async function handleComparePeriods(
     const posA = rowA?.position ?? 0;
     const posB = rowB?.position ?? 0;
 
+    const clicksZ = rateChangeZ(clicksA, daysA, clicksB, daysB);
+    const ctrZ = ctrChangeZ(clicksA, imprA, clicksB, imprB);
+    const clicksSignificant = Math.abs(clicksZ) >= zCritical;
+
     return {
       keys: rowA?.keys ?? rowB?.keys ?? [],
-      periodA: { clicks: clicksA, impressions: imprA, ctr: Number(ctrA.toFixed(2)), position: Number(posA.toFixed(1)) },
-      periodB: { clicks: clicksB, impressions: imprB, ctr: Number(ctrB.toFixed(2)), position: Number(posB.toFixed(1)) },
+      periodA: {
+        clicks: clicksA,
+        impressions: imprA,
+        ctr: Number(ctrA.toFixed(2)),
+        position: Number(posA.toFixed(1)),
+        ...(normalized ? { clicksPerDay: perDay(clicksA, daysA), impressionsPerDay: perDay(imprA, daysA) } : {}),
+      },
+      periodB: {
+        clicks: clicksB,
+        impressions: imprB,
+        ctr: Number(ctrB.toFixed(2)),
+        position: Number(posB.toFixed(1)),
+        ...(normalized ? { clicksPerDay: perDay(clicksB, daysB), impressionsPerDay: perDay(imprB, daysB) } : {}),
+      },
       delta: {
         clicks: clicksA - clicksB,
         impressions: imprA - imprB,
         ctr: Number((ctrA - ctrB).toFixed(2)),
         position: Number((posA - posB).toFixed(1)),
-        clicksPct: pctChange(clicksA, clicksB),
-        impressionsPct: pctChange(imprA, imprB),
+        ...(normalized
+          ? { clicksPerDay: Number((clicksA / daysA - clicksB / daysB).toFixed(2)) }
+          : {}),
+        clicksPct: pctChange(clicksA / daysA, clicksB / daysB),
+        impressionsPct: pctChange(imprA / daysA, imprB / daysB),
+      },
+      significance: {
+        clicksZ,
+        clicksSignificant,
+        ctrZ,
+        ctrSignificant: ctrZ !== null && Math.abs(ctrZ) >= zCritical,
+        trend: !clicksSignificant ? 'noise' : clicksZ > 0 ? 'up' : 'down',
       },
     };
   });
 
-  // Sort by absolute click change descending
-  comparisons.sort((a, b) => Math.abs(b.delta.clicks) - Math.abs(a.delta.clicks));
+  // Sort by absolute click change descending (per day when lengths differ)
+  comparisons.sort(
+    (a, b) => Math.abs(b.delta.clicksPerDay ?? b.delta.clicks) - Math.abs(a.delta.clicksPerDay ?? a.delta.clicks),
+  );
 
   return jsonResult({
-    periodA,
-    periodB,
+    mode: args.mode,
+    periodA: { ...periodA, days: daysA },
+    periodB: { ...periodB, days: daysB },
+    normalized,
+    confidence: args.confidence,
+    dataSource: summarizeSources(sources),
+    ...orFilterSummary(orGroups, resA, resB),
     totalRows: comparisons.length,
+    significantRows: comparisons.filter((row) => row.significance.clicksSignificant).length,
     comparisons,
   });
 }
@@ -144,6 +213,7 @@ export async function handleComparePeriods(
 export async function handleContentDecay(
   service: SearchConsoleService,
   raw: unknown,
+  warehouse: AnalyticsWarehouse | null = null,
 ): Promise<ToolResult> {
   const args = ContentDecaySchema.parse(raw);
   const hasExplicitRange =
@@ -163,22 +233,30 @@ export async function handleContentDecay(
     dimensions: ['page'],
     rowLimit: args.rowLimit,
   };
+  const plan = planFilters(args.filters ?? [], args.filterGroups);
+  const { orGroups } = plan;
+
+  const recentBody = { ...baseBody, startDate: periodA.startDate, endDate: periodA.endDate };
+  const priorBody = { ...baseBody, startDate: periodB.startDate, endDate: periodB.endDate };
+  const dataSource = resolveDataSource(
+    warehouse,
+    args.siteUrl,
+    filterGroupVariants(plan, ['page']).flatMap((groups) =>
+      [recentBody, priorBody].map((body) => withFilterGroups(body, groups)),
+    ),
+    args.dataSource,
+  );
+  const sources: Array<'api' | 'warehouse'> = [];
+  const fetchPeriod = (body: Record<string, unknown>) =>
+    fetchFilteredRows(plan, ['page'], args.rowLimit, async (groups) => {
+      const result = await fetchSearchAnalyticsRows(service, warehouse, args.siteUrl, withFilterGroups(body, groups), dataSource);
+      sources.push(result.source);
+      return result.rows;
+    });
+  const [resRecent, resPrior] = await Promise.all([fetchPeriod(recentBody), fetchPeriod(priorBody)]);
 
-  const [resRecent, resPrior] = await Promise.all([
-    service.searchAnalytics(args.siteUrl, {
-      ...baseBody,
-      startDate: periodA.startDate,
-      endDate: periodA.endDate,
-    }),
-    service.searchAnalytics(args.siteUrl, {
-      ...baseBody,
-      startDate: periodB.startDate,
-      endDate: periodB.endDate,
-    }),
-  ]);
-
-  const recent = (resRecent.data as { rows?: SearchAnalyticsRow[] }).rows ?? [];
-  const prior = (resPrior.data as { rows?: SearchAnalyticsRow[] }).rows ?? [];
+  const recent = resRecent.rows;
+  const prior = resPrior.rows;
 
   // Index recent by page URL
   const recentMap = new Map<string, SearchAnalyticsRow>();
@@ -211,6 +289,8 @@ export async function handleContentDecay(
   return jsonResult({
     recentPeriod: periodA,
     priorPeriod: periodB,
+    dataSource: summarizeSources(sources),
+    ...orFilterSummary(orGroups, resRecent, resPrior),
     minClicksInPrior: args.minClicksInPrior,
     decayingPages: decaying.length,
     pages: decaying,
@@ -329,22 +409,17 @@ export async function handleDiffKeywords(
     dimensions: ['query'],
     rowLimit: args.rowLimit,
   };
+  const plan = planFilters(args.filters ?? [], args.filterGroups);
+  const { orGroups } = plan;
 
-  const [resA, resB] = await Promise.all([
-    service.searchAnalytics(args.siteUrl, {
-      ...baseBody,
-      startDate: periodA.startDate,
-      endDate: periodA.endDate,
-    }),
-    service.searchAnalytics(args.siteUrl, {
-      ...baseBody,
-      startDate: periodB.startDate,
-      endDate: periodB.endDate,
-    }),
-  ]);
-
-  const rowsA = (resA.data as { rows?: SearchAnalyticsRow[] }).rows ?? [];
-  const rowsB = (resB.data as { rows?: SearchAnalyticsRow[] }).rows ?? [];
+  const fetchPeriod = (period: { startDate: string; endDate: string }) =>
+    fetchFilteredRows(plan, ['query'], args.rowLimit, async (groups) => {
+      const response = await service.searchAnalytics(args.siteUrl, withFilterGroups({ ...baseBody, ...period }, groups));
+      return (response.data as { rows?: SearchAnalyticsRow[] }).rows ?? [];
+    });
+  const [resA, resB] = await Promise.all([fetchPeriod(periodA), fetchPeriod(periodB)]);
+  const rowsA = resA.rows;
+  const rowsB = resB.rows;
 
   const setA = new Map<string, SearchAnalyticsRow>();
   const setB = new Map<string, SearchAnalyticsRow>();
@@ -384,6 +459,7 @@ export async function handleDiffKeywords(
   return jsonResult({
     periodA,
     periodB,
+    ...orFilterSummary(orGroups, resA, resB),
     newKeywords: { count: newKeywords.length, keywords: newKeywords },
     lostKeywords: { count: lostKeywords.length, keywords: lostKeywords },
   });
@@ -401,7 +477,7 @@ export async function handleBatchInspect(
 
   // Rate-limit to 1 request per second as per GSC API limits
   const fns = args.urls.map(
-    (url) => () =>
+    (url, index) => () =>
       service
         .indexInspect({
           siteUrl: args.siteUrl,
@@ -417,7 +493,8 @@ export async function handleBatchInspect(
           url,
           result: null as unknown,
           error: err?.message ?? 'Inspection failed',
-        })),
+        }))
+        .finally(() => reportProgress(index + 1, args.urls.length, `inspected ${index + 1}/${args.urls.length} URLs`)),
   );
 
   const inspections = await rateLimited(fns, 1000);
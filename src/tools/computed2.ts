@@ -9,9 +9,19 @@ import {
 import {
   resolveDateRange,
   comparePeriods,
+  daysAgo,
   formatDate,
   splitExplicitDateRange,
 } from '../utils/dates.js';
+import { currentAbortSignal } from '../utils/cancellation.js';
+import {
+  fetchFilteredRows,
+  filterGroupVariants,
+  orFilterSummary,
+  planFilters,
+  withFilterGroups,
+} from '../utils/filters.js';
+import { reportProgress, withProgressStep } from '../utils/progress.js';
 import { rateLimited } from '../utils/retry.js';
 import {
   clusterQuery,
@@ -22,6 +32,12 @@ import {
   labelQueryIntent,
 } from '../utils/seo-analysis.js';
 import { jsonResult, type ToolResult, type SearchAnalyticsRow } from '../utils/types.js';
+import {
+  fetchSearchAnalyticsRows,
+  resolveDataSource,
+  summarizeSources,
+  type AnalyticsWarehouse,
+} from '../utils/warehouse.js';
 
 function parseSitemapLocs(xml: string): string[] {
   const matches = Array.from(xml.matchAll(/<loc>([^<]+)<\/loc>/gi));
@@ -41,7 +57,7 @@ async function fetchSitemapUrls(seedSitemapUrls: string[], maxUrls: number): Pro
     visited.add(current);
 
     try {
-      const response = await fetch(current);
+      const response = await fetch(current, { signal: currentAbortSignal() });
       if (!response.ok) continue;
       const xml = await response.text();
       const locs = parseSitemapLocs(xml);
@@ -57,6 +73,7 @@ async function fetchSitemapUrls(seedSitemapUrls: string[], maxUrls: number): Pro
     } catch {
       // Ignore malformed or inaccessible sitemap URLs.
     }
+    reportProgress(urls.length, maxUrls, `read ${visited.size} sitemap(s), found ${urls.length}/${maxUrls} URLs`);
   }
 
   return urls;
@@ -251,7 +268,9 @@ export async function handleIndexingHealthReport(
 
   if (args.source === 'sitemap' || args.source === 'combined') {
     const sitemapSeeds = [...(args.sitemapUrls ?? [])];
-    const sitemapUrls = await fetchSitemapUrls(sitemapSeeds, args.topN);
+    const sitemapUrls = await withProgressStep(0, 2, 'collecting URLs', () =>
+      fetchSitemapUrls(sitemapSeeds, args.topN),
+    );
     if (sitemapUrls.length > 0) {
       urlBuckets.push(sitemapUrls);
     }
@@ -285,7 +304,7 @@ export async function handleIndexingHealthReport(
 
   // Step 2: Rate-limited batch inspection (1 req/sec)
   const fns = urls.map(
-    (url) => () =>
+    (url, index) => () =>
       service
         .indexInspect({
           siteUrl: args.siteUrl,
@@ -297,10 +316,11 @@ export async function handleIndexingHealthReport(
           url,
           result: null as unknown,
           error: err?.message ?? 'Inspection failed',
-        })),
+        }))
+        .finally(() => reportProgress(index + 1, urls.length, `inspected ${index + 1}/${urls.length} URLs`)),
   );
 
-  const inspections = await rateLimited(fns, 1000);
+  const inspections = await withProgressStep(1, 2, 'inspecting URLs', () => rateLimited(fns, 1000));
 
   // Step 3: Aggregate by coverage state
   const byCoverageState: Record<string, number> = {};
@@ -648,6 +668,7 @@ export async function handleCannibalizationResolver(
 export async function handleDropAlerts(
   service: SearchConsoleService,
   raw: unknown,
+  warehouse: AnalyticsWarehouse | null = null,
 ): Promise<ToolResult> {
   const args = DropAlertsSchema.parse(raw);
   const hasExplicitRange =
@@ -666,44 +687,42 @@ export async function handleDropAlerts(
     dimensions: ['page'],
     rowLimit: args.rowLimit,
   };
-
-  const [resRecent, resPrior] = await Promise.all([
-    service.searchAnalytics(args.siteUrl, {
-      ...baseBody,
-      startDate: periodA.startDate,
-      endDate: periodA.endDate,
-    }),
-    service.searchAnalytics(args.siteUrl, {
-      ...baseBody,
-      startDate: periodB.startDate,
-      endDate: periodB.endDate,
-    }),
-  ]);
-
-  const recent =
-    (resRecent.data as { rows?: SearchAnalyticsRow[] }).rows ?? [];
-  const prior =
-    (resPrior.data as { rows?: SearchAnalyticsRow[] }).rows ?? [];
+  const plan = planFilters(args.filters ?? [], args.filterGroups);
+  const { orGroups } = plan;
+
+  const recentBody = { ...baseBody, startDate: periodA.startDate, endDate: periodA.endDate };
+  const priorBody = { ...baseBody, startDate: periodB.startDate, endDate: periodB.endDate };
+  // The seasonal prior is the same window 364 days before period A.
+  const seasonalBody = {
+    ...baseBody,
+    startDate: formatDate(daysAgo(364, new Date(`${periodA.startDate}T00:00:00.000Z`))),
+    endDate: formatDate(daysAgo(364, new Date(`${periodA.endDate}T00:00:00.000Z`))),
+  };
+  const periodBodies = args.seasonalAdjustment ? [recentBody, priorBody, seasonalBody] : [recentBody, priorBody];
+  const dataSource = resolveDataSource(
+    warehouse,
+    args.siteUrl,
+    filterGroupVariants(plan, ['page']).flatMap((groups) => periodBodies.map((body) => withFilterGroups(body, groups))),
+    args.dataSource,
+  );
+  const sources: Array<'api' | 'warehouse'> = [];
+  const fetchPeriod = (body: Record<string, unknown>) =>
+    fetchFilteredRows(plan, ['page'], args.rowLimit, async (groups) => {
+      const result = await fetchSearchAnalyticsRows(service, warehouse, args.siteUrl, withFilterGroups(body, groups), dataSource);
+      sources.push(result.source);
+      return result.rows;
+    });
+  const [resRecent, resPrior] = await Promise.all([fetchPeriod(recentBody), fetchPeriod(priorBody)]);
+  const recent = resRecent.rows;
+  const prior = resPrior.rows;
 
   const recentMap = new Map<string, SearchAnalyticsRow>();
   for (const row of recent) recentMap.set(row.keys?.[0] ?? '', row);
 
   let seasonalPriorMap = new Map<string, SearchAnalyticsRow>();
   if (args.seasonalAdjustment) {
-    const seasonalRecentStart = new Date(`${periodA.startDate}T00:00:00.000Z`);
-    const seasonalRecentEnd = new Date(`${periodA.endDate}T00:00:00.000Z`);
-    const seasonalPriorStart = new Date(seasonalRecentStart);
-    const seasonalPriorEnd = new Date(seasonalRecentEnd);
-    seasonalPriorStart.setUTCDate(seasonalPriorStart.getUTCDate() - 364);
-    seasonalPriorEnd.setUTCDate(seasonalPriorEnd.getUTCDate() - 364);
-
-    const seasonalPriorResponse = await service.searchAnalytics(args.siteUrl, {
-      ...baseBody,
-      startDate: formatDate(seasonalPriorStart),
-      endDate: formatDate(seasonalPriorEnd),
-    });
-    const seasonalPriorRows = (seasonalPriorResponse.data as { rows?: SearchAnalyticsRow[] }).rows ?? [];
-    seasonalPriorMap = new Map(seasonalPriorRows.map((row) => [row.keys?.[0] ?? '', row]));
+    const seasonalPrior = await fetchPeriod(seasonalBody);
+    seasonalPriorMap = new Map(seasonalPrior.rows.map((row) => [row.keys?.[0] ?? '', row]));
   }
 
   const alerts = prior
@@ -754,7 +773,7 @@ export async function handleDropAlerts(
   if (args.includeChangePoints) {
     await Promise.all(
       topAlertPages.map(async (page) => {
-        const trendResponse = await service.searchAnalytics(args.siteUrl, {
+        const trend = await fetchSearchAnalyticsRows(service, warehouse, args.siteUrl, {
           startDate: periodB.startDate,
           endDate: periodA.endDate,
           dimensions: ['date', 'page'],
@@ -764,9 +783,11 @@ export async function handleDropAlerts(
               groupType: 'and',
               filters: [{ dimension: 'page', operator: 'equals', expression: page }],
             },
+            ...(plan.dimensionFilterGroups ?? []),
           ],
-        });
-        const trendRows = (trendResponse.data as { rows?: SearchAnalyticsRow[] }).rows ?? [];
+        }, args.dataSource);
+        sources.push(trend.source);
+        const trendRows = trend.rows;
         const series = trendRows
           .map((row) => ({
             date: row.keys?.[0] ?? '',
@@ -788,6 +809,8 @@ export async function handleDropAlerts(
     siteUrl: args.siteUrl,
     recentPeriod: periodA,
     priorPeriod: periodB,
+    dataSource: summarizeSources(sources),
+    ...orFilterSummary(orGroups, resRecent, resPrior),
     threshold: args.threshold,
     minClicks: args.minClicks,
     seasonalAdjustment: args.seasonalAdjustment,
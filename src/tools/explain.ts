@@ -0,0 +1,319 @@
+import { SearchConsoleService } from '../service.js';
+import { ExplainTrafficChangeSchema, type ExplainDimension } from '../schemas/explain.js';
+import { inclusiveDayCount, resolveComparisonPeriods } from '../utils/dates.js';
+import {
+  deriveBrandTerms,
+  detectBrandSegment,
+  detectPageTemplate,
+  interpolatedCtr,
+  labelQueryIntent,
+} from '../utils/seo-analysis.js';
+import { jsonResult, type SearchAnalyticsRow, type ToolResult } from '../utils/types.js';
+import {
+  fetchSearchAnalyticsRows,
+  resolveDataSource,
+  summarizeSources,
+  type AnalyticsWarehouse,
+} from '../utils/warehouse.js';
+
+/** Search types the searchType dimension compares; Discover and Google News have no positions. */
+const EXPLAIN_SEARCH_TYPES = ['web', 'image', 'video', 'news'] as const;
+
+type MixEffect = 'impressions' | 'position' | 'ctr';
+
+interface Totals {
+  clicks: number;
+  impressions: number;
+  /** Sum of position × impressions, so averages survive aggregation. */
+  positionWeight: number;
+}
+
+interface Segment {
+  segment: string;
+  clicksA: number;
+  clicksB: number;
+  delta: number;
+  sharePct: number | null;
+  effects: Record<MixEffect, number>;
+  primaryEffect: MixEffect | null;
+}
+
+function emptyTotals(): Totals {
+  return { clicks: 0, impressions: 0, positionWeight: 0 };
+}
+
+function addRow(totals: Totals, row: SearchAnalyticsRow, scale = 1): void {
+  totals.clicks += (row.clicks ?? 0) * scale;
+  totals.impressions += (row.impressions ?? 0) * scale;
+  totals.positionWeight += (row.position ?? 0) * (row.impressions ?? 0) * scale;
+}
+
+function round1(value: number): number {
+  return Number(value.toFixed(1));
+}
+
+/**
+ * Split a click change into impressions, position and CTR effects that sum to
+ * the change exactly. Impressions and CTR use midpoint weights; the part of the
+ * CTR change that the benchmark curve expects from the average-position move is
+ * the position effect, and the rest is CTR at the same position. The benchmark
+ * is flat from position 11, so moves past page one have no position effect.
+ */
+function mixEffects(a: Totals, b: Totals): Record<MixEffect, number> {
+  const ctrA = a.impressions > 0 ? a.clicks / a.impressions : 0;
+  const ctrB = b.impressions > 0 ? b.clicks / b.impressions : 0;
+  const meanCtr = (ctrA + ctrB) / 2;
+  const meanImpressions = (a.impressions + b.impressions) / 2;
+  const impressions = (a.impressions - b.impressions) * meanCtr;
+  const ctrChange = (ctrA - ctrB) * meanImpressions;
+  let position = 0;
+  if (a.impressions > 0 && b.impressions > 0) {
+    const benchmarkRatio =
+      interpolatedCtr(a.positionWeight / a.impressions) / interpolatedCtr(b.positionWeight / b.impressions);
+    position = meanCtr * (benchmarkRatio - 1) * meanImpressions;
+  }
+  return { impressions, position, ctr: ctrChange - position };
+}
+
+/** Round effects once for output; CTR takes the rounding residual, so they still sum to the rounded delta. */
+function roundEffects(effects: Record<MixEffect, number>, delta: number): Record<MixEffect, number> {
+  const impressions = round1(effects.impressions);
+  const position = round1(effects.position);
+  return { impressions, position, ctr: round1(round1(delta) - impressions - position) };
+}
+
+function primaryEffect(effects: Record<MixEffect, number>): MixEffect | null {
+  const ranked = (Object.entries(effects) as Array<[MixEffect, number]>).sort(
+    (x, y) => Math.abs(y[1]) - Math.abs(x[1]),
+  );
+  return ranked[0][1] !== 0 ? ranked[0][0] : null;
+}
+
+function toSegment(name: string, a: Totals, b: Totals, headlineDelta: number): Segment {
+  const delta = a.clicks - b.clicks;
+  const effects = roundEffects(mixEffects(a, b), delta);
+  return {
+    segment: name,
+    clicksA: round1(a.clicks),
+    clicksB: round1(b.clicks),
+    delta: round1(delta),
+    sharePct: headlineDelta !== 0 ? round1((delta / headlineDelta) * 100) : null,
+    effects,
+    primaryEffect: primaryEffect(effects),
+  };
+}
+
+function formatSigned(value: number): string {
+  return `${value > 0 ? '+' : ''}${Math.round(value).toLocaleString('en-US')}`;
+}
+
+export async function handleExplainTrafficChange(
+  service: SearchConsoleService,
+  raw: unknown,
+  warehouse: AnalyticsWarehouse | null = null,
+): Promise<ToolResult> {
+  const args = ExplainTrafficChangeSchema.parse(raw);
+  const { periodA, periodB } = resolveComparisonPeriods(args);
+  const daysA = inclusiveDayCount(periodA.startDate, periodA.endDate);
+  const daysB = inclusiveDayCount(periodB.startDate, periodB.endDate);
+  // Periods of different lengths: scale the baseline to period A's length.
+  const scaleB = daysA / daysB;
+  const wanted = new Set(args.dimensions);
+  const brandTerms = deriveBrandTerms(args.siteUrl, args.brandTerms);
+  const sources: Array<'api' | 'warehouse'> = [];
+  const truncated: ExplainDimension[] = [];
+
+  const request = (dimensions: string[], rowLimit = 25000, searchType: string | undefined = args.type) => ({
+    dimensions,
+    rowLimit,
+    searchType,
+  });
+  type BreakdownRequest = ReturnType<typeof request>;
+  const needsQueries = wanted.has('brand') || wanted.has('intent');
+  const plan = {
+    headline: request([]),
+    device: wanted.has('device') ? request(['device']) : null,
+    country: wanted.has('country') ? request(['country']) : null,
+    template: wanted.has('template') ? request(['page'], args.maxRows) : null,
+    query: needsQueries ? request(['query'], args.maxRows) : null,
+    searchTypes: wanted.has('searchType')
+      ? EXPLAIN_SEARCH_TYPES.map((searchType) => request([], 25000, searchType))
+      : [],
+  };
+  const bodyFor = (period: { startDate: string; endDate: string }, { searchType, ...rest }: BreakdownRequest) => ({
+    ...period,
+    ...rest,
+    ...(searchType ? { searchType } : {}),
+  });
+  // Both periods and every breakdown read from one source so their totals are comparable.
+  const dataSource = resolveDataSource(
+    warehouse,
+    args.siteUrl,
+    [plan.headline, plan.device, plan.country, plan.template, plan.query, ...plan.searchTypes]
+      .filter((entry): entry is BreakdownRequest => entry !== null)
+      .flatMap((entry) => [bodyFor(periodA, entry), bodyFor(periodB, entry)]),
+    args.dataSource,
+  );
+
+  const fetchPeriod = async (
+    period: { startDate: string; endDate: string },
+    entry: BreakdownRequest,
+  ): Promise<SearchAnalyticsRow[]> => {
+    const result = await fetchSearchAnalyticsRows(service, warehouse, args.siteUrl, bodyFor(period, entry), dataSource);
+    sources.push(result.source);
+    return result.rows;
+  };
+  const fetchBoth = async (entry: BreakdownRequest) => {
+    const [a, b] = await Promise.all([fetchPeriod(periodA, entry), fetchPeriod(periodB, entry)]);
+    return { a, b };
+  };
+
+  const [headline, devices, countries, pages, queries, searchTypes] = await Promise.all([
+    fetchBoth(plan.headline),
+    plan.device ? fetchBoth(plan.device) : null,
+    plan.country ? fetchBoth(plan.country) : null,
+    plan.template ? fetchBoth(plan.template) : null,
+    plan.query ? fetchBoth(plan.query) : null,
+    Promise.all(plan.searchTypes.map(async (entry) => ({ searchType: entry.searchType ?? 'web', ...(await fetchBoth(entry)) }))),
+  ]);
+
+  const totalA = emptyTotals();
+  const totalB = emptyTotals();
+  for (const row of headline.a) addRow(totalA, row);
+  for (const row of headline.b) addRow(totalB, row, scaleB);
+  const headlineDelta = totalA.clicks - totalB.clicks;
+  const rawHeadlineEffects = mixEffects(totalA, totalB);
+  const headlineEffects = roundEffects(rawHeadlineEffects, headlineDelta);
+
+  /** Sum rows into segments for both periods. */
+  const segmentize = (
+    rows: { a: SearchAnalyticsRow[]; b: SearchAnalyticsRow[] },
+    label: (key: string) => string,
+    dimension: ExplainDimension,
+  ) => {
+    const bySegment = new Map<string, { a: Totals; b: Totals }>();
+    const add = (row: SearchAnalyticsRow, side: 'a' | 'b') => {
+      const name = label(row.keys?.[0] ?? '');
+      const entry = bySegment.get(name) ?? { a: emptyTotals(), b: emptyTotals() };
+      addRow(entry[side], row, side === 'b' ? scaleB : 1);
+      bySegment.set(name, entry);
+    };
+    rows.a.forEach((row) => add(row, 'a'));
+    rows.b.forEach((row) => add(row, 'b'));
+    if (rows.a.length >= args.maxRows || rows.b.length >= args.maxRows) truncated.push(dimension);
+    return bySegment;
+  };
+
+  const groups: Array<[ExplainDimension, Map<string, { a: Totals; b: Totals }>]> = [];
+  if (devices) groups.push(['device', segmentize(devices, (key) => key, 'device')]);
+  if (countries) groups.push(['country', segmentize(countries, (key) => key, 'country')]);
+  if (searchTypes.length > 0) {
+    const byType = new Map<string, { a: Totals; b: Totals }>();
+    for (const { searchType, a, b } of searchTypes) {
+      const entry = { a: emptyTotals(), b: emptyTotals() };
+      a.forEach((row) => addRow(entry.a, row));
+      b.forEach((row) => addRow(entry.b, row, scaleB));
+      byType.set(searchType, entry);
+    }
+    groups.push(['searchType', byType]);
+  }
+  if (pages) {
+    groups.push(['template', segmentize(pages, (page) => detectPageTemplate(page, args.templateRules ?? []), 'template')]);
+  }
+  if (queries && wanted.has('brand')) {
+    groups.push(['brand', segmentize(queries, (query) => detectBrandSegment(query, brandTerms), 'brand')]);
+  }
+  if (queries && wanted.has('intent')) {
+    groups.push(['intent', segmentize(queries, (query) => labelQueryIntent(query), 'intent')]);
+  }
+
+  const dimensions: Record<string, unknown> = {};
+  const drivers: Array<Segment & { dimension: ExplainDimension }> = [];
+  for (const [dimension, bySegment] of groups) {
+    const ranked = [...bySegment.entries()]
+      .map(([name, { a, b }]) => ({ name, a, b, delta: a.clicks - b.clicks }))
+      .sort((x, y) => Math.abs(y.delta) - Math.abs(x.delta) || x.name.localeCompare(y.name));
+    const listed = ranked.slice(0, args.maxSegments);
+    const rest = ranked.slice(args.maxSegments);
+    const segments = listed.map(({ name, a, b }) => toSegment(name, a, b, headlineDelta));
+    if (rest.length > 0) {
+      const otherA = emptyTotals();
+      const otherB = emptyTotals();
+      for (const { a, b } of rest) {
+        for (const key of ['clicks', 'impressions', 'positionWeight'] as const) {
+          otherA[key] += a[key];
+          otherB[key] += b[key];
+        }
+      }
+      segments.push(toSegment('(other)', otherA, otherB, headlineDelta));
+    }
+    drivers.push(...segments.filter((segment) => segment.segment !== '(other)' && segment.delta !== 0).map((segment) => ({ dimension, ...segment })));
+
+    const clicksA = ranked.reduce((sum, { a }) => sum + a.clicks, 0);
+    const clicksB = ranked.reduce((sum, { b }) => sum + b.clicks, 0);
+    let running = clicksB;
+    dimensions[dimension] = {
+      total: { clicksA: round1(clicksA), clicksB: round1(clicksB), delta: round1(clicksA - clicksB) },
+      // searchType sums several search types, so it does not reconcile with the headline.
+      ...(dimension !== 'searchType'
+        ? { unattributed: round1(headlineDelta - (clicksA - clicksB)) }
+        : {}),
+      waterfall: segments.map((segment) => {
+        running += segment.delta;
+        return { ...segment, cumulative: round1(running) };
+      }),
+    };
+  }
+
+  drivers.sort((x, y) => Math.abs(y.delta) - Math.abs(x.delta));
+  const topDrivers = drivers.slice(0, args.maxDrivers);
+
+  const mixWaterfall: Array<{ step: string; delta?: number; value: number }> = [
+    { step: 'periodB clicks', value: round1(totalB.clicks) },
+  ];
+  let mixRunning = totalB.clicks;
+  for (const effect of ['impressions', 'position', 'ctr'] as const) {
+    mixRunning += rawHeadlineEffects[effect];
+    mixWaterfall.push({ step: effect, delta: headlineEffects[effect], value: round1(mixRunning) });
+  }
+  mixWaterfall.push({ step: 'periodA clicks', value: round1(totalA.clicks) });
+
+  const deltaPct = totalB.clicks > 0 ? round1((headlineDelta / totalB.clicks) * 100) : null;
+  const summary = [
+    `Clicks ${headlineDelta < 0 ? 'fell' : 'rose'} by ${Math.abs(Math.round(headlineDelta)).toLocaleString('en-US')}` +
+      `${deltaPct !== null ? ` (${deltaPct > 0 ? '+' : ''}${deltaPct}%)` : ''}` +
+      ` from ${Math.round(totalB.clicks).toLocaleString('en-US')} to ${Math.round(totalA.clicks).toLocaleString('en-US')}.`,
+    `Impressions account for ${formatSigned(headlineEffects.impressions)}, average position for ` +
+      `${formatSigned(headlineEffects.position)} and CTR at the same position for ${formatSigned(headlineEffects.ctr)} clicks.`,
+    ...topDrivers.slice(0, 3).map(
+      (driver) =>
+        `${driver.dimension} ${driver.segment}: ${formatSigned(driver.delta)} clicks` +
+        `${driver.sharePct !== null ? ` (${driver.sharePct}% of the change)` : ''}` +
+        `${driver.primaryEffect ? `, mostly ${driver.primaryEffect === 'ctr' ? 'CTR' : driver.primaryEffect}` : ''}.`,
+    ),
+  ];
+
+  return jsonResult({
+    siteUrl: args.siteUrl,
+    mode: args.mode,
+    periodA: { ...periodA, days: daysA },
+    periodB: { ...periodB, days: daysB },
+    normalized: daysA !== daysB,
+    dataSource: summarizeSources(sources),
+    ...(truncated.length > 0 ? { truncated: [...new Set(truncated)] } : {}),
+    headline: {
+      clicksA: round1(totalA.clicks),
+      clicksB: round1(totalB.clicks),
+      delta: round1(headlineDelta),
+      deltaPct,
+      impressionsA: round1(totalA.impressions),
+      impressionsB: round1(totalB.impressions),
+      positionA: totalA.impressions > 0 ? round1(totalA.positionWeight / totalA.impressions) : null,
+      positionB: totalB.impressions > 0 ? round1(totalB.positionWeight / totalB.impressions) : null,
+    },
+    mixEffects: { ...headlineEffects, waterfall: mixWaterfall },
+    drivers: topDrivers,
+    dimensions,
+    summary,
+  });
+}
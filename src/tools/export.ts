@@ -0,0 +1,165 @@
+import { existsSync, mkdirSync, unlinkSync } from 'node:fs';
+import { join } from 'node:path';
+
+import { GSCError, SearchConsoleService } from '../service.js';
+import { refineOrFilterDimensions } from '../schemas/base.js';
+import { ExportSearchAnalyticsSchema } from '../schemas/export.js';
+import { chunkDateRange, resolveDateRange } from '../utils/dates.js';
+import {
+  createExportWriter,
+  fileChecksum,
+  publishExportFile,
+  resolveExportDir,
+  type ExportColumn,
+  type ExportValue,
+} from '../utils/export-files.js';
+import { applyOrGroups, orFilterSummary } from '../utils/filters.js';
+import { forEachSearchAnalyticsPage } from '../utils/pagination.js';
+import { withProgressStep } from '../utils/progress.js';
+import { jsonResult, type ToolResult } from '../utils/types.js';
+import { buildFilters } from './analytics.js';
+
+const METRIC_COLUMNS: ExportColumn[] = [
+  { name: 'clicks', type: 'integer', description: 'Clicks' },
+  { name: 'impressions', type: 'integer', description: 'Impressions' },
+  { name: 'ctr', type: 'number', description: 'Click-through rate as a fraction (0.05 = 5%)' },
+  { name: 'position', type: 'number', description: 'Average position (1 = top)' },
+];
+
+function defaultFileName(siteUrl: string, startDate: string, endDate: string): string {
+  const site = siteUrl.replace(/^sc-domain:/, '').replace(/^https?:\/\//, '').replace(/[^A-Za-z0-9.-]+/g, '_');
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+  return `${site}-${startDate}-${endDate}-${stamp}`;
+}
+
+function exportExistsError(path: string): GSCError {
+  return new GSCError(
+    `Export file ${path} already exists. Pass overwrite: true or choose another fileName.`,
+    'EXPORT_EXISTS',
+  );
+}
+
+/**
+ * Stream Search Analytics rows to a CSV, NDJSON, or Parquet file and return
+ * only its location, row count, column schema, and SHA-256 checksum.
+ */
+export async function handleExportSearchAnalytics(
+  service: SearchConsoleService,
+  raw: unknown,
+  exportDir: string | null = resolveExportDir(),
+): Promise<ToolResult> {
+  const args = ExportSearchAnalyticsSchema.superRefine(refineOrFilterDimensions()).parse(raw);
+  if (!exportDir) {
+    throw new GSCError('No export directory available. Set GSC_EXPORT_DIR.', 'CONFIG_ERROR');
+  }
+
+  const { startDate, endDate } = resolveDateRange(args);
+  const dimensions = args.dimensions ?? [];
+  const chunks = args.chunkDays ? chunkDateRange(startDate, endDate, args.chunkDays) : [{ startDate, endDate }];
+  const columns: ExportColumn[] = [
+    ...(args.chunkDays
+      ? [
+          { name: 'periodStart', type: 'string' as const, description: 'First day of the date chunk (YYYY-MM-DD)' },
+          { name: 'periodEnd', type: 'string' as const, description: 'Last day of the date chunk (YYYY-MM-DD)' },
+        ]
+      : []),
+    ...dimensions.map((dimension) => ({
+      name: dimension,
+      type: 'string' as const,
+      description: `${dimension} dimension`,
+    })),
+    ...METRIC_COLUMNS,
+  ];
+
+  const baseName = args.fileName ?? defaultFileName(args.siteUrl, startDate, endDate);
+  const path = join(exportDir, baseName.endsWith(`.${args.format}`) ? baseName : `${baseName}.${args.format}`);
+  if (existsSync(path) && !args.overwrite) {
+    throw exportExistsError(path);
+  }
+
+  const { dimensionFilterGroups, orGroups } = buildFilters(args);
+  const body: Record<string, unknown> = {
+    dimensions,
+    searchType: args.type,
+    aggregationType: args.aggregationType,
+    dataState: args.dataState,
+    ...(dimensionFilterGroups ? { dimensionFilterGroups } : {}),
+  };
+
+  mkdirSync(exportDir, { recursive: true });
+  const tempPath = `${path}.${process.pid}.${Date.now()}.tmp`;
+  const writer = createExportWriter(tempPath, args.format, columns);
+  const chunkSummaries: Array<{ startDate: string; endDate: string; rows: number; truncated: boolean }> = [];
+  let rowsScanned = 0;
+
+  try {
+    for (const [chunkIndex, chunk] of chunks.entries()) {
+      const label = `chunk ${chunkIndex + 1}/${chunks.length}: ${chunk.startDate} to ${chunk.endDate}`;
+      let written = 0;
+      const rowCount = await withProgressStep(chunkIndex, chunks.length, label, () =>
+        forEachSearchAnalyticsPage(
+          service,
+          args.siteUrl,
+          { ...body, startDate: chunk.startDate, endDate: chunk.endDate },
+          { maxRows: args.maxRows },
+          (page) => {
+            const rows = applyOrGroups(page, dimensions, orGroups);
+            written += rows.length;
+            return writer.write(
+              rows.map((row) => {
+                const record: Record<string, ExportValue> = {
+                  clicks: row.clicks ?? 0,
+                  impressions: row.impressions ?? 0,
+                  ctr: row.ctr ?? 0,
+                  position: row.position ?? 0,
+                };
+                dimensions.forEach((dimension, index) => {
+                  record[dimension] = row.keys?.[index] ?? '';
+                });
+                if (args.chunkDays) {
+                  record.periodStart = chunk.startDate;
+                  record.periodEnd = chunk.endDate;
+                }
+                return record;
+              }),
+            );
+          },
+        ),
+      );
+      rowsScanned += rowCount;
+      chunkSummaries.push({ ...chunk, rows: written, truncated: rowCount >= args.maxRows });
+    }
+    await writer.close();
+    publishExportFile(tempPath, path, args.overwrite);
+  } catch (error) {
+    writer.abort();
+    if (existsSync(tempPath)) {
+      unlinkSync(tempPath);
+    }
+    // Another export or process created the file after the check above.
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      throw exportExistsError(path);
+    }
+    throw error;
+  }
+
+  const { sha256, bytes } = await fileChecksum(path);
+
+  return jsonResult({
+    path,
+    format: args.format,
+    rowCount: chunkSummaries.reduce((sum, chunk) => sum + chunk.rows, 0),
+    bytes,
+    checksum: { algorithm: 'sha256', value: sha256 },
+    schema: columns,
+    siteUrl: args.siteUrl,
+    dateRange: { startDate, endDate },
+    chunks: chunkSummaries,
+    truncated: chunkSummaries.some((chunk) => chunk.truncated),
+    ...orFilterSummary(orGroups, {
+      rowsScanned,
+      rowsMatched: chunkSummaries.reduce((sum, chunk) => sum + chunk.rows, 0),
+      truncated: false,
+    }),
+  });
+}
@@ -0,0 +1,193 @@
+import { SearchConsoleService } from '../service.js';
+import { ForecastTrafficSchema, type ForecastTrafficInput } from '../schemas/forecast.js';
+import { daysAgo, eachDate, formatDate } from '../utils/dates.js';
+import type { DimensionFilter } from '../utils/filters.js';
+import {
+  INTERVAL_Z,
+  SEASON_LENGTH,
+  findIntervalBreaches,
+  fitHoltWinters,
+  projectHoltWinters,
+  type ForecastPoint,
+  type HoltWintersModel,
+} from '../utils/forecast.js';
+import { clusterQuery, detectPageTemplate } from '../utils/seo-analysis.js';
+import { jsonResult, type ToolResult } from '../utils/types.js';
+import { fetchSearchAnalyticsRows, type AnalyticsWarehouse } from '../utils/warehouse.js';
+
+/** GSC data is finalized after roughly three days. */
+const FINAL_DATA_LAG_DAYS = 3;
+
+interface ScopeQuery {
+  dimensions: string[];
+  filters: DimensionFilter[];
+  /** For breakdown scopes: whether a row's second key belongs to the target. */
+  matches?: (key: string) => boolean;
+}
+
+/**
+ * How to fetch a scope's daily rows. Clusters and templates are not API
+ * dimensions, so their rows are fetched by query or page, pre-filtered where
+ * a filter is a safe superset, and matched to the target row by row.
+ */
+function scopeQuery(args: ForecastTrafficInput): ScopeQuery {
+  const target = args.target ?? '';
+  switch (args.scope) {
+    case 'page':
+    case 'query':
+      return { dimensions: ['date'], filters: [{ dimension: args.scope, operator: 'equals', expression: target }] };
+    case 'queryCluster': {
+      const cluster = target.toLowerCase();
+      // Every query in a cluster contains each of the cluster's terms.
+      const terms = cluster === 'misc' ? [] : cluster.split('-');
+      return {
+        dimensions: ['date', 'query'],
+        filters: terms.map((term) => ({ dimension: 'query', operator: 'contains', expression: term })),
+        matches: (query) => clusterQuery(query) === cluster,
+      };
+    }
+    case 'template': {
+      const rules = args.templateRules ?? [];
+      const named = rules.filter((rule) => rule.name === target);
+      return {
+        dimensions: ['date', 'page'],
+        filters:
+          named.length === 1 ? [{ dimension: 'page', operator: 'contains', expression: named[0].pattern }] : [],
+        matches: (page) => detectPageTemplate(page, rules) === target,
+      };
+    }
+    default:
+      return { dimensions: ['date'], filters: [] };
+  }
+}
+
+function round1(value: number): number {
+  return Number(value.toFixed(1));
+}
+
+function roundPoint(point: ForecastPoint): ForecastPoint {
+  return { expected: round1(point.expected), lower: round1(point.lower), upper: round1(point.upper) };
+}
+
+function modelSummary(model: HoltWintersModel) {
+  return { alpha: model.alpha, beta: model.beta, gamma: model.gamma, residualStd: round1(model.residualStd) };
+}
+
+export async function handleForecastTraffic(
+  service: SearchConsoleService,
+  raw: unknown,
+  warehouse: AnalyticsWarehouse | null = null,
+): Promise<ToolResult> {
+  const args = ForecastTrafficSchema.parse(raw);
+  // Days inside the data lag have no rows yet and would read as a collapse, so history stops before them.
+  const lastFinalDate = formatDate(daysAgo(FINAL_DATA_LAG_DAYS));
+  const endDate = args.endDate && args.endDate < lastFinalDate ? args.endDate : lastFinalDate;
+  const startDate = formatDate(daysAgo(args.historyDays - 1, new Date(`${endDate}T00:00:00.000Z`)));
+  const plan = scopeQuery(args);
+
+  const body: Record<string, unknown> = {
+    startDate,
+    endDate,
+    dimensions: plan.dimensions,
+    rowLimit: plan.matches ? args.maxRows : 25000,
+  };
+  if (plan.filters.length > 0) body.dimensionFilterGroups = [{ groupType: 'and', filters: plan.filters }];
+  if (args.type) body.searchType = args.type;
+
+  const { rows, source } = await fetchSearchAnalyticsRows(service, warehouse, args.siteUrl, body, args.dataSource);
+
+  const daily = new Map<string, { clicks: number; impressions: number }>();
+  for (const row of rows) {
+    const date = row.keys?.[0] ?? '';
+    if (!date || (plan.matches && !plan.matches(row.keys?.[1] ?? ''))) continue;
+    const day = daily.get(date) ?? { clicks: 0, impressions: 0 };
+    day.clicks += row.clicks ?? 0;
+    day.impressions += row.impressions ?? 0;
+    daily.set(date, day);
+  }
+
+  // Start at the first day with data (new pages) and run to endDate; GSC omits zero-traffic days, so gaps
+  // and a trailing stretch without rows (a page or query that lost all traffic) are zeros.
+  const observed = [...daily.keys()].sort();
+  const dates = observed.length > 0 ? eachDate(observed[0], endDate) : [];
+  const clicks = dates.map((date) => daily.get(date)?.clicks ?? 0);
+  const impressions = dates.map((date) => daily.get(date)?.impressions ?? 0);
+
+  const base = {
+    siteUrl: args.siteUrl,
+    scope: args.scope,
+    ...(args.target !== undefined ? { target: args.target } : {}),
+    dataSource: source,
+    ...(plan.matches
+      ? { rowsScanned: rows.length, truncated: rows.length >= args.maxRows }
+      : {}),
+    history: {
+      startDate: dates[0] ?? startDate,
+      endDate: dates[dates.length - 1] ?? endDate,
+      days: dates.length,
+      clicks: clicks.reduce((sum, value) => sum + value, 0),
+      impressions: impressions.reduce((sum, value) => sum + value, 0),
+    },
+    horizonDays: args.horizonDays,
+    confidence: args.confidence,
+  };
+
+  if (dates.length < 2 * SEASON_LENGTH) {
+    return jsonResult({
+      ...base,
+      note: `Need at least ${2 * SEASON_LENGTH} days of data to fit weekly seasonality; found ${dates.length}.`,
+      forecast: [],
+      anomalies: [],
+    });
+  }
+
+  const z = INTERVAL_Z[args.confidence];
+  const clicksModel = fitHoltWinters(clicks);
+  const impressionsModel = fitHoltWinters(impressions);
+  const clicksForecast = projectHoltWinters(clicksModel, args.horizonDays, z);
+  const impressionsForecast = projectHoltWinters(impressionsModel, args.horizonDays, z);
+  const lastDate = new Date(`${dates[dates.length - 1]}T00:00:00.000Z`);
+
+  const forecast = clicksForecast.map((point, index) => ({
+    date: formatDate(daysAgo(-(index + 1), lastDate)),
+    clicks: roundPoint(point),
+    impressions: roundPoint(impressionsForecast[index]),
+  }));
+
+  const fromIndex = dates.length - args.anomalyWindowDays;
+  const anomalies = (
+    [
+      ['clicks', clicks, clicksModel],
+      ['impressions', impressions, impressionsModel],
+    ] as const
+  )
+    .flatMap(([metric, series, model]) =>
+      args.anomalyWindowDays === 0
+        ? []
+        : findIntervalBreaches(series, model, z, fromIndex).map((breach) => ({
+            date: dates[breach.index],
+            metric,
+            actual: breach.actual,
+            ...roundPoint(breach),
+            direction: breach.actual > breach.upper ? ('above' as const) : ('below' as const),
+          })),
+    )
+    .sort((a, b) => a.date.localeCompare(b.date) || a.metric.localeCompare(b.metric));
+
+  return jsonResult({
+    ...base,
+    model: {
+      method: 'holt-winters-additive-damped',
+      seasonLength: SEASON_LENGTH,
+      clicks: modelSummary(clicksModel),
+      impressions: modelSummary(impressionsModel),
+    },
+    totals: {
+      clicks: round1(clicksForecast.reduce((sum, point) => sum + point.expected, 0)),
+      impressions: round1(impressionsForecast.reduce((sum, point) => sum + point.expected, 0)),
+    },
+    forecast,
+    anomalyCount: anomalies.length,
+    anomalies,
+  });
+}
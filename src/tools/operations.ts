@@ -1,5 +1,12 @@
-import { HealthSnapshotSchema } from '../schemas/operations.js';
+import { ConfigShowSchema, HealthSnapshotSchema } from '../schemas/operations.js';
 import { type SeoProviderRegistry } from '../providers/registry.js';
+import { type SitePolicySnapshot } from '../site-policy.js';
+import { type ToolAccessSnapshot } from '../tool-access.js';
+import { listSitesAcrossAccounts } from './analytics.js';
+import { type LoadedServerConfig } from '../utils/config.js';
+import { type AccountService } from '../utils/credentials.js';
+import { redactSensitiveData } from '../utils/redaction.js';
+import { DEFAULT_RETRY_POLICY, type RetryPolicy } from '../utils/retry.js';
 import { type RuntimeCoordinator } from '../utils/runtime.js';
 import { jsonResult, type ToolResult } from '../utils/types.js';
 
@@ -37,3 +44,80 @@ export async function handleHealthSnapshot(
     },
   });
 }
+
+export async function handleGscHealthcheck(
+  accounts: AccountService[],
+  resolveAccountId: (siteUrl: string) => string | null,
+  options: {
+    cruxApiKeyConfigured: boolean;
+    isSiteAllowed?: (siteUrl: string) => boolean;
+  },
+): Promise<ToolResult> {
+  const listing = await listSitesAcrossAccounts(accounts, resolveAccountId, options.isSiteAllowed);
+  const failedAccounts = listing.accounts.filter((account) => account.error);
+
+  return jsonResult({
+    ok: failedAccounts.length === 0,
+    auth: failedAccounts.length === 0 ? 'ok' : 'partial',
+    siteCount: listing.siteEntry.length,
+    accounts: listing.accounts,
+    cruxApiKeyConfigured: options.cruxApiKeyConfigured,
+    indexingApiConfigured: true,
+  });
+}
+
+/**
+ * Effective server configuration: the config file merged with env var
+ * overrides and built-in defaults. Secrets are redacted.
+ */
+export async function handleConfigShow(
+  runtime: RuntimeCoordinator,
+  loaded: LoadedServerConfig,
+  raw: unknown,
+  options: {
+    toolNames: string[];
+    retryPolicyFor: (toolName: string) => Partial<RetryPolicy>;
+    telemetryEnabled: boolean;
+    debugMode: boolean;
+    rateLimitEnabled: boolean;
+    toolAccess: ToolAccessSnapshot;
+    sitePolicy: SitePolicySnapshot;
+  },
+): Promise<ToolResult> {
+  const args = ConfigShowSchema.parse(raw ?? {});
+  if (args.tool && !options.toolNames.includes(args.tool)) {
+    throw new Error(`Unknown tool: ${args.tool}`);
+  }
+  const toolNames = args.tool ? [args.tool] : options.toolNames;
+
+  return jsonResult(
+    redactSensitiveData(
+      {
+        source: loaded.path ? { path: loaded.path, format: loaded.format } : null,
+        precedence: ['environment variables', 'config file', 'built-in defaults'],
+        server: {
+          ...runtime.getServerSettings(),
+          telemetryEnabled: options.telemetryEnabled,
+          debugMode: options.debugMode,
+          rateLimitEnabled: options.rateLimitEnabled,
+        },
+        toolAccess: options.toolAccess,
+        sitePolicy: options.sitePolicy,
+        tools: Object.fromEntries(
+          toolNames.map((toolName) => [
+            toolName,
+            {
+              ...runtime.getToolSettings(toolName),
+              retry: { ...DEFAULT_RETRY_POLICY, ...options.retryPolicyFor(toolName) },
+            },
+          ]),
+        ),
+        defaultSiteUrl: loaded.config.defaultSiteUrl ?? null,
+        sites: loaded.config.sites ?? {},
+        env: loaded.config.env ?? {},
+      },
+      0,
+      { maxDepth: 12 },
+    ),
+  );
+}
@@ -0,0 +1,81 @@
+import { SearchConsoleService, GSCError } from '../service.js';
+import { SyncSearchAnalyticsSchema } from '../schemas/warehouse.js';
+import { daysAgo, eachDate, formatDate } from '../utils/dates.js';
+import { paginateSearchAnalytics } from '../utils/pagination.js';
+import { withProgressStep } from '../utils/progress.js';
+import { jsonResult, type ToolResult } from '../utils/types.js';
+import { SYNC_DIMENSIONS, type AnalyticsWarehouse } from '../utils/warehouse.js';
+
+/** GSC data is finalized after roughly three days. */
+const FINAL_DATA_LAG_DAYS = 3;
+
+export async function handleSyncSearchAnalytics(
+  service: SearchConsoleService,
+  warehouse: AnalyticsWarehouse | null,
+  raw: unknown,
+): Promise<ToolResult> {
+  const args = SyncSearchAnalyticsSchema.parse(raw);
+  if (!warehouse) {
+    throw new GSCError(
+      'The analytics warehouse is disabled. Unset GSC_WAREHOUSE_PATH or point it at a file to enable sync.',
+      'CONFIG_ERROR',
+    );
+  }
+
+  // Days inside the data lag are not final yet; once synced they would only refresh with `force`.
+  const lastFinalDate = formatDate(daysAgo(FINAL_DATA_LAG_DAYS));
+  const endDate = args.endDate && args.endDate < lastFinalDate ? args.endDate : lastFinalDate;
+  const startDate = args.startDate ?? formatDate(daysAgo(args.days - 1, daysAgo(FINAL_DATA_LAG_DAYS)));
+
+  const allDates = eachDate(startDate, endDate);
+  const pending = args.force
+    ? allDates
+    : warehouse.missingDates(args.siteUrl, args.type, startDate, endDate);
+
+  // Oldest first: those days are the next to fall out of the API's retention window.
+  const batch = pending.slice(0, args.maxDays);
+  const syncedDays: Array<{ date: string; rows: number; truncated: boolean }> = [];
+
+  try {
+    for (const [index, date] of batch.entries()) {
+      const rows = await withProgressStep(index, batch.length, `day ${index + 1}/${batch.length}: ${date}`, () =>
+        paginateSearchAnalytics(
+          service,
+          args.siteUrl,
+          {
+            startDate: date,
+            endDate: date,
+            dimensions: [...SYNC_DIMENSIONS],
+            searchType: args.type,
+            dataState: 'final',
+          },
+          { maxRows: args.maxRowsPerDay },
+        ),
+      );
+      const truncated = rows.length >= args.maxRowsPerDay;
+      warehouse.replaceDay(args.siteUrl, args.type, date, rows, { truncated });
+      syncedDays.push({ date, rows: rows.length, truncated });
+    }
+  } finally {
+    if (syncedDays.length > 0) {
+      warehouse.save();
+    }
+  }
+
+  const remaining = pending.slice(batch.length);
+
+  return jsonResult({
+    siteUrl: args.siteUrl,
+    searchType: args.type,
+    range: { startDate, endDate },
+    syncedDays,
+    rowsSynced: syncedDays.reduce((sum, day) => sum + day.rows, 0),
+    alreadySyncedDays: allDates.length - pending.length,
+    remainingDays: remaining.length,
+    nextStartDate: remaining[0] ?? null,
+    warehouse: {
+      path: warehouse.path,
+      coverage: warehouse.coverage(args.siteUrl, args.type),
+    },
+  });
+}
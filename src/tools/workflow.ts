@@ -1,6 +1,7 @@
 import { SearchConsoleService } from '../service.js';
 import { RunSeoAuditWorkflowSchema } from '../schemas/workflow.js';
 import { resolveDateRange } from '../utils/dates.js';
+import { withProgressStep } from '../utils/progress.js';
 import { detectBrandSegment } from '../utils/seo-analysis.js';
 import { jsonResult, type SearchAnalyticsRow, type ToolResult } from '../utils/types.js';
 import { handleRecommendNextActions } from './recommendations.js';
@@ -1911,12 +1912,13 @@ export async function handleRunSeoAuditWorkflow(
   const reportFormat = resolveReportFormat(args);
 
   const sampleUrl = args.sampleUrl ?? args.urls?.[0] ?? undefined;
-  const steps: WorkflowStepResult[] = [];
+  const plan: Array<{ step: string; operation: () => Promise<ToolResult> }> = [];
 
   if (args.profile === 'technical') {
     if (sampleUrl) {
-      steps.push(
-        await runStep('page_health_dashboard', () =>
+      plan.push({
+        step: 'page_health_dashboard',
+        operation: () =>
           handlePageHealthDashboard(service, {
             siteUrl: args.siteUrl,
             url: sampleUrl,
@@ -1924,11 +1926,11 @@ export async function handleRunSeoAuditWorkflow(
             endDate,
             categories: ['performance', 'seo'],
           }),
-        ),
-      );
+      });
     }
-    steps.push(
-      await runStep('indexing_health_report', () =>
+    plan.push({
+      step: 'indexing_health_report',
+      operation: () =>
         handleIndexingHealthReport(service, {
           siteUrl: args.siteUrl,
           source: args.sitemapUrls?.length || args.urls?.length ? 'combined' : 'analytics',
@@ -1938,10 +1940,10 @@ export async function handleRunSeoAuditWorkflow(
           endDate,
           topN: args.topN,
         }),
-      ),
-    );
-    steps.push(
-      await runStep('drop_alerts', () =>
+    });
+    plan.push({
+      step: 'drop_alerts',
+      operation: () =>
         handleDropAlerts(service, {
           siteUrl: args.siteUrl,
           ...(args.days ? { days: args.days } : { startDate, endDate }),
@@ -1950,13 +1952,13 @@ export async function handleRunSeoAuditWorkflow(
           includeChangePoints: true,
           rowLimit: args.rowLimit,
         }),
-      ),
-    );
+    });
   }
 
   if (args.profile === 'content') {
-    steps.push(
-      await runStep('detect_quick_wins', () =>
+    plan.push({
+      step: 'detect_quick_wins',
+      operation: () =>
         handleDetectQuickWins(service, {
           siteUrl: args.siteUrl,
           startDate,
@@ -1964,19 +1966,19 @@ export async function handleRunSeoAuditWorkflow(
           maxRows: args.rowLimit,
           intentAware: true,
         }),
-      ),
-    );
-    steps.push(
-      await runStep('detect_content_decay', () =>
+    });
+    plan.push({
+      step: 'detect_content_decay',
+      operation: () =>
         handleContentDecay(service, {
           siteUrl: args.siteUrl,
           ...(args.days ? { days: args.days } : { startDate, endDate }),
           rowLimit: args.rowLimit,
         }),
-      ),
-    );
-    steps.push(
-      await runStep('recommend_next_actions', () =>
+    });
+    plan.push({
+      step: 'recommend_next_actions',
+      operation: () =>
         handleRecommendNextActions(service, {
           siteUrl: args.siteUrl,
           startDate,
@@ -1985,13 +1987,13 @@ export async function handleRunSeoAuditWorkflow(
           topActions: 5,
           includeCwv: true,
         }),
-      ),
-    );
+    });
   }
 
   if (args.profile === 'indexing') {
-    steps.push(
-      await runStep('indexing_health_report', () =>
+    plan.push({
+      step: 'indexing_health_report',
+      operation: () =>
         handleIndexingHealthReport(service, {
           siteUrl: args.siteUrl,
           source: args.urls?.length || args.sitemapUrls?.length ? 'combined' : 'analytics',
@@ -2001,11 +2003,11 @@ export async function handleRunSeoAuditWorkflow(
           endDate,
           topN: args.topN,
         }),
-      ),
-    );
+    });
     if (sampleUrl) {
-      steps.push(
-        await runStep('page_health_dashboard', () =>
+      plan.push({
+        step: 'page_health_dashboard',
+        operation: () =>
           handlePageHealthDashboard(service, {
             siteUrl: args.siteUrl,
             url: sampleUrl,
@@ -2013,11 +2015,11 @@ export async function handleRunSeoAuditWorkflow(
             endDate,
             categories: ['performance'],
           }),
-        ),
-      );
+      });
     }
-    steps.push(
-      await runStep('recommend_next_actions', () =>
+    plan.push({
+      step: 'recommend_next_actions',
+      operation: () =>
         handleRecommendNextActions(service, {
           siteUrl: args.siteUrl,
           startDate,
@@ -2026,6 +2028,14 @@ export async function handleRunSeoAuditWorkflow(
           includeCwv: false,
           topActions: 5,
         }),
+    });
+  }
+
+  const steps: WorkflowStepResult[] = [];
+  for (const [index, { step, operation }] of plan.entries()) {
+    steps.push(
+      await withProgressStep(index, plan.length, `step ${index + 1}/${plan.length}: ${step}`, () =>
+        runStep(step, operation),
       ),
     );
   }
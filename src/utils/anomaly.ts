@@ -0,0 +1,110 @@
+/** Scale factor that makes the median absolute deviation comparable to a standard deviation. */
+const MAD_SCALE = 1.4826;
+
+export type AnomalyDirection = 'spike' | 'dip';
+export type AnomalySeverity = 'low' | 'medium' | 'high';
+
+export interface AnomalyPoint {
+  index: number;
+  actual: number;
+  expected: number;
+  z: number;
+}
+
+export interface AnomalyRun {
+  /** First and last flagged index of the run. */
+  start: number;
+  end: number;
+  direction: AnomalyDirection;
+  peakZ: number;
+  actual: number;
+  expected: number;
+  /** Flagged indexes; bridged gap days are not included. */
+  indexes: number[];
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Rolling, weekday-adjusted baseline for each day after the first
+ * `windowDays`: the median of the preceding window plus the median offset of
+ * the same weekday. The spread is the MAD of the window's residuals, floored
+ * at Poisson noise so sparse series do not flag every change. Index modulo 7
+ * stands in for the weekday, so the series must be daily without gaps.
+ */
+export function rollingBaseline(series: number[], windowDays: number): Array<{ expected: number; scale: number } | null> {
+  return series.map((_, t) => {
+    if (t < windowDays) return null;
+    const window = series.slice(t - windowDays, t);
+    const center = median(window);
+    const offsets = Array.from({ length: 7 }, (_, weekday) => {
+      const sameDay = window.filter((_, j) => (t - windowDays + j) % 7 === weekday).map((value) => value - center);
+      return sameDay.length > 0 ? median(sameDay) : 0;
+    });
+    const residuals = window.map((value, j) => Math.abs(value - center - offsets[(t - windowDays + j) % 7]));
+    const expected = Math.max(0, center + offsets[t % 7]);
+    return { expected, scale: Math.max(MAD_SCALE * median(residuals), Math.sqrt(Math.max(expected, 1))) };
+  });
+}
+
+/** Days whose robust z-score against `rollingBaseline` reaches `threshold`. */
+export function detectRollingAnomalies(
+  series: number[],
+  windowDays: number,
+  threshold: number,
+  baselines = rollingBaseline(series, windowDays),
+): AnomalyPoint[] {
+  const points: AnomalyPoint[] = [];
+  baselines.forEach((baseline, t) => {
+    if (!baseline) return;
+    const z = (series[t] - baseline.expected) / baseline.scale;
+    if (Math.abs(z) >= threshold) {
+      points.push({ index: t, actual: series[t], expected: baseline.expected, z });
+    }
+  });
+  return points;
+}
+
+/**
+ * Merge flagged days in the same direction into runs, bridging up to `maxGap`
+ * unflagged days so a sustained drop is not split at its quieter weekdays.
+ * `actual` and `expected` sum the flagged days only.
+ */
+export function groupAnomalyRuns(points: AnomalyPoint[], maxGap = 2): AnomalyRun[] {
+  const runs: AnomalyRun[] = [];
+  for (const point of points) {
+    const direction: AnomalyDirection = point.z > 0 ? 'spike' : 'dip';
+    const last = runs[runs.length - 1];
+    if (last && point.index - last.end <= maxGap + 1 && last.direction === direction) {
+      last.end = point.index;
+      last.indexes.push(point.index);
+      last.actual += point.actual;
+      last.expected += point.expected;
+      if (Math.abs(point.z) > Math.abs(last.peakZ)) last.peakZ = point.z;
+    } else {
+      runs.push({
+        start: point.index,
+        end: point.index,
+        direction,
+        peakZ: point.z,
+        actual: point.actual,
+        expected: point.expected,
+        indexes: [point.index],
+      });
+    }
+  }
+  return runs;
+}
+
+/** Severity from how far the peak clears the threshold and how long the run lasts. */
+export function anomalySeverity(run: AnomalyRun, threshold: number): AnomalySeverity {
+  const days = run.end - run.start + 1;
+  const peak = Math.abs(run.peakZ);
+  if (peak >= 2 * threshold || days >= 7) return 'high';
+  if (peak >= 1.5 * threshold || days >= 3) return 'medium';
+  return 'low';
+}
@@ -0,0 +1,205 @@
+import { GSCError, type ApiCall, type ApiFamily } from '../service.js';
+
+export type QuotaWindow = 'minute' | 'day';
+
+/** `property` limits are counted per Search Console property, `project` limits across all calls. */
+export type QuotaScope = 'project' | 'property';
+
+export interface ApiQuotaLimit {
+  family: ApiFamily;
+  window: QuotaWindow;
+  scope: QuotaScope;
+  limit: number;
+  /** Only these service methods count against the limit (default: every method of the family). */
+  methods?: string[];
+}
+
+export interface PersistedApiQuotaState {
+  day: string;
+  /** Daily counters keyed by `<family>/day|<property or *>`. */
+  limits: Record<string, number>;
+  /** Calls keyed by `<family>|<property or empty>`. */
+  calls: Record<string, number>;
+}
+
+export interface ApiQuotaUsage {
+  callsToday: number;
+  limits: Array<Omit<ApiQuotaLimit, 'family'>>;
+  /** Remaining project-wide budget per window. */
+  remaining: Partial<Record<QuotaWindow, number>>;
+  sites: Record<string, { callsToday: number; remaining: Partial<Record<QuotaWindow, number>> }>;
+}
+
+export interface ApiQuotaSnapshot {
+  day: string;
+  apis: Partial<Record<ApiFamily, ApiQuotaUsage>>;
+}
+
+const MINUTE_MS = 60_000;
+
+/**
+ * Published Google quotas. Search Analytics and URL Inspection are enforced
+ * per property; PageSpeed Insights, CrUX and Indexing per Cloud project.
+ */
+const API_QUOTA_DEFAULTS: Array<Omit<ApiQuotaLimit, 'limit'> & { env: string; fallback: number }> = [
+  { family: 'searchanalytics', window: 'minute', scope: 'property', env: 'GSC_API_QUOTA_SEARCHANALYTICS_QPM', fallback: 1200 },
+  { family: 'searchanalytics', window: 'day', scope: 'project', env: 'GSC_API_QUOTA_SEARCHANALYTICS_QPD', fallback: 30_000_000 },
+  { family: 'urlInspection', window: 'minute', scope: 'property', env: 'GSC_API_QUOTA_URL_INSPECTION_QPM', fallback: 600 },
+  { family: 'urlInspection', window: 'day', scope: 'property', env: 'GSC_API_QUOTA_URL_INSPECTION_QPD', fallback: 2000 },
+  { family: 'pagespeed', window: 'minute', scope: 'project', env: 'GSC_API_QUOTA_PAGESPEED_QPM', fallback: 240 },
+  { family: 'pagespeed', window: 'day', scope: 'project', env: 'GSC_API_QUOTA_PAGESPEED_QPD', fallback: 25_000 },
+  { family: 'crux', window: 'minute', scope: 'project', env: 'GSC_API_QUOTA_CRUX_QPM', fallback: 150 },
+  { family: 'indexing', window: 'day', scope: 'project', methods: ['publish'], env: 'GSC_API_QUOTA_INDEXING_QPD', fallback: 200 },
+];
+
+/** Resolve per-API limits, applying `GSC_API_QUOTA_*` overrides to Google's published defaults. */
+export function resolveApiQuotaLimits(env: NodeJS.ProcessEnv = process.env): ApiQuotaLimit[] {
+  return API_QUOTA_DEFAULTS.map(({ env: name, fallback, ...limit }) => {
+    const parsed = Number(env[name]);
+    return { ...limit, limit: env[name] && Number.isFinite(parsed) ? Math.max(1, Math.floor(parsed)) : fallback };
+  });
+}
+
+function utcDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+function scopeKey(limit: ApiQuotaLimit, call: ApiCall): string {
+  return limit.scope === 'property' ? (call.siteUrl ?? '*') : '*';
+}
+
+function counterKey(limit: ApiQuotaLimit, scope: string): string {
+  return `${limit.family}/${limit.window}|${scope}`;
+}
+
+/**
+ * Meters every Google API request by family and property against the
+ * configured limits. Minute limits use a sliding window; day limits reset at
+ * midnight UTC, matching Google's quota day closely enough for budgeting.
+ */
+export class ApiQuotaMeter {
+  private day: string;
+
+  private dailyUsed = new Map<string, number>();
+
+  private calls = new Map<string, number>();
+
+  /** Request timestamps within the last minute, per minute-limit counter. */
+  private readonly recent = new Map<string, number[]>();
+
+  constructor(
+    private readonly limits: ApiQuotaLimit[] = resolveApiQuotaLimits(),
+    now = Date.now(),
+  ) {
+    this.day = utcDay(now);
+  }
+
+  /**
+   * Count one request, or throw `QUOTA_BUDGET_EXCEEDED` without counting it
+   * when any applicable limit is already used up.
+   */
+  reserve(call: ApiCall, now = Date.now()): void {
+    this.rollDay(now);
+    const applicable = this.limits.filter(
+      (limit) => limit.family === call.family && (!limit.methods || limit.methods.includes(call.method)),
+    );
+
+    for (const limit of applicable) {
+      const scope = scopeKey(limit, call);
+      const used = this.used(limit, scope, now);
+      if (used >= limit.limit) {
+        const target = limit.scope === 'property' ? ` for ${scope}` : '';
+        const period = limit.window === 'day' ? 'today (UTC)' : 'in the last minute';
+        throw new GSCError(
+          `${call.family} quota budget exhausted${target}: ${used}/${limit.limit} requests ${period}. Retry ${limit.window === 'day' ? 'after midnight UTC' : 'in a minute'} or raise the limit.`,
+          'QUOTA_BUDGET_EXCEEDED',
+          429,
+        );
+      }
+    }
+
+    for (const limit of applicable) {
+      const key = counterKey(limit, scopeKey(limit, call));
+      if (limit.window === 'day') {
+        this.dailyUsed.set(key, (this.dailyUsed.get(key) ?? 0) + 1);
+      } else {
+        this.recent.set(key, [...(this.recent.get(key) ?? []), now]);
+      }
+    }
+    const callKey = `${call.family}|${call.siteUrl ?? ''}`;
+    this.calls.set(callKey, (this.calls.get(callKey) ?? 0) + 1);
+  }
+
+  snapshot(now = Date.now()): ApiQuotaSnapshot {
+    this.rollDay(now);
+    const apis: ApiQuotaSnapshot['apis'] = {};
+    const usageFor = (family: ApiFamily): ApiQuotaUsage => {
+      apis[family] ??= { callsToday: 0, limits: [], remaining: {}, sites: {} };
+      return apis[family]!;
+    };
+
+    for (const limit of this.limits) {
+      const { family, ...rest } = limit;
+      const usage = usageFor(family);
+      usage.limits.push(rest);
+      if (limit.scope === 'project') {
+        usage.remaining[limit.window] = Math.max(0, limit.limit - this.used(limit, '*', now));
+      }
+    }
+
+    for (const [key, count] of Array.from(this.calls.entries()).sort(([a], [b]) => a.localeCompare(b))) {
+      const [family, siteUrl] = key.split('|', 2) as [ApiFamily, string];
+      const usage = usageFor(family);
+      usage.callsToday += count;
+      if (!siteUrl) {
+        continue;
+      }
+      const remaining: Partial<Record<QuotaWindow, number>> = {};
+      for (const limit of this.limits) {
+        if (limit.family === family && limit.scope === 'property') {
+          remaining[limit.window] = Math.max(0, limit.limit - this.used(limit, siteUrl, now));
+        }
+      }
+      usage.sites[siteUrl] = { callsToday: count, remaining };
+    }
+
+    return { day: this.day, apis };
+  }
+
+  toPersisted(): PersistedApiQuotaState {
+    return {
+      day: this.day,
+      limits: Object.fromEntries(this.dailyUsed),
+      calls: Object.fromEntries(this.calls),
+    };
+  }
+
+  /** Restore daily counters saved earlier today; state from a previous day is ignored. */
+  restore(state: PersistedApiQuotaState, now = Date.now()): void {
+    if (state.day !== utcDay(now)) {
+      return;
+    }
+    this.day = state.day;
+    this.dailyUsed = new Map(Object.entries(state.limits));
+    this.calls = new Map(Object.entries(state.calls));
+  }
+
+  private used(limit: ApiQuotaLimit, scope: string, now: number): number {
+    const key = counterKey(limit, scope);
+    if (limit.window === 'day') {
+      return this.dailyUsed.get(key) ?? 0;
+    }
+    const timestamps = (this.recent.get(key) ?? []).filter((timestamp) => now - timestamp < MINUTE_MS);
+    this.recent.set(key, timestamps);
+    return timestamps.length;
+  }
+
+  private rollDay(now: number): void {
+    const today = utcDay(now);
+    if (today !== this.day) {
+      this.day = today;
+      this.dailyUsed.clear();
+      this.calls.clear();
+    }
+  }
+}
@@ -0,0 +1,471 @@
+import { createHash } from 'node:crypto';
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+} from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+
+import { RespClient } from './resp-client.js';
+import type { ToolResult } from './types.js';
+
+export type CacheBackend = 'memory' | 'file' | 'redis';
+
+export interface CacheEntry {
+  storedAt: number;
+  ttlMs: number;
+  value: ToolResult;
+}
+
+export interface CacheStoreStats {
+  backend: CacheBackend;
+  entries: number | null;
+  bytes: number | null;
+  maxBytes: number | null;
+  hits: number;
+  misses: number;
+  hitRatio: number | null;
+  evictions: number | null;
+  errors: number;
+  lastError: string | null;
+}
+
+/**
+ * Response cache backend used by RuntimeCoordinator. Implementations never
+ * throw: backend failures count as misses and show up in `stats().errors`.
+ */
+export interface CacheStore {
+  readonly backend: CacheBackend;
+  get(key: string): Promise<CacheEntry | null>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  stats(): CacheStoreStats;
+  close(): Promise<void>;
+}
+
+export interface CacheConfig {
+  backend: CacheBackend;
+  memoryMaxBytes: number;
+  fileDir: string | null;
+  fileMaxBytes: number;
+  redisUrl: string | null;
+}
+
+const MIB = 1024 * 1024;
+const REDIS_KEY_PREFIX = 'gsc:cache:';
+
+function isExpired(entry: CacheEntry, now = Date.now()): boolean {
+  return now - entry.storedAt > entry.ttlMs;
+}
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function parseStoredEntry(raw: string, key: string): CacheEntry | null {
+  const parsed = JSON.parse(raw) as Partial<CacheEntry> & { key?: string };
+  if (parsed.key !== key || typeof parsed.storedAt !== 'number' || typeof parsed.ttlMs !== 'number' || !parsed.value) {
+    return null;
+  }
+  return { storedAt: parsed.storedAt, ttlMs: parsed.ttlMs, value: parsed.value };
+}
+
+/** Shared hit/miss/error bookkeeping for every backend. */
+class CacheCounters {
+  hits = 0;
+
+  misses = 0;
+
+  evictions = 0;
+
+  errors = 0;
+
+  lastError: string | null = null;
+
+  recordError(error: unknown): void {
+    this.errors += 1;
+    this.lastError = errorMessage(error);
+  }
+
+  toStats(
+    backend: CacheBackend,
+    sizes: { entries: number | null; bytes: number | null; maxBytes: number | null; evictions: number | null },
+  ): CacheStoreStats {
+    const lookups = this.hits + this.misses;
+    return {
+      backend,
+      ...sizes,
+      hits: this.hits,
+      misses: this.misses,
+      hitRatio: lookups > 0 ? Number((this.hits / lookups).toFixed(4)) : null,
+      errors: this.errors,
+      lastError: this.lastError,
+    };
+  }
+}
+
+/** In-process LRU bounded by the serialized size of its values. */
+export class MemoryCacheStore implements CacheStore {
+  readonly backend = 'memory' as const;
+
+  private readonly entries = new Map<string, CacheEntry & { bytes: number }>();
+
+  private bytes = 0;
+
+  private readonly counters = new CacheCounters();
+
+  constructor(private readonly maxBytes: number) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const entry = this.entries.get(key);
+    if (!entry || isExpired(entry)) {
+      if (entry) {
+        this.remove(key);
+      }
+      this.counters.misses += 1;
+      return null;
+    }
+    // Re-insert so Map order doubles as recency order.
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.counters.hits += 1;
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.remove(key);
+    const bytes = Buffer.byteLength(key) + Buffer.byteLength(JSON.stringify(entry.value));
+    this.entries.set(key, { ...entry, bytes });
+    this.bytes += bytes;
+    for (const oldestKey of this.entries.keys()) {
+      if (this.bytes <= this.maxBytes) {
+        break;
+      }
+      this.remove(oldestKey);
+      this.counters.evictions += 1;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.remove(key);
+  }
+
+  /** Drop expired entries; returns how many were removed. */
+  purgeExpired(now = Date.now()): number {
+    let purged = 0;
+    for (const [key, entry] of this.entries) {
+      if (isExpired(entry, now)) {
+        this.remove(key);
+        purged += 1;
+      }
+    }
+    return purged;
+  }
+
+  stats(): CacheStoreStats {
+    return this.counters.toStats(this.backend, {
+      entries: this.entries.size,
+      bytes: this.bytes,
+      maxBytes: this.maxBytes,
+      evictions: this.counters.evictions,
+    });
+  }
+
+  async close(): Promise<void> {
+    this.entries.clear();
+    this.bytes = 0;
+  }
+
+  private remove(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.bytes -= entry.bytes;
+    }
+  }
+}
+
+/**
+ * One JSON file per entry under `dir`, so cached results survive restarts.
+ * When the directory grows past `maxBytes`, the oldest-written files go first.
+ */
+export class FileCacheStore implements CacheStore {
+  readonly backend = 'file' as const;
+
+  private index: Map<string, { bytes: number; storedAt: number }> | null = null;
+
+  private bytes = 0;
+
+  private readonly counters = new CacheCounters();
+
+  constructor(
+    readonly dir: string,
+    private readonly maxBytes: number,
+  ) {}
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const fileName = this.fileName(key);
+    try {
+      const index = this.loadIndex();
+      if (!index.has(fileName)) {
+        this.counters.misses += 1;
+        return null;
+      }
+      const entry = parseStoredEntry(readFileSync(join(this.dir, fileName), 'utf8'), key);
+      if (!entry || isExpired(entry)) {
+        this.removeFile(fileName);
+        this.counters.misses += 1;
+        return null;
+      }
+      this.counters.hits += 1;
+      return entry;
+    } catch (error) {
+      this.counters.recordError(error);
+      this.counters.misses += 1;
+      return null;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const fileName = this.fileName(key);
+    const path = join(this.dir, fileName);
+    const tempPath = `${path}.${process.pid}.${Date.now()}.tmp`;
+    try {
+      const index = this.loadIndex();
+      const payload = JSON.stringify({ key, ...entry });
+      mkdirSync(this.dir, { recursive: true });
+      writeFileSync(tempPath, payload);
+      renameSync(tempPath, path);
+      this.forget(fileName);
+      const bytes = Buffer.byteLength(payload);
+      index.set(fileName, { bytes, storedAt: entry.storedAt });
+      this.bytes += bytes;
+      this.evictOverflow(index);
+    } catch (error) {
+      this.counters.recordError(error);
+      if (existsSync(tempPath)) {
+        try {
+          unlinkSync(tempPath);
+        } catch {
+          // Best effort cleanup.
+        }
+      }
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      this.loadIndex();
+      this.removeFile(this.fileName(key));
+    } catch (error) {
+      this.counters.recordError(error);
+    }
+  }
+
+  stats(): CacheStoreStats {
+    return this.counters.toStats(this.backend, {
+      entries: this.index?.size ?? null,
+      bytes: this.index ? this.bytes : null,
+      maxBytes: this.maxBytes,
+      evictions: this.counters.evictions,
+    });
+  }
+
+  async close(): Promise<void> {
+    this.index = null;
+    this.bytes = 0;
+  }
+
+  private fileName(key: string): string {
+    return `${hashKey(key)}.json`;
+  }
+
+  /** Scan the directory once, on first use. */
+  private loadIndex(): Map<string, { bytes: number; storedAt: number }> {
+    if (this.index) {
+      return this.index;
+    }
+    const index = new Map<string, { bytes: number; storedAt: number }>();
+    this.bytes = 0;
+    if (existsSync(this.dir)) {
+      for (const fileName of readdirSync(this.dir)) {
+        if (!fileName.endsWith('.json')) {
+          continue;
+        }
+        const stat = statSync(join(this.dir, fileName));
+        index.set(fileName, { bytes: stat.size, storedAt: stat.mtimeMs });
+        this.bytes += stat.size;
+      }
+    }
+    this.index = index;
+    this.evictOverflow(index);
+    return index;
+  }
+
+  private evictOverflow(index: Map<string, { bytes: number; storedAt: number }>): void {
+    if (this.bytes <= this.maxBytes) {
+      return;
+    }
+    const oldestFirst = [...index.entries()].sort(([, a], [, b]) => a.storedAt - b.storedAt);
+    for (const [fileName] of oldestFirst) {
+      if (this.bytes <= this.maxBytes) {
+        break;
+      }
+      this.removeFile(fileName);
+      this.counters.evictions += 1;
+    }
+  }
+
+  private forget(fileName: string): void {
+    const existing = this.index?.get(fileName);
+    if (existing) {
+      this.index!.delete(fileName);
+      this.bytes -= existing.bytes;
+    }
+  }
+
+  private removeFile(fileName: string): void {
+    this.forget(fileName);
+    const path = join(this.dir, fileName);
+    if (existsSync(path)) {
+      unlinkSync(path);
+    }
+  }
+}
+
+/**
+ * Entries in any Redis-protocol server (Redis, Valkey, KeyDB, Dragonfly),
+ * shared by every server process pointed at it. Expiry is delegated to the
+ * server via `SET ... PX`, so entry counts, bytes, and evictions are not
+ * tracked locally.
+ */
+export class RedisCacheStore implements CacheStore {
+  readonly backend = 'redis' as const;
+
+  private readonly client: RespClient;
+
+  private readonly counters = new CacheCounters();
+
+  constructor(url: string, timeoutMs = 1000) {
+    this.client = new RespClient(new URL(url), timeoutMs);
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    try {
+      const raw = await this.client.command(['GET', `${REDIS_KEY_PREFIX}${hashKey(key)}`]);
+      const entry = typeof raw === 'string' ? parseStoredEntry(raw, key) : null;
+      if (!entry || isExpired(entry)) {
+        this.counters.misses += 1;
+        return null;
+      }
+      this.counters.hits += 1;
+      return entry;
+    } catch (error) {
+      this.counters.recordError(error);
+      this.counters.misses += 1;
+      return null;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    try {
+      await this.client.command([
+        'SET',
+        `${REDIS_KEY_PREFIX}${hashKey(key)}`,
+        JSON.stringify({ key, ...entry }),
+        'PX',
+        String(Math.max(1, entry.ttlMs)),
+      ]);
+    } catch (error) {
+      this.counters.recordError(error);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await this.client.command(['DEL', `${REDIS_KEY_PREFIX}${hashKey(key)}`]);
+    } catch (error) {
+      this.counters.recordError(error);
+    }
+  }
+
+  stats(): CacheStoreStats {
+    return this.counters.toStats(this.backend, { entries: null, bytes: null, maxBytes: null, evictions: null });
+  }
+
+  async close(): Promise<void> {
+    this.client.close();
+  }
+}
+
+function getEnvBytes(value: string | undefined, fallback: number): number {
+  if (!value) return fallback;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? Math.floor(parsed) : fallback;
+}
+
+export function getDefaultCacheDir(): string | null {
+  const home = homedir();
+  if (!home) {
+    return null;
+  }
+  return join(home, '.mcp-server-gsc-pro', 'cache');
+}
+
+/**
+ * Read `GSC_CACHE_BACKEND` (`memory`, `file`, `redis`) and its settings. The
+ * in-memory LRU is always used as the first tier; `file`/`redis` add a
+ * persistent second tier behind it.
+ */
+export function resolveCacheConfig(env: NodeJS.ProcessEnv = process.env): CacheConfig {
+  const backend = (env.GSC_CACHE_BACKEND?.trim().toLowerCase() || 'memory') as CacheBackend;
+  if (!['memory', 'file', 'redis'].includes(backend)) {
+    throw new Error(`Unsupported GSC_CACHE_BACKEND "${env.GSC_CACHE_BACKEND}". Expected "memory", "file", or "redis".`);
+  }
+  // Cached search_analytics_cursor pages hold tokens signed with the cursor key. A per-process
+  // key would reject them after a restart or on another process sharing the store.
+  if (backend !== 'memory' && !env.GSC_CURSOR_SECRET?.trim()) {
+    throw new Error(
+      `GSC_CACHE_BACKEND=${backend} requires GSC_CURSOR_SECRET, so cached search_analytics_cursor tokens stay valid across restarts and processes.`,
+    );
+  }
+  const redisUrl = env.GSC_CACHE_REDIS_URL?.trim() || null;
+  if (backend === 'redis' && !redisUrl) {
+    throw new Error('GSC_CACHE_BACKEND=redis requires GSC_CACHE_REDIS_URL (for example redis://127.0.0.1:6379/0).');
+  }
+  return {
+    backend,
+    memoryMaxBytes: getEnvBytes(env.GSC_CACHE_MAX_BYTES, 64 * MIB),
+    fileDir: env.GSC_CACHE_DIR?.trim() || getDefaultCacheDir(),
+    fileMaxBytes: getEnvBytes(env.GSC_CACHE_FILE_MAX_BYTES, 512 * MIB),
+    redisUrl,
+  };
+}
+
+/** The persistent second-tier store for `config`, or null for memory-only caching. */
+export function createSharedCacheStore(config: CacheConfig): CacheStore | null {
+  if (config.backend === 'file') {
+    if (!config.fileDir) {
+      throw new Error('GSC_CACHE_BACKEND=file requires GSC_CACHE_DIR when no home directory is available.');
+    }
+    return new FileCacheStore(config.fileDir, config.fileMaxBytes);
+  }
+  if (config.backend === 'redis') {
+    return new RedisCacheStore(config.redisUrl!);
+  }
+  return null;
+}
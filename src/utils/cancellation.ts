@@ -0,0 +1,84 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+/** Per-tool-call cancellation state shared with everything the call awaits. */
+export interface CancellationScope {
+  readonly signal: AbortSignal;
+  /** Tool quota units (`quotaUnitsFor`) spent by Google API requests so far; the rest is refunded on cancellation. */
+  quotaUnitsSpent: number;
+}
+
+const cancellationStorage = new AsyncLocalStorage<CancellationScope>();
+
+export function withCancellationScope<T>(scope: CancellationScope, operation: () => Promise<T>): Promise<T> {
+  return cancellationStorage.run(scope, operation);
+}
+
+export function currentCancellationScope(): CancellationScope | undefined {
+  return cancellationStorage.getStore();
+}
+
+export function currentAbortSignal(): AbortSignal | undefined {
+  return cancellationStorage.getStore()?.signal;
+}
+
+/** Throw the signal's reason (a `GSCCancelledError` for tool calls) if it has been aborted. */
+export function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw signal.reason;
+  }
+}
+
+/** `setTimeout` as a promise that rejects with the signal's reason when aborted. */
+export function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (!signal) {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * A signal that aborts when `parent` aborts (client cancellation) or when
+ * `timeoutMs` elapses (0 disables the deadline). Call `dispose()` once the
+ * work settles to clear the timer and the parent listener.
+ */
+export function createDeadlineSignal(options: {
+  parent?: AbortSignal;
+  timeoutMs: number;
+  cancelledReason: () => Error;
+  timeoutReason: () => Error;
+}): { signal: AbortSignal; dispose: () => void } {
+  const controller = new AbortController();
+  const onParentAbort = () => controller.abort(options.cancelledReason());
+  if (options.parent?.aborted) {
+    onParentAbort();
+  } else {
+    options.parent?.addEventListener('abort', onParentAbort, { once: true });
+  }
+  const timer =
+    options.timeoutMs > 0 ? setTimeout(() => controller.abort(options.timeoutReason()), options.timeoutMs) : null;
+  timer?.unref();
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      options.parent?.removeEventListener('abort', onParentAbort);
+    },
+  };
+}
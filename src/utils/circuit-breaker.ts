@@ -0,0 +1,120 @@
+import { GSCCancelledError, GSCQuotaError, type ApiFamily } from '../service.js';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive rate-limit failures (after retries) that open the circuit. */
+  failureThreshold: number;
+  /** How long a circuit opened by rate limiting stays open, unless `Retry-After` asks for longer. */
+  cooldownMs: number;
+  /** How long a circuit opened by daily-limit exhaustion stays open before a probe request. */
+  dailyCooldownMs: number;
+}
+
+export interface CircuitSnapshot {
+  state: 'closed' | 'open' | 'half_open';
+  consecutiveFailures: number;
+  reason: string | null;
+  openUntil: string | null;
+}
+
+interface CircuitState {
+  consecutiveFailures: number;
+  openUntil: number;
+  reason: string | null;
+  probing: boolean;
+}
+
+function envSeconds(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+export function resolveCircuitBreakerOptions(env: NodeJS.ProcessEnv = process.env): CircuitBreakerOptions {
+  return {
+    failureThreshold: Math.max(1, Math.floor(envSeconds(env.GSC_CIRCUIT_FAILURE_THRESHOLD, 3))),
+    cooldownMs: envSeconds(env.GSC_CIRCUIT_COOLDOWN_SEC, 30) * 1000,
+    dailyCooldownMs: envSeconds(env.GSC_CIRCUIT_DAILY_COOLDOWN_SEC, 3600) * 1000,
+  };
+}
+
+/**
+ * One circuit per API family, shared by every tool and account in the
+ * process. Daily-limit exhaustion opens the circuit at once; rate limiting
+ * opens it after `failureThreshold` consecutive failed calls. While open,
+ * calls fail fast with `GSCQuotaError` (reason `circuitOpen`). After the
+ * cooldown a single probe call is let through: success closes the circuit,
+ * another quota failure reopens it.
+ */
+export class ApiCircuitBreaker {
+  private readonly circuits = new Map<ApiFamily, CircuitState>();
+
+  constructor(private readonly options: CircuitBreakerOptions = resolveCircuitBreakerOptions()) {}
+
+  /** Throw if calls to `family` should fail fast; otherwise admit the call. */
+  check(family: ApiFamily, now = Date.now()): void {
+    const circuit = this.circuits.get(family);
+    if (!circuit || circuit.openUntil === 0) {
+      return;
+    }
+    if (now >= circuit.openUntil && !circuit.probing) {
+      circuit.probing = true;
+      return;
+    }
+    const retryAfterMs = Math.max(0, circuit.openUntil - now);
+    throw new GSCQuotaError(
+      `${family} API calls are paused after ${circuit.reason ?? 'quota errors'}; the circuit reopens for a probe in ${Math.ceil(retryAfterMs / 1000)}s.`,
+      'circuitOpen',
+      retryAfterMs,
+    );
+  }
+
+  recordSuccess(family: ApiFamily): void {
+    this.circuits.delete(family);
+  }
+
+  /**
+   * Only quota errors count; any other outcome of a probe closes the circuit,
+   * except cancellation, which lets the next call probe instead.
+   */
+  recordFailure(family: ApiFamily, error: unknown, now = Date.now()): void {
+    if (error instanceof GSCQuotaError && error.reason === 'circuitOpen') {
+      return;
+    }
+    if (error instanceof GSCCancelledError) {
+      const circuit = this.circuits.get(family);
+      if (circuit) {
+        circuit.probing = false;
+      }
+      return;
+    }
+    if (!(error instanceof GSCQuotaError)) {
+      if (this.circuits.get(family)?.probing) {
+        this.circuits.delete(family);
+      }
+      return;
+    }
+
+    const circuit = this.circuits.get(family) ?? { consecutiveFailures: 0, openUntil: 0, reason: null, probing: false };
+    circuit.consecutiveFailures += 1;
+    circuit.reason = error.reason;
+    if (error.daily) {
+      circuit.openUntil = now + this.options.dailyCooldownMs;
+    } else if (circuit.probing || circuit.consecutiveFailures >= this.options.failureThreshold) {
+      circuit.openUntil = now + Math.max(this.options.cooldownMs, error.retryAfterMs ?? 0);
+    }
+    circuit.probing = false;
+    this.circuits.set(family, circuit);
+  }
+
+  snapshot(now = Date.now()): Partial<Record<ApiFamily, CircuitSnapshot>> {
+    const snapshot: Partial<Record<ApiFamily, CircuitSnapshot>> = {};
+    for (const [family, circuit] of this.circuits) {
+      snapshot[family] = {
+        state: circuit.openUntil === 0 ? 'closed' : now >= circuit.openUntil ? 'half_open' : 'open',
+        consecutiveFailures: circuit.consecutiveFailures,
+        reason: circuit.reason,
+        openUntil: circuit.openUntil === 0 ? null : new Date(circuit.openUntil).toISOString(),
+      };
+    }
+    return snapshot;
+  }
+}
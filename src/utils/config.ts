@@ -0,0 +1,261 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+
+import { TemplateRuleSchema } from '../schemas/computed2.js';
+import { RetryPolicyOverrideSchema, type RetryPolicyConfig } from './retry.js';
+
+const ToolSettingsSchema = z
+  .object({
+    concurrency: z.number().int().min(1),
+    cacheTtlSec: z.number().int().min(1),
+    timeoutSec: z.number().min(0),
+    quotaBudgetDaily: z.number().int().min(1),
+    retry: RetryPolicyOverrideSchema,
+  })
+  .partial()
+  .strict();
+
+const SiteDefaultsSchema = z
+  .object({
+    brandTerms: z.array(z.string().min(2)).max(10),
+    templateRules: z.array(TemplateRuleSchema).max(20),
+  })
+  .partial()
+  .strict();
+
+const SitePatternSchema = z
+  .string()
+  .regex(/^(\*|sc-domain:[^\s/]+|https?:\/\/\S+)$/, 'Expected "*", "sc-domain:<domain>" or an http(s) URL prefix');
+
+const SiteRulesSchema = z
+  .object({
+    read: z.array(SitePatternSchema),
+    write: z.array(SitePatternSchema),
+  })
+  .partial()
+  .strict();
+
+export const ServerConfigSchema = z
+  .object({
+    server: z
+      .object({
+        globalConcurrency: z.number().int().min(1),
+        idempotencyTtlSec: z.number().int().min(60),
+        quotaBudgetDaily: z.number().int().min(1),
+        telemetryEnabled: z.boolean(),
+        debugMode: z.boolean(),
+        rateLimitEnabled: z.boolean(),
+      })
+      .partial()
+      .strict(),
+    /** Settings for every tool without its own entry in `tools`. */
+    toolDefaults: ToolSettingsSchema.omit({ quotaBudgetDaily: true }),
+    tools: z.record(ToolSettingsSchema),
+    /** Tool names or group ids to expose or hide, and read-only mode. */
+    toolAccess: z
+      .object({
+        allow: z.array(z.string().min(1)),
+        deny: z.array(z.string().min(1)),
+        readOnly: z.boolean(),
+      })
+      .partial()
+      .strict(),
+    /** Properties this server may read or write; `clients` adds HTTP bearer tokens with their own rules. */
+    sitePolicy: SiteRulesSchema.extend({
+      clients: z.record(
+        z.string().regex(/^[A-Za-z0-9_.-]+$/, 'Expected a client id of letters, digits, ".", "_" or "-"'),
+        SiteRulesSchema.extend({ token: z.string().min(16) }).strict(),
+      ),
+    })
+      .partial()
+      .strict(),
+    /** Used when a tool that takes `siteUrl` is called without one. */
+    defaultSiteUrl: z.string().min(1),
+    /** Keyed by exact `siteUrl`; filled into calls that accept but omit these arguments. */
+    sites: z.record(SiteDefaultsSchema),
+    /** Environment-only settings (credentials, transports, cache backend); existing variables win. */
+    env: z.record(
+      z.string().regex(/^[A-Z][A-Z0-9_]*$/, 'Expected an upper-case environment variable name'),
+      z.union([z.string(), z.number(), z.boolean()]),
+    ),
+  })
+  .partial()
+  .strict();
+
+export type ServerConfig = z.infer<typeof ServerConfigSchema>;
+
+export interface LoadedServerConfig {
+  /** Absolute path of the config file, or null when `GSC_CONFIG` is unset. */
+  path: string | null;
+  format: 'json' | 'yaml' | null;
+  config: ServerConfig;
+}
+
+const PLACEHOLDER_PATTERN = /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+function formatPath(segments: Array<string | number>): string {
+  let output = '';
+  for (const segment of segments) {
+    if (typeof segment === 'number') {
+      output += `[${segment}]`;
+    } else if (/^[A-Za-z_][A-Za-z0-9_]*$/.test(segment)) {
+      output += output ? `.${segment}` : segment;
+    } else {
+      output += `[${JSON.stringify(segment)}]`;
+    }
+  }
+  return output || '(root)';
+}
+
+/** A string that is exactly one placeholder keeps the variable's number or boolean type. */
+function coerceScalar(value: string): string | number | boolean {
+  if (value === 'true' || value === 'false') return value === 'true';
+  const parsed = Number(value);
+  return value.trim() !== '' && Number.isFinite(parsed) ? parsed : value;
+}
+
+/** Replace `${VAR}` and `${VAR:-default}` in every string value. */
+export function interpolateEnv(value: unknown, env: NodeJS.ProcessEnv, at: Array<string | number> = []): unknown {
+  if (typeof value === 'string') {
+    const whole = /^\$\{[^}]+\}$/.test(value);
+    const replaced = value.replace(PLACEHOLDER_PATTERN, (_match, name: string, fallback: string | undefined) => {
+      const resolved = env[name] ?? fallback;
+      if (resolved === undefined) {
+        throw new Error(`${formatPath(at)}: environment variable ${name} is not set`);
+      }
+      return resolved;
+    });
+    return whole ? coerceScalar(replaced) : replaced;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => interpolateEnv(item, env, [...at, index]));
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, nested]) => [key, interpolateEnv(nested, env, [...at, key])]),
+    );
+  }
+  return value;
+}
+
+export interface ConfigParseOptions {
+  env?: NodeJS.ProcessEnv;
+  /** Valid `tools` keys and `toolAccess` entries; unchecked when omitted. */
+  toolNames?: ReadonlySet<string>;
+  /** Group ids also accepted in `toolAccess` lists. */
+  toolGroups?: ReadonlySet<string>;
+}
+
+/**
+ * Validate an already-parsed config document. Errors name every offending
+ * path, e.g. `tools.batch_inspect.concurrency: Expected number, received string`.
+ */
+export function parseServerConfig(raw: unknown, options: ConfigParseOptions = {}): ServerConfig {
+  const result = ServerConfigSchema.safeParse(interpolateEnv(raw ?? {}, options.env ?? process.env));
+  const issues = result.success
+    ? []
+    : result.error.issues.map((issue) => `${formatPath(issue.path)}: ${issue.message}`);
+  const toolNames = options.toolNames;
+  if (result.success && toolNames) {
+    for (const toolName of Object.keys(result.data.tools ?? {})) {
+      if (!toolNames.has(toolName)) {
+        issues.push(`${formatPath(['tools', toolName])}: Unknown tool`);
+      }
+    }
+    for (const list of ['allow', 'deny'] as const) {
+      result.data.toolAccess?.[list]?.forEach((entry, index) => {
+        if (!toolNames.has(entry) && !options.toolGroups?.has(entry)) {
+          issues.push(`${formatPath(['toolAccess', list, index])}: Unknown tool or group "${entry}"`);
+        }
+      });
+    }
+  }
+  if (result.success) {
+    const seenTokens = new Set<string>();
+    for (const [clientId, client] of Object.entries(result.data.sitePolicy?.clients ?? {})) {
+      if (seenTokens.has(client.token)) {
+        issues.push(`${formatPath(['sitePolicy', 'clients', clientId, 'token'])}: Token is shared with another client`);
+      }
+      seenTokens.add(client.token);
+    }
+  }
+  if (!result.success || issues.length > 0) {
+    throw new Error(issues.join('; '));
+  }
+  return result.data;
+}
+
+/** Read the JSON or YAML file named by `GSC_CONFIG`; an empty config when it is unset. */
+export function loadServerConfig(options: ConfigParseOptions = {}): LoadedServerConfig {
+  const env = options.env ?? process.env;
+  const configured = env.GSC_CONFIG?.trim();
+  if (!configured) {
+    return { path: null, format: null, config: {} };
+  }
+
+  const filePath = path.resolve(configured);
+  const extension = path.extname(filePath).toLowerCase();
+  const format = extension === '.json' ? 'json' : extension === '.yaml' || extension === '.yml' ? 'yaml' : null;
+  if (!format) {
+    throw new Error(`Invalid config file ${filePath}: expected a .json, .yaml or .yml extension`);
+  }
+
+  let raw: unknown;
+  try {
+    const text = readFileSync(filePath, 'utf8');
+    raw = format === 'json' ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new Error(`Cannot read config file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  try {
+    return { path: filePath, format, config: parseServerConfig(raw, { ...options, env }) };
+  } catch (error) {
+    throw new Error(`Invalid config file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/** Copy the config's `env` section into `env` for variables that are not already set. */
+export function applyConfigEnv(config: ServerConfig, env: NodeJS.ProcessEnv = process.env): void {
+  for (const [name, value] of Object.entries(config.env ?? {})) {
+    if (env[name] === undefined) {
+      env[name] = String(value);
+    }
+  }
+}
+
+/** The config's retry policies in the `GSC_RETRY_POLICY` shape. */
+export function configRetryPolicies(config: ServerConfig): RetryPolicyConfig {
+  const tools = Object.entries(config.tools ?? {}).flatMap(([toolName, settings]) =>
+    settings.retry ? [[toolName, settings.retry] as const] : [],
+  );
+  return { default: config.toolDefaults?.retry, tools: Object.fromEntries(tools) };
+}
+
+/**
+ * Fill `defaultSiteUrl` and the site's `brandTerms`/`templateRules` into a
+ * call's arguments when the tool accepts them and the caller left them out.
+ */
+export function applySiteDefaults(
+  config: ServerConfig,
+  acceptedKeys: ReadonlySet<string>,
+  args: Record<string, unknown> | undefined,
+): Record<string, unknown> | undefined {
+  const next: Record<string, unknown> = { ...args };
+  let changed = false;
+  if (acceptedKeys.has('siteUrl') && next.siteUrl === undefined && config.defaultSiteUrl) {
+    next.siteUrl = config.defaultSiteUrl;
+    changed = true;
+  }
+  const site = typeof next.siteUrl === 'string' ? config.sites?.[next.siteUrl] : undefined;
+  for (const key of ['brandTerms', 'templateRules'] as const) {
+    if (site?.[key] && acceptedKeys.has(key) && next[key] === undefined) {
+      next[key] = site[key];
+      changed = true;
+    }
+  }
+  return changed ? next : args;
+}
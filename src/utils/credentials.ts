@@ -0,0 +1,234 @@
+import { readFileSync } from 'node:fs';
+import { dirname, isAbsolute, resolve } from 'node:path';
+
+import { z } from 'zod';
+
+import { GSCError, type SearchConsoleService, type ServiceCredentials } from '../service.js';
+import { resolveOAuthClientConfig, type OAuthClientConfig } from './oauth.js';
+
+export const DEFAULT_ACCOUNT_ID = 'default';
+
+const CredentialAccountSchema = z
+  .object({
+    id: z.string().min(1),
+    keyFile: z.string().min(1).optional().describe('Service account JSON key file.'),
+    oauthTokenFile: z
+      .string()
+      .min(1)
+      .optional()
+      .describe('OAuth refresh token file written by `mcp-server-gsc-pro auth login`.'),
+    sites: z
+      .array(z.string().min(1))
+      .min(1)
+      .describe('Property patterns: "*", "sc-domain:example.com", or a URL prefix such as "https://www.example.com/".'),
+  })
+  .refine((account) => Boolean(account.keyFile) !== Boolean(account.oauthTokenFile), {
+    message: 'Set exactly one of keyFile or oauthTokenFile',
+  });
+
+const CredentialsMapSchema = z
+  .object({
+    defaultAccount: z.string().min(1).optional(),
+    accounts: z.array(CredentialAccountSchema).min(1),
+  })
+  .superRefine((data, ctx) => {
+    const seen = new Set<string>();
+    data.accounts.forEach((account, index) => {
+      if (seen.has(account.id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['accounts', index, 'id'],
+          message: `Duplicate account id "${account.id}"`,
+        });
+      }
+      seen.add(account.id);
+    });
+    if (data.defaultAccount && !seen.has(data.defaultAccount)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['defaultAccount'],
+        message: `defaultAccount "${data.defaultAccount}" does not match any account id`,
+      });
+    }
+  });
+
+export type CredentialAccount = z.infer<typeof CredentialAccountSchema>;
+export type CredentialsMap = z.infer<typeof CredentialsMapSchema>;
+
+/** A SearchConsoleService bound to the credential account it authenticates as. */
+export interface AccountService {
+  accountId: string;
+  service: SearchConsoleService;
+}
+
+/**
+ * Read and validate a credentials map file. Relative key and token file
+ * paths are resolved against the directory of the map file.
+ */
+export function loadCredentialsMap(path: string): CredentialsMap {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, 'utf8')) as unknown;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to read credentials map at ${path}: ${reason}`);
+  }
+
+  const result = CredentialsMapSchema.safeParse(parsed);
+  if (!result.success) {
+    const issue = result.error.errors[0];
+    throw new Error(`Invalid credentials map at ${path}: ${issue.path.join('.') || '(root)'}: ${issue.message}`);
+  }
+
+  const baseDir = dirname(path);
+  const resolvePath = (file: string | undefined) =>
+    file === undefined || isAbsolute(file) ? file : resolve(baseDir, file);
+  return {
+    ...result.data,
+    accounts: result.data.accounts.map((account) => ({
+      ...account,
+      keyFile: resolvePath(account.keyFile),
+      oauthTokenFile: resolvePath(account.oauthTokenFile),
+    })),
+  };
+}
+
+function parseUrl(value: string): URL | null {
+  try {
+    return new URL(value);
+  } catch {
+    return null;
+  }
+}
+
+function parseHostname(value: string): string | null {
+  if (value.startsWith('sc-domain:')) {
+    return value.slice('sc-domain:'.length).toLowerCase().replace(/\.$/, '');
+  }
+  try {
+    return new URL(value).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Return the specificity of `pattern` for `target` (longer = more specific),
+ * or -1 when it does not match. `sc-domain:` patterns cover the domain and all
+ * of its subdomains, URL-prefix patterns match targets on the same origin by
+ * path prefix, and `*` matches all.
+ */
+export function matchSitePattern(pattern: string, target: string): number {
+  if (pattern === '*') {
+    return 0;
+  }
+
+  if (pattern.startsWith('sc-domain:')) {
+    const domain = parseHostname(pattern);
+    const hostname = parseHostname(target);
+    if (!domain || !hostname) return -1;
+    return hostname === domain || hostname.endsWith(`.${domain}`) ? pattern.length : -1;
+  }
+
+  const prefix = parseUrl(pattern);
+  const url = parseUrl(target);
+  if (!prefix || !url || prefix.origin !== url.origin) return -1;
+  return url.pathname.toLowerCase().startsWith(prefix.pathname.toLowerCase()) ? pattern.length : -1;
+}
+
+export class CredentialRouter {
+  constructor(
+    private readonly accountList: CredentialAccount[],
+    private readonly defaultAccountId?: string,
+    private readonly oauthClient: OAuthClientConfig | null = null,
+  ) {}
+
+  accounts(): CredentialAccount[] {
+    return [...this.accountList];
+  }
+
+  /** Key file path or OAuth client settings for constructing the account's service. */
+  credentialsFor(account: CredentialAccount): ServiceCredentials {
+    if (account.keyFile) {
+      return account.keyFile;
+    }
+    if (!this.oauthClient || !account.oauthTokenFile) {
+      throw new GSCError(
+        `Account "${account.id}" uses OAuth but GSC_OAUTH_CLIENT_ID/GSC_OAUTH_CLIENT_SECRET are not set.`,
+        'CONFIG_ERROR',
+      );
+    }
+    return { ...this.oauthClient, tokenPath: account.oauthTokenFile };
+  }
+
+  /**
+   * Pick the account whose most specific site pattern matches the target
+   * property or URL, falling back to the default account.
+   */
+  resolve(target?: string): CredentialAccount {
+    let best: { account: CredentialAccount; score: number } | null = null;
+    if (target) {
+      for (const account of this.accountList) {
+        for (const pattern of account.sites) {
+          const score = matchSitePattern(pattern, target);
+          if (score >= 0 && (!best || score > best.score)) {
+            best = { account, score };
+          }
+        }
+      }
+    }
+    if (best) {
+      return best.account;
+    }
+
+    const fallback = this.defaultAccountId
+      ? this.accountList.find((account) => account.id === this.defaultAccountId)
+      : undefined;
+    if (fallback) {
+      return fallback;
+    }
+
+    throw new GSCError(
+      `No configured credentials match "${target ?? '(no siteUrl)'}". Add a matching pattern or a defaultAccount to the credentials map.`,
+      'CONFIG_ERROR',
+    );
+  }
+}
+
+/**
+ * Build the router from `GSC_CREDENTIALS_MAP` (multi-account) and/or a single
+ * account from `GOOGLE_APPLICATION_CREDENTIALS` or, failing that, the OAuth
+ * client in `GSC_OAUTH_CLIENT_ID`/`GSC_OAUTH_CLIENT_SECRET`. When a map has no
+ * defaultAccount, the single account becomes the fallback.
+ */
+export function createCredentialRouter(env: NodeJS.ProcessEnv = process.env): CredentialRouter | null {
+  const mapPath = env.GSC_CREDENTIALS_MAP?.trim();
+  const singleKeyFile = env.GOOGLE_APPLICATION_CREDENTIALS?.trim();
+  const oauthClient = resolveOAuthClientConfig(env);
+
+  const singleAccount: CredentialAccount | null = singleKeyFile
+    ? { id: DEFAULT_ACCOUNT_ID, keyFile: singleKeyFile, sites: ['*'] }
+    : oauthClient
+      ? { id: DEFAULT_ACCOUNT_ID, oauthTokenFile: oauthClient.tokenPath, sites: ['*'] }
+      : null;
+
+  if (!mapPath) {
+    return singleAccount ? new CredentialRouter([singleAccount], DEFAULT_ACCOUNT_ID, oauthClient) : null;
+  }
+
+  const map = loadCredentialsMap(mapPath);
+  if (!oauthClient) {
+    const oauthAccount = map.accounts.find((account) => account.oauthTokenFile);
+    if (oauthAccount) {
+      throw new Error(
+        `Account "${oauthAccount.id}" in ${mapPath} uses oauthTokenFile, which requires GSC_OAUTH_CLIENT_ID and GSC_OAUTH_CLIENT_SECRET.`,
+      );
+    }
+  }
+
+  if (map.defaultAccount || !singleAccount || map.accounts.some((account) => account.id === DEFAULT_ACCOUNT_ID)) {
+    return new CredentialRouter(map.accounts, map.defaultAccount, oauthClient);
+  }
+
+  return new CredentialRouter([...map.accounts, singleAccount], DEFAULT_ACCOUNT_ID, oauthClient);
+}
@@ -0,0 +1,103 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+
+import { GSCError } from '../service.js';
+import { stableStringify } from './runtime.js';
+
+const CURSOR_VERSION = 'v1';
+const DEFAULT_CURSOR_TTL_SEC = 60 * 60;
+
+/** Per-process fallback when GSC_CURSOR_SECRET is unset; cursors then die with the process. */
+let processSecret: Buffer | null = null;
+
+function getCursorSecret(): Buffer {
+  const configured = process.env.GSC_CURSOR_SECRET?.trim();
+  if (configured) {
+    return Buffer.from(configured, 'utf8');
+  }
+  processSecret ??= randomBytes(32);
+  return processSecret;
+}
+
+function getCursorTtlMs(): number {
+  const parsed = Number(process.env.GSC_CURSOR_TTL_SEC);
+  return (Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_CURSOR_TTL_SEC) * 1000;
+}
+
+function sign(payload: string): Buffer {
+  return createHmac('sha256', getCursorSecret()).update(`${CURSOR_VERSION}.${payload}`).digest();
+}
+
+function invalidCursor(reason: string): GSCError {
+  return new GSCError(
+    `Invalid cursor: ${reason}. Start a new scan by calling again without a cursor.`,
+    'INVALID_CURSOR',
+    400,
+  );
+}
+
+/** Short hash identifying a scan's query, so agents can tell scans apart. */
+export function queryFingerprint(query: unknown): string {
+  // JSON round-trip first so undefined fields hash the same before and after decoding.
+  const normalized = JSON.parse(JSON.stringify(query ?? null)) as unknown;
+  return createHash('sha256').update(stableStringify(normalized)).digest('hex').slice(0, 16);
+}
+
+/**
+ * Encode `state` as `v1.<payload>.<hmac>`. The payload carries an expiry and
+ * the fingerprint of `query`; both are covered by the HMAC.
+ */
+export function signCursor<T extends object>(state: T, query: unknown): string {
+  const payload = Buffer.from(
+    JSON.stringify({ state, fp: queryFingerprint(query), exp: Date.now() + getCursorTtlMs() }),
+    'utf8',
+  ).toString('base64url');
+  return `${CURSOR_VERSION}.${payload}.${sign(payload).toString('base64url')}`;
+}
+
+/**
+ * Verify a token from `signCursor` and return its state. Throws
+ * `INVALID_CURSOR` for malformed, tampered, or mismatched tokens, and
+ * `CURSOR_EXPIRED` once past its expiry.
+ */
+export function verifyCursor<T extends object>(
+  token: string,
+  fingerprintOf: (state: T) => unknown,
+): { state: T; fingerprint: string; expiresAt: string } {
+  const [version, payload, signature, ...rest] = token.split('.');
+  if (version !== CURSOR_VERSION || !payload || !signature || rest.length > 0) {
+    throw invalidCursor('unrecognized token format');
+  }
+
+  const expected = sign(payload);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw invalidCursor('signature does not match (the token was modified or issued by another server)');
+  }
+
+  let decoded: { state?: T; fp?: unknown; exp?: unknown };
+  try {
+    decoded = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as typeof decoded;
+  } catch {
+    throw invalidCursor('payload is not valid JSON');
+  }
+  if (
+    !decoded.state ||
+    typeof decoded.state !== 'object' ||
+    typeof decoded.fp !== 'string' ||
+    typeof decoded.exp !== 'number'
+  ) {
+    throw invalidCursor('payload is missing required fields');
+  }
+  if (decoded.fp !== queryFingerprint(fingerprintOf(decoded.state))) {
+    throw invalidCursor('query fingerprint does not match');
+  }
+  if (Date.now() > decoded.exp) {
+    throw new GSCError(
+      `Cursor expired at ${new Date(decoded.exp).toISOString()}. Start a new scan by calling again without a cursor.`,
+      'CURSOR_EXPIRED',
+      410,
+    );
+  }
+
+  return { state: decoded.state, fingerprint: decoded.fp, expiresAt: new Date(decoded.exp).toISOString() };
+}
@@ -109,6 +109,78 @@ export function comparePeriods(days: number): {
   };
 }
 
+/** The same date one calendar year earlier; Feb 29 becomes Feb 28. */
+function previousYear(date: Date): Date {
+  const year = date.getUTCFullYear() - 1;
+  const lastDay = new Date(Date.UTC(year, date.getUTCMonth() + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, date.getUTCMonth(), Math.min(date.getUTCDate(), lastDay)));
+}
+
+/**
+ * Period A: the last `days` ending yesterday. Period B: the same window a year
+ * earlier, 364 days back so weekdays line up, or on the same calendar dates.
+ */
+export function yearOverYearPeriods(
+  days: number,
+  alignment: 'weekday' | 'calendar' = 'weekday',
+): {
+  periodA: { startDate: string; endDate: string };
+  periodB: { startDate: string; endDate: string };
+} {
+  const endA = daysAgo(1);
+  const startA = daysAgo(days - 1, endA);
+  const shift = (date: Date) => (alignment === 'weekday' ? addUtcDays(date, -364) : previousYear(date));
+  return {
+    periodA: { startDate: formatDate(startA), endDate: formatDate(endA) },
+    periodB: { startDate: formatDate(shift(startA)), endDate: formatDate(shift(endA)) },
+  };
+}
+
+/**
+ * Period A: calendar month `month` (YYYY-MM), by default the last complete
+ * month. Period B: the calendar month before it.
+ */
+export function monthOverMonthPeriods(month?: string): {
+  periodA: { startDate: string; endDate: string };
+  periodB: { startDate: string; endDate: string };
+} {
+  const today = daysAgo(0);
+  const [year, monthIndex] = month
+    ? [Number(month.slice(0, 4)), Number(month.slice(5, 7)) - 1]
+    : [today.getUTCFullYear(), today.getUTCMonth() - 1];
+  const monthRange = (offset: number) => ({
+    startDate: formatDate(new Date(Date.UTC(year, monthIndex + offset, 1))),
+    endDate: formatDate(new Date(Date.UTC(year, monthIndex + offset + 1, 0))),
+  });
+  return { periodA: monthRange(0), periodB: monthRange(-1) };
+}
+
+export interface ComparisonPeriodOptions {
+  mode: 'previous' | 'yoy' | 'mom' | 'custom';
+  days: number;
+  yoyAlignment: 'weekday' | 'calendar';
+  month?: string;
+  periodA?: { startDate: string; endDate: string };
+  periodB?: { startDate: string; endDate: string };
+}
+
+/** Resolve the recent period A and baseline period B for a comparison mode. */
+export function resolveComparisonPeriods(options: ComparisonPeriodOptions): {
+  periodA: { startDate: string; endDate: string };
+  periodB: { startDate: string; endDate: string };
+} {
+  switch (options.mode) {
+    case 'yoy':
+      return yearOverYearPeriods(options.days, options.yoyAlignment);
+    case 'mom':
+      return monthOverMonthPeriods(options.month);
+    case 'custom':
+      return { periodA: options.periodA!, periodB: options.periodB! };
+    default:
+      return comparePeriods(options.days);
+  }
+}
+
 /**
  * Compute a rolling window: a series of sub-periods of `windowDays` length
  * within the overall range. Used for trend detection (e.g. decay).
@@ -134,3 +206,28 @@ export function rollingWindows(
   // Reverse so oldest window is first (chronological order)
   return windows.reverse();
 }
+
+/** List every date from startDate to endDate inclusive, oldest first. */
+export function eachDate(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  const end = parseDateString(endDate);
+  for (let current = parseDateString(startDate); current <= end; current = addUtcDays(current, 1)) {
+    dates.push(formatDate(current));
+  }
+  return dates;
+}
+
+/** Split startDate..endDate into consecutive windows of up to `chunkDays` days, oldest first. */
+export function chunkDateRange(
+  startDate: string,
+  endDate: string,
+  chunkDays: number,
+): Array<{ startDate: string; endDate: string }> {
+  const end = parseDateString(endDate);
+  const chunks: Array<{ startDate: string; endDate: string }> = [];
+  for (let current = parseDateString(startDate); current <= end; current = addUtcDays(current, chunkDays)) {
+    const chunkEnd = addUtcDays(current, chunkDays - 1);
+    chunks.push({ startDate: formatDate(current), endDate: formatDate(chunkEnd < end ? chunkEnd : end) });
+  }
+  return chunks;
+}
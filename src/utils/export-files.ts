@@ -0,0 +1,208 @@
+import { createHash } from 'node:crypto';
+import { createReadStream, createWriteStream, linkSync, renameSync, unlinkSync, type WriteStream } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { once } from 'node:events';
+
+import { ParquetWriter, fileWriter, schemaFromColumnData, type ColumnSource } from 'hyparquet-writer';
+
+export type ExportFormat = 'csv' | 'ndjson' | 'parquet';
+
+export type ExportValue = string | number;
+
+export interface ExportColumn {
+  name: string;
+  type: 'string' | 'integer' | 'number';
+  description: string;
+}
+
+/** Appends records to a file; `close` flushes and must be called exactly once. */
+export interface ExportWriter {
+  write(records: Array<Record<string, ExportValue>>): Promise<void>;
+  close(): Promise<void>;
+  abort(): void;
+}
+
+export function getDefaultExportDir(): string | null {
+  const home = homedir();
+  if (!home) {
+    return null;
+  }
+  return join(home, '.mcp-server-gsc-pro', 'exports');
+}
+
+/** `GSC_EXPORT_DIR` overrides the default export directory. */
+export function resolveExportDir(override: string | undefined = process.env.GSC_EXPORT_DIR): string | null {
+  const trimmed = override?.trim();
+  return trimmed ? trimmed : getDefaultExportDir();
+}
+
+function csvField(value: ExportValue): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+async function writeChunk(stream: WriteStream, chunk: string): Promise<void> {
+  if (!stream.write(chunk)) {
+    await once(stream, 'drain');
+  }
+}
+
+async function endStream(stream: WriteStream): Promise<void> {
+  stream.end();
+  await once(stream, 'finish');
+}
+
+class LineExportWriter implements ExportWriter {
+  private readonly stream: WriteStream;
+
+  private headerWritten = false;
+
+  private failure: Error | null = null;
+
+  constructor(
+    path: string,
+    private readonly columns: ExportColumn[],
+    private readonly format: 'csv' | 'ndjson',
+  ) {
+    this.stream = createWriteStream(path, { flags: 'wx' });
+    this.stream.on('error', (error) => {
+      this.failure = error;
+    });
+  }
+
+  async write(records: Array<Record<string, ExportValue>>): Promise<void> {
+    if (this.failure) {
+      throw this.failure;
+    }
+    if (this.format === 'csv' && !this.headerWritten) {
+      await writeChunk(this.stream, `${this.columns.map((column) => csvField(column.name)).join(',')}\r\n`);
+      this.headerWritten = true;
+    }
+    const lines = records.map((record) =>
+      this.format === 'csv'
+        ? `${this.columns.map((column) => csvField(record[column.name] ?? '')).join(',')}\r\n`
+        : `${JSON.stringify(Object.fromEntries(this.columns.map((column) => [column.name, record[column.name] ?? null])))}\n`,
+    );
+    await writeChunk(this.stream, lines.join(''));
+  }
+
+  async close(): Promise<void> {
+    if (!this.headerWritten) {
+      await this.write([]);
+    }
+    await endStream(this.stream);
+    if (this.failure) {
+      throw this.failure;
+    }
+  }
+
+  abort(): void {
+    this.stream.destroy();
+  }
+}
+
+/** Rows buffered per Parquet row group: one Search Analytics page. */
+const PARQUET_ROW_GROUP_SIZE = 25_000;
+
+function parquetColumn(column: ExportColumn, data: ExportValue[]): ColumnSource {
+  switch (column.type) {
+    case 'integer':
+      return { name: column.name, data: data.map((value) => BigInt(Math.round(Number(value)))), type: 'INT64' };
+    case 'number':
+      return { name: column.name, data, type: 'DOUBLE' };
+    default:
+      return { name: column.name, data, type: 'STRING' };
+  }
+}
+
+/**
+ * Parquet is columnar, so values are buffered per column and flushed to the
+ * file as a row group every `PARQUET_ROW_GROUP_SIZE` rows; the footer is
+ * written on close.
+ */
+class ParquetExportWriter implements ExportWriter {
+  private readonly writer: ParquetWriter;
+
+  private data: Map<string, ExportValue[]>;
+
+  private buffered = 0;
+
+  constructor(
+    path: string,
+    private readonly columns: ExportColumn[],
+  ) {
+    this.data = this.emptyColumns();
+    this.writer = new ParquetWriter({
+      writer: fileWriter(path),
+      schema: schemaFromColumnData({
+        columnData: columns.map((column) => ({ ...parquetColumn(column, []), nullable: false })),
+      }),
+    });
+  }
+
+  async write(records: Array<Record<string, ExportValue>>): Promise<void> {
+    for (const record of records) {
+      for (const column of this.columns) {
+        this.data.get(column.name)!.push(record[column.name] ?? (column.type === 'string' ? '' : 0));
+      }
+      this.buffered += 1;
+      if (this.buffered >= PARQUET_ROW_GROUP_SIZE) {
+        await this.flush();
+      }
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.flush();
+    await this.writer.finish();
+  }
+
+  abort(): void {
+    this.data.clear();
+  }
+
+  private emptyColumns(): Map<string, ExportValue[]> {
+    return new Map(this.columns.map((column) => [column.name, []]));
+  }
+
+  private async flush(): Promise<void> {
+    if (this.buffered === 0) {
+      return;
+    }
+    const rowGroupSize = this.buffered;
+    const columnData = this.columns.map((column) => parquetColumn(column, this.data.get(column.name)!));
+    this.data = this.emptyColumns();
+    this.buffered = 0;
+    await this.writer.write({ columnData, rowGroupSize });
+  }
+}
+
+export function createExportWriter(path: string, format: ExportFormat, columns: ExportColumn[]): ExportWriter {
+  return format === 'parquet' ? new ParquetExportWriter(path, columns) : new LineExportWriter(path, columns, format);
+}
+
+/**
+ * Move a finished export from `tempPath` to `path`. Without `overwrite` the
+ * file is hard-linked into place, which fails with `EEXIST` if `path` was
+ * created while the export ran, rather than renamed over it.
+ */
+export function publishExportFile(tempPath: string, path: string, overwrite: boolean): void {
+  if (overwrite) {
+    renameSync(tempPath, path);
+    return;
+  }
+  linkSync(tempPath, path);
+  unlinkSync(tempPath);
+}
+
+/** Hex SHA-256 and byte size of a file, read as a stream. */
+export async function fileChecksum(path: string): Promise<{ sha256: string; bytes: number }> {
+  const hash = createHash('sha256');
+  let bytes = 0;
+  for await (const chunk of createReadStream(path)) {
+    hash.update(chunk as Buffer);
+    bytes += (chunk as Buffer).length;
+  }
+  return { sha256: hash.digest('hex'), bytes };
+}
@@ -0,0 +1,241 @@
+import type { SearchAnalyticsRow } from './types.js';
+
+export interface DimensionFilter {
+  dimension: string;
+  operator: string;
+  expression: string;
+}
+
+export interface FilterGroup {
+  groupType: 'and' | 'or';
+  filters: DimensionFilter[];
+}
+
+export interface FilterPlan {
+  /** Sent to the API; every group and every filter in it must match. */
+  dimensionFilterGroups?: Array<{ groupType: 'and'; filters: DimensionFilter[] }>;
+  /** OR groups the API cannot express, evaluated against each row's keys. */
+  orGroups: FilterGroup[];
+}
+
+/**
+ * Split filters into API `dimensionFilterGroups` and client-side OR groups.
+ * `filters` form one AND group; each entry of `groups` is ANDed with the rest.
+ * A one-filter OR group is sent to the API as an AND group.
+ */
+export function planFilters(filters: DimensionFilter[], groups: FilterGroup[] = []): FilterPlan {
+  const apiGroups: Array<{ groupType: 'and'; filters: DimensionFilter[] }> = [];
+  const orGroups: FilterGroup[] = [];
+  if (filters.length > 0) {
+    apiGroups.push({ groupType: 'and', filters });
+  }
+  for (const group of groups) {
+    if (group.groupType === 'or' && group.filters.length > 1) {
+      orGroups.push(group);
+    } else {
+      apiGroups.push({ groupType: 'and', filters: group.filters });
+    }
+  }
+  return { ...(apiGroups.length > 0 ? { dimensionFilterGroups: apiGroups } : {}), orGroups };
+}
+
+/** Dimensions used by OR groups that are missing from `dimensions`, so rows cannot be checked. */
+export function missingOrFilterDimensions(groups: FilterGroup[], dimensions: readonly string[]): string[] {
+  const missing = new Set<string>();
+  for (const group of groups) {
+    if (group.groupType !== 'or' || group.filters.length < 2) continue;
+    for (const filter of group.filters) {
+      if (!dimensions.includes(filter.dimension)) missing.add(filter.dimension);
+    }
+  }
+  return [...missing];
+}
+
+/**
+ * Translate an RE2 pattern, as the API takes it, into a JS regex. Leading
+ * flag groups such as `(?i)` become regex flags, `(?P<name>` becomes a named
+ * group and `\A`/`\z` become anchors. Lookarounds and backreferences, which
+ * JS accepts but RE2 rejects, throw, as do patterns JS cannot express.
+ */
+export function re2ToRegExp(expression: string): RegExp {
+  const leading = /^\(\?([a-zA-Z]+)\)/.exec(expression);
+  let flags = '';
+  let source = expression;
+  if (leading) {
+    if (/[^ims]/.test(leading[1])) {
+      throw new SyntaxError(`Invalid regular expression: unsupported flag in (?${leading[1]})`);
+    }
+    flags = [...new Set(leading[1])].join('');
+    source = expression.slice(leading[0].length);
+  }
+  source = source.replace(/\\[\s\S]|\(\?P<|\(\?<?[=!]/g, (token) => {
+    if (token === '(?P<') return '(?<';
+    if (token === '\\A') return '(?<![\\s\\S])';
+    if (token === '\\z') return '(?![\\s\\S])';
+    if (token.startsWith('(')) {
+      throw new SyntaxError(`Invalid regular expression: RE2 does not support lookaround ${token}`);
+    }
+    if (/^\\[1-9]$/.test(token)) {
+      throw new SyntaxError(`Invalid regular expression: RE2 does not support backreference ${token}`);
+    }
+    return token;
+  });
+  return new RegExp(source, flags);
+}
+
+/**
+ * Compile a filter into a value check that agrees with the API: `equals` and
+ * `notEquals` compare exactly, `contains`/`notContains` ignore case, and
+ * regex operators run the RE2 pattern through `re2ToRegExp`.
+ */
+function compileFilter(filter: DimensionFilter): (value: string) => boolean {
+  const expression = filter.expression.toLowerCase();
+  switch (filter.operator) {
+    case 'notEquals':
+      return (value) => value !== filter.expression;
+    case 'contains':
+      return (value) => value.toLowerCase().includes(expression);
+    case 'notContains':
+      return (value) => !value.toLowerCase().includes(expression);
+    case 'includingRegex': {
+      const pattern = re2ToRegExp(filter.expression);
+      return (value) => pattern.test(value);
+    }
+    case 'excludingRegex': {
+      const pattern = re2ToRegExp(filter.expression);
+      return (value) => !pattern.test(value);
+    }
+    default:
+      return (value) => value === filter.expression;
+  }
+}
+
+/** Keep rows where at least one filter of every OR group matches the row's keys for `dimensions`. */
+export function applyOrGroups(
+  rows: SearchAnalyticsRow[],
+  dimensions: readonly string[],
+  orGroups: FilterGroup[],
+): SearchAnalyticsRow[] {
+  if (orGroups.length === 0) return rows;
+  const checks = orGroups.map((group) =>
+    group.filters.map((filter) => ({ index: dimensions.indexOf(filter.dimension), matches: compileFilter(filter) })),
+  );
+  return rows.filter((row) =>
+    checks.every((group) =>
+      group.some(({ index, matches }) => {
+        const value = row.keys?.[index];
+        return value !== undefined && matches(value);
+      }),
+    ),
+  );
+}
+
+/** Most API requests OR groups fan out to before they are applied client-side instead. */
+export const MAX_OR_BRANCHES = 8;
+
+type ApiFilterGroups = NonNullable<FilterPlan['dimensionFilterGroups']>;
+
+export interface OrFilterStats {
+  rowsScanned: number;
+  rowsMatched: number;
+  /** OR groups were applied to one full page, so matching rows past `rowLimit` may be missing. */
+  truncated: boolean;
+}
+
+export interface FilteredRows extends OrFilterStats {
+  rows: SearchAnalyticsRow[];
+}
+
+/**
+ * The API filter groups of every OR branch: one combination of a filter from
+ * each OR group, ANDed with the plan's API groups. Null when there are more
+ * than `maxBranches` combinations.
+ */
+export function expandOrBranches(plan: FilterPlan, maxBranches = MAX_OR_BRANCHES): ApiFilterGroups[] | null {
+  let branches: ApiFilterGroups[] = [plan.dimensionFilterGroups ?? []];
+  for (const group of plan.orGroups) {
+    if (branches.length * group.filters.length > maxBranches) return null;
+    branches = branches.flatMap((groups) =>
+      group.filters.map((filter) => [...groups, { groupType: 'and' as const, filters: [filter] }]),
+    );
+  }
+  return branches;
+}
+
+/**
+ * The filter groups `fetchFilteredRows` sends, one entry per request: every OR
+ * branch, or the plan's API groups alone when OR groups are applied client-side.
+ */
+export function filterGroupVariants(
+  plan: FilterPlan,
+  dimensions: readonly string[],
+  maxBranches = MAX_OR_BRANCHES,
+): Array<ApiFilterGroups | undefined> {
+  const branches =
+    plan.orGroups.length > 0 && missingOrFilterDimensions(plan.orGroups, dimensions).length === 0
+      ? expandOrBranches(plan, maxBranches)
+      : null;
+  return branches ? branches.map((groups) => (groups.length > 0 ? groups : undefined)) : [plan.dimensionFilterGroups];
+}
+
+/** `body` with `dimensionFilterGroups` set, or unchanged when there are none. */
+export function withFilterGroups(
+  body: Record<string, unknown>,
+  dimensionFilterGroups: ApiFilterGroups | undefined,
+): Record<string, unknown> {
+  return dimensionFilterGroups ? { ...body, dimensionFilterGroups } : body;
+}
+
+/**
+ * Fetch the rows matching `plan` with `fetch`, which sends the given filter
+ * groups to the API. OR groups fan out to one request per branch and the
+ * merged rows are re-ranked by clicks, so every branch gets its own
+ * `rowLimit` instead of whatever part of the unfiltered top rows matched.
+ * OR groups on dimensions missing from `dimensions` cannot be merged, and
+ * past `maxBranches` the groups are applied to one fetch instead.
+ */
+export async function fetchFilteredRows(
+  plan: FilterPlan,
+  dimensions: readonly string[],
+  rowLimit: number,
+  fetch: (dimensionFilterGroups: ApiFilterGroups | undefined) => Promise<SearchAnalyticsRow[]>,
+  maxBranches = MAX_OR_BRANCHES,
+): Promise<FilteredRows> {
+  const variants = filterGroupVariants(plan, dimensions, maxBranches);
+  if (plan.orGroups.length === 0 || variants.length === 1) {
+    const fetched = await fetch(variants[0]);
+    const rows = applyOrGroups(fetched, dimensions, plan.orGroups);
+    return {
+      rows,
+      rowsScanned: fetched.length,
+      rowsMatched: rows.length,
+      truncated: plan.orGroups.length > 0 && fetched.length >= rowLimit,
+    };
+  }
+
+  const pages = await Promise.all(variants.map((groups) => fetch(groups)));
+  // Rows with the same keys come from overlapping branches and carry the same metrics.
+  const merged = new Map<string, SearchAnalyticsRow>();
+  for (const row of pages.flat()) merged.set(JSON.stringify(row.keys ?? []), row);
+  const rows = [...merged.values()].sort((a, b) => (b.clicks ?? 0) - (a.clicks ?? 0)).slice(0, rowLimit);
+  return {
+    rows,
+    rowsScanned: pages.reduce((sum, page) => sum + page.length, 0),
+    rowsMatched: rows.length,
+    truncated: false,
+  };
+}
+
+/** How OR groups were resolved for a response; empty when there are none. */
+export function orFilterSummary(orGroups: FilterGroup[], ...results: OrFilterStats[]) {
+  if (orGroups.length === 0) return {};
+  const truncated = results.some((result) => result.truncated);
+  return {
+    orFilter: {
+      groups: orGroups.length,
+      rowsScanned: results.reduce((sum, result) => sum + result.rowsScanned, 0),
+      rowsMatched: results.reduce((sum, result) => sum + result.rowsMatched, 0),
+      ...(truncated ? { truncated } : {}),
+    },
+  };
+}
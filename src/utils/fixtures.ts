@@ -0,0 +1,252 @@
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+
+import { GSCAuthError, GSCCancelledError, GSCError, GSCQuotaError, type SearchConsoleService } from '../service.js';
+import { redactSensitiveData, type RedactionOptions } from './redaction.js';
+import { stableStringify } from './runtime.js';
+
+export type FixtureMode = 'live' | 'record' | 'replay';
+
+export interface FixtureConfig {
+  mode: FixtureMode;
+  dir: string;
+}
+
+/** SearchConsoleService methods that call Google APIs and are recorded/replayed. */
+export const FIXTURE_METHODS = [
+  'listSites',
+  'getSite',
+  'addSite',
+  'deleteSite',
+  'searchAnalytics',
+  'indexInspect',
+  'mobileFriendlyTest',
+  'runPageSpeed',
+  'indexingPublish',
+  'indexingGetMetadata',
+  'cruxQueryRecord',
+  'cruxQueryHistory',
+  'listSitemaps',
+  'getSitemap',
+  'submitSitemap',
+  'deleteSitemap',
+] as const satisfies ReadonlyArray<keyof SearchConsoleService>;
+
+const FIXTURE_METHOD_SET = new Set<string>(FIXTURE_METHODS);
+const FIXTURE_SCHEMA_VERSION = '1';
+const DEFAULT_FIXTURES_DIR = 'gsc-fixtures';
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Keep analytics `keys` and long page URLs intact; only secrets are scrubbed. */
+const FIXTURE_REDACTION: RedactionOptions = {
+  allowKeys: ['keys'],
+  redactLongTokens: false,
+  maxDepth: 32,
+};
+
+interface FixtureFile {
+  schemaVersion: string;
+  method: string;
+  args: unknown;
+  recordedAt: string;
+  response?: { status: number | null; data: unknown };
+  error?: {
+    message: string;
+    code: string | null;
+    statusCode: number | null;
+    /** Error class name, so replay rethrows the same `GSCError` subclass. */
+    name?: string;
+    reason?: string | null;
+    retryAfterMs?: number | null;
+  };
+}
+
+/** Read `GSC_MODE` (`live`, `record`, `replay`) and `GSC_FIXTURES_DIR`. */
+export function resolveFixtureConfig(env: NodeJS.ProcessEnv = process.env): FixtureConfig {
+  const mode = (env.GSC_MODE?.trim().toLowerCase() || 'live') as FixtureMode;
+  if (!['live', 'record', 'replay'].includes(mode)) {
+    throw new Error(`Unsupported GSC_MODE "${env.GSC_MODE}". Expected "live", "record", or "replay".`);
+  }
+  return { mode, dir: resolve(env.GSC_FIXTURES_DIR?.trim() || DEFAULT_FIXTURES_DIR) };
+}
+
+function utcDay(now: Date): number {
+  return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+}
+
+/**
+ * Rewrite YYYY-MM-DD values as offsets from today (`today-28`), so fixtures
+ * recorded for relative ranges like `days: 28` still match on later days.
+ */
+function normalizeDates(value: unknown, today: number): unknown {
+  if (typeof value === 'string' && DATE_PATTERN.test(value)) {
+    const offset = Math.round((Date.parse(`${value}T00:00:00.000Z`) - today) / DAY_MS);
+    return offset === 0 ? 'today' : `today${offset > 0 ? '+' : ''}${offset}`;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => normalizeDates(item, today));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, nested]) => [key, normalizeDates(nested, today)]),
+    );
+  }
+  return value;
+}
+
+function hashedFileName(method: string, args: unknown): string {
+  const digest = createHash('sha256').update(stableStringify(args)).digest('hex').slice(0, 16);
+  return `${method}-${digest}.json`;
+}
+
+/** Fixture file name for a call: method plus a hash of its date-normalized, redacted args. */
+export function fixtureFileName(method: string, args: unknown[], now = new Date()): string {
+  return hashedFileName(method, normalizeDates(redactSensitiveData(args, 0, FIXTURE_REDACTION), utcDay(now)));
+}
+
+/**
+ * Fixture file names for a call, most specific first: the exact dates, then
+ * `fixtureFileName`. Replay takes the first that exists, so a call with fixed
+ * dates keeps its own fixture on any run date, and only ranges resolved
+ * relative to today fall back to the offset key.
+ */
+export function fixtureFileNames(method: string, args: unknown[], now = new Date()): string[] {
+  const exact = hashedFileName(`${method}-exact`, redactSensitiveData(args, 0, FIXTURE_REDACTION));
+  const relative = fixtureFileName(method, args, now);
+  return [exact, relative];
+}
+
+function writeFixture(path: string, fixture: FixtureFile): void {
+  const tempPath = `${path}.${process.pid}.${Date.now()}.tmp`;
+  writeFileSync(tempPath, `${JSON.stringify(fixture, null, 2)}\n`);
+  renameSync(tempPath, path);
+}
+
+/** Write `fixture` under every name of a call, so both exact and relative lookups find it. */
+function writeFixtures(paths: string[], fixture: FixtureFile): void {
+  for (const path of paths) writeFixture(path, fixture);
+}
+
+function toReplayedError(recorded: NonNullable<FixtureFile['error']>): Error {
+  const { message, code, statusCode, name, reason, retryAfterMs } = recorded;
+  switch (name) {
+    case 'GSCQuotaError':
+      return new GSCQuotaError(message, reason ?? undefined, retryAfterMs ?? undefined);
+    case 'GSCAuthError':
+      return new GSCAuthError(message);
+    default:
+      return code
+        ? new GSCError(message, code, statusCode ?? undefined)
+        : Object.assign(new Error(message), { statusCode });
+  }
+}
+
+/**
+ * Errors this process raises before or instead of a Google response: the
+ * call's cancellation or deadline, the local API quota budget and an open
+ * circuit. They say nothing about the API, so they are not recorded.
+ */
+function isLocalError(error: unknown): boolean {
+  return (
+    error instanceof GSCCancelledError ||
+    (error instanceof GSCError && error.code === 'QUOTA_BUDGET_EXCEEDED') ||
+    (error instanceof GSCQuotaError && error.reason === 'circuitOpen')
+  );
+}
+
+function toRecordedError(error: unknown): NonNullable<FixtureFile['error']> {
+  const candidate = error as { message?: unknown; code?: unknown; statusCode?: unknown; status?: unknown };
+  return {
+    ...(error instanceof GSCError ? { name: error.name } : {}),
+    ...(error instanceof GSCQuotaError ? { reason: error.reason, retryAfterMs: error.retryAfterMs ?? null } : {}),
+    message: typeof candidate?.message === 'string' ? candidate.message : String(error),
+    code: typeof candidate?.code === 'string' ? candidate.code : null,
+    statusCode:
+      typeof candidate?.statusCode === 'number'
+        ? candidate.statusCode
+        : typeof candidate?.code === 'number'
+          ? candidate.code
+          : typeof candidate?.status === 'number'
+            ? candidate.status
+            : null,
+  };
+}
+
+/**
+ * Wrap a SearchConsoleService so its Google API calls are recorded to, or
+ * replayed from, JSON fixtures in `config.dir`. In `live` mode the service is
+ * returned unchanged. Only `status` and `data` of each response are kept, and
+ * both args and data pass through `redactSensitiveData` before hitting disk.
+ * Errors raised locally, such as cancellations, leave existing fixtures alone.
+ */
+export function withFixtures(
+  service: SearchConsoleService,
+  config: FixtureConfig,
+  options: { now?: () => Date } = {},
+): SearchConsoleService {
+  if (config.mode === 'live') {
+    return service;
+  }
+  const now = options.now ?? (() => new Date());
+
+  return new Proxy(service, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver) as unknown;
+      if (typeof property !== 'string' || !FIXTURE_METHOD_SET.has(property) || typeof value !== 'function') {
+        return value;
+      }
+
+      return async (...args: unknown[]) => {
+        const paths = fixtureFileNames(property, args, now()).map((name) => join(config.dir, name));
+
+        if (config.mode === 'replay') {
+          const path = paths.find((candidate) => existsSync(candidate));
+          if (!path) {
+            throw new GSCError(
+              `No recorded fixture for ${property} at ${paths[paths.length - 1]}. Record it with GSC_MODE=record.`,
+              'FIXTURE_NOT_FOUND',
+            );
+          }
+          const fixture = JSON.parse(readFileSync(path, 'utf8')) as FixtureFile;
+          if (fixture.error) {
+            throw toReplayedError(fixture.error);
+          }
+          return { status: fixture.response?.status ?? 200, data: fixture.response?.data };
+        }
+
+        mkdirSync(config.dir, { recursive: true });
+        const base = {
+          schemaVersion: FIXTURE_SCHEMA_VERSION,
+          method: property,
+          args: redactSensitiveData(args, 0, FIXTURE_REDACTION),
+          recordedAt: now().toISOString(),
+        };
+        try {
+          const response = (await (value as (...callArgs: unknown[]) => Promise<unknown>).apply(target, args)) as {
+            status?: number;
+            data?: unknown;
+          };
+          writeFixtures(paths, {
+            ...base,
+            response: {
+              status: typeof response?.status === 'number' ? response.status : null,
+              data: redactSensitiveData(response?.data ?? null, 0, FIXTURE_REDACTION),
+            },
+          });
+          return response;
+        } catch (error) {
+          if (isLocalError(error)) {
+            throw error;
+          }
+          writeFixtures(paths, {
+            ...base,
+            error: redactSensitiveData(toRecordedError(error), 0, FIXTURE_REDACTION) as FixtureFile['error'],
+          });
+          throw error;
+        }
+      };
+    },
+  });
+}
@@ -0,0 +1,162 @@
+/** Daily Search Console series repeat weekly. */
+export const SEASON_LENGTH = 7;
+
+/** Trend damping so long horizons level off instead of extrapolating a straight line. */
+const DAMPING = 0.98;
+
+/** Smoothing parameters tried by the grid search, in order; the first best fit wins ties. */
+const ALPHAS = [0.05, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.8];
+const BETAS = [0, 0.01, 0.05, 0.1, 0.2];
+const GAMMAS = [0.05, 0.1, 0.2, 0.3, 0.5];
+
+/** Two-sided z critical values for the supported prediction interval levels */
+export const INTERVAL_Z: Record<0.8 | 0.9 | 0.95 | 0.99, number> = {
+  0.8: 1.282,
+  0.9: 1.645,
+  0.95: 1.96,
+  0.99: 2.576,
+};
+
+export interface HoltWintersModel {
+  alpha: number;
+  beta: number;
+  gamma: number;
+  /** Final level, trend and seasonal state after the last observation. */
+  level: number;
+  trend: number;
+  seasonals: number[];
+  /** One-step-ahead prediction for each observation; null during the first season. */
+  fitted: Array<number | null>;
+  /** Standard deviation of the one-step-ahead errors. */
+  residualStd: number;
+  length: number;
+}
+
+export interface ForecastPoint {
+  expected: number;
+  lower: number;
+  upper: number;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Run damped additive Holt-Winters over `series`, initialised from the first
+ * two seasons. Returns the final state, one-step-ahead predictions and SSE.
+ */
+function runHoltWinters(series: number[], alpha: number, beta: number, gamma: number) {
+  const m = SEASON_LENGTH;
+  const firstSeason = mean(series.slice(0, m));
+  let level = firstSeason;
+  let trend = (mean(series.slice(m, 2 * m)) - firstSeason) / m;
+  const seasonals = series.slice(0, m).map((value) => value - firstSeason);
+  const fitted: Array<number | null> = series.slice(0, m).map(() => null);
+  let sse = 0;
+
+  for (let t = m; t < series.length; t += 1) {
+    const season = t % m;
+    const prediction = level + DAMPING * trend + seasonals[season];
+    fitted.push(prediction);
+    sse += (series[t] - prediction) ** 2;
+
+    const previousLevel = level;
+    level = alpha * (series[t] - seasonals[season]) + (1 - alpha) * (previousLevel + DAMPING * trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * DAMPING * trend;
+    seasonals[season] = gamma * (series[t] - level) + (1 - gamma) * seasonals[season];
+  }
+
+  return { level, trend, seasonals, fitted, sse };
+}
+
+/**
+ * Fit weekly Holt-Winters to a daily series by grid-searching the smoothing
+ * parameters for the lowest one-step-ahead squared error. Deterministic:
+ * the same series always yields the same model. Needs two full weeks.
+ */
+export function fitHoltWinters(series: number[]): HoltWintersModel {
+  if (series.length < 2 * SEASON_LENGTH) {
+    throw new Error(`Holt-Winters needs at least ${2 * SEASON_LENGTH} observations, got ${series.length}`);
+  }
+
+  let best: (ReturnType<typeof runHoltWinters> & { alpha: number; beta: number; gamma: number }) | null = null;
+  for (const alpha of ALPHAS) {
+    for (const beta of BETAS) {
+      for (const gamma of GAMMAS) {
+        const run = runHoltWinters(series, alpha, beta, gamma);
+        if (!best || run.sse < best.sse) best = { ...run, alpha, beta, gamma };
+      }
+    }
+  }
+
+  const fit = best!;
+  const errors = series.length - SEASON_LENGTH;
+  return {
+    alpha: fit.alpha,
+    beta: fit.beta,
+    gamma: fit.gamma,
+    level: fit.level,
+    trend: fit.trend,
+    seasonals: fit.seasonals,
+    fitted: fit.fitted,
+    residualStd: Math.sqrt(fit.sse / errors),
+    length: series.length,
+  };
+}
+
+/**
+ * Project `horizon` steps past the end of the fitted series. Interval widths
+ * follow the ETS(A,Ad,A) forecast variance, so they grow with the horizon;
+ * values are clamped at zero because clicks and impressions cannot go negative.
+ */
+export function projectHoltWinters(model: HoltWintersModel, horizon: number, z: number): ForecastPoint[] {
+  const m = SEASON_LENGTH;
+  // Error-correction form of the smoothing parameters.
+  const trendGain = model.alpha * model.beta;
+  const seasonGain = model.gamma * (1 - model.alpha);
+  const points: ForecastPoint[] = [];
+  let dampedSum = 0;
+  let varianceFactor = 1;
+
+  for (let h = 1; h <= horizon; h += 1) {
+    if (h > 1) {
+      const j = h - 1;
+      let dampedJ = 0;
+      for (let k = 1; k <= j; k += 1) dampedJ += DAMPING ** k;
+      const coefficient = model.alpha + trendGain * dampedJ + (j % m === 0 ? seasonGain : 0);
+      varianceFactor += coefficient ** 2;
+    }
+    dampedSum += DAMPING ** h;
+    const expected = model.level + dampedSum * model.trend + model.seasonals[(model.length - 1 + h) % m];
+    const halfWidth = z * model.residualStd * Math.sqrt(varianceFactor);
+    points.push({
+      expected: Math.max(0, expected),
+      lower: Math.max(0, expected - halfWidth),
+      upper: Math.max(0, expected + halfWidth),
+    });
+  }
+
+  return points;
+}
+
+/** Observations outside the one-step-ahead prediction interval, as series indexes. */
+export function findIntervalBreaches(
+  series: number[],
+  model: HoltWintersModel,
+  z: number,
+  fromIndex = 0,
+): Array<{ index: number; actual: number } & ForecastPoint> {
+  const halfWidth = z * model.residualStd;
+  const breaches: Array<{ index: number; actual: number } & ForecastPoint> = [];
+  for (let index = Math.max(fromIndex, SEASON_LENGTH); index < series.length; index += 1) {
+    const expected = model.fitted[index];
+    if (expected === null || expected === undefined) continue;
+    const lower = Math.max(0, expected - halfWidth);
+    const upper = Math.max(0, expected + halfWidth);
+    if (series[index] < lower || series[index] > upper) {
+      breaches.push({ index, actual: series[index], expected: Math.max(0, expected), lower, upper });
+    }
+  }
+  return breaches;
+}
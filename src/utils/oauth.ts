@@ -0,0 +1,266 @@
+import { randomBytes } from 'node:crypto';
+import {
+  chmodSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  unlinkSync,
+  writeFileSync,
+} from 'node:fs';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+
+import { CodeChallengeMethod, OAuth2Client, type Credentials } from 'google-auth-library';
+
+export const GOOGLE_API_SCOPES = [
+  'https://www.googleapis.com/auth/webmasters',
+  'https://www.googleapis.com/auth/webmasters.readonly',
+  'https://www.googleapis.com/auth/indexing',
+];
+
+const OAUTH_CALLBACK_PATH = '/oauth2callback';
+const DEFAULT_LOGIN_TIMEOUT_MS = 5 * 60 * 1000;
+
+/** Installed-app OAuth client settings plus where its refresh token lives. */
+export interface OAuthClientConfig {
+  clientId: string;
+  clientSecret: string;
+  tokenPath: string;
+  /** Override the token endpoint (tests, proxies). Defaults to Google's. */
+  tokenUrl?: string;
+  /** Override the consent screen URL. Defaults to Google's. */
+  authUrl?: string;
+}
+
+export interface StoredOAuthToken {
+  refresh_token: string;
+  access_token?: string | null;
+  expiry_date?: number | null;
+  scope?: string;
+  token_type?: string | null;
+}
+
+export function getDefaultOAuthTokenPath(): string | null {
+  const home = homedir();
+  if (!home) {
+    return null;
+  }
+  return join(home, '.mcp-server-gsc-pro', 'oauth-token.json');
+}
+
+/**
+ * Read OAuth client settings from `GSC_OAUTH_CLIENT_ID`,
+ * `GSC_OAUTH_CLIENT_SECRET` and `GSC_OAUTH_TOKEN_PATH`. Returns null when the
+ * client id/secret are not both set.
+ */
+export function resolveOAuthClientConfig(env: NodeJS.ProcessEnv = process.env): OAuthClientConfig | null {
+  const clientId = env.GSC_OAUTH_CLIENT_ID?.trim();
+  const clientSecret = env.GSC_OAUTH_CLIENT_SECRET?.trim();
+  if (!clientId || !clientSecret) {
+    return null;
+  }
+
+  const tokenPath = env.GSC_OAUTH_TOKEN_PATH?.trim() || getDefaultOAuthTokenPath();
+  if (!tokenPath) {
+    throw new Error('GSC_OAUTH_TOKEN_PATH is required when no home directory is available.');
+  }
+
+  return { clientId, clientSecret, tokenPath };
+}
+
+/** Returns null when no token has been stored yet. Throws on a corrupt file. */
+export function readOAuthToken(path: string): StoredOAuthToken | null {
+  if (!existsSync(path)) {
+    return null;
+  }
+
+  const parsed = JSON.parse(readFileSync(path, 'utf8')) as Partial<StoredOAuthToken> | null;
+  if (!parsed || typeof parsed.refresh_token !== 'string' || parsed.refresh_token.length === 0) {
+    throw new Error(`OAuth token file at ${path} has no refresh_token.`);
+  }
+  return parsed as StoredOAuthToken;
+}
+
+/** Atomically write the token file, readable by the current user only. */
+export function writeOAuthToken(path: string, token: StoredOAuthToken): void {
+  mkdirSync(dirname(path), { recursive: true });
+  const tempPath = `${path}.${process.pid}.${Date.now()}.tmp`;
+  try {
+    writeFileSync(tempPath, JSON.stringify(token, null, 2), { mode: 0o600 });
+    renameSync(tempPath, path);
+    chmodSync(path, 0o600);
+  } catch (error) {
+    if (existsSync(tempPath)) {
+      try {
+        unlinkSync(tempPath);
+      } catch {
+        // Best effort cleanup.
+      }
+    }
+    throw error;
+  }
+}
+
+function createClient(config: OAuthClientConfig, redirectUri?: string): OAuth2Client {
+  return new OAuth2Client({
+    clientId: config.clientId,
+    clientSecret: config.clientSecret,
+    redirectUri,
+    endpoints: {
+      ...(config.tokenUrl ? { oauth2TokenUrl: config.tokenUrl } : {}),
+      ...(config.authUrl ? { oauth2AuthBaseUrl: config.authUrl } : {}),
+    },
+  });
+}
+
+/**
+ * Build an OAuth2 client from the stored refresh token. Refreshed access
+ * tokens (and rotated refresh tokens) are written back to the token file.
+ * Returns null when no token has been stored yet.
+ */
+export function loadOAuthClient(config: OAuthClientConfig): OAuth2Client | null {
+  const stored = readOAuthToken(config.tokenPath);
+  if (!stored) {
+    return null;
+  }
+
+  const client = createClient(config);
+  client.setCredentials(stored);
+
+  let current = stored;
+  client.on('tokens', (tokens: Credentials) => {
+    current = {
+      ...current,
+      access_token: tokens.access_token ?? current.access_token,
+      expiry_date: tokens.expiry_date ?? current.expiry_date,
+      scope: tokens.scope ?? current.scope,
+      token_type: tokens.token_type ?? current.token_type,
+      refresh_token: tokens.refresh_token ?? current.refresh_token,
+    };
+    try {
+      writeOAuthToken(config.tokenPath, current);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      console.error(`[oauth] Failed to persist refreshed token to ${config.tokenPath}: ${reason}`);
+    }
+  });
+
+  return client;
+}
+
+/**
+ * True when the token endpoint rejected the grant or client (revoked or
+ * expired refresh token, wrong client secret), as opposed to a transient
+ * network or server failure.
+ */
+export function isOAuthGrantError(error: unknown): boolean {
+  if (typeof error !== 'object' || error === null) {
+    return false;
+  }
+  const response = (error as { response?: { status?: number; data?: { error?: unknown } } }).response;
+  if (response?.status === 400 || response?.status === 401) {
+    return true;
+  }
+  const message = error instanceof Error ? error.message : '';
+  return /invalid_grant|invalid_client|unauthorized_client/.test(message);
+}
+
+/**
+ * Run the installed-app consent flow: listen on a loopback redirect URI, send
+ * the user to the consent screen, exchange the returned code (with PKCE) and
+ * store the refresh token.
+ */
+export async function runOAuthLogin(
+  config: OAuthClientConfig,
+  options: {
+    port?: number;
+    timeoutMs?: number;
+    openUrl?: (url: string) => void | Promise<void>;
+  } = {},
+): Promise<{ tokenPath: string; scope: string | null }> {
+  const server = createServer();
+  await new Promise<void>((resolvePromise, rejectPromise) => {
+    server.once('error', rejectPromise);
+    server.listen(options.port ?? 0, '127.0.0.1', () => {
+      server.off('error', rejectPromise);
+      resolvePromise();
+    });
+  });
+
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    const redirectUri = `http://127.0.0.1:${(server.address() as AddressInfo).port}${OAUTH_CALLBACK_PATH}`;
+    const client = createClient(config, redirectUri);
+    const state = randomBytes(16).toString('hex');
+    const { codeVerifier, codeChallenge } = await client.generateCodeVerifierAsync();
+
+    const authUrl = client.generateAuthUrl({
+      access_type: 'offline',
+      prompt: 'consent',
+      scope: GOOGLE_API_SCOPES,
+      state,
+      code_challenge: codeChallenge,
+      code_challenge_method: CodeChallengeMethod.S256,
+    });
+
+    const code = new Promise<string>((resolvePromise, rejectPromise) => {
+      timer = setTimeout(
+        () => rejectPromise(new Error('Timed out waiting for the OAuth consent redirect.')),
+        options.timeoutMs ?? DEFAULT_LOGIN_TIMEOUT_MS,
+      );
+      server.on('request', (req, res) => {
+        const url = new URL(req.url ?? '/', redirectUri);
+        if (url.pathname !== OAUTH_CALLBACK_PATH) {
+          res.writeHead(404).end();
+          return;
+        }
+
+        const error = url.searchParams.get('error');
+        const returnedCode = url.searchParams.get('code');
+        if (url.searchParams.get('state') !== state || (!error && !returnedCode)) {
+          res.writeHead(400, { 'content-type': 'text/plain' }).end('Invalid OAuth callback.');
+          return;
+        }
+
+        clearTimeout(timer);
+        if (error) {
+          res.writeHead(400, { 'content-type': 'text/plain' }).end(`Authorization failed: ${error}`);
+          rejectPromise(new Error(`OAuth consent was not granted: ${error}`));
+          return;
+        }
+        res
+          .writeHead(200, { 'content-type': 'text/plain' })
+          .end('Authorization complete. You can close this window.');
+        resolvePromise(returnedCode as string);
+      });
+    });
+
+    await (options.openUrl ?? ((url: string) => console.error(`Open this URL to authorize:\n\n${url}\n`)))(authUrl);
+
+    const { tokens } = await client.getToken({
+      code: await code,
+      codeVerifier,
+      redirect_uri: redirectUri,
+    });
+    if (!tokens.refresh_token) {
+      throw new Error('The token endpoint did not return a refresh token. Revoke prior access and retry.');
+    }
+
+    writeOAuthToken(config.tokenPath, {
+      refresh_token: tokens.refresh_token,
+      access_token: tokens.access_token,
+      expiry_date: tokens.expiry_date,
+      scope: tokens.scope,
+      token_type: tokens.token_type,
+    });
+
+    return { tokenPath: config.tokenPath, scope: tokens.scope ?? null };
+  } finally {
+    clearTimeout(timer);
+    server.closeAllConnections();
+    await new Promise<void>((resolvePromise) => server.close(() => resolvePromise()));
+  }
+}
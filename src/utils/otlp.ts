@@ -0,0 +1,322 @@
+import { getActiveSpan, type FinishedSpan, type SpanAttributes, type SpanProcessor } from './tracing.js';
+import { LATENCY_BUCKETS_MS, latencyBucketIndex, type TelemetryEvent, type TelemetrySink } from './telemetry.js';
+
+const DEFAULT_SERVICE_NAME = 'mcp-server-gsc-pro';
+const SCOPE = { name: 'mcp-server-gsc-pro' };
+const MAX_BUFFERED_SPANS = 2048;
+
+export interface OtlpConfig {
+  /** Base OTLP/HTTP URL; `/v1/traces` and `/v1/metrics` are appended. */
+  endpoint: string;
+  headers: Record<string, string>;
+  serviceName: string;
+  spanFlushIntervalMs: number;
+  metricExportIntervalMs: number;
+  timeoutMs: number;
+}
+
+function envMs(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/** `key1=value1,key2=value2` as used by `OTEL_EXPORTER_OTLP_HEADERS`. */
+function parseHeaders(raw: string | undefined): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const pair of (raw ?? '').split(',')) {
+    const index = pair.indexOf('=');
+    if (index > 0) {
+      headers[decodeURIComponent(pair.slice(0, index).trim())] = decodeURIComponent(pair.slice(index + 1).trim());
+    }
+  }
+  return headers;
+}
+
+/**
+ * Read the standard `OTEL_*` exporter variables. Returns null unless
+ * `OTEL_EXPORTER_OTLP_ENDPOINT` is set.
+ */
+export function resolveOtlpConfig(env: NodeJS.ProcessEnv = process.env): OtlpConfig | null {
+  const endpoint = env.OTEL_EXPORTER_OTLP_ENDPOINT?.trim();
+  if (!endpoint) {
+    return null;
+  }
+  return {
+    endpoint: endpoint.replace(/\/+$/, ''),
+    headers: parseHeaders(env.OTEL_EXPORTER_OTLP_HEADERS),
+    serviceName: env.OTEL_SERVICE_NAME?.trim() || DEFAULT_SERVICE_NAME,
+    spanFlushIntervalMs: envMs(env.OTEL_BSP_SCHEDULE_DELAY, 5000),
+    metricExportIntervalMs: envMs(env.OTEL_METRIC_EXPORT_INTERVAL, 60000),
+    timeoutMs: envMs(env.OTEL_EXPORTER_OTLP_TIMEOUT, 10000),
+  };
+}
+
+function toNanos(ms: number): string {
+  return (BigInt(Math.round(ms * 1000)) * 1000n).toString();
+}
+
+function toOtlpAttributes(attributes: SpanAttributes): Array<{ key: string; value: Record<string, unknown> }> {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value:
+      typeof value === 'string'
+        ? { stringValue: value }
+        : typeof value === 'boolean'
+          ? { boolValue: value }
+          : Number.isInteger(value)
+            ? { intValue: String(value) }
+            : { doubleValue: value },
+  }));
+}
+
+interface LatencyHistogram {
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  bucketCounts: number[];
+}
+
+interface CounterDefinition {
+  name: string;
+  description: string;
+  unit: string;
+}
+
+const COUNTERS = {
+  calls: { name: 'gsc.tool.calls', description: 'Tool calls by status', unit: '{call}' },
+  retries: { name: 'gsc.tool.retries', description: 'Google API retries triggered by tool calls', unit: '{retry}' },
+  cacheHits: { name: 'gsc.tool.cache_hits', description: 'Tool calls served from the response cache', unit: '{call}' },
+  quotaUnits: { name: 'gsc.tool.quota_units', description: 'Estimated quota units reserved by tool calls', unit: '{unit}' },
+  rateLimitWait: {
+    name: 'gsc.tool.rate_limit_wait',
+    description: 'Time Google API requests waited for client-side rate-limit tokens',
+    unit: 'ms',
+  },
+} satisfies Record<string, CounterDefinition>;
+
+type CounterKey = keyof typeof COUNTERS;
+
+/**
+ * Telemetry sink and span processor that exports spans and cumulative
+ * metrics as OTLP/HTTP JSON. Spans are batched on `spanFlushIntervalMs`,
+ * metrics on `metricExportIntervalMs`. Export failures never reach callers.
+ */
+export class OtlpTelemetrySink implements TelemetrySink, SpanProcessor {
+  private readonly startTimeMs = Date.now();
+
+  private spans: FinishedSpan[] = [];
+
+  private droppedSpans = 0;
+
+  private readonly histograms = new Map<string, LatencyHistogram>();
+
+  /** Counter values keyed by counter, then by the JSON of their attributes. */
+  private readonly counters = new Map<CounterKey, Map<string, { attributes: SpanAttributes; value: number }>>();
+
+  private timers: NodeJS.Timeout[] = [];
+
+  private failing = false;
+
+  constructor(private readonly config: OtlpConfig) {}
+
+  /** Start the periodic exports. Timers are unref'd so they never keep the process alive. */
+  start(): void {
+    this.timers = [
+      setInterval(() => void this.flushSpans(), this.config.spanFlushIntervalMs),
+      setInterval(() => void this.exportMetrics(), this.config.metricExportIntervalMs),
+    ];
+    for (const timer of this.timers) {
+      timer.unref();
+    }
+  }
+
+  emit(event: TelemetryEvent): void {
+    getActiveSpan()?.setAttributes({
+      'gsc.request_id': event.requestId,
+      'gsc.tool.status': event.status,
+      'gsc.response_mode': event.mode,
+      'gsc.retries': event.retries,
+      'gsc.rate_limit.wait_ms': event.rateLimitWaitMs,
+      'gsc.cache_hit': event.cacheHit,
+      'gsc.idempotency_replay': event.idempotencyReplay,
+      'gsc.quota_units.estimated': event.quotaUnitsEstimated,
+      'gsc.quota_units.reserved': event.quotaUnitsReserved,
+      ...(event.clientId ? { 'gsc.client.id': event.clientId } : {}),
+      ...(event.errorCode ? { 'error.type': event.errorCode } : {}),
+    });
+    if (event.status === 'error') {
+      getActiveSpan()?.setError(event.errorMessage ?? event.errorCode ?? 'Tool call failed');
+    }
+
+    const histogram = this.histograms.get(event.toolName) ?? {
+      count: 0,
+      sum: 0,
+      min: Number.POSITIVE_INFINITY,
+      max: 0,
+      bucketCounts: new Array<number>(LATENCY_BUCKETS_MS.length + 1).fill(0),
+    };
+    histogram.count += 1;
+    histogram.sum += event.latencyMs;
+    histogram.min = Math.min(histogram.min, event.latencyMs);
+    histogram.max = Math.max(histogram.max, event.latencyMs);
+    histogram.bucketCounts[latencyBucketIndex(event.latencyMs)] += 1;
+    this.histograms.set(event.toolName, histogram);
+
+    const tool = { 'gsc.tool.name': event.toolName };
+    this.increment('calls', { ...tool, 'gsc.tool.status': event.status }, 1);
+    this.increment('retries', tool, event.retries);
+    this.increment('cacheHits', tool, event.cacheHit ? 1 : 0);
+    this.increment('quotaUnits', tool, event.quotaUnitsReserved);
+    this.increment('rateLimitWait', tool, Math.round(event.rateLimitWaitMs));
+  }
+
+  onEnd(span: FinishedSpan): void {
+    this.spans.push(span);
+    if (this.spans.length > MAX_BUFFERED_SPANS) {
+      this.spans.shift();
+      this.droppedSpans += 1;
+    }
+  }
+
+  async flushSpans(): Promise<void> {
+    if (this.spans.length === 0) {
+      return;
+    }
+    const batch = this.spans;
+    this.spans = [];
+    await this.post('/v1/traces', {
+      resourceSpans: [
+        {
+          resource: this.resource(),
+          scopeSpans: [
+            {
+              scope: SCOPE,
+              spans: batch.map((span) => ({
+                traceId: span.traceId,
+                spanId: span.spanId,
+                ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+                name: span.name,
+                // OTLP SpanKind: 1 = INTERNAL, 3 = CLIENT.
+                kind: span.kind === 'client' ? 3 : 1,
+                startTimeUnixNano: toNanos(span.startTimeMs),
+                endTimeUnixNano: toNanos(span.endTimeMs),
+                attributes: toOtlpAttributes(span.attributes),
+                // OTLP StatusCode: 1 = OK, 2 = ERROR.
+                status:
+                  span.status.code === 'error' ? { code: 2, message: span.status.message ?? '' } : { code: 1 },
+              })),
+            },
+          ],
+        },
+      ],
+    });
+  }
+
+  async exportMetrics(): Promise<void> {
+    if (this.histograms.size === 0) {
+      return;
+    }
+    const start = toNanos(this.startTimeMs);
+    const time = toNanos(Date.now());
+    // AggregationTemporality 2 = CUMULATIVE.
+    const metrics: Array<Record<string, unknown>> = [
+      {
+        name: 'gsc.tool.duration',
+        description: 'Tool call latency',
+        unit: 'ms',
+        histogram: {
+          aggregationTemporality: 2,
+          dataPoints: Array.from(this.histograms.entries()).map(([toolName, histogram]) => ({
+            attributes: toOtlpAttributes({ 'gsc.tool.name': toolName }),
+            startTimeUnixNano: start,
+            timeUnixNano: time,
+            count: String(histogram.count),
+            sum: histogram.sum,
+            min: histogram.min,
+            max: histogram.max,
+            bucketCounts: histogram.bucketCounts.map(String),
+            explicitBounds: LATENCY_BUCKETS_MS,
+          })),
+        },
+      },
+    ];
+    for (const [key, definition] of Object.entries(COUNTERS) as Array<[CounterKey, CounterDefinition]>) {
+      const points = this.counters.get(key);
+      if (!points) {
+        continue;
+      }
+      metrics.push({
+        ...definition,
+        sum: {
+          aggregationTemporality: 2,
+          isMonotonic: true,
+          dataPoints: Array.from(points.values()).map((point) => ({
+            attributes: toOtlpAttributes(point.attributes),
+            startTimeUnixNano: start,
+            timeUnixNano: time,
+            asInt: String(point.value),
+          })),
+        },
+      });
+    }
+
+    await this.post('/v1/metrics', {
+      resourceMetrics: [{ resource: this.resource(), scopeMetrics: [{ scope: SCOPE, metrics }] }],
+    });
+  }
+
+  async flush(): Promise<void> {
+    await this.flushSpans();
+    await this.exportMetrics();
+  }
+
+  /** Stop the timers and export whatever is buffered. */
+  async shutdown(): Promise<void> {
+    for (const timer of this.timers) {
+      clearInterval(timer);
+    }
+    this.timers = [];
+    await this.flush();
+  }
+
+  private increment(counter: CounterKey, attributes: SpanAttributes, value: number): void {
+    const points = this.counters.get(counter) ?? new Map<string, { attributes: SpanAttributes; value: number }>();
+    const key = JSON.stringify(attributes);
+    const point = points.get(key) ?? { attributes, value: 0 };
+    point.value += value;
+    points.set(key, point);
+    this.counters.set(counter, points);
+  }
+
+  private resource(): { attributes: ReturnType<typeof toOtlpAttributes> } {
+    return {
+      attributes: toOtlpAttributes({
+        'service.name': this.config.serviceName,
+        ...(this.droppedSpans > 0 ? { 'gsc.otlp.dropped_spans': this.droppedSpans } : {}),
+      }),
+    };
+  }
+
+  private async post(path: string, body: unknown): Promise<void> {
+    try {
+      const response = await fetch(`${this.config.endpoint}${path}`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', ...this.config.headers },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(this.config.timeoutMs),
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      this.failing = false;
+    } catch (error) {
+      if (!this.failing) {
+        console.error(
+          `[telemetry] OTLP export to ${this.config.endpoint}${path} failed: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+      this.failing = true;
+    }
+  }
+}
@@ -1,23 +1,34 @@
 import { SearchConsoleService } from '../service.js';
+import { currentAbortSignal, throwIfAborted } from './cancellation.js';
+import { reportProgress } from './progress.js';
 import type { SearchAnalyticsRow } from './types.js';
 
+export interface PaginationOptions {
+  maxRows?: number;
+  pageSize?: number;
+  /** Stops before the next page once aborted; defaults to the tool call's signal. */
+  signal?: AbortSignal;
+}
+
 /**
- * Auto-paginate through Search Analytics results, fetching all rows beyond
- * the 25K single-request limit. Each page requests up to `pageSize` rows,
- * continuing until fewer rows are returned or `maxRows` is reached.
+ * Walk Search Analytics result pages, handing each page to `onPage` as it
+ * arrives instead of accumulating rows. Reports progress against `maxRows`
+ * after each page. Returns the total row count.
  */
-export async function paginateSearchAnalytics(
+export async function forEachSearchAnalyticsPage(
   service: SearchConsoleService,
   siteUrl: string,
   body: Record<string, unknown>,
-  opts: { maxRows?: number; pageSize?: number } = {},
-): Promise<SearchAnalyticsRow[]> {
+  opts: PaginationOptions,
+  onPage: (rows: SearchAnalyticsRow[]) => void | Promise<void>,
+): Promise<number> {
   const maxRows = opts.maxRows ?? 100_000;
   const pageSize = Math.min(opts.pageSize ?? 25_000, 25_000);
-  const allRows: SearchAnalyticsRow[] = [];
+  const signal = opts.signal ?? currentAbortSignal();
   let startRow = 0;
 
   while (startRow < maxRows) {
+    throwIfAborted(signal);
     const limit = Math.min(pageSize, maxRows - startRow);
     const response = await service.searchAnalytics(siteUrl, {
       ...body,
@@ -27,12 +38,35 @@ export async function paginateSearchAnalytics(
 
     const data = response.data as { rows?: SearchAnalyticsRow[] };
     const rows = data.rows ?? [];
-    allRows.push(...rows);
+    if (rows.length > 0) {
+      await onPage(rows);
+    }
+    reportProgress(startRow + rows.length, maxRows, `fetched ${startRow + rows.length} rows`);
 
     // If we got fewer rows than requested, there are no more pages
-    if (rows.length < limit) break;
+    if (rows.length < limit) {
+      return startRow + rows.length;
+    }
     startRow += rows.length;
   }
 
+  return startRow;
+}
+
+/**
+ * Auto-paginate through Search Analytics results, fetching all rows beyond
+ * the 25K single-request limit. Each page requests up to `pageSize` rows,
+ * continuing until fewer rows are returned or `maxRows` is reached.
+ */
+export async function paginateSearchAnalytics(
+  service: SearchConsoleService,
+  siteUrl: string,
+  body: Record<string, unknown>,
+  opts: PaginationOptions = {},
+): Promise<SearchAnalyticsRow[]> {
+  const allRows: SearchAnalyticsRow[] = [];
+  await forEachSearchAnalyticsPage(service, siteUrl, body, opts, (rows) => {
+    allRows.push(...rows);
+  });
   return allRows;
 }
@@ -0,0 +1,61 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+export interface ProgressUpdate {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+/**
+ * Forwards progress for one tool call. MCP requires `progress` to increase
+ * with every notification, so stale or repeated values are dropped.
+ */
+export class ProgressReporter {
+  private last = Number.NEGATIVE_INFINITY;
+
+  constructor(private readonly emit: (update: ProgressUpdate) => void) {}
+
+  report(progress: number, total?: number, message?: string): void {
+    if (!(progress > this.last)) {
+      return;
+    }
+    this.last = progress;
+    this.emit({ progress, ...(total !== undefined ? { total } : {}), ...(message ? { message } : {}) });
+  }
+}
+
+const progressStorage = new AsyncLocalStorage<ProgressReporter>();
+
+/** Run `operation` with `reporter` receiving its `reportProgress` calls. */
+export function withProgressReporter<T>(reporter: ProgressReporter | undefined, operation: () => Promise<T>): Promise<T> {
+  return reporter ? progressStorage.run(reporter, operation) : operation();
+}
+
+/** Report progress for the current tool call; a no-op unless the client sent a `progressToken`. */
+export function reportProgress(progress: number, total?: number, message?: string): void {
+  progressStorage.getStore()?.report(progress, total, message);
+}
+
+/**
+ * Report the start of step `index` (0-based) of `steps`, then run `operation`
+ * with its own progress mapped into that step's share of the parent range and
+ * its messages prefixed with `label`.
+ */
+export async function withProgressStep<T>(
+  index: number,
+  steps: number,
+  label: string,
+  operation: () => Promise<T>,
+): Promise<T> {
+  const parent = progressStorage.getStore();
+  if (!parent) {
+    return operation();
+  }
+  parent.report(index, steps, label);
+  const child = new ProgressReporter(({ progress, total, message }) => {
+    if (total && total > 0) {
+      parent.report(index + Math.min(progress / total, 1) * 0.99, steps, message ? `${label}: ${message}` : label);
+    }
+  });
+  return progressStorage.run(child, operation);
+}
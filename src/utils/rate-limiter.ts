@@ -0,0 +1,123 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+import type { ApiCall } from '../service.js';
+import type { ApiQuotaLimit } from './api-quota.js';
+import { abortableSleep, currentAbortSignal, throwIfAborted } from './cancellation.js';
+import { getActiveSpan } from './tracing.js';
+
+interface RateLimitTraceState {
+  waitMs: number;
+}
+
+const rateLimitTraceStorage = new AsyncLocalStorage<RateLimitTraceState>();
+
+/** Run `operation` and report how long its Google API requests waited for rate-limit tokens. */
+export async function withRateLimitTraceContext<T>(
+  operation: () => Promise<T>,
+): Promise<{ result: T; waitMs: number }> {
+  const state: RateLimitTraceState = { waitMs: 0 };
+  const result = await rateLimitTraceStorage.run(state, operation);
+  return { result, waitMs: state.waitMs };
+}
+
+/**
+ * Token bucket that lets callers go into debt: each `take()` removes a token
+ * immediately and resolves once the balance would have refilled to zero, so
+ * waiters are served in arrival order.
+ */
+export class TokenBucket {
+  private tokens: number;
+
+  private updatedAt: number;
+
+  constructor(
+    readonly capacity: number,
+    private readonly refillPerMs: number,
+    now = Date.now(),
+  ) {
+    this.tokens = capacity;
+    this.updatedAt = now;
+  }
+
+  /** Take a token and return how many milliseconds the caller must wait before using it. */
+  take(now = Date.now()): number {
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.refillPerMs);
+    this.updatedAt = now;
+    this.tokens -= 1;
+    return this.tokens >= 0 ? 0 : Math.ceil(-this.tokens / this.refillPerMs);
+  }
+
+  /** Return a token taken by a caller that gave up before using it. */
+  refund(now = Date.now()): void {
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.refillPerMs + 1);
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * Bucket size for a per-minute limit. Buckets hold 5% of the limit and
+ * refill at the remaining 95% per minute, so no sliding 60-second window
+ * (as metered by `ApiQuotaMeter`) ever exceeds the limit.
+ */
+function burstFor(perMinute: number): number {
+  return Math.max(1, Math.ceil(perMinute / 20));
+}
+
+/**
+ * Client-side rate limiter with one token bucket per API family, or per
+ * family and property for limits Google enforces per property. Requests wait
+ * for a token instead of failing.
+ */
+export class ApiRateLimiter {
+  private readonly buckets = new Map<string, TokenBucket>();
+
+  private readonly limits: ApiQuotaLimit[];
+
+  /** Uses the `window: 'minute'` entries of `limits`; other windows are ignored. */
+  constructor(limits: ApiQuotaLimit[]) {
+    this.limits = limits.filter((limit) => limit.window === 'minute');
+  }
+
+  /**
+   * Wait for a token on every bucket that applies to `call`; resolves with the
+   * time waited. Rejects early if the tool call is cancelled, returning the
+   * tokens it took.
+   */
+  async acquire(call: ApiCall): Promise<number> {
+    const signal = currentAbortSignal();
+    throwIfAborted(signal);
+    let waitMs = 0;
+    const now = Date.now();
+    const taken: TokenBucket[] = [];
+    for (const limit of this.limits) {
+      if (limit.family !== call.family || (limit.methods && !limit.methods.includes(call.method))) {
+        continue;
+      }
+      const key = limit.scope === 'property' ? `${limit.family}|${call.siteUrl ?? '*'}` : limit.family;
+      let bucket = this.buckets.get(key);
+      if (!bucket) {
+        const burst = burstFor(limit.limit);
+        bucket = new TokenBucket(burst, Math.max(1, limit.limit - burst) / 60_000, now);
+        this.buckets.set(key, bucket);
+      }
+      waitMs = Math.max(waitMs, bucket.take(now));
+      taken.push(bucket);
+    }
+
+    if (waitMs > 0) {
+      try {
+        await abortableSleep(waitMs, signal);
+      } catch (error) {
+        const cancelledAt = Date.now();
+        taken.forEach((bucket) => bucket.refund(cancelledAt));
+        throw error;
+      }
+      const state = rateLimitTraceStorage.getStore();
+      if (state) {
+        state.waitMs += waitMs;
+      }
+      getActiveSpan()?.setAttributes({ 'gsc.rate_limit.wait_ms': waitMs });
+    }
+    return waitMs;
+  }
+}
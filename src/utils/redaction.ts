@@ -2,7 +2,16 @@ const SENSITIVE_KEY_PATTERN = /(key|token|secret|password|credential|authorizati
 const EMAIL_PATTERN = /\b[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}\b/gi;
 const BEARER_PATTERN = /\bBearer\s+[A-Za-z0-9._~+/=-]+\b/gi;
 
-function redactString(value: string): string {
+export interface RedactionOptions {
+  /** Keys that match the sensitive pattern but hold plain data, e.g. `keys` on analytics rows. */
+  allowKeys?: string[];
+  /** Replace long strings without spaces as likely tokens (default true). */
+  redactLongTokens?: boolean;
+  /** Depth at which nested values become `[TRUNCATED]` (default 8). */
+  maxDepth?: number;
+}
+
+function redactString(value: string, redactLongTokens: boolean): string {
   let next = value;
 
   next = next.replace(EMAIL_PATTERN, '[REDACTED_EMAIL]');
@@ -12,24 +21,24 @@ function redactString(value: string): string {
     next = next.replace(/AIza[0-9A-Za-z_-]{20,}/g, '[REDACTED_API_KEY]');
   }
 
-  if (next.length > 80 && !next.includes(' ')) {
+  if (redactLongTokens && next.length > 80 && !next.includes(' ')) {
     return '[REDACTED_LONG_TOKEN]';
   }
 
   return next;
 }
 
-export function redactSensitiveData(value: unknown, depth = 0): unknown {
+export function redactSensitiveData(value: unknown, depth = 0, options: RedactionOptions = {}): unknown {
   if (value === null || value === undefined) {
     return value;
   }
 
-  if (depth >= 8) {
+  if (depth >= (options.maxDepth ?? 8)) {
     return '[TRUNCATED]';
   }
 
   if (typeof value === 'string') {
-    return redactString(value);
+    return redactString(value, options.redactLongTokens ?? true);
   }
 
   if (typeof value !== 'object') {
@@ -37,16 +46,16 @@ export function redactSensitiveData(value: unknown, depth = 0): unknown {
   }
 
   if (Array.isArray(value)) {
-    return value.map((item) => redactSensitiveData(item, depth + 1));
+    return value.map((item) => redactSensitiveData(item, depth + 1, options));
   }
 
   const output: Record<string, unknown> = {};
   for (const [key, nested] of Object.entries(value as Record<string, unknown>)) {
-    if (SENSITIVE_KEY_PATTERN.test(key)) {
+    if (SENSITIVE_KEY_PATTERN.test(key) && !options.allowKeys?.includes(key)) {
       output[key] = '[REDACTED]';
       continue;
     }
-    output[key] = redactSensitiveData(nested, depth + 1);
+    output[key] = redactSensitiveData(nested, depth + 1, options);
   }
 
   return output;
@@ -0,0 +1,235 @@
+import { createConnection, type Socket } from 'node:net';
+
+export type RespValue = string | number | null | RespValue[];
+
+/** An error reply (`-ERR ...`) from the server. */
+export class RespReplyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RespReplyError';
+  }
+}
+
+interface PendingCommand {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+function encodeCommand(args: string[]): Buffer {
+  const parts = [`*${args.length}\r\n`];
+  for (const arg of args) {
+    parts.push(`$${Buffer.byteLength(arg)}\r\n${arg}\r\n`);
+  }
+  return Buffer.from(parts.join(''), 'utf8');
+}
+
+/** Parse one RESP2 reply starting at `start`; null when the buffer is incomplete. */
+function parseReply(buffer: Buffer, start: number): { value: RespValue | RespReplyError; end: number } | null {
+  const lineEnd = buffer.indexOf('\r\n', start);
+  if (lineEnd < 0) {
+    return null;
+  }
+  const type = String.fromCharCode(buffer[start]!);
+  const line = buffer.toString('utf8', start + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, end: next };
+    case '-':
+      return { value: new RespReplyError(line), end: next };
+    case ':':
+      return { value: Number(line), end: next };
+    case '$': {
+      const length = Number(line);
+      if (length < 0) {
+        return { value: null, end: next };
+      }
+      if (buffer.length < next + length + 2) {
+        return null;
+      }
+      return { value: buffer.toString('utf8', next, next + length), end: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count < 0) {
+        return { value: null, end: next };
+      }
+      const items: RespValue[] = [];
+      let cursor = next;
+      for (let index = 0; index < count; index += 1) {
+        const item = parseReply(buffer, cursor);
+        if (!item) {
+          return null;
+        }
+        if (item.value instanceof RespReplyError) {
+          throw item.value;
+        }
+        items.push(item.value);
+        cursor = item.end;
+      }
+      return { value: items, end: cursor };
+    }
+    default:
+      throw new Error(`Unexpected RESP reply type "${type}".`);
+  }
+}
+
+/**
+ * Minimal pipelined Redis (RESP2) client: enough for GET/SET/DEL against Redis,
+ * Valkey, KeyDB, or Dragonfly without a driver dependency. Connects lazily,
+ * authenticates/selects the db from `redis://[user:password@]host:port/db`,
+ * and drops the connection on any timeout so replies can't get out of order.
+ */
+export class RespClient {
+  /** Ready (handshake done) socket. */
+  private socket: Socket | null = null;
+
+  /** Socket being connected or in use; events from older sockets are ignored. */
+  private current: Socket | null = null;
+
+  private connecting: Promise<Socket> | null = null;
+
+  private buffer: Buffer = Buffer.alloc(0);
+
+  private readonly pending: PendingCommand[] = [];
+
+  constructor(
+    private readonly url: URL,
+    private readonly timeoutMs = 1000,
+  ) {
+    if (url.protocol !== 'redis:') {
+      throw new Error(`Unsupported Redis URL protocol "${url.protocol}". Use redis://host:port/db.`);
+    }
+  }
+
+  async command(args: string[]): Promise<RespValue> {
+    const socket = await this.connect();
+    return this.send(socket, args);
+  }
+
+  close(): void {
+    this.reset(new Error('Redis connection closed.'));
+  }
+
+  private connect(): Promise<Socket> {
+    if (this.socket) {
+      return Promise.resolve(this.socket);
+    }
+    this.connecting ??= new Promise<Socket>((resolve, reject) => {
+      const socket = createConnection({
+        host: this.url.hostname || '127.0.0.1',
+        port: Number(this.url.port || 6379),
+      });
+      this.current = socket;
+      const connectTimer = setTimeout(() => {
+        socket.destroy(new Error(`Timed out connecting to Redis at ${this.url.host}.`));
+      }, this.timeoutMs);
+      connectTimer.unref();
+
+      socket.setNoDelay(true);
+      socket.on('data', (chunk: Buffer) => {
+        if (socket === this.current) {
+          this.onData(chunk);
+        }
+      });
+      socket.once('error', (error) => {
+        clearTimeout(connectTimer);
+        if (socket === this.current) {
+          this.reset(error);
+        }
+        reject(error);
+      });
+      socket.once('close', () => {
+        clearTimeout(connectTimer);
+        if (socket === this.current) {
+          this.reset(new Error('Redis connection closed.'));
+        }
+        reject(new Error('Redis connection closed.'));
+      });
+      socket.once('connect', () => {
+        clearTimeout(connectTimer);
+        socket.unref();
+        this.handshake(socket).then(
+          () => {
+            this.socket = socket;
+            this.connecting = null;
+            resolve(socket);
+          },
+          (error: Error) => {
+            this.reset(error);
+            reject(error);
+          },
+        );
+      });
+    });
+    return this.connecting;
+  }
+
+  private async handshake(socket: Socket): Promise<void> {
+    const password = decodeURIComponent(this.url.password);
+    if (password) {
+      const username = decodeURIComponent(this.url.username);
+      await this.send(socket, username ? ['AUTH', username, password] : ['AUTH', password]);
+    }
+    const db = this.url.pathname.replace(/^\//, '');
+    if (db && db !== '0') {
+      await this.send(socket, ['SELECT', db]);
+    }
+  }
+
+  private send(socket: Socket, args: string[]): Promise<RespValue> {
+    return new Promise<RespValue>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.reset(new Error(`Redis ${args[0]} timed out after ${this.timeoutMs}ms.`));
+      }, this.timeoutMs);
+      timer.unref();
+      this.pending.push({ resolve, reject, timer });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+    let offset = 0;
+    try {
+      for (;;) {
+        const reply = parseReply(this.buffer, offset);
+        if (!reply) {
+          break;
+        }
+        offset = reply.end;
+        const command = this.pending.shift();
+        if (!command) {
+          continue;
+        }
+        clearTimeout(command.timer);
+        if (reply.value instanceof RespReplyError) {
+          command.reject(reply.value);
+        } else {
+          command.resolve(reply.value);
+        }
+      }
+    } catch (error) {
+      this.reset(error instanceof Error ? error : new Error(String(error)));
+      return;
+    }
+    this.buffer = this.buffer.subarray(offset);
+  }
+
+  private reset(error: Error): void {
+    const socket = this.current;
+    this.current = null;
+    this.socket = null;
+    this.connecting = null;
+    this.buffer = Buffer.alloc(0);
+    for (const command of this.pending.splice(0)) {
+      clearTimeout(command.timer);
+      command.reject(error);
+    }
+    if (socket && !socket.destroyed) {
+      socket.destroy();
+    }
+  }
+}
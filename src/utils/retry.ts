@@ -1,15 +1,48 @@
 import { AsyncLocalStorage } from 'node:async_hooks';
 
+import { z } from 'zod';
+
+import { abortableSleep, currentAbortSignal, throwIfAborted } from './cancellation.js';
+import { withSpan } from './tracing.js';
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  /** Cap on the exponential backoff delay. */
+  maxDelayMs: number;
+  /** Longest `Retry-After` hint honoured; errors asking for a longer wait fail immediately. */
+  maxRetryAfterMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000,
+  maxRetryAfterMs: 60_000,
+};
+
+/** Google `errors[].reason` values for per-minute limits: retried after backoff. */
+const RATE_LIMIT_REASONS = new Set(['rateLimitExceeded', 'userRateLimitExceeded', 'rateLimitExceededUnreg']);
+
+/** Reasons that will not clear within a retry window: never retried. */
+const NON_RETRYABLE_REASONS = new Set(['dailyLimitExceeded', 'dailyLimitExceededUnreg', 'quotaExceeded', 'circuitOpen']);
+
 interface RetryTraceState {
   retries: number;
+  policy?: Partial<RetryPolicy>;
 }
 
 const retryTraceStorage = new AsyncLocalStorage<RetryTraceState>();
 
+/**
+ * Run `operation`, counting retries. `policy` applies to every `withRetry`
+ * inside it, e.g. a per-tool policy; explicit `withRetry` options still win.
+ */
 export async function withRetryTraceContext<T>(
   operation: () => Promise<T>,
+  policy?: Partial<RetryPolicy>,
 ): Promise<{ result: T; retries: number }> {
-  const state: RetryTraceState = { retries: 0 };
+  const state: RetryTraceState = { retries: 0, policy };
   const result = await retryTraceStorage.run(state, operation);
   return {
     result,
@@ -19,34 +52,50 @@ export async function withRetryTraceContext<T>(
 
 /**
  * Retry a function with exponential backoff and jitter.
- * Retries on 429 (quota) and 5xx errors. Throws immediately on 4xx.
+ * Retries on 429 (quota), 5xx, network errors and Google rate-limit reasons,
+ * waiting for `Retry-After` when the server sends one. Daily-limit reasons
+ * and other 4xx errors are thrown immediately. An aborted `signal` (default:
+ * the tool call's) stops retrying and throws its reason.
  */
 export async function withRetry<T>(
   fn: () => Promise<T>,
-  opts: { maxRetries?: number; baseDelayMs?: number } = {},
+  opts: Partial<RetryPolicy> & { signal?: AbortSignal } = {},
 ): Promise<T> {
-  const maxRetries = opts.maxRetries ?? 3;
-  const baseDelay = opts.baseDelayMs ?? 1000;
+  const { signal = currentAbortSignal(), ...overrides } = opts;
+  const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, ...retryTraceStorage.getStore()?.policy, ...overrides };
 
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+  for (let attempt = 0; attempt <= policy.maxRetries; attempt++) {
+    throwIfAborted(signal);
     try {
-      return await fn();
+      return await withSpan('retry.attempt', { attributes: { 'gsc.retry.attempt': attempt } }, () => fn());
     } catch (err: unknown) {
+      throwIfAborted(signal);
       const status = getStatusCode(err);
+      const reason = getErrorReason(err);
       const isRetryable =
-        status === 429 ||
-        (status !== undefined && status >= 500) ||
-        isRetryableNetworkError(err);
+        !(reason && NON_RETRYABLE_REASONS.has(reason)) &&
+        (status === 429 ||
+          (status !== undefined && status >= 500) ||
+          (reason !== undefined && RATE_LIMIT_REASONS.has(reason)) ||
+          isRetryableNetworkError(err));
+      const retryAfterMs = getRetryAfterMs(err);
 
-      if (!isRetryable || attempt === maxRetries) throw err;
+      if (
+        !isRetryable ||
+        attempt === policy.maxRetries ||
+        (retryAfterMs !== undefined && retryAfterMs > policy.maxRetryAfterMs)
+      ) {
+        throw err;
+      }
 
       const state = retryTraceStorage.getStore();
       if (state) {
         state.retries += 1;
       }
 
-      const delay = baseDelay * Math.pow(2, attempt) * (0.5 + Math.random());
-      await sleep(delay);
+      const delay =
+        retryAfterMs ?? Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt) * (0.5 + Math.random()));
+      await abortableSleep(delay, signal);
     }
   }
 
@@ -54,23 +103,21 @@ export async function withRetry<T>(
   throw new Error('Retry exhausted');
 }
 
-/** Rate-limited sequential execution with delay between calls */
+/** Rate-limited sequential execution with delay between calls; stops once the tool call is aborted. */
 export async function rateLimited<T>(
   fns: Array<() => Promise<T>>,
   delayMs: number,
+  signal: AbortSignal | undefined = currentAbortSignal(),
 ): Promise<T[]> {
   const results: T[] = [];
   for (let i = 0; i < fns.length; i++) {
-    if (i > 0) await sleep(delayMs);
+    if (i > 0) await abortableSleep(delayMs, signal);
+    throwIfAborted(signal);
     results.push(await fns[i]());
   }
   return results;
 }
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
 function getStatusCode(err: unknown): number | undefined {
   if (typeof err === 'object' && err !== null) {
     const e = err as Record<string, unknown>;
@@ -87,6 +134,117 @@ function getStatusCode(err: unknown): number | undefined {
   return undefined;
 }
 
+function property(value: unknown, key: string): unknown {
+  return typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined;
+}
+
+/**
+ * Google's structured error reason: an explicit `reason` property (as set on
+ * `GSCQuotaError`), `errors[].reason` from the classic JSON error body, or the
+ * `ErrorInfo` reason of `google.rpc` style errors.
+ */
+export function getErrorReason(err: unknown): string | undefined {
+  const own = property(err, 'reason');
+  if (typeof own === 'string') return own;
+
+  const apiError = property(property(property(err, 'response'), 'data'), 'error');
+  const errors = property(apiError, 'errors') ?? property(err, 'errors');
+  for (const item of Array.isArray(errors) ? errors : []) {
+    const reason = property(item, 'reason');
+    if (typeof reason === 'string') return reason;
+  }
+
+  const details = property(apiError, 'details');
+  for (const detail of Array.isArray(details) ? details : []) {
+    if (property(detail, 'reason') === 'RATE_LIMIT_EXCEEDED') {
+      const metadata = property(detail, 'metadata');
+      const limit = String(property(metadata, 'quota_limit') ?? property(metadata, 'quota_metric') ?? '');
+      return /per\s*day|daily/i.test(limit) ? 'dailyLimitExceeded' : 'rateLimitExceeded';
+    }
+  }
+  return undefined;
+}
+
+/** `Retry-After` (seconds or HTTP date) in milliseconds, or a `retryAfterMs` property. */
+export function getRetryAfterMs(err: unknown, now = Date.now()): number | undefined {
+  const own = property(err, 'retryAfterMs');
+  if (typeof own === 'number') return own;
+
+  const headers = property(property(err, 'response'), 'headers');
+  const raw =
+    headers instanceof Headers
+      ? headers.get('retry-after')
+      : (property(headers, 'retry-after') ?? property(headers, 'Retry-After'));
+  if (typeof raw !== 'string' && typeof raw !== 'number') return undefined;
+
+  const seconds = Number(raw);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(raw));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/** True for Google's per-minute and daily quota reasons. */
+export function isQuotaReason(reason: string | undefined): reason is string {
+  return reason !== undefined && (RATE_LIMIT_REASONS.has(reason) || isDailyLimitReason(reason));
+}
+
+/** True for reasons Google uses when a quota will not reset within minutes. */
+export function isDailyLimitReason(reason: string | undefined): boolean {
+  return reason !== undefined && NON_RETRYABLE_REASONS.has(reason) && reason !== 'circuitOpen';
+}
+
+export const RetryPolicyOverrideSchema = z
+  .object({
+    maxRetries: z.number().int().min(0).max(10),
+    baseDelayMs: z.number().min(0),
+    maxDelayMs: z.number().min(0),
+    maxRetryAfterMs: z.number().min(0),
+  })
+  .partial()
+  .strict();
+
+const RetryPolicyConfigSchema = z
+  .object({
+    default: RetryPolicyOverrideSchema.optional(),
+    tools: z.record(RetryPolicyOverrideSchema).optional(),
+  })
+  .strict();
+
+export type RetryPolicyConfig = z.infer<typeof RetryPolicyConfigSchema>;
+
+/**
+ * Per-tool retry policies from `GSC_RETRY_POLICY`, a JSON object such as
+ * `{"default":{"maxRetries":2},"tools":{"batch_inspect":{"maxRetryAfterMs":5000}}}`,
+ * layered over `base` (the config file's policies).
+ */
+export function resolveRetryPolicies(
+  env: NodeJS.ProcessEnv = process.env,
+  base: RetryPolicyConfig = {},
+): (toolName: string) => Partial<RetryPolicy> {
+  const raw = env.GSC_RETRY_POLICY?.trim();
+  let config: RetryPolicyConfig = {};
+  if (raw) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw) as unknown;
+    } catch (error) {
+      throw new Error(`GSC_RETRY_POLICY is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const result = RetryPolicyConfigSchema.safeParse(parsed);
+    if (!result.success) {
+      const issue = result.error.issues[0]!;
+      throw new Error(`Invalid GSC_RETRY_POLICY: ${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    }
+    config = result.data;
+  }
+  return (toolName) => ({
+    ...base.default,
+    ...config.default,
+    ...base.tools?.[toolName],
+    ...config.tools?.[toolName],
+  });
+}
+
 function isRetryableNetworkError(err: unknown): boolean {
   if (typeof err !== 'object' || err === null) return false;
 
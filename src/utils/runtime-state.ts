@@ -9,6 +9,7 @@ import {
   writeFileSync,
 } from 'node:fs';
 
+import type { PersistedApiQuotaState } from './api-quota.js';
 import type { ToolResult } from './types.js';
 
 const RUNTIME_STATE_SCHEMA_VERSION = '1';
@@ -30,6 +31,8 @@ export interface PersistedRuntimeState {
   schemaVersion: string;
   savedAt: string;
   quotaState: PersistedQuotaState;
+  /** Daily per-Google-API counters; absent in files written before API metering. */
+  apiQuota?: PersistedApiQuotaState;
   idempotency: PersistedIdempotencyEntry[];
 }
 
@@ -41,6 +44,33 @@ function isFiniteNumber(value: unknown): value is number {
   return typeof value === 'number' && Number.isFinite(value);
 }
 
+function parseCounters(value: unknown, field: string): Record<string, number> {
+  if (!isRecord(value)) {
+    throw new Error(`State file ${field} must be an object.`);
+  }
+  return Object.entries(value).reduce<Record<string, number>>((acc, [key, count]) => {
+    if (!isFiniteNumber(count) || count < 0) {
+      throw new Error(`State file ${field}["${key}"] must be a non-negative number.`);
+    }
+    acc[key] = count;
+    return acc;
+  }, {});
+}
+
+function parseApiQuotaState(value: unknown): PersistedApiQuotaState | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!isRecord(value) || typeof value.day !== 'string') {
+    throw new Error('State file apiQuota must be an object with a day string.');
+  }
+  return {
+    day: value.day,
+    limits: parseCounters(value.limits, 'apiQuota.limits'),
+    calls: parseCounters(value.calls, 'apiQuota.calls'),
+  };
+}
+
 function parsePersistedState(value: unknown): PersistedRuntimeState {
   if (!isRecord(value)) {
     throw new Error('State file must contain a JSON object.');
@@ -115,6 +145,7 @@ function parsePersistedState(value: unknown): PersistedRuntimeState {
       globalUsed: quotaStateValue.globalUsed,
       perToolUsed,
     },
+    apiQuota: parseApiQuotaState(value.apiQuota),
     idempotency,
   };
 }
@@ -1,17 +1,25 @@
+import type { ApiCall, ApiCallEvent, ApiFamily } from '../service.js';
+import { ApiQuotaMeter, type ApiQuotaLimit, type ApiQuotaSnapshot } from './api-quota.js';
+import {
+  MemoryCacheStore,
+  createSharedCacheStore,
+  resolveCacheConfig,
+  type CacheEntry,
+  type CacheStore,
+  type CacheStoreStats,
+} from './cache-store.js';
+import { ApiCircuitBreaker, type CircuitBreakerOptions, type CircuitSnapshot } from './circuit-breaker.js';
+import type { ServerConfig } from './config.js';
 import {
   readRuntimeState,
   resolveRuntimeStatePath,
   writeRuntimeState,
   type PersistedRuntimeState,
 } from './runtime-state.js';
+import { throwIfAborted } from './cancellation.js';
+import { LATENCY_BUCKETS_MS, latencyBucketIndex } from './telemetry.js';
 import type { ToolResult } from './types.js';
 
-interface CacheEntry {
-  storedAt: number;
-  ttlMs: number;
-  value: ToolResult;
-}
-
 interface IdempotencyEntry {
   storedAt: number;
   ttlMs: number;
@@ -26,6 +34,16 @@ interface QuotaState {
 
 export interface RuntimeCoordinatorOptions {
   persistencePath?: string | null;
+  /** Max serialized bytes held by the in-memory LRU (default `GSC_CACHE_MAX_BYTES`). */
+  cacheMaxBytes?: number;
+  /** Persistent second cache tier; defaults to the `GSC_CACHE_BACKEND` store, null for memory only. */
+  cacheStore?: CacheStore | null;
+  /** Per-Google-API limits; defaults to `resolveApiQuotaLimits()`. */
+  apiQuotaLimits?: ApiQuotaLimit[];
+  /** Per-family circuit breaker settings; defaults to `resolveCircuitBreakerOptions()`. */
+  circuitBreaker?: CircuitBreakerOptions;
+  /** Config file settings; the matching environment variables still take precedence. */
+  config?: ServerConfig;
 }
 
 export interface QuotaSnapshot {
@@ -41,14 +59,55 @@ interface ToolExecutionStats {
   failure: number;
   totalLatencyMs: number;
   lastLatencyMs: number | null;
+  /** Non-cumulative counts per `LATENCY_BUCKETS_MS` bound, plus a final +Inf bucket. */
+  latencyBucketCounts: number[];
+}
+
+interface ApiCallStats {
+  success: number;
+  failure: number;
+  totalLatencyMs: number;
+  rateLimitWaitMs: number;
+  errorsByCode: Map<string, number>;
 }
 
-interface SemaphoreSnapshot {
+export interface SemaphoreSnapshot {
   maxConcurrency: number;
   active: number;
   queued: number;
 }
 
+/** Cumulative counters and gauges for the Prometheus exporter. */
+export interface MetricsSnapshot {
+  uptimeSec: number;
+  latencyBucketsMs: number[];
+  tools: Array<{
+    tool: string;
+    success: number;
+    failure: number;
+    totalLatencyMs: number;
+    latencyBucketCounts: number[];
+  }>;
+  apiFamilies: Array<{
+    family: ApiFamily;
+    success: number;
+    failure: number;
+    totalLatencyMs: number;
+    rateLimitWaitMs: number;
+    errorsByCode: Record<string, number>;
+  }>;
+  concurrency: { global: SemaphoreSnapshot; perTool: Record<string, SemaphoreSnapshot> };
+  quota: {
+    globalUsed: number;
+    globalBudget: number;
+    perToolUsed: Record<string, number>;
+    perToolBudget: Record<string, number>;
+  };
+  apiQuota: ApiQuotaSnapshot;
+  circuitBreakers: Partial<Record<ApiFamily, CircuitSnapshot>>;
+  cacheStores: CacheStoreStats[];
+}
+
 export interface CacheMeta {
   cacheHit: boolean;
   cacheAgeSec: number | null;
@@ -76,11 +135,15 @@ function getEnvNumber(name: string, fallback: number): number {
   return parsed;
 }
 
+function normalizeToolName(toolName: string): string {
+  return toolName.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+}
+
 function getUtcDay(date = new Date()): string {
   return date.toISOString().slice(0, 10);
 }
 
-function stableStringify(value: unknown): string {
+export function stableStringify(value: unknown): string {
   const stringifyInternal = (item: unknown): string => {
     if (item === null) return 'null';
     if (item === undefined) return '"__undefined__"';
@@ -107,17 +170,26 @@ class Semaphore {
 
   constructor(private readonly maxConcurrency: number) {}
 
-  async acquire(): Promise<void> {
+  /** Wait for a slot; an aborted `signal` leaves the queue and rejects with its reason. */
+  async acquire(signal?: AbortSignal): Promise<void> {
+    throwIfAborted(signal);
     if (this.active < this.maxConcurrency) {
       this.active += 1;
       return;
     }
 
-    await new Promise<void>((resolve) => {
-      this.queue.push(() => {
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        this.queue = this.queue.filter((waiter) => waiter !== grant);
+        reject(signal!.reason);
+      };
+      const grant = () => {
+        signal?.removeEventListener('abort', onAbort);
         this.active += 1;
         resolve();
-      });
+      };
+      this.queue.push(grant);
+      signal?.addEventListener('abort', onAbort, { once: true });
     });
   }
 
@@ -141,38 +213,42 @@ class Semaphore {
 export class RuntimeCoordinator {
   private readonly startedAt = Date.now();
 
-  private readonly cache = new Map<string, CacheEntry>();
+  private readonly memoryCache: MemoryCacheStore;
+
+  private readonly sharedCache: CacheStore | null;
 
   private readonly idempotency = new Map<string, IdempotencyEntry>();
 
-  private readonly globalSemaphore = new Semaphore(
-    Math.max(1, getEnvNumber('GSC_GLOBAL_CONCURRENCY', 8)),
-  );
+  private readonly config: ServerConfig;
+
+  private readonly globalSemaphore: Semaphore;
 
   private readonly toolSemaphores = new Map<string, Semaphore>();
 
-  private readonly cacheTtlSec = Math.max(1, getEnvNumber('GSC_CACHE_TTL_SEC', 120));
-
-  private readonly idempotencyTtlSec = Math.max(
-    60,
-    getEnvNumber('GSC_IDEMPOTENCY_TTL_SEC', 60 * 60 * 24),
-  );
-
-  private readonly globalQuotaBudget = Math.max(
-    1,
-    getEnvNumber('GSC_QUOTA_BUDGET_GLOBAL_DAILY', 5000),
-  );
-
-  private readonly perToolQuotaBudget = new Map<string, number>([
-    ['index_inspect', Math.max(1, getEnvNumber('GSC_QUOTA_BUDGET_INDEX_INSPECT_DAILY', 1200))],
-    ['batch_inspect', Math.max(1, getEnvNumber('GSC_QUOTA_BUDGET_BATCH_INSPECT_DAILY', 1200))],
-    [
-      'indexing_health_report',
-      Math.max(1, getEnvNumber('GSC_QUOTA_BUDGET_INDEXING_HEALTH_REPORT_DAILY', 1200)),
-    ],
-    ['indexing_publish', Math.max(1, getEnvNumber('GSC_QUOTA_BUDGET_INDEXING_PUBLISH_DAILY', 180))],
+  private readonly cacheTtlSec: number;
+
+  private readonly toolTimeoutSec: number;
+
+  /** Bulk tools that stream many pages get a longer default deadline. */
+  private readonly defaultToolTimeoutSec = new Map<string, number>([
+    ['export_search_analytics', 1800],
+    ['sync_search_analytics', 1800],
   ]);
 
+  private readonly idempotencyTtlSec: number;
+
+  private readonly globalQuotaBudget: number;
+
+  /** Built-in daily budgets; the config file can add budgets for other tools. */
+  private readonly defaultToolQuotaBudget = new Map<string, number>([
+    ['index_inspect', 1200],
+    ['batch_inspect', 1200],
+    ['indexing_health_report', 1200],
+    ['indexing_publish', 180],
+  ]);
+
+  private readonly perToolQuotaBudget = new Map<string, number>();
+
   private quotaState: QuotaState = {
     day: getUtcDay(),
     globalUsed: 0,
@@ -181,9 +257,52 @@ export class RuntimeCoordinator {
 
   private readonly toolExecutionStats = new Map<string, ToolExecutionStats>();
 
+  private readonly apiCallStats = new Map<ApiFamily, ApiCallStats>();
+
+  private readonly apiQuota: ApiQuotaMeter;
+
+  /** Shared by every account's `SearchConsoleService`. */
+  readonly circuitBreaker: ApiCircuitBreaker;
+
+  private persistTimer: NodeJS.Timeout | null = null;
+
   private readonly persistence: PersistenceStatus;
 
   constructor(options: RuntimeCoordinatorOptions = {}) {
+    this.config = options.config ?? {};
+    const server = this.config.server ?? {};
+    const toolDefaults = this.config.toolDefaults ?? {};
+    this.globalSemaphore = new Semaphore(
+      Math.max(1, getEnvNumber('GSC_GLOBAL_CONCURRENCY', server.globalConcurrency ?? 8)),
+    );
+    this.cacheTtlSec = Math.max(1, getEnvNumber('GSC_CACHE_TTL_SEC', toolDefaults.cacheTtlSec ?? 120));
+    this.toolTimeoutSec = Math.max(0, getEnvNumber('GSC_TOOL_TIMEOUT_SEC', toolDefaults.timeoutSec ?? 300));
+    this.idempotencyTtlSec = Math.max(
+      60,
+      getEnvNumber('GSC_IDEMPOTENCY_TTL_SEC', server.idempotencyTtlSec ?? 60 * 60 * 24),
+    );
+    this.globalQuotaBudget = Math.max(
+      1,
+      getEnvNumber('GSC_QUOTA_BUDGET_GLOBAL_DAILY', server.quotaBudgetDaily ?? 5000),
+    );
+    const budgetedTools = new Set([
+      ...this.defaultToolQuotaBudget.keys(),
+      ...Object.keys(this.config.tools ?? {}).filter((toolName) => this.config.tools?.[toolName]?.quotaBudgetDaily),
+    ]);
+    for (const toolName of budgetedTools) {
+      const configured = this.config.tools?.[toolName]?.quotaBudgetDaily ?? this.defaultToolQuotaBudget.get(toolName)!;
+      this.perToolQuotaBudget.set(
+        toolName,
+        Math.max(1, getEnvNumber(`GSC_QUOTA_BUDGET_${normalizeToolName(toolName)}_DAILY`, configured)),
+      );
+    }
+
+    const cacheConfig = resolveCacheConfig();
+    this.memoryCache = new MemoryCacheStore(options.cacheMaxBytes ?? cacheConfig.memoryMaxBytes);
+    this.sharedCache = 'cacheStore' in options ? (options.cacheStore ?? null) : createSharedCacheStore(cacheConfig);
+    this.apiQuota = new ApiQuotaMeter(options.apiQuotaLimits);
+    this.circuitBreaker = new ApiCircuitBreaker(options.circuitBreaker);
+
     const persistenceOverride =
       'persistencePath' in options ? options.persistencePath : process.env.GSC_RUNTIME_STATE_PATH;
     const persistencePath = resolveRuntimeStatePath(persistenceOverride);
@@ -228,6 +347,7 @@ export class RuntimeCoordinator {
           {},
         ),
       },
+      apiQuota: this.apiQuota.toPersisted(),
       idempotency: Array.from(this.idempotency.entries()).map(([key, entry]) => ({
         key,
         storedAt: entry.storedAt,
@@ -244,6 +364,18 @@ export class RuntimeCoordinator {
     this.persistence.lastSavedAt = saved.savedAt;
   }
 
+  /** Batch persistence for high-frequency updates such as per-request API metering. */
+  private schedulePersist(): void {
+    if (!this.persistence.enabled || this.persistTimer) {
+      return;
+    }
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.persistState();
+    }, 1000);
+    this.persistTimer.unref();
+  }
+
   private loadPersistedState(): void {
     if (!this.persistence.enabled || !this.persistence.path) {
       return;
@@ -265,6 +397,9 @@ export class RuntimeCoordinator {
       globalUsed: loaded.state.quotaState.globalUsed,
       perToolUsed: new Map(Object.entries(loaded.state.quotaState.perToolUsed)),
     };
+    if (loaded.state.apiQuota) {
+      this.apiQuota.restore(loaded.state.apiQuota);
+    }
 
     const now = Date.now();
     for (const entry of loaded.state.idempotency) {
@@ -313,31 +448,74 @@ export class RuntimeCoordinator {
       return this.toolSemaphores.get(toolName)!;
     }
 
-    const normalizedToolName = toolName.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
-    const configuredLimit = getEnvNumber(`GSC_TOOL_CONCURRENCY_${normalizedToolName}`, 3);
-    const semaphore = new Semaphore(Math.max(1, configuredLimit));
+    const semaphore = new Semaphore(this.getToolConcurrency(toolName));
     this.toolSemaphores.set(toolName, semaphore);
     return semaphore;
   }
 
+  private getToolConcurrency(toolName: string): number {
+    return Math.max(
+      1,
+      getEnvNumber(
+        `GSC_TOOL_CONCURRENCY_${normalizeToolName(toolName)}`,
+        this.config.tools?.[toolName]?.concurrency ?? this.config.toolDefaults?.concurrency ?? 3,
+      ),
+    );
+  }
+
+  /** Deadline for one call to `toolName` (`GSC_TOOL_TIMEOUT_<TOOL>_SEC`, else `GSC_TOOL_TIMEOUT_SEC`); 0 means none. */
+  getToolTimeoutMs(toolName: string): number {
+    const fallback =
+      this.config.tools?.[toolName]?.timeoutSec ?? this.defaultToolTimeoutSec.get(toolName) ?? this.toolTimeoutSec;
+    return Math.max(0, getEnvNumber(`GSC_TOOL_TIMEOUT_${normalizeToolName(toolName)}_SEC`, fallback)) * 1000;
+  }
+
   private getCacheTtlSec(toolName: string): number {
-    const normalizedToolName = toolName.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
     return Math.max(
       1,
-      getEnvNumber(`GSC_CACHE_TTL_${normalizedToolName}_SEC`, this.cacheTtlSec),
+      getEnvNumber(
+        `GSC_CACHE_TTL_${normalizeToolName(toolName)}_SEC`,
+        this.config.tools?.[toolName]?.cacheTtlSec ?? this.cacheTtlSec,
+      ),
     );
   }
 
+  /** Effective settings for `toolName` after env vars, the config file and built-in defaults. */
+  getToolSettings(toolName: string): {
+    concurrency: number;
+    cacheTtlSec: number;
+    timeoutSec: number;
+    quotaBudgetDaily: number | null;
+  } {
+    return {
+      concurrency: this.getToolConcurrency(toolName),
+      cacheTtlSec: this.getCacheTtlSec(toolName),
+      timeoutSec: this.getToolTimeoutMs(toolName) / 1000,
+      quotaBudgetDaily: this.perToolQuotaBudget.get(toolName) ?? null,
+    };
+  }
+
+  /** Effective process-wide settings after env vars, the config file and built-in defaults. */
+  getServerSettings(): {
+    globalConcurrency: number;
+    defaultCacheTtlSec: number;
+    defaultToolTimeoutSec: number;
+    idempotencyTtlSec: number;
+    quotaBudgetDaily: number;
+  } {
+    return {
+      globalConcurrency: this.globalSemaphore.snapshot().maxConcurrency,
+      defaultCacheTtlSec: this.cacheTtlSec,
+      defaultToolTimeoutSec: this.toolTimeoutSec,
+      idempotencyTtlSec: this.idempotencyTtlSec,
+      quotaBudgetDaily: this.globalQuotaBudget,
+    };
+  }
+
   private purgeExpiredEntries(): { cachePurged: boolean; idempotencyPurged: boolean } {
     const now = Date.now();
-    let cachePurged = false;
+    const cachePurged = this.memoryCache.purgeExpired(now) > 0;
     let idempotencyPurged = false;
-    for (const [key, entry] of this.cache.entries()) {
-      if (now - entry.storedAt > entry.ttlMs) {
-        this.cache.delete(key);
-        cachePurged = true;
-      }
-    }
     for (const [key, entry] of this.idempotency.entries()) {
       if (now - entry.storedAt > entry.ttlMs) {
         this.idempotency.delete(key);
@@ -347,22 +525,30 @@ export class RuntimeCoordinator {
     return { cachePurged, idempotencyPurged };
   }
 
-  buildCacheKey(toolName: string, args: unknown): string {
+  /** `partition` keeps results that differ per caller, e.g. a policy-filtered site list, apart. */
+  buildCacheKey(toolName: string, args: unknown, partition?: string): string {
     const normalizedArgs =
       args && typeof args === 'object'
         ? Object.fromEntries(
             Object.entries(args as Record<string, unknown>).filter(([key]) => key !== 'mode'),
           )
         : args;
-    return `${toolName}:${stableStringify(normalizedArgs)}`;
+    return `${toolName}${partition ? `@${partition}` : ''}:${stableStringify(normalizedArgs)}`;
   }
 
-  getCached(cacheKey: string): { result: ToolResult; ageSec: number } | null {
+  /** Look up the memory tier, then the shared store (promoting hits into memory). */
+  async getCached(cacheKey: string): Promise<{ result: ToolResult; ageSec: number } | null> {
     const purged = this.purgeExpiredEntries();
     if (purged.idempotencyPurged) {
       this.persistState();
     }
-    const entry = this.cache.get(cacheKey);
+    let entry: CacheEntry | null = await this.memoryCache.get(cacheKey);
+    if (!entry && this.sharedCache) {
+      entry = await this.sharedCache.get(cacheKey);
+      if (entry) {
+        await this.memoryCache.set(cacheKey, entry);
+      }
+    }
     if (!entry) {
       return null;
     }
@@ -374,19 +560,34 @@ export class RuntimeCoordinator {
     };
   }
 
-  setCached(cacheKey: string, toolName: string, result: ToolResult): void {
-    this.cache.set(cacheKey, {
+  async setCached(cacheKey: string, toolName: string, result: ToolResult): Promise<void> {
+    const entry: CacheEntry = {
       storedAt: Date.now(),
       ttlMs: this.getCacheTtlSec(toolName) * 1000,
       value: this.cloneResult(result),
-    });
+    };
+    await this.memoryCache.set(cacheKey, entry);
+    if (this.sharedCache) {
+      await this.sharedCache.set(cacheKey, entry);
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.memoryCache.close();
+    await this.sharedCache?.close();
   }
 
-  async withConcurrencyLimit<T>(toolName: string, operation: () => Promise<T>): Promise<T> {
+  /** Run `operation` holding a global and a per-tool slot; an aborted `signal` gives up its place in the queue. */
+  async withConcurrencyLimit<T>(toolName: string, operation: () => Promise<T>, signal?: AbortSignal): Promise<T> {
     const toolSemaphore = this.getToolSemaphore(toolName);
 
-    await this.globalSemaphore.acquire();
-    await toolSemaphore.acquire();
+    await this.globalSemaphore.acquire(signal);
+    try {
+      await toolSemaphore.acquire(signal);
+    } catch (error) {
+      this.globalSemaphore.release();
+      throw error;
+    }
 
     try {
       return await operation();
@@ -416,6 +617,14 @@ export class RuntimeCoordinator {
     return 0;
   }
 
+  /**
+   * Units of `estimateQuotaUnits` one Google API request spends: one per URL
+   * inspection or Indexing API publish, nothing for other calls.
+   */
+  quotaUnitsFor(call: ApiCall): number {
+    return call.family === 'urlInspection' || (call.family === 'indexing' && call.method === 'publish') ? 1 : 0;
+  }
+
   reserveQuota(toolName: string, units: number): QuotaSnapshot {
     const reset = this.ensureFreshDay();
 
@@ -453,6 +662,20 @@ export class RuntimeCoordinator {
     };
   }
 
+  /** Return reserved units a cancelled call never spent to the tool and global budgets. */
+  refundQuota(toolName: string, units: number): void {
+    const reset = this.ensureFreshDay();
+    const toolUsed = this.quotaState.perToolUsed.get(toolName) ?? 0;
+    const refunded = Math.min(Math.max(0, units), toolUsed);
+    if (refunded > 0) {
+      this.quotaState.globalUsed = Math.max(0, this.quotaState.globalUsed - refunded);
+      this.quotaState.perToolUsed.set(toolName, toolUsed - refunded);
+    }
+    if (reset || refunded > 0) {
+      this.persistState();
+    }
+  }
+
   getIdempotentResult(toolName: string, idempotencyKey: string): ToolResult | null {
     const purged = this.purgeExpiredEntries();
     if (purged.idempotencyPurged) {
@@ -483,6 +706,7 @@ export class RuntimeCoordinator {
         failure: 0,
         totalLatencyMs: 0,
         lastLatencyMs: null,
+        latencyBucketCounts: new Array<number>(LATENCY_BUCKETS_MS.length + 1).fill(0),
       };
 
     if (status === 'success') {
@@ -492,10 +716,85 @@ export class RuntimeCoordinator {
     }
     existing.totalLatencyMs += Math.max(0, latencyMs);
     existing.lastLatencyMs = Math.max(0, latencyMs);
+    existing.latencyBucketCounts[latencyBucketIndex(latencyMs)] += 1;
 
     this.toolExecutionStats.set(toolName, existing);
   }
 
+  /**
+   * Meter one Google API request against its per-API (and per-property)
+   * limits. Throws `QUOTA_BUDGET_EXCEEDED` when a limit is used up.
+   */
+  reserveApiQuota(call: ApiCall): void {
+    this.apiQuota.reserve(call);
+    this.schedulePersist();
+  }
+
+  /** Count a Google API call reported by `SearchConsoleService`. */
+  recordApiCall(event: ApiCallEvent): void {
+    const existing =
+      this.apiCallStats.get(event.family) ?? {
+        success: 0,
+        failure: 0,
+        totalLatencyMs: 0,
+        rateLimitWaitMs: 0,
+        errorsByCode: new Map<string, number>(),
+      };
+
+    if (event.status === 'success') {
+      existing.success += 1;
+    } else {
+      existing.failure += 1;
+      const code = event.errorCode ?? 'UNKNOWN';
+      existing.errorsByCode.set(code, (existing.errorsByCode.get(code) ?? 0) + 1);
+    }
+    existing.totalLatencyMs += Math.max(0, event.latencyMs);
+    existing.rateLimitWaitMs += Math.max(0, event.rateLimitWaitMs);
+
+    this.apiCallStats.set(event.family, existing);
+  }
+
+  getMetricsSnapshot(): MetricsSnapshot {
+    this.ensureFreshDay();
+    const byName = <K extends string, T>(entries: Iterable<[K, T]>) =>
+      Array.from(entries).sort(([nameA], [nameB]) => nameA.localeCompare(nameB));
+
+    return {
+      uptimeSec: (Date.now() - this.startedAt) / 1000,
+      latencyBucketsMs: LATENCY_BUCKETS_MS,
+      tools: byName(this.toolExecutionStats.entries()).map(([tool, stats]) => ({
+        tool,
+        success: stats.success,
+        failure: stats.failure,
+        totalLatencyMs: stats.totalLatencyMs,
+        latencyBucketCounts: [...stats.latencyBucketCounts],
+      })),
+      apiFamilies: byName(this.apiCallStats.entries()).map(([family, stats]) => ({
+        family,
+        success: stats.success,
+        failure: stats.failure,
+        totalLatencyMs: stats.totalLatencyMs,
+        rateLimitWaitMs: stats.rateLimitWaitMs,
+        errorsByCode: Object.fromEntries(byName(stats.errorsByCode.entries())),
+      })),
+      concurrency: {
+        global: this.globalSemaphore.snapshot(),
+        perTool: Object.fromEntries(
+          byName(this.toolSemaphores.entries()).map(([tool, semaphore]) => [tool, semaphore.snapshot()]),
+        ),
+      },
+      quota: {
+        globalUsed: this.quotaState.globalUsed,
+        globalBudget: this.globalQuotaBudget,
+        perToolUsed: Object.fromEntries(byName(this.quotaState.perToolUsed.entries())),
+        perToolBudget: Object.fromEntries(byName(this.perToolQuotaBudget.entries())),
+      },
+      apiQuota: this.apiQuota.snapshot(),
+      circuitBreakers: this.circuitBreaker.snapshot(),
+      cacheStores: [this.memoryCache.stats(), ...(this.sharedCache ? [this.sharedCache.stats()] : [])],
+    };
+  }
+
   getHealthSnapshot(): Record<string, unknown> {
     const purged = this.purgeExpiredEntries();
     const reset = this.ensureFreshDay();
@@ -544,7 +843,8 @@ export class RuntimeCoordinator {
       uptimeSec: Math.floor((Date.now() - this.startedAt) / 1000),
       cache: {
         ttlSecDefault: this.cacheTtlSec,
-        entries: this.cache.size,
+        entries: this.memoryCache.size,
+        stores: [this.memoryCache.stats(), ...(this.sharedCache ? [this.sharedCache.stats()] : [])],
       },
       idempotency: {
         ttlSec: this.idempotencyTtlSec,
@@ -573,6 +873,8 @@ export class RuntimeCoordinator {
         perToolUsed: perToolQuotaUsed,
         perToolBudget: perToolQuotaBudget,
       },
+      apiQuota: this.apiQuota.snapshot(),
+      circuitBreakers: this.circuitBreaker.snapshot(),
       toolMetrics,
     };
   }
@@ -29,6 +29,39 @@ export function labelQueryIntent(query: string): 'informational' | 'navigational
   return 'informational';
 }
 
+/** Average position CTR benchmarks in % (rough Google organic) */
+const CTR_BENCHMARKS: Record<number, number> = {
+  1: 28.5,
+  2: 15.7,
+  3: 11.0,
+  4: 8.0,
+  5: 7.2,
+  6: 5.1,
+  7: 4.0,
+  8: 3.2,
+  9: 2.8,
+  10: 2.5,
+};
+
+/** Benchmark CTR % for a position, rounded to the nearest rank. */
+export function expectedCtr(position: number): number {
+  const rounded = Math.min(Math.max(Math.round(position), 1), 10);
+  return CTR_BENCHMARKS[rounded] ?? 2.0;
+}
+
+/**
+ * Benchmark CTR % interpolated between ranks, so small average-position moves
+ * register. Between 10 and 11 it falls to the 2% page-two floor and stays
+ * there: the curve does not distinguish positions from 11 on.
+ */
+export function interpolatedCtr(position: number): number {
+  if (position <= 1) return CTR_BENCHMARKS[1];
+  if (position >= 11) return 2.0;
+  const lower = Math.floor(position);
+  const upperCtr = lower === 10 ? 2.0 : CTR_BENCHMARKS[lower + 1];
+  return CTR_BENCHMARKS[lower] + (upperCtr - CTR_BENCHMARKS[lower]) * (position - lower);
+}
+
 export function clusterQuery(query: string): string {
   const parts = query
     .toLowerCase()
@@ -1,3 +1,12 @@
+/** Latency histogram bucket bounds in milliseconds, shared by the OTLP and Prometheus exporters. */
+export const LATENCY_BUCKETS_MS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000];
+
+/** Index of the bucket `latencyMs` falls in; the last index is the +Inf bucket. */
+export function latencyBucketIndex(latencyMs: number): number {
+  const bucket = LATENCY_BUCKETS_MS.findIndex((bound) => latencyMs <= bound);
+  return bucket === -1 ? LATENCY_BUCKETS_MS.length : bucket;
+}
+
 export interface TelemetryEvent {
   timestamp: string;
   requestId: string;
@@ -6,10 +15,14 @@ export interface TelemetryEvent {
   status: 'success' | 'error';
   latencyMs: number;
   retries: number;
+  /** Time the call's Google API requests waited for rate-limit tokens. */
+  rateLimitWaitMs: number;
   quotaUnitsEstimated: number;
   quotaUnitsReserved: number;
   cacheHit: boolean;
   idempotencyReplay: boolean;
+  /** HTTP client token id, when the call came through one. */
+  clientId?: string;
   errorCode?: string;
   errorMessage?: string;
 }
@@ -24,6 +37,17 @@ export class ConsoleTelemetrySink implements TelemetrySink {
   }
 }
 
+/** Fans each event out to several sinks, e.g. stderr plus OTLP. */
+export class MultiTelemetrySink implements TelemetrySink {
+  constructor(private readonly sinks: TelemetrySink[]) {}
+
+  emit(event: TelemetryEvent): void {
+    for (const sink of this.sinks) {
+      sink.emit(event);
+    }
+  }
+}
+
 export class TelemetryRecorder {
   constructor(
     private readonly sink: TelemetrySink,
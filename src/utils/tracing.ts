@@ -0,0 +1,177 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomBytes } from 'node:crypto';
+
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+export type SpanKind = 'internal' | 'client';
+
+export interface FinishedSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId: string | null;
+  name: string;
+  kind: SpanKind;
+  /** Epoch milliseconds with sub-millisecond precision. */
+  startTimeMs: number;
+  endTimeMs: number;
+  attributes: SpanAttributes;
+  status: { code: 'unset' | 'ok' | 'error'; message?: string };
+}
+
+/** Receives every span when it ends. */
+export interface SpanProcessor {
+  onEnd(span: FinishedSpan): void;
+}
+
+function nowMs(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+export class ActiveSpan {
+  readonly traceId: string;
+
+  readonly spanId = randomBytes(8).toString('hex');
+
+  private readonly startTimeMs = nowMs();
+
+  private readonly attributes: SpanAttributes;
+
+  private status: FinishedSpan['status'] = { code: 'unset' };
+
+  constructor(
+    private readonly name: string,
+    private readonly kind: SpanKind,
+    private readonly parent: ActiveSpan | undefined,
+    attributes: SpanAttributes = {},
+  ) {
+    this.traceId = parent?.traceId ?? randomBytes(16).toString('hex');
+    this.attributes = { ...attributes };
+  }
+
+  setAttributes(attributes: SpanAttributes): void {
+    Object.assign(this.attributes, attributes);
+  }
+
+  setError(message: string): void {
+    this.status = { code: 'error', message };
+  }
+
+  finish(): FinishedSpan {
+    return {
+      traceId: this.traceId,
+      spanId: this.spanId,
+      parentSpanId: this.parent?.spanId ?? null,
+      name: this.name,
+      kind: this.kind,
+      startTimeMs: this.startTimeMs,
+      endTimeMs: nowMs(),
+      attributes: { ...this.attributes },
+      status: this.status.code === 'unset' ? { code: 'ok' } : this.status,
+    };
+  }
+}
+
+const spanStorage = new AsyncLocalStorage<ActiveSpan>();
+
+let spanProcessor: SpanProcessor | null = null;
+
+/** Install (or clear with null) the processor that receives finished spans. Tracing is off without one. */
+export function setSpanProcessor(processor: SpanProcessor | null): void {
+  spanProcessor = processor;
+}
+
+export function isTracingEnabled(): boolean {
+  return spanProcessor !== null;
+}
+
+export function getActiveSpan(): ActiveSpan | undefined {
+  return spanStorage.getStore();
+}
+
+/**
+ * Run `operation` inside a child of the active span (or a new trace). A
+ * thrown error marks the span as failed and is rethrown. Without a span
+ * processor this only calls `operation`.
+ */
+export async function withSpan<T>(
+  name: string,
+  options: { kind?: SpanKind; attributes?: SpanAttributes },
+  operation: (span: ActiveSpan | undefined) => Promise<T>,
+): Promise<T> {
+  const processor = spanProcessor;
+  if (!processor) {
+    return operation(undefined);
+  }
+
+  const span = new ActiveSpan(name, options.kind ?? 'internal', spanStorage.getStore(), options.attributes);
+  try {
+    return await spanStorage.run(span, () => operation(span));
+  } catch (error) {
+    span.setError(error instanceof Error ? error.message : String(error));
+    throw error;
+  } finally {
+    processor.onEnd(span.finish());
+  }
+}
+
+function errorStatusCode(error: unknown): number | undefined {
+  const candidate = error as { code?: unknown; status?: unknown; response?: { status?: unknown } } | null;
+  for (const value of [candidate?.response?.status, candidate?.status, candidate?.code]) {
+    if (typeof value === 'number') {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Wrap a googleapis client so every method call (e.g.
+ * `searchanalytics.query`) runs in a client span named
+ * `<service>.<resource path>`. Returns the client unchanged when tracing is off.
+ */
+export function traceApiClient<T extends object>(client: T, service: string): T {
+  if (!isTracingEnabled()) {
+    return client;
+  }
+
+  const wrap = (target: object, path: string[]): object =>
+    new Proxy(target, {
+      get(object, property, receiver) {
+        const value = Reflect.get(object, property, receiver) as unknown;
+        if (typeof property !== 'string' || property === 'context') {
+          return value;
+        }
+        if (typeof value === 'function') {
+          const method = [...path, property].join('.');
+          return (...args: unknown[]) =>
+            withSpan(
+              `${service}.${method}`,
+              { kind: 'client', attributes: { 'rpc.system': 'google_api', 'rpc.service': service, 'rpc.method': method } },
+              async (span) => {
+                try {
+                  const response = (await (value as (...callArgs: unknown[]) => unknown).apply(object, args)) as
+                    | { status?: unknown }
+                    | undefined;
+                  if (typeof response?.status === 'number') {
+                    span?.setAttributes({ 'http.response.status_code': response.status });
+                  }
+                  return response;
+                } catch (error) {
+                  const status = errorStatusCode(error);
+                  if (status !== undefined) {
+                    span?.setAttributes({ 'http.response.status_code': status });
+                  }
+                  throw error;
+                }
+              },
+            );
+        }
+        if (value && typeof value === 'object') {
+          return wrap(value, [...path, property]);
+        }
+        return value;
+      },
+    });
+
+  return wrap(client, []) as T;
+}
@@ -0,0 +1,424 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, unlinkSync, writeFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+
+import initSqlJs, { type Database, type SqlValue } from 'sql.js';
+
+import { GSCError, type SearchConsoleService } from '../service.js';
+import { eachDate } from './dates.js';
+import { paginateSearchAnalytics } from './pagination.js';
+import type { SearchAnalyticsRow } from './types.js';
+
+/** Dimensions stored per day; `date` is the row's day. */
+export const WAREHOUSE_DIMENSIONS = ['date', 'query', 'page', 'country', 'device'] as const;
+export type WarehouseDimension = (typeof WAREHOUSE_DIMENSIONS)[number];
+
+/** Dimensions requested from the API when syncing a day, in key order. */
+export const SYNC_DIMENSIONS = ['query', 'page', 'country', 'device'] as const;
+
+export type DataSource = 'auto' | 'api' | 'warehouse';
+
+const WAREHOUSE_FILTER_OPERATORS = ['equals', 'notEquals', 'contains', 'notContains'] as const;
+type WarehouseFilterOperator = (typeof WAREHOUSE_FILTER_OPERATORS)[number];
+
+export interface WarehouseFilter {
+  dimension: WarehouseDimension;
+  operator: WarehouseFilterOperator;
+  expression: string;
+}
+
+export interface WarehouseQuery {
+  siteUrl: string;
+  searchType: string;
+  startDate: string;
+  endDate: string;
+  dimensions: WarehouseDimension[];
+  filters?: WarehouseFilter[];
+  rowLimit?: number;
+}
+
+export interface WarehouseCoverage {
+  firstDate: string | null;
+  lastDate: string | null;
+  days: number;
+  rows: number;
+}
+
+const SCHEMA_SQL = `
+CREATE TABLE IF NOT EXISTS search_analytics (
+  site_url TEXT NOT NULL,
+  search_type TEXT NOT NULL,
+  date TEXT NOT NULL,
+  query TEXT NOT NULL,
+  page TEXT NOT NULL,
+  country TEXT NOT NULL,
+  device TEXT NOT NULL,
+  clicks REAL NOT NULL,
+  impressions REAL NOT NULL,
+  position REAL NOT NULL,
+  PRIMARY KEY (site_url, search_type, date, query, page, country, device)
+);
+CREATE TABLE IF NOT EXISTS synced_days (
+  site_url TEXT NOT NULL,
+  search_type TEXT NOT NULL,
+  date TEXT NOT NULL,
+  row_count INTEGER NOT NULL,
+  truncated INTEGER NOT NULL,
+  synced_at TEXT NOT NULL,
+  PRIMARY KEY (site_url, search_type, date)
+);
+`;
+
+export function getDefaultWarehousePath(): string | null {
+  const home = homedir();
+  if (!home) {
+    return null;
+  }
+  return join(home, '.mcp-server-gsc-pro', 'warehouse.sqlite');
+}
+
+/** `GSC_WAREHOUSE_PATH` overrides the default; an empty string disables the warehouse. */
+export function resolveWarehousePath(override: string | undefined = process.env.GSC_WAREHOUSE_PATH): string | null {
+  if (typeof override === 'string') {
+    const trimmed = override.trim();
+    return trimmed.length > 0 ? trimmed : null;
+  }
+  return getDefaultWarehousePath();
+}
+
+/**
+ * Local SQLite store of daily query×page×country×device Search Analytics
+ * rows, so history survives the API's ~16 month retention. The database is
+ * held in memory and written back to `path` on `save()`.
+ */
+export class AnalyticsWarehouse {
+  private constructor(
+    private readonly db: Database,
+    readonly path: string | null,
+  ) {}
+
+  /** Open (or create) the warehouse at `path`; `null` keeps it in memory only. */
+  static async open(path: string | null): Promise<AnalyticsWarehouse> {
+    const SQL = await initSqlJs();
+    const db = path && existsSync(path) ? new SQL.Database(readFileSync(path)) : new SQL.Database();
+    db.run(SCHEMA_SQL);
+    return new AnalyticsWarehouse(db, path);
+  }
+
+  /**
+   * Dates in the range that have not been synced yet, oldest first. With
+   * `complete`, days synced with a truncated row set count as missing too.
+   */
+  missingDates(
+    siteUrl: string,
+    searchType: string,
+    startDate: string,
+    endDate: string,
+    options: { complete?: boolean } = {},
+  ): string[] {
+    const synced = new Set(
+      this.select(
+        `SELECT date FROM synced_days WHERE site_url = ? AND search_type = ? AND date BETWEEN ? AND ?${
+          options.complete ? ' AND truncated = 0' : ''
+        }`,
+        [siteUrl, searchType, startDate, endDate],
+      ).map((row) => String(row[0])),
+    );
+    return eachDate(startDate, endDate).filter((date) => !synced.has(date));
+  }
+
+  /** Replace every stored row for one day. Row keys follow SYNC_DIMENSIONS. */
+  replaceDay(
+    siteUrl: string,
+    searchType: string,
+    date: string,
+    rows: SearchAnalyticsRow[],
+    options: { truncated?: boolean } = {},
+  ): void {
+    this.db.run('BEGIN');
+    try {
+      this.db.run('DELETE FROM search_analytics WHERE site_url = ? AND search_type = ? AND date = ?', [
+        siteUrl,
+        searchType,
+        date,
+      ]);
+      const insert = this.db.prepare(
+        'INSERT OR REPLACE INTO search_analytics VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      );
+      try {
+        for (const row of rows) {
+          const [query = '', page = '', country = '', device = ''] = row.keys ?? [];
+          insert.run([
+            siteUrl,
+            searchType,
+            date,
+            query,
+            page,
+            country,
+            device,
+            row.clicks ?? 0,
+            row.impressions ?? 0,
+            row.position ?? 0,
+          ]);
+        }
+      } finally {
+        insert.free();
+      }
+      this.db.run('INSERT OR REPLACE INTO synced_days VALUES (?, ?, ?, ?, ?, ?)', [
+        siteUrl,
+        searchType,
+        date,
+        rows.length,
+        options.truncated ? 1 : 0,
+        new Date().toISOString(),
+      ]);
+      this.db.run('COMMIT');
+    } catch (error) {
+      this.db.run('ROLLBACK');
+      throw error;
+    }
+  }
+
+  /**
+   * Aggregate stored rows like the Search Analytics API would: summed clicks
+   * and impressions, CTR as a fraction, impression-weighted position.
+   */
+  query(query: WarehouseQuery): SearchAnalyticsRow[] {
+    const where = ['site_url = ?', 'search_type = ?', 'date BETWEEN ? AND ?'];
+    const params: SqlValue[] = [query.siteUrl, query.searchType, query.startDate, query.endDate];
+
+    for (const filter of query.filters ?? []) {
+      const column = filter.dimension;
+      switch (filter.operator) {
+        case 'equals':
+          where.push(`lower(${column}) = lower(?)`);
+          break;
+        case 'notEquals':
+          where.push(`lower(${column}) != lower(?)`);
+          break;
+        case 'contains':
+          where.push(`instr(lower(${column}), lower(?)) > 0`);
+          break;
+        case 'notContains':
+          where.push(`instr(lower(${column}), lower(?)) = 0`);
+          break;
+      }
+      params.push(filter.expression);
+    }
+
+    const columns = query.dimensions.join(', ');
+    const sql = [
+      `SELECT ${columns ? `${columns}, ` : ''}SUM(clicks), SUM(impressions), SUM(position * impressions)`,
+      'FROM search_analytics',
+      `WHERE ${where.join(' AND ')}`,
+      ...(columns ? [`GROUP BY ${columns}`, `ORDER BY ${query.dimensions.length + 1} DESC`, 'LIMIT ?'] : []),
+    ].join(' ');
+    if (columns) {
+      params.push(query.rowLimit ?? 1000);
+    }
+
+    return this.select(sql, params)
+      .filter((values) => values[query.dimensions.length] !== null)
+      .map((values) => {
+        const clicks = Number(values[query.dimensions.length]);
+        const impressions = Number(values[query.dimensions.length + 1]);
+        const weightedPosition = Number(values[query.dimensions.length + 2]);
+        return {
+          keys: values.slice(0, query.dimensions.length).map((value) => String(value)),
+          clicks,
+          impressions,
+          ctr: impressions > 0 ? clicks / impressions : 0,
+          position: impressions > 0 ? weightedPosition / impressions : 0,
+        };
+      });
+  }
+
+  coverage(siteUrl: string, searchType: string): WarehouseCoverage {
+    const [row] = this.select(
+      'SELECT MIN(date), MAX(date), COUNT(*), COALESCE(SUM(row_count), 0) FROM synced_days WHERE site_url = ? AND search_type = ?',
+      [siteUrl, searchType],
+    );
+    return {
+      firstDate: row?.[0] === null || row?.[0] === undefined ? null : String(row[0]),
+      lastDate: row?.[1] === null || row?.[1] === undefined ? null : String(row[1]),
+      days: Number(row?.[2] ?? 0),
+      rows: Number(row?.[3] ?? 0),
+    };
+  }
+
+  /** Atomically write the database to `path`. No-op for in-memory warehouses. */
+  save(): void {
+    if (!this.path) {
+      return;
+    }
+    mkdirSync(dirname(this.path), { recursive: true });
+    const tempPath = `${this.path}.${process.pid}.${Date.now()}.tmp`;
+    try {
+      writeFileSync(tempPath, this.db.export());
+      renameSync(tempPath, this.path);
+    } catch (error) {
+      if (existsSync(tempPath)) {
+        try {
+          unlinkSync(tempPath);
+        } catch {
+          // Best effort cleanup.
+        }
+      }
+      throw error;
+    }
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private select(sql: string, params: SqlValue[]): SqlValue[][] {
+    const statement = this.db.prepare(sql);
+    try {
+      statement.bind(params);
+      const rows: SqlValue[][] = [];
+      while (statement.step()) {
+        rows.push(statement.get());
+      }
+      return rows;
+    } finally {
+      statement.free();
+    }
+  }
+}
+
+/**
+ * Translate a Search Analytics request body into a warehouse query, or null
+ * when it uses dimensions, filters or aggregation the warehouse cannot answer.
+ */
+export function toWarehouseQuery(siteUrl: string, body: Record<string, unknown>): WarehouseQuery | null {
+  const { startDate, endDate } = body;
+  if (typeof startDate !== 'string' || typeof endDate !== 'string') {
+    return null;
+  }
+  if (body.aggregationType !== undefined && body.aggregationType !== 'auto') {
+    return null;
+  }
+
+  const dimensions = (body.dimensions ?? []) as string[];
+  if (!dimensions.every((dimension) => (WAREHOUSE_DIMENSIONS as readonly string[]).includes(dimension))) {
+    return null;
+  }
+
+  const filters: WarehouseFilter[] = [];
+  const groups = (body.dimensionFilterGroups ?? []) as Array<{
+    groupType?: string;
+    filters?: Array<{ dimension?: string; operator?: string; expression?: string }>;
+  }>;
+  for (const group of groups) {
+    if (group.groupType !== undefined && group.groupType !== 'and') {
+      return null;
+    }
+    for (const filter of group.filters ?? []) {
+      const operator = filter.operator ?? 'equals';
+      if (
+        !(WAREHOUSE_DIMENSIONS as readonly string[]).includes(filter.dimension ?? '') ||
+        !(WAREHOUSE_FILTER_OPERATORS as readonly string[]).includes(operator) ||
+        typeof filter.expression !== 'string'
+      ) {
+        return null;
+      }
+      filters.push({
+        dimension: filter.dimension as WarehouseDimension,
+        operator: operator as WarehouseFilterOperator,
+        expression: filter.expression,
+      });
+    }
+  }
+
+  return {
+    siteUrl,
+    searchType: typeof body.searchType === 'string' ? body.searchType : 'web',
+    startDate,
+    endDate,
+    dimensions: dimensions as WarehouseDimension[],
+    filters,
+    rowLimit: typeof body.rowLimit === 'number' ? body.rowLimit : undefined,
+  };
+}
+
+/** The warehouse query for `body` and the days it lacks; truncated days count as missing. */
+function planWarehouseRead(
+  warehouse: AnalyticsWarehouse | null,
+  siteUrl: string,
+  body: Record<string, unknown>,
+): { query: WarehouseQuery | null; missing: string[] | null } {
+  const query = warehouse ? toWarehouseQuery(siteUrl, body) : null;
+  const missing = query && warehouse
+    ? warehouse.missingDates(siteUrl, query.searchType, query.startDate, query.endDate, { complete: true })
+    : null;
+  return { query, missing };
+}
+
+/**
+ * Pick one source for requests whose results are compared with each other.
+ * Warehouse rows leave out anonymized queries, so their totals read lower than
+ * the API's; `auto` therefore resolves to the warehouse only when it can
+ * answer every request, and to the API otherwise.
+ */
+export function resolveDataSource(
+  warehouse: AnalyticsWarehouse | null,
+  siteUrl: string,
+  bodies: Array<Record<string, unknown>>,
+  dataSource: DataSource = 'auto',
+): DataSource {
+  if (dataSource !== 'auto') {
+    return dataSource;
+  }
+  return bodies.every((body) => planWarehouseRead(warehouse, siteUrl, body).missing?.length === 0)
+    ? 'warehouse'
+    : 'api';
+}
+
+/**
+ * Fetch Search Analytics rows from the warehouse when the whole range is
+ * synced (`auto`) or required (`warehouse`), otherwise from the live API.
+ * Tools comparing several requests resolve `auto` once with
+ * `resolveDataSource` so every request reads from the same source.
+ * A `rowLimit` above the API's 25K page size is fetched page by page.
+ */
+export async function fetchSearchAnalyticsRows(
+  service: SearchConsoleService,
+  warehouse: AnalyticsWarehouse | null,
+  siteUrl: string,
+  body: Record<string, unknown>,
+  dataSource: DataSource = 'auto',
+): Promise<{ rows: SearchAnalyticsRow[]; source: 'api' | 'warehouse' }> {
+  if (dataSource !== 'api') {
+    const { query, missing } = planWarehouseRead(warehouse, siteUrl, body);
+
+    if (query && warehouse && missing?.length === 0) {
+      return { rows: warehouse.query(query), source: 'warehouse' };
+    }
+    if (dataSource === 'warehouse') {
+      const reason = !warehouse
+        ? 'the warehouse is disabled (GSC_WAREHOUSE_PATH is empty)'
+        : !query
+          ? 'the request uses dimensions, filters or aggregation the warehouse does not store'
+          : `${missing?.length ?? 0} day(s) between ${String(body.startDate)} and ${String(body.endDate)} are not synced or were truncated; run sync_search_analytics first (with force and a higher maxRowsPerDay for truncated days)`;
+      throw new GSCError(`Cannot read from the warehouse: ${reason}.`, 'WAREHOUSE_UNAVAILABLE');
+    }
+  }
+
+  if (typeof body.rowLimit === 'number' && body.rowLimit > 25_000) {
+    const { rowLimit, ...rest } = body;
+    return { rows: await paginateSearchAnalytics(service, siteUrl, rest, { maxRows: rowLimit }), source: 'api' };
+  }
+
+  const response = await service.searchAnalytics(siteUrl, body);
+  return {
+    rows: (response.data as { rows?: SearchAnalyticsRow[] }).rows ?? [],
+    source: 'api',
+  };
+}
+
+/** Summarize where a tool's rows came from across several fetches. */
+export function summarizeSources(sources: Array<'api' | 'warehouse'>): 'api' | 'warehouse' | 'mixed' {
+  const unique = new Set(sources);
+  return unique.size === 1 ? sources[0] : 'mixed';
+}
@@ -0,0 +1,191 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { AnomalyScanSchema } from '../src/schemas/anomaly.js';
+import { handleAnomalyScan } from '../src/tools/anomaly.js';
+import { anomalySeverity, detectRollingAnomalies, groupAnomalyRuns } from '../src/utils/anomaly.js';
+import { eachDate } from '../src/utils/dates.js';
+import type { DimensionFilter } from '../src/utils/filters.js';
+import type { SearchAnalyticsRow } from '../src/utils/types.js';
+import { parseResult, searchAnalyticsService } from './helpers.js';
+
+const SITE = 'sc-domain:example.com';
+const WEEK = [100, 120, 130, 125, 110, 60, 50];
+const DATES = eachDate('2026-07-01', '2026-09-22');
+const CELLS = [
+  { country: 'usa', device: 'DESKTOP', weight: 1 },
+  { country: 'usa', device: 'MOBILE', weight: 1.2 },
+  { country: 'deu', device: 'DESKTOP', weight: 0.5 },
+  { country: 'deu', device: 'MOBILE', weight: 0.8 },
+];
+const QUERIES = [
+  { query: 'running shoes', share: 0.6, appearance: 'VIDEO' },
+  { query: 'trail shoes', share: 0.4, appearance: 'FAQ_RICH_RESULT' },
+];
+
+function weeklySeries(days: number, wobble = 5): number[] {
+  return Array.from({ length: days }, (_, i) => WEEK[i % 7] + (((i * 37) % 11) - 5) * (wobble / 5));
+}
+
+interface RequestBody {
+  dimensions: string[];
+  rowLimit: number;
+  startRow?: number;
+  dimensionFilterGroups?: Array<{ filters: DimensionFilter[] }>;
+}
+
+interface AnomalyPayload {
+  slicesScanned: Record<string, number>;
+  events: Array<{ label: string; contributors: Array<{ label: string; sharePct: number }> }>;
+}
+
+/** date × country × device × query cube where mobile clicks in Germany collapse from 2026-09-09. */
+function cube() {
+  return DATES.flatMap((date, i) =>
+    CELLS.flatMap(({ country, device, weight }) => {
+      const drop = country === 'deu' && device === 'MOBILE' && date >= '2026-09-09' ? 0.05 : 1;
+      const clicks = Math.round(weight * (WEEK[i % 7] + ((i * 37) % 11) - 5) * drop);
+      return QUERIES.map(({ query, share, appearance }) => ({
+        date,
+        country,
+        device,
+        query,
+        searchAppearance: appearance,
+        clicks: Math.round(clicks * share),
+        impressions: Math.round(clicks * share * 10),
+      }));
+    }),
+  );
+}
+
+/** Answer Search Analytics requests by grouping the cube on the requested dimensions. */
+function cubeService() {
+  const records = cube();
+  type CubeRecord = (typeof records)[number];
+  return searchAnalyticsService(async (_siteUrl: string, body: RequestBody) => {
+    const dimensions = body.dimensions as Array<keyof CubeRecord>;
+    const filters = (body.dimensionFilterGroups ?? []).flatMap((group) => group.filters);
+    const grouped = new Map<string, SearchAnalyticsRow>();
+    for (const record of records) {
+      if (!filters.every((filter) => String(record[filter.dimension as keyof CubeRecord]) === filter.expression)) continue;
+      const keys = dimensions.map((dimension) => String(record[dimension]));
+      const row = grouped.get(keys.join('|')) ?? { keys, clicks: 0, impressions: 0 };
+      row.clicks! += record.clicks;
+      row.impressions! += record.impressions;
+      grouped.set(keys.join('|'), row);
+    }
+    const rows = [...grouped.values()].sort((a, b) => b.clicks! - a.clicks!);
+    const startRow = body.startRow ?? 0;
+    return { data: { rows: rows.slice(startRow, startRow + body.rowLimit) } };
+  });
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('anomaly_scan', () => {
+  it('flags a sustained dip against a weekday-adjusted baseline but not the weekly lows', () => {
+    const series = weeklySeries(70);
+    expect(detectRollingAnomalies(series, 28, 3.5)).toEqual([]);
+
+    for (let i = 60; i < 64; i += 1) series[i] = Math.round(series[i] * 0.3);
+    series[66] = 400;
+    const runs = groupAnomalyRuns(detectRollingAnomalies(series, 28, 3.5));
+
+    expect(runs.map(({ start, end, direction }) => ({ start, end, direction }))).toEqual([
+      { start: 60, end: 63, direction: 'dip' },
+      { start: 66, end: 66, direction: 'spike' },
+    ]);
+    expect(runs[0].actual).toBeLessThan(runs[0].expected);
+    expect(anomalySeverity(runs[0], 3.5)).toBe('high');
+    expect(anomalySeverity({ ...runs[0], end: runs[0].start, peakZ: -4 }, 3.5)).toBe('low');
+  });
+
+  it('floors the spread at Poisson noise for sparse series and validates the window', () => {
+    const sparse = Array.from({ length: 60 }, (_, i) => [0, 1, 0, 2, 0, 0, 1][i % 7] + (i === 45 ? 3 : 0));
+    expect(detectRollingAnomalies(sparse, 28, 3.5)).toEqual([]);
+
+    const issues = (input: Record<string, unknown>) =>
+      AnomalyScanSchema.safeParse({ siteUrl: SITE, ...input }).error?.issues.map((issue) => issue.message) ?? [];
+    expect(AnomalyScanSchema.parse({ siteUrl: SITE })).toMatchObject({ days: 90, windowDays: 28, threshold: 3.5 });
+    expect(issues({ days: 30, windowDays: 28 })).toEqual([
+      'days must be at least windowDays + 7 so there are days to scan after the baseline window',
+    ]);
+    expect(issues({ dataSource: 'warehouse' })).toEqual([
+      'The warehouse does not store searchAppearance; remove it from slices or use dataSource "auto"',
+    ]);
+    expect(issues({ dataSource: 'warehouse', slices: ['site', 'country'] })).toEqual([]);
+  });
+
+  it('finds a mobile drop in one country and credits it to that slice', async () => {
+    const { service } = cubeService();
+    const payload = parseResult<AnomalyPayload>(
+      await handleAnomalyScan(service, {
+        siteUrl: SITE,
+        endDate: '2026-09-22',
+        days: 84,
+        metrics: ['clicks'],
+        slices: ['site', 'country', 'device', 'countryDevice'],
+        dataSource: 'api',
+      }),
+    );
+
+    expect(payload).toMatchObject({
+      method: 'rolling-median-mad',
+      period: { startDate: '2026-07-01', endDate: '2026-09-22', days: 84 },
+      slicesScanned: { site: 1, country: 2, device: 2, countryDevice: 4 },
+    });
+    const labels = payload.events.map((event) => event.label);
+    expect(labels).toEqual(
+      expect.arrayContaining(['site', 'country=deu', 'device=MOBILE', 'country=deu, device=MOBILE']),
+    );
+    expect(labels.some((label) => label.includes('usa') || label.includes('DESKTOP'))).toBe(false);
+
+    const siteDip = payload.events.find((event) => event.label === 'site')!;
+    expect(siteDip).toMatchObject({ metric: 'clicks', direction: 'dip', onset: '2026-09-09', severity: 'high' });
+    expect(siteDip.contributors[0]).toMatchObject({ label: 'country=deu, device=MOBILE', onset: '2026-09-09' });
+    expect(siteDip.contributors[0].sharePct).toBeCloseTo(100, -1);
+    const countryDip = payload.events.find((event) => event.label === 'country=deu')!;
+    expect(countryDip.contributors.map((contributor) => contributor.label)).toEqual([
+      'country=deu, device=MOBILE',
+    ]);
+  });
+
+  it('caps endDate at the last finalized day', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-19T12:00:00.000Z'));
+    const { service, searchAnalytics } = cubeService();
+    await handleAnomalyScan(service, { siteUrl: SITE, endDate: '2026-10-18', slices: ['site'], dataSource: 'api' });
+
+    expect(searchAnalytics.mock.calls[0][1]).toMatchObject({ startDate: '2026-07-19', endDate: '2026-10-16' });
+  });
+
+  it('scans top queries and each search appearance through a filtered date request', async () => {
+    const { service, searchAnalytics } = cubeService();
+    const payload = parseResult<AnomalyPayload>(
+      await handleAnomalyScan(service, {
+        siteUrl: SITE,
+        endDate: '2026-09-22',
+        days: 84,
+        slices: ['query', 'searchAppearance'],
+        topQueries: 1,
+        maxSlices: 5,
+        dataSource: 'api',
+      }),
+    );
+
+    const bodies = searchAnalytics.mock.calls.map(([, body]) => body);
+    expect(bodies.filter((body) => body.dimensions.includes('searchAppearance'))).toEqual([
+      expect.objectContaining({ dimensions: ['searchAppearance'] }),
+    ]);
+    expect(
+      bodies
+        .filter((body) => body.dimensionFilterGroups)
+        .map((body) => body.dimensionFilterGroups![0].filters[0].expression)
+        .sort(),
+    ).toEqual(['FAQ_RICH_RESULT', 'VIDEO']);
+    expect(payload.slicesScanned).toEqual({ query: 1, searchAppearance: 2 });
+    const labels = new Set(payload.events.map((event) => event.label));
+    expect(labels).toEqual(new Set(['query=running shoes', 'searchAppearance=VIDEO', 'searchAppearance=FAQ_RICH_RESULT']));
+  });
+});
@@ -0,0 +1,123 @@
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { GSCError, SearchConsoleService, type ApiCall } from '../src/service.js';
+import { ApiQuotaMeter, resolveApiQuotaLimits, type ApiQuotaLimit } from '../src/utils/api-quota.js';
+import { RuntimeCoordinator } from '../src/utils/runtime.js';
+
+const SITE_A = 'sc-domain:a.example';
+const SITE_B = 'sc-domain:b.example';
+const T0 = Date.parse('2026-10-19T10:00:00Z');
+
+function inspect(siteUrl: string): ApiCall {
+  return { family: 'urlInspection', method: 'inspect', siteUrl };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('per-API quota metering', () => {
+  it('uses Google defaults with GSC_API_QUOTA_* overrides', () => {
+    const limits = resolveApiQuotaLimits({ GSC_API_QUOTA_URL_INSPECTION_QPD: '50' });
+    const find = (family: string, window: string) =>
+      limits.find((limit) => limit.family === family && limit.window === window);
+
+    expect(find('urlInspection', 'day')).toMatchObject({ scope: 'property', limit: 50 });
+    expect(find('searchanalytics', 'minute')).toMatchObject({ scope: 'property', limit: 1200 });
+    expect(find('crux', 'minute')).toMatchObject({ scope: 'project', limit: 150 });
+    expect(find('indexing', 'day')).toMatchObject({ scope: 'project', limit: 200, methods: ['publish'] });
+  });
+
+  it('enforces property-scoped daily and sliding-minute limits independently per site', () => {
+    const limits: ApiQuotaLimit[] = [
+      { family: 'urlInspection', window: 'day', scope: 'property', limit: 3 },
+      { family: 'urlInspection', window: 'minute', scope: 'property', limit: 2 },
+      { family: 'indexing', window: 'day', scope: 'project', limit: 1, methods: ['publish'] },
+    ];
+    const meter = new ApiQuotaMeter(limits, T0);
+
+    meter.reserve(inspect(SITE_A), T0);
+    meter.reserve(inspect(SITE_A), T0 + 1_000);
+    expect(() => meter.reserve(inspect(SITE_A), T0 + 2_000)).toThrow(/in the last minute/);
+    meter.reserve(inspect(SITE_B), T0 + 2_000);
+    meter.reserve(inspect(SITE_A), T0 + 61_000);
+
+    const error = (() => {
+      try {
+        meter.reserve(inspect(SITE_A), T0 + 200_000);
+      } catch (caught) {
+        return caught;
+      }
+      return null;
+    })();
+    expect(error).toBeInstanceOf(GSCError);
+    expect(error).toMatchObject({ code: 'QUOTA_BUDGET_EXCEEDED', statusCode: 429 });
+    expect((error as Error).message).toContain(`for ${SITE_A}: 3/3 requests today (UTC)`);
+
+    meter.reserve({ family: 'indexing', method: 'getMetadata' }, T0);
+    meter.reserve({ family: 'indexing', method: 'publish' }, T0);
+    expect(() => meter.reserve({ family: 'indexing', method: 'publish' }, T0)).toThrow(/indexing quota budget/);
+
+    const snapshot = meter.snapshot(T0 + 200_000);
+    expect(snapshot.apis.urlInspection).toMatchObject({
+      callsToday: 4,
+      sites: {
+        [SITE_A]: { callsToday: 3, remaining: { day: 0, minute: 2 } },
+        [SITE_B]: { callsToday: 1, remaining: { day: 2, minute: 2 } },
+      },
+    });
+    expect(snapshot.apis.indexing).toMatchObject({ callsToday: 2, remaining: { day: 0 } });
+    expect(meter.snapshot(Date.parse('2026-10-20T00:00:01Z')).apis.indexing?.remaining).toEqual({ day: 1 });
+  });
+
+  it('meters every retry attempt made by the service', async () => {
+    const calls: ApiCall[] = [];
+    const service = new SearchConsoleService('/tmp/fake-creds.json', undefined, {
+      reserveApiQuota: (call) => {
+        calls.push(call);
+        if (calls.length > 2) {
+          throw new GSCError('budget', 'QUOTA_BUDGET_EXCEEDED', 429);
+        }
+      },
+    });
+    const inspectMock = vi
+      .fn()
+      .mockRejectedValueOnce(Object.assign(new Error('backend error'), { code: 503 }))
+      .mockResolvedValue({ data: {} });
+    (service as unknown as { getSearchConsole: () => Promise<unknown> }).getSearchConsole = async () => ({
+      urlInspection: { index: { inspect: inspectMock } },
+    });
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+
+    await service.indexInspect({ siteUrl: SITE_A, inspectionUrl: 'https://a.example/' });
+    await expect(service.indexInspect({ siteUrl: SITE_A, inspectionUrl: 'https://a.example/' })).rejects.toMatchObject({
+      code: 'QUOTA_BUDGET_EXCEEDED',
+    });
+
+    expect(calls).toEqual([inspect(SITE_A), inspect(SITE_A), inspect(SITE_A)]);
+    expect(inspectMock).toHaveBeenCalledTimes(2);
+    vi.restoreAllMocks();
+  });
+
+  it('reports remaining budget in health_snapshot and persists daily counters', () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'Date'] });
+    vi.setSystemTime(T0);
+    const statePath = join(mkdtempSync(join(tmpdir(), 'gsc-api-quota-')), 'runtime-state.json');
+    const limits: ApiQuotaLimit[] = [{ family: 'urlInspection', window: 'day', scope: 'property', limit: 2000 }];
+
+    const first = new RuntimeCoordinator({ persistencePath: statePath, cacheStore: null, apiQuotaLimits: limits });
+    first.reserveApiQuota(inspect(SITE_A));
+    first.reserveApiQuota(inspect(SITE_A));
+    vi.advanceTimersByTime(1_000);
+
+    const second = new RuntimeCoordinator({ persistencePath: statePath, cacheStore: null, apiQuotaLimits: limits });
+    const apiQuota = second.getHealthSnapshot().apiQuota as Record<string, any>;
+
+    expect(apiQuota.day).toBe('2026-10-19');
+    expect(apiQuota.apis.urlInspection.sites[SITE_A]).toEqual({ callsToday: 2, remaining: { day: 1998 } });
+  });
+});
@@ -0,0 +1,201 @@
+import { mkdtempSync } from 'node:fs';
+import { createServer, type AddressInfo, type Server } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, describe, expect, it } from 'vitest';
+
+import {
+  FileCacheStore,
+  MemoryCacheStore,
+  RedisCacheStore,
+  resolveCacheConfig,
+  type CacheEntry,
+} from '../src/utils/cache-store.js';
+import { RuntimeCoordinator } from '../src/utils/runtime.js';
+import { jsonResult } from '../src/utils/types.js';
+
+const servers: Server[] = [];
+
+afterEach(async () => {
+  while (servers.length > 0) {
+    const server = servers.pop()!;
+    await new Promise<void>((resolvePromise) => server.close(() => resolvePromise()));
+  }
+});
+
+function entry(payload: unknown, ttlMs = 60_000): CacheEntry {
+  return { storedAt: Date.now(), ttlMs, value: jsonResult(payload) };
+}
+
+function tempDir(): string {
+  return mkdtempSync(join(tmpdir(), 'gsc-cache-'));
+}
+
+/** A tiny RESP server backed by a Map, supporting AUTH, GET, SET (PX ignored), and DEL. */
+async function startRespServer(password?: string): Promise<{ url: string; commands: string[][] }> {
+  const data = new Map<string, string>();
+  const commands: string[][] = [];
+  const server = createServer((socket) => {
+    let buffered = '';
+    socket.on('data', (chunk: Buffer) => {
+      buffered += chunk.toString('utf8');
+      for (;;) {
+        const lines = buffered.split('\r\n');
+        const count = Number(lines[0]?.slice(1));
+        if (!lines[0]?.startsWith('*') || lines.length < 1 + count * 2) {
+          return;
+        }
+        const args = Array.from({ length: count }, (_, index) => lines[2 + index * 2]!);
+        buffered = lines.slice(1 + count * 2).join('\r\n');
+        commands.push(args);
+        const [name, key, value] = args;
+        if (name === 'AUTH') {
+          socket.write(args.at(-1) === password ? '+OK\r\n' : '-WRONGPASS invalid password\r\n');
+        } else if (name === 'GET') {
+          const stored = data.get(key!);
+          socket.write(stored === undefined ? '$-1\r\n' : `$${Buffer.byteLength(stored)}\r\n${stored}\r\n`);
+        } else if (name === 'SET') {
+          data.set(key!, value!);
+          socket.write('+OK\r\n');
+        } else if (name === 'DEL') {
+          socket.write(`:${data.delete(key!) ? 1 : 0}\r\n`);
+        } else {
+          socket.write(`-ERR unknown command '${name}'\r\n`);
+        }
+      }
+    });
+  });
+  servers.push(server);
+  await new Promise<void>((resolvePromise) => server.listen(0, '127.0.0.1', resolvePromise));
+  const auth = password ? `:${password}@` : '';
+  return { url: `redis://${auth}127.0.0.1:${(server.address() as AddressInfo).port}/0`, commands };
+}
+
+describe('MemoryCacheStore', () => {
+  it('evicts least recently used entries past maxBytes and reports hit ratio', async () => {
+    const entrySize = 1 + Buffer.byteLength(JSON.stringify(entry({ text: 'x'.repeat(20) }).value));
+    const store = new MemoryCacheStore(Math.floor(entrySize * 2.5));
+    await store.set('a', entry({ text: 'x'.repeat(20) }));
+    await store.set('b', entry({ text: 'y'.repeat(20) }));
+    await store.get('a');
+    await store.set('c', entry({ text: 'z'.repeat(20) }));
+
+    expect(await store.get('b')).toBeNull();
+    expect(await store.get('a')).not.toBeNull();
+    expect(await store.get('c')).not.toBeNull();
+    expect(store.stats()).toMatchObject({
+      backend: 'memory',
+      entries: 2,
+      bytes: entrySize * 2,
+      hits: 3,
+      misses: 1,
+      hitRatio: 0.75,
+      evictions: 1,
+    });
+  });
+
+  it('treats expired entries as misses', async () => {
+    const store = new MemoryCacheStore(1024);
+    await store.set('old', { ...entry({}), storedAt: Date.now() - 10_000, ttlMs: 1000 });
+
+    expect(await store.get('old')).toBeNull();
+    expect(store.size).toBe(0);
+  });
+});
+
+describe('FileCacheStore', () => {
+  it('serves entries written by a previous instance and evicts oldest files past maxBytes', async () => {
+    const dir = tempDir();
+    const first = new FileCacheStore(dir, 10_000);
+    await first.set('indexing_health_report:{}', entry({ verdicts: ['PASS'] }));
+
+    const restarted = new FileCacheStore(dir, 10_000);
+    expect((await restarted.get('indexing_health_report:{}'))?.value.structuredContent).toEqual({ verdicts: ['PASS'] });
+    expect(await restarted.get('missing')).toBeNull();
+
+    const older = { ...entry({ text: 'a'.repeat(60) }), storedAt: Date.now() - 1000 };
+    const small = new FileCacheStore(tempDir(), Math.floor(JSON.stringify({ key: 'one', ...older }).length * 1.5));
+    await small.set('one', older);
+    await small.set('two', entry({ text: 'b'.repeat(60) }));
+
+    expect(await small.get('one')).toBeNull();
+    expect(await small.get('two')).not.toBeNull();
+    expect(small.stats()).toMatchObject({ backend: 'file', entries: 1, evictions: 1 });
+  });
+});
+
+describe('RedisCacheStore', () => {
+  it('shares entries across instances through a Redis-protocol server', async () => {
+    const { url, commands } = await startRespServer('s3cret');
+    const writer = new RedisCacheStore(url);
+    const reader = new RedisCacheStore(url);
+
+    await writer.set('search_analytics:{"days":7}', entry({ rows: [1] }, 5000));
+    const hit = await reader.get('search_analytics:{"days":7}');
+    await reader.delete('search_analytics:{"days":7}');
+    const afterDelete = await reader.get('search_analytics:{"days":7}');
+    await writer.close();
+    await reader.close();
+
+    expect(hit?.value.structuredContent).toEqual({ rows: [1] });
+    expect(afterDelete).toBeNull();
+    expect(commands.find(([name]) => name === 'SET')).toEqual([
+      'SET',
+      expect.stringMatching(/^gsc:cache:[0-9a-f]{64}$/),
+      expect.any(String),
+      'PX',
+      '5000',
+    ]);
+    expect(reader.stats()).toMatchObject({ backend: 'redis', hits: 1, misses: 1, errors: 0, bytes: null });
+  });
+
+  it('degrades to misses when the server is unreachable or rejects auth', async () => {
+    const { url } = await startRespServer('right');
+    const wrongPassword = new RedisCacheStore(url.replace('right', 'wrong'));
+    const unreachable = new RedisCacheStore('redis://127.0.0.1:1/0', 200);
+
+    expect(await wrongPassword.get('k')).toBeNull();
+    await unreachable.set('k', entry({}));
+    await wrongPassword.close();
+    await unreachable.close();
+
+    expect(wrongPassword.stats()).toMatchObject({ misses: 1, errors: 1, lastError: 'WRONGPASS invalid password' });
+    expect(unreachable.stats().errors).toBe(1);
+  });
+});
+
+describe('RuntimeCoordinator cache tiers', () => {
+  it('promotes shared-store hits into memory and reports per-store stats', async () => {
+    const dir = tempDir();
+    const first = new RuntimeCoordinator({ persistencePath: null, cacheStore: new FileCacheStore(dir, 1_000_000) });
+    const cacheKey = first.buildCacheKey('indexing_health_report', { siteUrl: 'sc-domain:example.com' });
+    await first.setCached(cacheKey, 'indexing_health_report', jsonResult({ checked: 50 }));
+
+    const second = new RuntimeCoordinator({ persistencePath: null, cacheStore: new FileCacheStore(dir, 1_000_000) });
+    const cached = await second.getCached(cacheKey);
+    await second.getCached(cacheKey);
+    const cache = second.getHealthSnapshot().cache as { entries: number; stores: Array<Record<string, unknown>> };
+
+    expect(cached?.result.structuredContent).toEqual({ checked: 50 });
+    expect(cache.entries).toBe(1);
+    expect(cache.stores).toEqual([
+      expect.objectContaining({ backend: 'memory', hits: 1, misses: 1 }),
+      expect.objectContaining({ backend: 'file', hits: 1, misses: 0, entries: 1 }),
+    ]);
+  });
+
+  it('validates GSC_CACHE_BACKEND settings', () => {
+    const GSC_CURSOR_SECRET = 'shared-cursor-key';
+    expect(resolveCacheConfig({ GSC_CACHE_BACKEND: 'file', GSC_CACHE_DIR: '/tmp/c', GSC_CURSOR_SECRET })).toMatchObject({
+      backend: 'file',
+      fileDir: '/tmp/c',
+    });
+    expect(() => resolveCacheConfig({ GSC_CACHE_BACKEND: 'memcached' })).toThrow(/Unsupported GSC_CACHE_BACKEND/);
+    expect(() => resolveCacheConfig({ GSC_CACHE_BACKEND: 'redis', GSC_CURSOR_SECRET })).toThrow(/GSC_CACHE_REDIS_URL/);
+    expect(() => resolveCacheConfig({ GSC_CACHE_BACKEND: 'file', GSC_CACHE_DIR: '/tmp/c' })).toThrow(
+      /GSC_CACHE_BACKEND=file requires GSC_CURSOR_SECRET/,
+    );
+    expect(resolveCacheConfig({})).toMatchObject({ backend: 'memory' });
+  });
+});
@@ -0,0 +1,129 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { GSCCancelledError, SearchConsoleService, type ApiCallEvent } from '../src/service.js';
+import { createDeadlineSignal, withCancellationScope } from '../src/utils/cancellation.js';
+import { paginateSearchAnalytics } from '../src/utils/pagination.js';
+import { rateLimited, withRetry } from '../src/utils/retry.js';
+import { RuntimeCoordinator } from '../src/utils/runtime.js';
+
+const cancelled = () => new GSCCancelledError('cancelled by the client', 'CANCELLED');
+const timedOut = () => new GSCCancelledError('deadline passed', 'TIMEOUT');
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+describe('request cancellation and deadlines', () => {
+  it('aborts on client cancellation or when the per-tool deadline passes', () => {
+    vi.useFakeTimers();
+    vi.stubEnv('GSC_TOOL_TIMEOUT_BATCH_INSPECT_SEC', '2');
+    const runtime = new RuntimeCoordinator({ persistencePath: null, cacheStore: null });
+    expect(runtime.getToolTimeoutMs('search_analytics')).toBe(300_000);
+    expect(runtime.getToolTimeoutMs('export_search_analytics')).toBe(1_800_000);
+
+    const client = new AbortController();
+    const byClient = createDeadlineSignal({
+      parent: client.signal,
+      timeoutMs: 60_000,
+      cancelledReason: cancelled,
+      timeoutReason: timedOut,
+    });
+    client.abort();
+    expect(byClient.signal.reason).toMatchObject({ code: 'CANCELLED', statusCode: 499 });
+
+    const byDeadline = createDeadlineSignal({
+      timeoutMs: runtime.getToolTimeoutMs('batch_inspect'),
+      cancelledReason: cancelled,
+      timeoutReason: timedOut,
+    });
+    vi.advanceTimersByTime(1_999);
+    expect(byDeadline.signal.aborted).toBe(false);
+    vi.advanceTimersByTime(1);
+    expect(byDeadline.signal.reason).toMatchObject({ code: 'TIMEOUT', statusCode: 504 });
+  });
+
+  it('releases queued concurrency slots when a waiting call is cancelled', async () => {
+    vi.stubEnv('GSC_TOOL_CONCURRENCY_INDEXING_HEALTH_REPORT', '1');
+    const runtime = new RuntimeCoordinator({ persistencePath: null, cacheStore: null });
+    let finishFirst!: () => void;
+    const first = runtime.withConcurrencyLimit(
+      'indexing_health_report',
+      () => new Promise<string>((resolve) => (finishFirst = () => resolve('first'))),
+    );
+
+    const controller = new AbortController();
+    const queued = runtime.withConcurrencyLimit('indexing_health_report', async () => 'queued', controller.signal);
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(runtime.getMetricsSnapshot().concurrency.perTool.indexing_health_report?.queued).toBe(1);
+    controller.abort(cancelled());
+
+    await expect(queued).rejects.toMatchObject({ code: 'CANCELLED' });
+    finishFirst();
+    await expect(first).resolves.toBe('first');
+    expect(runtime.getMetricsSnapshot().concurrency).toMatchObject({
+      global: { active: 0, queued: 0 },
+      perTool: { indexing_health_report: { active: 0, queued: 0 } },
+    });
+  });
+
+  it('stops retry backoff, rate-limited sequences, and pagination once the tool call is aborted', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'Date'] });
+    const controller = new AbortController();
+    const fn = vi.fn().mockRejectedValue(Object.assign(new Error('backend error'), { code: 503 }));
+    const retrying = withRetry(fn, { signal: controller.signal });
+    const settled = expect(retrying).rejects.toMatchObject({ code: 'CANCELLED' });
+    await vi.advanceTimersByTimeAsync(10);
+    controller.abort(cancelled());
+    await settled;
+    expect(fn).toHaveBeenCalledTimes(1);
+    const step = vi.fn(async () => 'ok');
+    await expect(rateLimited([step, step], 1_000, controller.signal)).rejects.toMatchObject({ code: 'CANCELLED' });
+    expect(step).not.toHaveBeenCalled();
+
+    const events: ApiCallEvent[] = [];
+    const service = new SearchConsoleService('/tmp/fake-creds.json', undefined, {
+      onApiCall: (event) => events.push(event),
+    });
+    const pageController = new AbortController();
+    const query = vi.fn(async () => {
+      pageController.abort(timedOut());
+      return { data: { rows: [{ keys: ['a'], clicks: 1, impressions: 1, ctr: 1, position: 1 }] } };
+    });
+    (service as unknown as { getWebmasters: () => Promise<unknown> }).getWebmasters = async () => ({
+      searchanalytics: { query },
+    });
+
+    const scope = { signal: pageController.signal, quotaUnitsSpent: 0 };
+    await expect(
+      withCancellationScope(scope, () =>
+        paginateSearchAnalytics(service, 'sc-domain:example.com', {}, { pageSize: 1, maxRows: 10 }),
+      ),
+    ).rejects.toBeInstanceOf(GSCCancelledError);
+    expect(query).toHaveBeenCalledTimes(1);
+    expect(events.map((event) => event.status)).toEqual(['success']);
+  });
+
+  it('refunds reserved quota units a cancelled call never spent', () => {
+    const runtime = new RuntimeCoordinator({ persistencePath: null, cacheStore: null });
+    runtime.reserveQuota('indexing_health_report', 50);
+    runtime.refundQuota('indexing_health_report', 50 - 12);
+
+    const quota = runtime.getHealthSnapshot().quota as Record<string, any>;
+    expect(quota.perToolUsed.indexing_health_report).toBe(12);
+    expect(quota.global.used).toBe(12);
+
+    runtime.refundQuota('indexing_health_report', 100);
+    expect((runtime.getHealthSnapshot().quota as Record<string, any>).global.used).toBe(0);
+  });
+
+  it('counts spent quota units only for the requests tool quota estimates reserve for', () => {
+    const runtime = new RuntimeCoordinator({ persistencePath: null, cacheStore: null });
+    const siteUrl = 'sc-domain:example.com';
+
+    expect(runtime.quotaUnitsFor({ family: 'urlInspection', method: 'inspect', siteUrl })).toBe(1);
+    expect(runtime.quotaUnitsFor({ family: 'indexing', method: 'publish' })).toBe(1);
+    expect(runtime.quotaUnitsFor({ family: 'indexing', method: 'getMetadata' })).toBe(0);
+    expect(runtime.quotaUnitsFor({ family: 'searchanalytics', method: 'query', siteUrl })).toBe(0);
+  });
+});
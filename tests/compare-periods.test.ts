@@ -0,0 +1,130 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { ComparePeriodsSchema } from '../src/schemas/computed.js';
+import { handleComparePeriods } from '../src/tools/computed.js';
+import { monthOverMonthPeriods, yearOverYearPeriods } from '../src/utils/dates.js';
+import type { SearchAnalyticsRow } from '../src/utils/types.js';
+import { parseResult, searchAnalyticsService } from './helpers.js';
+
+interface ComparisonRow {
+  keys: string[];
+  periodA: Record<string, number>;
+  periodB: Record<string, number>;
+  delta: Record<string, number>;
+  significance: { clicksZ: number };
+}
+
+interface ComparePayload {
+  comparisons: ComparisonRow[];
+}
+
+/** Answers the period A request with `rowsA` and the period B request with `rowsB`. */
+function serviceReturning(rowsA: SearchAnalyticsRow[], rowsB: SearchAnalyticsRow[]) {
+  const pages = [rowsA, rowsB];
+  return searchAnalyticsService(async (_siteUrl: string, _body: Record<string, unknown>) => ({
+    data: { rows: pages.shift() ?? [] },
+  }));
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('compare_periods modes', () => {
+  it('aligns year-over-year windows by weekday or calendar date and months by calendar month', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-19T12:00:00.000Z'));
+
+    expect(yearOverYearPeriods(7)).toEqual({
+      periodA: { startDate: '2026-10-12', endDate: '2026-10-18' },
+      periodB: { startDate: '2025-10-13', endDate: '2025-10-19' },
+    });
+    expect(new Date('2026-10-12').getUTCDay()).toBe(new Date('2025-10-13').getUTCDay());
+    expect(yearOverYearPeriods(7, 'calendar').periodB).toEqual({ startDate: '2025-10-12', endDate: '2025-10-18' });
+
+    expect(monthOverMonthPeriods()).toEqual({
+      periodA: { startDate: '2026-09-01', endDate: '2026-09-30' },
+      periodB: { startDate: '2026-08-01', endDate: '2026-08-31' },
+    });
+    expect(monthOverMonthPeriods('2024-03')).toEqual({
+      periodA: { startDate: '2024-03-01', endDate: '2024-03-31' },
+      periodB: { startDate: '2024-02-01', endDate: '2024-02-29' },
+    });
+    expect(monthOverMonthPeriods('2026-01').periodB).toEqual({ startDate: '2025-12-01', endDate: '2025-12-31' });
+  });
+
+  it('validates the arguments each mode needs', () => {
+    const base = { siteUrl: 'sc-domain:example.com' };
+    const issues = (input: Record<string, unknown>) =>
+      ComparePeriodsSchema.safeParse({ ...base, ...input }).error?.issues.map((issue) => issue.message) ?? [];
+
+    expect(ComparePeriodsSchema.parse(base)).toMatchObject({ mode: 'previous', days: 28, confidence: 0.95 });
+    expect(issues({ mode: 'custom', periodA: { startDate: '2026-01-01', endDate: '2026-01-31' } })).toEqual([
+      'periodB is required when mode is "custom"',
+    ]);
+    expect(
+      issues({
+        mode: 'custom',
+        periodA: { startDate: '2026-01-31', endDate: '2026-01-01' },
+        periodB: { startDate: '2024-01-01', endDate: '2025-06-30' },
+      }),
+    ).toEqual(['endDate must not be before startDate', 'Custom periods may span at most 366 days']);
+    expect(issues({ month: '2026-09' })).toEqual(['month is only used when mode is "mom"']);
+    expect(issues({ mode: 'mom', month: '2026-13' })).toEqual(['Month must be in YYYY-MM format']);
+  });
+
+  it('compares custom ranges of different lengths per day', async () => {
+    const { service, searchAnalytics } = serviceReturning(
+      [{ keys: ['shoes'], clicks: 140, impressions: 1400, ctr: 0.1, position: 3 }],
+      [{ keys: ['shoes'], clicks: 280, impressions: 2800, ctr: 0.1, position: 3 }],
+    );
+
+    const payload = parseResult<ComparePayload>(
+      await handleComparePeriods(service, {
+        siteUrl: 'sc-domain:example.com',
+        mode: 'custom',
+        periodA: { startDate: '2026-09-01', endDate: '2026-09-07' },
+        periodB: { startDate: '2026-08-01', endDate: '2026-08-28' },
+      }),
+    );
+
+    expect(searchAnalytics.mock.calls[0][1]).toMatchObject({ startDate: '2026-09-01', endDate: '2026-09-07' });
+    expect(searchAnalytics.mock.calls[1][1]).toMatchObject({ startDate: '2026-08-01', endDate: '2026-08-28' });
+    expect(payload).toMatchObject({
+      mode: 'custom',
+      periodA: { days: 7 },
+      periodB: { days: 28 },
+      normalized: true,
+    });
+    const [row] = payload.comparisons;
+    expect(row.periodA).toMatchObject({ clicksPerDay: 20, impressionsPerDay: 200 });
+    expect(row.periodB).toMatchObject({ clicksPerDay: 10, impressionsPerDay: 100 });
+    expect(row.delta).toMatchObject({ clicks: -140, clicksPerDay: 10, clicksPct: 100, impressionsPct: 100 });
+  });
+
+  it('flags only deltas that clear the confidence threshold as significant', async () => {
+    const { service } = serviceReturning(
+      [
+        { keys: ['niche'], clicks: 3, impressions: 30, ctr: 0.1, position: 5 },
+        { keys: ['head'], clicks: 600, impressions: 10000, ctr: 0.06, position: 2 },
+      ],
+      [
+        { keys: ['niche'], clicks: 1, impressions: 25, ctr: 0.04, position: 5 },
+        { keys: ['head'], clicks: 400, impressions: 10000, ctr: 0.04, position: 2 },
+      ],
+    );
+
+    const payload = parseResult<ComparePayload>(
+      await handleComparePeriods(service, { siteUrl: 'sc-domain:example.com', days: 7 }),
+    );
+    const byKey = Object.fromEntries(payload.comparisons.map((row) => [row.keys[0], row]));
+
+    expect(payload).toMatchObject({ mode: 'previous', normalized: false, confidence: 0.95, significantRows: 1 });
+    // 3 vs 1 clicks is +200% but well within Poisson noise.
+    expect(byKey.niche.delta.clicksPct).toBe(200);
+    expect(byKey.niche.significance).toMatchObject({ clicksSignificant: false, ctrSignificant: false, trend: 'noise' });
+    expect(byKey.head.significance).toMatchObject({ clicksSignificant: true, ctrSignificant: true, trend: 'up' });
+    expect(byKey.head.significance.clicksZ).toBeCloseTo(200 / Math.sqrt(1000), 2);
+    expect(byKey.head.periodA.clicksPerDay).toBeUndefined();
+  });
+});
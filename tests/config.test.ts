@@ -0,0 +1,160 @@
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { SitePolicy } from '../src/site-policy.js';
+import { ToolAccess } from '../src/tool-access.js';
+import { TOOL_NAME_SET } from '../src/tool-registry.js';
+import { handleConfigShow } from '../src/tools/operations.js';
+import { applyConfigEnv, applySiteDefaults, loadServerConfig, parseServerConfig } from '../src/utils/config.js';
+import { resolveRetryPolicies } from '../src/utils/retry.js';
+import { RuntimeCoordinator } from '../src/utils/runtime.js';
+
+function writeConfig(name: string, contents: string): string {
+  const file = path.join(mkdtempSync(path.join(tmpdir(), 'gsc-config-')), name);
+  writeFileSync(file, contents);
+  return file;
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('server config file', () => {
+  it('loads YAML with env interpolation and feeds per-tool settings to the runtime', () => {
+    const file = writeConfig(
+      'gsc.yaml',
+      [
+        'server:',
+        '  globalConcurrency: ${GSC_TEST_CONCURRENCY:-4}',
+        'toolDefaults:',
+        '  cacheTtlSec: 300',
+        'tools:',
+        '  batch_inspect:',
+        '    concurrency: 1',
+        '    quotaBudgetDaily: ${GSC_TEST_BUDGET}',
+        '    timeoutSec: 600',
+        '  search_analytics:',
+        '    cacheTtlSec: 30',
+        '    retry: { maxRetries: 5 }',
+      ].join('\n'),
+    );
+    const env = { GSC_CONFIG: file, GSC_TEST_BUDGET: '250' };
+    const loaded = loadServerConfig({ env, toolNames: TOOL_NAME_SET });
+    expect(loaded).toMatchObject({ path: file, format: 'yaml' });
+
+    vi.stubEnv('GSC_TOOL_CONCURRENCY_SEARCH_ANALYTICS', '7');
+    const runtime = new RuntimeCoordinator({ persistencePath: null, cacheStore: null, config: loaded.config });
+    expect(runtime.getServerSettings()).toMatchObject({ globalConcurrency: 4, defaultCacheTtlSec: 300 });
+    expect(runtime.getToolSettings('batch_inspect')).toEqual({
+      concurrency: 1,
+      cacheTtlSec: 300,
+      timeoutSec: 600,
+      quotaBudgetDaily: 250,
+    });
+    // The legacy env var still wins over the file.
+    expect(runtime.getToolSettings('search_analytics')).toMatchObject({ concurrency: 7, cacheTtlSec: 30 });
+    expect(runtime.reserveQuota('batch_inspect', 10).toolBudget).toBe(250);
+  });
+
+  it('fails with the precise path of every invalid value', () => {
+    expect(() =>
+      parseServerConfig(
+        {
+          tools: { batch_inspect: { concurrency: 'two' }, batch_inspec: {} },
+          sites: { 'sc-domain:example.com': { brandTerms: ['a'] } },
+        },
+        { toolNames: TOOL_NAME_SET },
+      ),
+    ).toThrow(
+      'tools.batch_inspect.concurrency: Expected number, received string; ' +
+        'sites["sc-domain:example.com"].brandTerms[0]: String must contain at least 2 character(s)',
+    );
+    expect(() => parseServerConfig({ tools: { batch_inspec: {} } }, { toolNames: TOOL_NAME_SET })).toThrow(
+      'tools.batch_inspec: Unknown tool',
+    );
+    expect(() => parseServerConfig({ server: { telemetry: true } })).toThrow("server: Unrecognized key(s) in object: 'telemetry'");
+    expect(() => parseServerConfig({ defaultSiteUrl: '${GSC_TEST_MISSING}' }, { env: {} })).toThrow(
+      'defaultSiteUrl: environment variable GSC_TEST_MISSING is not set',
+    );
+
+    const file = writeConfig('gsc.json', '{"server": {"debugMode": "yes"}}');
+    expect(() => loadServerConfig({ env: { GSC_CONFIG: file } })).toThrow(
+      `Invalid config file ${file}: server.debugMode: Expected boolean, received string`,
+    );
+  });
+
+  it('fills the default siteUrl and per-site defaults only where a tool accepts them', () => {
+    const config = parseServerConfig({
+      defaultSiteUrl: 'sc-domain:example.com',
+      sites: {
+        'sc-domain:example.com': {
+          brandTerms: ['acme'],
+          templateRules: [{ name: 'docs', pattern: '/docs/' }],
+        },
+      },
+    });
+
+    expect(applySiteDefaults(config, new Set(['siteUrl', 'brandTerms']), { days: 28 })).toEqual({
+      days: 28,
+      siteUrl: 'sc-domain:example.com',
+      brandTerms: ['acme'],
+    });
+    expect(
+      applySiteDefaults(config, new Set(['siteUrl', 'templateRules']), {
+        siteUrl: 'sc-domain:example.com',
+        templateRules: [],
+      }),
+    ).toEqual({ siteUrl: 'sc-domain:example.com', templateRules: [] });
+    expect(applySiteDefaults(config, new Set(['siteUrl', 'brandTerms']), { siteUrl: 'sc-domain:other.com' })).toEqual({
+      siteUrl: 'sc-domain:other.com',
+    });
+    const untouched = { includeToolMetrics: true };
+    expect(applySiteDefaults(config, new Set(['includeToolMetrics']), untouched)).toBe(untouched);
+  });
+
+  it('config_show reports effective settings with secrets redacted', async () => {
+    const config = parseServerConfig({
+      tools: { batch_inspect: { retry: { maxRetries: 1 } } },
+      env: { GSC_HTTP_AUTH_TOKEN: 'super-secret', GSC_TEST_CACHE_DIR: '/var/cache/gsc' },
+    });
+    const env: NodeJS.ProcessEnv = { GSC_TEST_CACHE_DIR: '/already/set' };
+    applyConfigEnv(config, env);
+    expect(env).toEqual({ GSC_TEST_CACHE_DIR: '/already/set', GSC_HTTP_AUTH_TOKEN: 'super-secret' });
+
+    const runtime = new RuntimeCoordinator({ persistencePath: null, cacheStore: null, config });
+    const result = await handleConfigShow(
+      runtime,
+      { path: '/etc/gsc.yaml', format: 'yaml', config },
+      { tool: 'batch_inspect' },
+      {
+        toolNames: ['batch_inspect', 'search_analytics'],
+        retryPolicyFor: resolveRetryPolicies({}, { tools: { batch_inspect: { maxRetries: 1 } } }),
+        telemetryEnabled: true,
+        debugMode: false,
+        rateLimitEnabled: true,
+        toolAccess: new ToolAccess().snapshot(),
+        sitePolicy: new SitePolicy().snapshot(),
+      },
+    );
+    const payload = result.structuredContent as Record<string, any>;
+
+    expect(payload.source).toEqual({ path: '/etc/gsc.yaml', format: 'yaml' });
+    expect(Object.keys(payload.tools)).toEqual(['batch_inspect']);
+    expect(payload.tools.batch_inspect).toMatchObject({ concurrency: 3, quotaBudgetDaily: 1200, retry: { maxRetries: 1 } });
+    expect(payload.env).toEqual({ GSC_HTTP_AUTH_TOKEN: '[REDACTED]', GSC_TEST_CACHE_DIR: '/var/cache/gsc' });
+    await expect(
+      handleConfigShow(runtime, { path: null, format: null, config: {} }, { tool: 'nope' }, {
+        toolNames: ['batch_inspect'],
+        retryPolicyFor: () => ({}),
+        telemetryEnabled: true,
+        debugMode: false,
+        rateLimitEnabled: true,
+        toolAccess: new ToolAccess().snapshot(),
+        sitePolicy: new SitePolicy().snapshot(),
+      }),
+    ).rejects.toThrow('Unknown tool: nope');
+  });
+});
@@ -0,0 +1,152 @@
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, expect, it } from 'vitest';
+
+import { GSCError, type SearchConsoleService } from '../src/service.js';
+import { handleListSites } from '../src/tools/analytics.js';
+import { handleGscHealthcheck } from '../src/tools/operations.js';
+import {
+  CredentialRouter,
+  createCredentialRouter,
+  loadCredentialsMap,
+  matchSitePattern,
+  type AccountService,
+} from '../src/utils/credentials.js';
+
+function writeMap(map: unknown): string {
+  const dir = mkdtempSync(join(tmpdir(), 'gsc-credentials-'));
+  const path = join(dir, 'credentials.json');
+  writeFileSync(path, JSON.stringify(map));
+  return path;
+}
+
+function stubAccount(accountId: string, sites: string[] | Error): AccountService {
+  const service = {
+    listSites: async () => {
+      if (sites instanceof Error) throw sites;
+      return { data: { siteEntry: sites.map((siteUrl) => ({ siteUrl, permissionLevel: 'siteOwner' })) } };
+    },
+  } as unknown as SearchConsoleService;
+  return { accountId, service };
+}
+
+describe('matchSitePattern', () => {
+  it('matches sc-domain patterns against the domain and its subdomains', () => {
+    expect(matchSitePattern('sc-domain:example.com', 'sc-domain:example.com')).toBeGreaterThan(0);
+    expect(matchSitePattern('sc-domain:example.com', 'https://blog.example.com/')).toBeGreaterThan(0);
+    expect(matchSitePattern('sc-domain:example.com', 'https://notexample.com/')).toBe(-1);
+  });
+
+  it('matches URL prefixes case-insensitively and treats * as the weakest match', () => {
+    expect(matchSitePattern('https://www.example.com/', 'https://WWW.example.com/blog/')).toBeGreaterThan(0);
+    expect(matchSitePattern('https://www.example.com/', 'https://shop.example.com/')).toBe(-1);
+    expect(matchSitePattern('https://www.example.com', 'https://www.example.com.evil.net/')).toBe(-1);
+    expect(matchSitePattern('https://www.example.com/blog', 'http://www.example.com/blog/')).toBe(-1);
+    expect(matchSitePattern('*', 'anything')).toBe(0);
+  });
+});
+
+describe('CredentialRouter', () => {
+  const router = new CredentialRouter(
+    [
+      { id: 'agency', keyFile: '/keys/agency.json', sites: ['*'] },
+      { id: 'client-a', keyFile: '/keys/a.json', sites: ['sc-domain:client-a.com'] },
+      { id: 'client-a-blog', keyFile: '/keys/a-blog.json', sites: ['https://blog.client-a.com/'] },
+    ],
+    'agency',
+  );
+
+  it('routes to the most specific matching account', () => {
+    expect(router.resolve('sc-domain:client-a.com').id).toBe('client-a');
+    expect(router.resolve('https://www.client-a.com/').id).toBe('client-a');
+    expect(router.resolve('https://blog.client-a.com/post').id).toBe('client-a-blog');
+    expect(router.resolve('https://other.com/').id).toBe('agency');
+    expect(router.resolve().id).toBe('agency');
+  });
+
+  it('throws a CONFIG_ERROR when nothing matches and there is no default', () => {
+    const strict = new CredentialRouter([{ id: 'a', keyFile: '/keys/a.json', sites: ['sc-domain:a.com'] }]);
+    expect(() => strict.resolve('sc-domain:b.com')).toThrow(GSCError);
+    expect(() => strict.resolve('sc-domain:b.com')).toThrow(/No configured credentials match/);
+  });
+});
+
+describe('createCredentialRouter', () => {
+  it('returns null when no credentials are configured', () => {
+    expect(createCredentialRouter({})).toBeNull();
+  });
+
+  it('wraps GOOGLE_APPLICATION_CREDENTIALS as a single catch-all account', () => {
+    const router = createCredentialRouter({ GOOGLE_APPLICATION_CREDENTIALS: '/keys/sa.json' });
+    expect(router?.accounts()).toEqual([{ id: 'default', keyFile: '/keys/sa.json', sites: ['*'] }]);
+  });
+
+  it('loads the map, resolves key files relative to it, and falls back to the env key file', () => {
+    const path = writeMap({ accounts: [{ id: 'client-a', keyFile: 'a.json', sites: ['sc-domain:a.com'] }] });
+    const router = createCredentialRouter({
+      GSC_CREDENTIALS_MAP: path,
+      GOOGLE_APPLICATION_CREDENTIALS: '/keys/sa.json',
+    });
+
+    expect(router?.accounts()[0]?.keyFile).toBe(join(path, '..', 'a.json'));
+    expect(router?.resolve('sc-domain:a.com').id).toBe('client-a');
+    expect(router?.resolve('sc-domain:b.com').id).toBe('default');
+  });
+
+  it('rejects invalid maps with the failing field path', () => {
+    const duplicate = writeMap({
+      accounts: [
+        { id: 'a', keyFile: '/a.json', sites: ['*'] },
+        { id: 'a', keyFile: '/b.json', sites: ['*'] },
+      ],
+    });
+    const badDefault = writeMap({ defaultAccount: 'missing', accounts: [{ id: 'a', keyFile: '/a.json', sites: ['*'] }] });
+
+    expect(() => loadCredentialsMap(duplicate)).toThrow(/accounts\.1\.id: Duplicate account id "a"/);
+    expect(() => loadCredentialsMap(badDefault)).toThrow(/defaultAccount/);
+
+    const bothAuth = writeMap({
+      accounts: [{ id: 'a', keyFile: '/a.json', oauthTokenFile: '/a-token.json', sites: ['*'] }],
+    });
+    expect(() => loadCredentialsMap(bothAuth)).toThrow(/exactly one of keyFile or oauthTokenFile/);
+  });
+});
+
+describe('multi-account list_sites and healthcheck', () => {
+  it('aggregates sites across accounts and reports the routed account', async () => {
+    const accounts = [
+      stubAccount('agency', ['sc-domain:a.com', 'sc-domain:b.com']),
+      stubAccount('client-a', ['sc-domain:a.com']),
+    ];
+    const result = await handleListSites(accounts, (siteUrl) => (siteUrl === 'sc-domain:a.com' ? 'client-a' : 'agency'));
+    const payload = JSON.parse(result.content[0]?.text ?? '{}') as {
+      siteEntry: Array<{ siteUrl: string; account: string; routedAccount: string | null }>;
+      accounts: Array<{ id: string; siteCount: number }>;
+    };
+
+    expect(payload.siteEntry).toHaveLength(3);
+    expect(payload.siteEntry[0]).toMatchObject({ siteUrl: 'sc-domain:a.com', account: 'agency', routedAccount: 'client-a' });
+    expect(payload.accounts).toEqual([
+      { id: 'agency', siteCount: 2 },
+      { id: 'client-a', siteCount: 1 },
+    ]);
+  });
+
+  it('reports partial auth when one account fails', async () => {
+    const accounts = [stubAccount('agency', ['sc-domain:a.com']), stubAccount('broken', new Error('invalid_grant'))];
+    const result = await handleGscHealthcheck(accounts, () => null, { cruxApiKeyConfigured: false });
+    const payload = JSON.parse(result.content[0]?.text ?? '{}') as Record<string, unknown>;
+
+    expect(payload).toMatchObject({ ok: false, auth: 'partial', siteCount: 1 });
+    expect(payload.accounts).toEqual([
+      { id: 'agency', siteCount: 1 },
+      { id: 'broken', siteCount: 0, error: 'invalid_grant' },
+    ]);
+  });
+
+  it('throws when every account fails', async () => {
+    await expect(handleListSites([stubAccount('broken', new Error('invalid_grant'))])).rejects.toThrow('invalid_grant');
+  });
+});
@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import type { SearchConsoleService } from '../src/service.js';
+import { handleSearchAnalyticsCursor } from '../src/tools/analytics.js';
+import { signCursor, verifyCursor } from '../src/utils/cursor.js';
+import { parseResult } from './helpers.js';
+
+const SITE = 'sc-domain:example.com';
+
+function pagedService(): SearchConsoleService {
+  return {
+    searchAnalytics: vi.fn(async (_siteUrl: string, body: Record<string, unknown>) => ({
+      data: {
+        rows: Array.from({ length: Number(body.rowLimit) }, (_, index) => ({
+          keys: [`query-${Number(body.startRow) + index}`],
+          clicks: 1,
+          impressions: 10,
+        })),
+      },
+    })),
+  } as unknown as SearchConsoleService;
+}
+
+async function firstPage(service: SearchConsoleService, extra: Record<string, unknown> = {}) {
+  const payload = parseResult(
+    await handleSearchAnalyticsCursor(service, {
+      siteUrl: SITE,
+      days: 7,
+      dimensions: ['query'],
+      pageSize: 2,
+      maxRows: 10,
+      ...extra,
+    }),
+  );
+  return payload.pageInfo as Record<string, unknown>;
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('signed cursors', () => {
+  it('round-trips state and rejects edited payloads', () => {
+    const state = { siteUrl: SITE, nextStartRow: 2 };
+    const token = signCursor(state, { siteUrl: SITE });
+    const [version, payload, signature] = token.split('.');
+    const forged = Buffer.from(
+      Buffer.from(payload!, 'base64url').toString('utf8').replace('"nextStartRow":2', '"nextStartRow":9000'),
+    ).toString('base64url');
+
+    expect(verifyCursor<typeof state>(token, (decoded) => ({ siteUrl: decoded.siteUrl })).state).toEqual(state);
+    expect(() => verifyCursor(`${version}.${forged}.${signature}`, () => ({}))).toThrow(
+      expect.objectContaining({ code: 'INVALID_CURSOR' }),
+    );
+  });
+
+  it('maps garbage tokens to INVALID_CURSOR instead of a JSON parse error', async () => {
+    await expect(
+      handleSearchAnalyticsCursor(pagedService(), { siteUrl: SITE, cursor: 'eyJub3QiOiJzaWduZWQifQ' }),
+    ).rejects.toMatchObject({ code: 'INVALID_CURSOR' });
+  });
+
+  it('rejects a cursor replayed against a different site', async () => {
+    const pageInfo = await firstPage(pagedService());
+
+    await expect(
+      handleSearchAnalyticsCursor(pagedService(), { siteUrl: 'sc-domain:other.com', cursor: pageInfo.nextCursor }),
+    ).rejects.toMatchObject({ code: 'INVALID_CURSOR' });
+  });
+
+  it('expires cursors after GSC_CURSOR_TTL_SEC', async () => {
+    vi.stubEnv('GSC_CURSOR_TTL_SEC', '60');
+    vi.useFakeTimers({ now: new Date('2026-01-10T00:00:00Z'), toFake: ['Date'] });
+    const pageInfo = await firstPage(pagedService());
+    vi.setSystemTime(new Date('2026-01-10T00:01:01Z'));
+    vi.unstubAllEnvs();
+
+    await expect(
+      handleSearchAnalyticsCursor(pagedService(), { siteUrl: SITE, cursor: pageInfo.nextCursor }),
+    ).rejects.toMatchObject({ code: 'CURSOR_EXPIRED' });
+  });
+
+  it('pins dataState final across pages and keeps the query fingerprint stable', async () => {
+    const service = pagedService();
+    const first = await firstPage(service, { pinFinalData: true, dataState: 'all' });
+    const second = parseResult(
+      await handleSearchAnalyticsCursor(service, { siteUrl: SITE, cursor: first.nextCursor }),
+    ).pageInfo as Record<string, unknown>;
+
+    const bodies = vi.mocked(service.searchAnalytics).mock.calls.map(([, body]) => body as Record<string, unknown>);
+    expect(bodies.map((body) => body.dataState)).toEqual(['final', 'final']);
+    expect(bodies.map((body) => body.startRow)).toEqual([0, 2]);
+    expect(first).toMatchObject({ dataState: 'final', queryFingerprint: expect.stringMatching(/^[0-9a-f]{16}$/) });
+    expect(second.queryFingerprint).toBe(first.queryFingerprint);
+  });
+});
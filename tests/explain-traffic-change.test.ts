@@ -0,0 +1,204 @@
+import { describe, expect, it } from 'vitest';
+
+import { ExplainTrafficChangeSchema } from '../src/schemas/explain.js';
+import { handleExplainTrafficChange } from '../src/tools/explain.js';
+import type { SearchAnalyticsRow } from '../src/utils/types.js';
+import { parseResult, searchAnalyticsService } from './helpers.js';
+
+const SITE = 'sc-domain:example.com';
+const PERIOD_A = { startDate: '2026-09-01', endDate: '2026-09-28' };
+const PERIOD_B = { startDate: '2026-08-04', endDate: '2026-08-31' };
+
+interface Record_ {
+  period: 'A' | 'B';
+  searchType: string;
+  device: string;
+  country: string;
+  page: string;
+  query: string;
+  clicks: number;
+  impressions: number;
+  position: number;
+}
+
+/** Mobile traffic from Germany to a blog post loses rankings and clicks; everything else is flat. */
+const RECORDS: Record_[] = (['A', 'B'] as const).flatMap((period) => [
+  { period, searchType: 'web', device: 'MOBILE', country: 'usa', page: 'https://example.com/blog/a', query: 'acme shoes', clicks: 100, impressions: 1000, position: 3 },
+  { period, searchType: 'web', device: 'DESKTOP', country: 'usa', page: 'https://example.com/products/x', query: 'buy running shoes', clicks: 200, impressions: 2000, position: 2 },
+  period === 'A'
+    ? { period, searchType: 'web', device: 'MOBILE', country: 'deu', page: 'https://example.com/blog/b', query: 'how to lace shoes', clicks: 20, impressions: 1000, position: 8 }
+    : { period, searchType: 'web', device: 'MOBILE', country: 'deu', page: 'https://example.com/blog/b', query: 'how to lace shoes', clicks: 100, impressions: 2000, position: 5 },
+  { period, searchType: 'image', device: 'DESKTOP', country: 'usa', page: 'https://example.com/products/x', query: 'running shoes', clicks: 10, impressions: 500, position: 4 },
+]);
+
+interface RequestBody {
+  startDate: string;
+  dimensions: Array<keyof Record_>;
+  searchType?: string;
+  rowLimit: number;
+}
+
+interface DimensionBreakdown {
+  total: Record<string, number>;
+  waterfall: Array<{ segment: string; cumulative: number; primaryEffect: string | null }>;
+  unattributed?: number;
+}
+
+interface ExplainPayload {
+  headline: Record<string, number>;
+  mixEffects: { impressions: number; position: number; ctr: number; waterfall: Array<{ step: string; value: number }> };
+  drivers: Array<{ dimension: string; segment: string; delta: number; sharePct: number }>;
+  dimensions: Record<string, DimensionBreakdown>;
+  summary: string[];
+}
+
+/** Answer Search Analytics requests by grouping the records of the requested period and search type. */
+function recordService(scaleB = 1) {
+  return searchAnalyticsService(async (_siteUrl: string, body: RequestBody) => {
+    const period = body.startDate >= PERIOD_A.startDate ? 'A' : 'B';
+    const grouped = new Map<string, SearchAnalyticsRow>();
+    for (const record of RECORDS) {
+      if (record.period !== period || record.searchType !== (body.searchType ?? 'web')) continue;
+      const scale = period === 'B' ? scaleB : 1;
+      const keys = body.dimensions.map((dimension) => String(record[dimension]));
+      const row = grouped.get(keys.join('|')) ?? { keys, clicks: 0, impressions: 0, position: 0 };
+      const impressions = row.impressions! + record.impressions * scale;
+      row.position = (row.position! * row.impressions! + record.position * record.impressions * scale) / impressions;
+      row.clicks! += record.clicks * scale;
+      row.impressions = impressions;
+      grouped.set(keys.join('|'), row);
+    }
+    return { data: { rows: [...grouped.values()].slice(0, body.rowLimit) } };
+  });
+}
+
+describe('explain_traffic_change', () => {
+  it('validates comparison periods and defaults to every dimension', () => {
+    expect(ExplainTrafficChangeSchema.parse({ siteUrl: SITE })).toMatchObject({
+      mode: 'previous',
+      days: 28,
+      dimensions: ['device', 'country', 'searchType', 'template', 'brand', 'intent'],
+      maxSegments: 8,
+      maxRows: 25000,
+    });
+    const issues = (input: Record<string, unknown>) =>
+      ExplainTrafficChangeSchema.safeParse({ siteUrl: SITE, ...input }).error?.issues.map((issue) => issue.message) ?? [];
+    expect(issues({ mode: 'custom', periodA: PERIOD_A })).toEqual(['periodB is required when mode is "custom"']);
+    expect(issues({ periodA: PERIOD_A })).toEqual(['periodA and periodB are only used when mode is "custom"']);
+    expect(issues({ dimensions: [] })).toHaveLength(1);
+  });
+
+  it('splits the headline change into impressions, position and CTR effects that sum to it', async () => {
+    const { service } = recordService();
+    const payload = parseResult<ExplainPayload>(
+      await handleExplainTrafficChange(service, {
+        siteUrl: SITE,
+        mode: 'custom',
+        periodA: PERIOD_A,
+        periodB: PERIOD_B,
+        dimensions: ['device'],
+        dataSource: 'api',
+      }),
+    );
+
+    expect(payload.headline).toMatchObject({ clicksA: 320, clicksB: 400, delta: -80, deltaPct: -20 });
+    const { impressions, position, ctr, waterfall } = payload.mixEffects;
+    expect(impressions + position + ctr).toBeCloseTo(-80, 0);
+    expect(impressions).toBeLessThan(0);
+    expect(position).toBeLessThan(0);
+    expect(waterfall.map((step) => step.step)).toEqual([
+      'periodB clicks',
+      'impressions',
+      'position',
+      'ctr',
+      'periodA clicks',
+    ]);
+    expect(waterfall[3].value).toBeCloseTo(320, 0);
+    expect(payload.summary[0]).toBe('Clicks fell by 80 (-20%) from 400 to 320.');
+  });
+
+  it('rounds the effects once so they still sum to the delta and gives no position effect past page one', async () => {
+    const { service } = searchAnalyticsService(async (_siteUrl: string, body: RequestBody) => ({
+      data: {
+        rows:
+          body.startDate >= PERIOD_A.startDate
+            ? [{ keys: [], clicks: 1, impressions: 100, position: 15 }]
+            : [{ keys: [], clicks: 5, impressions: 200, position: 30 }],
+      },
+    }));
+    const payload = parseResult<ExplainPayload>(
+      await handleExplainTrafficChange(service, {
+        siteUrl: SITE,
+        mode: 'custom',
+        periodA: PERIOD_A,
+        periodB: PERIOD_B,
+        dimensions: ['device'],
+        dataSource: 'api',
+      }),
+    );
+
+    // Rounded separately, the impressions (-1.75) and CTR (-2.25) effects would sum to -4.1.
+    expect(payload.mixEffects).toMatchObject({ impressions: -1.8, position: 0, ctr: -2.2 });
+    expect(payload.mixEffects.waterfall.map((step) => step.value)).toEqual([5, 3.3, 3.3, 1, 1]);
+  });
+
+  it('attributes the drop to the same segment in every dimension and ranks the drivers', async () => {
+    const { service } = recordService();
+    const payload = parseResult<ExplainPayload>(
+      await handleExplainTrafficChange(service, {
+        siteUrl: SITE,
+        mode: 'custom',
+        periodA: PERIOD_A,
+        periodB: PERIOD_B,
+        dimensions: ['device', 'country', 'template', 'brand', 'intent'],
+        brandTerms: ['acme'],
+        dataSource: 'api',
+      }),
+    );
+
+    expect(
+      payload.drivers.slice(0, 5).map(({ dimension, segment, delta, sharePct }) => ({
+        dimension,
+        segment,
+        delta,
+        sharePct,
+      })),
+    ).toEqual([
+      { dimension: 'device', segment: 'MOBILE', delta: -80, sharePct: 100 },
+      { dimension: 'country', segment: 'deu', delta: -80, sharePct: 100 },
+      { dimension: 'template', segment: 'blog', delta: -80, sharePct: 100 },
+      { dimension: 'brand', segment: 'non_branded', delta: -80, sharePct: 100 },
+      { dimension: 'intent', segment: 'informational', delta: -80, sharePct: 100 },
+    ]);
+    expect(payload.dimensions.device).toMatchObject({ total: { clicksA: 320, clicksB: 400, delta: -80 }, unattributed: 0 });
+    const brand = payload.dimensions.brand.waterfall;
+    expect(brand.map((step) => step.segment)).toEqual(['non_branded', 'branded']);
+    expect(brand[brand.length - 1].cumulative).toBe(320);
+    expect(payload.dimensions.template.waterfall[0].primaryEffect).not.toBeNull();
+  });
+
+  it('scales a baseline of a different length and compares each search type separately', async () => {
+    const { service, searchAnalytics } = recordService(2);
+    const payload = parseResult<ExplainPayload>(
+      await handleExplainTrafficChange(service, {
+        siteUrl: SITE,
+        mode: 'custom',
+        periodA: PERIOD_A,
+        periodB: { startDate: '2026-07-07', endDate: '2026-08-31' },
+        dimensions: ['searchType'],
+        maxSegments: 1,
+        dataSource: 'api',
+      }),
+    );
+
+    expect(payload).toMatchObject({ normalized: true, periodB: { days: 56 }, headline: { clicksB: 400, delta: -80 } });
+    const searchTypes = searchAnalytics.mock.calls.map(([, body]) => body.searchType).filter(Boolean);
+    expect(searchTypes.sort()).toEqual(['image', 'image', 'news', 'news', 'video', 'video', 'web', 'web']);
+    expect(payload.dimensions.searchType).toMatchObject({ total: { clicksA: 330, clicksB: 410, delta: -80 } });
+    expect(payload.dimensions.searchType.unattributed).toBeUndefined();
+    expect(payload.dimensions.searchType.waterfall.map((step) => step.segment)).toEqual([
+      'web',
+      '(other)',
+    ]);
+  });
+});
@@ -0,0 +1,196 @@
+import { createHash } from 'node:crypto';
+import { mkdtempSync, readFileSync, readdirSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { parquetMetadata, parquetReadObjects } from 'hyparquet';
+import { describe, expect, it, vi } from 'vitest';
+
+import type { SearchConsoleService } from '../src/service.js';
+import { handleExportSearchAnalytics } from '../src/tools/export.js';
+import type { SearchAnalyticsRow } from '../src/utils/types.js';
+import { parseResult } from './helpers.js';
+
+const SITE = 'sc-domain:example.com';
+
+function exportDir(): string {
+  return mkdtempSync(join(tmpdir(), 'gsc-export-'));
+}
+
+function mockService(rowsFor: (body: Record<string, unknown>) => SearchAnalyticsRow[]): SearchConsoleService {
+  return {
+    searchAnalytics: vi.fn(async (_siteUrl: string, body: Record<string, unknown>) => ({
+      data: { rows: rowsFor(body) },
+    })),
+  } as unknown as SearchConsoleService;
+}
+
+describe('export_search_analytics', () => {
+  it('writes escaped CSV and returns a matching checksum without the rows', async () => {
+    const dir = exportDir();
+    const service = mockService(() => [
+      { keys: ['shoes, "red"'], clicks: 3, impressions: 40, ctr: 0.075, position: 2.5 },
+      { keys: ['boots'], clicks: 1, impressions: 10, ctr: 0.1, position: 7 },
+    ]);
+
+    const payload = parseResult(
+      await handleExportSearchAnalytics(
+        service,
+        { siteUrl: SITE, startDate: '2024-01-01', endDate: '2024-01-31', dimensions: ['query'], fileName: 'queries' },
+        dir,
+      ),
+    );
+
+    const path = join(dir, 'queries.csv');
+    const contents = readFileSync(path);
+    expect(contents.toString('utf8')).toBe(
+      'query,clicks,impressions,ctr,position\r\n"shoes, ""red""",3,40,0.075,2.5\r\nboots,1,10,0.1,7\r\n',
+    );
+    expect(payload).toMatchObject({
+      path,
+      format: 'csv',
+      rowCount: 2,
+      bytes: contents.length,
+      checksum: { algorithm: 'sha256', value: createHash('sha256').update(contents).digest('hex') },
+      truncated: false,
+    });
+    expect((payload.schema as Array<{ name: string }>).map((column) => column.name)).toEqual([
+      'query',
+      'clicks',
+      'impressions',
+      'ctr',
+      'position',
+    ]);
+    expect(payload).not.toHaveProperty('rows');
+    expect(readdirSync(dir)).toEqual(['queries.csv']);
+  });
+
+  it('splits the range into chunks and tags NDJSON rows with their period', async () => {
+    const dir = exportDir();
+    const service = mockService((body) => [{ keys: ['https://example.com/'], clicks: 1, impressions: 2, ctr: 0.5, position: 1 }].map(
+      (row) => ({ ...row, keys: [`${String(body.startDate)}:${row.keys[0]}`] }),
+    ));
+
+    const payload = parseResult(
+      await handleExportSearchAnalytics(
+        service,
+        {
+          siteUrl: SITE,
+          startDate: '2024-01-01',
+          endDate: '2024-01-10',
+          dimensions: ['page'],
+          format: 'ndjson',
+          chunkDays: 4,
+          pageFilter: '/blog/',
+          filterOperator: 'contains',
+        },
+        dir,
+      ),
+    );
+
+    const bodies = vi.mocked(service.searchAnalytics).mock.calls.map(([, body]) => body as Record<string, unknown>);
+    expect(bodies.map((body) => [body.startDate, body.endDate])).toEqual([
+      ['2024-01-01', '2024-01-04'],
+      ['2024-01-05', '2024-01-08'],
+      ['2024-01-09', '2024-01-10'],
+    ]);
+    expect(bodies[0]!.dimensionFilterGroups).toEqual([
+      { groupType: 'and', filters: [{ dimension: 'page', operator: 'contains', expression: '/blog/' }] },
+    ]);
+
+    const lines = readFileSync(payload.path as string, 'utf8').trim().split('\n').map((line) => JSON.parse(line));
+    expect(payload.rowCount).toBe(3);
+    expect(lines[2]).toEqual({
+      periodStart: '2024-01-09',
+      periodEnd: '2024-01-10',
+      page: '2024-01-09:https://example.com/',
+      clicks: 1,
+      impressions: 2,
+      ctr: 0.5,
+      position: 1,
+    });
+  });
+
+  it('writes a Parquet file and refuses to overwrite it by default', async () => {
+    const dir = exportDir();
+    const service = mockService(() => [{ keys: ['shoes'], clicks: 3, impressions: 40, ctr: 0.075, position: 2.5 }]);
+    const args = {
+      siteUrl: SITE,
+      startDate: '2024-01-01',
+      endDate: '2024-01-31',
+      dimensions: ['query'],
+      format: 'parquet',
+      fileName: 'queries',
+    };
+
+    const payload = parseResult(await handleExportSearchAnalytics(service, args, dir));
+    const contents = readFileSync(join(dir, 'queries.parquet'));
+    const file = contents.buffer.slice(contents.byteOffset, contents.byteOffset + contents.byteLength);
+    expect(payload.rowCount).toBe(1);
+    expect(contents.subarray(0, 4).toString('ascii')).toBe('PAR1');
+    expect(contents.subarray(-4).toString('ascii')).toBe('PAR1');
+    expect(parquetMetadata(file).schema.slice(1).map(({ name, type }) => [name, type])).toEqual([
+      ['query', 'BYTE_ARRAY'],
+      ['clicks', 'INT64'],
+      ['impressions', 'INT64'],
+      ['ctr', 'DOUBLE'],
+      ['position', 'DOUBLE'],
+    ]);
+    expect(await parquetReadObjects({ file })).toEqual([
+      { query: 'shoes', clicks: 3n, impressions: 40n, ctr: 0.075, position: 2.5 },
+    ]);
+
+    await expect(handleExportSearchAnalytics(service, args, dir)).rejects.toMatchObject({ code: 'EXPORT_EXISTS' });
+    await expect(handleExportSearchAnalytics(service, { ...args, overwrite: true }, dir)).resolves.toBeDefined();
+  });
+
+  it('writes Parquet row groups as pages arrive instead of holding every row', async () => {
+    const dir = exportDir();
+    const rows = Array.from({ length: 30_000 }, (_, index) => ({ keys: [`q${index}`], clicks: index, impressions: 1 }));
+    const service = mockService((body) =>
+      rows.slice(Number(body.startRow), Number(body.startRow) + Number(body.rowLimit)),
+    );
+
+    const payload = parseResult(
+      await handleExportSearchAnalytics(
+        service,
+        { siteUrl: SITE, days: 7, dimensions: ['query'], format: 'parquet', fileName: 'all', maxRows: 30_000 },
+        dir,
+      ),
+    );
+    const contents = readFileSync(join(dir, 'all.parquet'));
+    const metadata = parquetMetadata(contents.buffer.slice(contents.byteOffset, contents.byteOffset + contents.byteLength));
+
+    expect(payload.rowCount).toBe(30_000);
+    expect(metadata.row_groups.map((group) => group.num_rows)).toEqual([25_000n, 5_000n]);
+  });
+
+  it('does not replace a file created while the export ran', async () => {
+    const dir = exportDir();
+    const path = join(dir, 'race.csv');
+    const service = mockService(() => {
+      writeFileSync(path, 'written by another export\n');
+      return [{ keys: ['shoes'], clicks: 1, impressions: 2 }];
+    });
+
+    await expect(
+      handleExportSearchAnalytics(service, { siteUrl: SITE, days: 7, dimensions: ['query'], fileName: 'race' }, dir),
+    ).rejects.toMatchObject({ code: 'EXPORT_EXISTS' });
+    expect(readFileSync(path, 'utf8')).toBe('written by another export\n');
+    expect(readdirSync(dir)).toEqual(['race.csv']);
+  });
+
+  it('reports truncation when a chunk hits maxRows', async () => {
+    const dir = exportDir();
+    const service = mockService((body) =>
+      Array.from({ length: Number(body.rowLimit) }, (_, index) => ({ keys: [`q${index}`], clicks: 1, impressions: 1 })),
+    );
+
+    const payload = parseResult(
+      await handleExportSearchAnalytics(service, { siteUrl: SITE, days: 7, dimensions: ['query'], maxRows: 5 }, dir),
+    );
+
+    expect(payload).toMatchObject({ rowCount: 5, truncated: true });
+    expect(readFileSync(payload.path as string, 'utf8').trim().split('\r\n')).toHaveLength(6);
+  });
+});
@@ -0,0 +1,255 @@
+import { describe, expect, it } from 'vitest';
+
+import { DimensionFilterSchema } from '../src/schemas/base.js';
+import { buildFilters, handleSearchAnalytics, handleSearchAnalyticsCursor } from '../src/tools/analytics.js';
+import { handleComparePeriods } from '../src/tools/computed.js';
+import { applyOrGroups, type DimensionFilter } from '../src/utils/filters.js';
+import type { SearchAnalyticsRow } from '../src/utils/types.js';
+import { parseResult, searchAnalyticsService } from './helpers.js';
+
+const SITE = 'sc-domain:example.com';
+const COUNTRY_IN = {
+  groupType: 'or' as const,
+  filters: ['usa', 'can', 'gbr'].map((expression) => ({ dimension: 'country', operator: 'equals', expression })),
+};
+
+interface RequestBody {
+  dimensions?: string[];
+  dimensionFilterGroups?: Array<{ filters: DimensionFilter[] }>;
+  rowLimit?: number;
+}
+
+interface RowsPayload {
+  rows: SearchAnalyticsRow[];
+  orFilter: Record<string, unknown>;
+  pageInfo: { nextCursor: string };
+}
+
+interface ComparePayload {
+  comparisons: Array<{ keys: string[] }>;
+  orFilter: Record<string, unknown>;
+}
+
+/** Applies exact `equals` and case-insensitive `contains` filters on the requested dimensions, up to `rowLimit`. */
+function serviceFiltering(rows: SearchAnalyticsRow[]) {
+  return searchAnalyticsService(async (_siteUrl: string, body: RequestBody) => {
+    const dimensions = body.dimensions ?? [];
+    const groups = body.dimensionFilterGroups ?? [];
+    const matches = (row: SearchAnalyticsRow, filter: DimensionFilter) => {
+      const index = dimensions.indexOf(filter.dimension);
+      if (index === -1) return true;
+      const key = row.keys?.[index] ?? '';
+      return filter.operator === 'contains'
+        ? key.toLowerCase().includes(filter.expression.toLowerCase())
+        : key === filter.expression;
+    };
+    const matched = rows.filter((row) => groups.every((group) => group.filters.every((filter) => matches(row, filter))));
+    return { data: { rows: matched.slice(0, body.rowLimit ?? 1000) } };
+  });
+}
+
+describe('Search Analytics filter groups', () => {
+  it('sends AND filters and one-filter groups to the API and keeps multi-filter OR groups client-side', () => {
+    const plan = buildFilters({
+      pageFilter: '/shop/',
+      filterOperator: 'contains',
+      filters: [
+        { dimension: 'query', operator: 'contains', expression: 'shoes' },
+        { dimension: 'query', operator: 'notContains', expression: 'free' },
+      ],
+      filterGroups: [
+        { groupType: 'and', filters: [{ dimension: 'page', operator: 'excludingRegex', expression: '/blog/' }] },
+        { groupType: 'or', filters: [{ dimension: 'device', operator: 'equals', expression: 'MOBILE' }] },
+        COUNTRY_IN,
+      ],
+    });
+
+    expect(plan.dimensionFilterGroups).toEqual([
+      {
+        groupType: 'and',
+        filters: [
+          { dimension: 'page', operator: 'contains', expression: '/shop/' },
+          { dimension: 'query', operator: 'contains', expression: 'shoes' },
+          { dimension: 'query', operator: 'notContains', expression: 'free' },
+        ],
+      },
+      { groupType: 'and', filters: [{ dimension: 'page', operator: 'excludingRegex', expression: '/blog/' }] },
+      { groupType: 'and', filters: [{ dimension: 'device', operator: 'equals', expression: 'MOBILE' }] },
+    ]);
+    expect(plan.orGroups).toEqual([COUNTRY_IN]);
+    expect(buildFilters({})).toEqual({ orGroups: [] });
+  });
+
+  it('matches OR groups against row keys like the API does and ANDs the groups together', () => {
+    const rows: SearchAnalyticsRow[] = [
+      { keys: ['usa', 'Running Shoes'], clicks: 5 },
+      { keys: ['can', 'trail boots'], clicks: 4 },
+      { keys: ['gbr', 'sandals'], clicks: 3 },
+      { keys: ['deu', 'running shoes'], clicks: 2 },
+    ];
+    const queryGroup = {
+      groupType: 'or' as const,
+      filters: [
+        { dimension: 'query', operator: 'contains', expression: 'SHOES' },
+        { dimension: 'query', operator: 'includingRegex', expression: '^trail ' },
+      ],
+    };
+
+    expect(applyOrGroups(rows, ['country', 'query'], [COUNTRY_IN]).map((row) => row.keys?.[0])).toEqual([
+      'usa',
+      'can',
+      'gbr',
+    ]);
+    expect(applyOrGroups(rows, ['country', 'query'], [COUNTRY_IN, queryGroup]).map((row) => row.keys?.[0])).toEqual([
+      'usa',
+      'can',
+    ]);
+    // `equals` is exact, as in the API; only `contains` ignores case.
+    const exactQuery = {
+      groupType: 'or' as const,
+      filters: ['running shoes', 'sandals'].map((expression) => ({ dimension: 'query', operator: 'equals', expression })),
+    };
+    expect(applyOrGroups(rows, ['country', 'query'], [exactQuery]).map((row) => row.keys?.[0])).toEqual([
+      'gbr',
+      'deu',
+    ]);
+  });
+
+  it('reads regex filters as RE2 and rejects what only JS would accept', () => {
+    const regex = (expression: string) =>
+      DimensionFilterSchema.safeParse({ dimension: 'query', operator: 'includingRegex', expression }).error?.issues[0]
+        ?.message;
+
+    expect(regex('(?i)shoes')).toBeUndefined();
+    expect(regex('^(?P<brand>nike|adidas) \\w+\\z')).toBeUndefined();
+    expect(regex('shoes(?!-free)')).toBe('Invalid regular expression: RE2 does not support lookaround (?!');
+    expect(regex('(run)\\1')).toBe('Invalid regular expression: RE2 does not support backreference \\1');
+    expect(regex('\\\\1')).toBeUndefined();
+
+    const rows: SearchAnalyticsRow[] = [
+      { keys: ['Running Shoes'] },
+      { keys: ['nike air'] },
+      { keys: ['sandals nike'] },
+    ];
+    const brandOrRunning = {
+      groupType: 'or' as const,
+      filters: [
+        { dimension: 'query', operator: 'includingRegex', expression: '(?i)^running' },
+        { dimension: 'query', operator: 'includingRegex', expression: '\\A(?P<brand>nike) ' },
+      ],
+    };
+    expect(applyOrGroups(rows, ['query'], [brandOrRunning]).map((row) => row.keys?.[0])).toEqual([
+      'Running Shoes',
+      'nike air',
+    ]);
+  });
+
+  it('fetches each OR branch for search_analytics and rejects groups on dimensions it does not return', async () => {
+    // fra outranks can, so one request cut at rowLimit 2 before filtering would have lost can.
+    const { service, searchAnalytics } = serviceFiltering([
+      { keys: ['usa', 'shoes'], clicks: 5, impressions: 50 },
+      { keys: ['fra', 'shoes'], clicks: 4, impressions: 40 },
+      { keys: ['can', 'shoes'], clicks: 3, impressions: 30 },
+    ]);
+
+    const payload = parseResult<RowsPayload>(
+      await handleSearchAnalytics(service, {
+        siteUrl: SITE,
+        days: 7,
+        dimensions: ['country', 'query'],
+        rowLimit: 2,
+        filters: [{ dimension: 'query', operator: 'contains', expression: 'shoes' }],
+        filterGroups: [COUNTRY_IN],
+      }),
+    );
+
+    expect(searchAnalytics.mock.calls.map(([, body]) => body.dimensionFilterGroups)).toEqual(
+      COUNTRY_IN.filters.map((filter) => [
+        { groupType: 'and', filters: [{ dimension: 'query', operator: 'contains', expression: 'shoes' }] },
+        { groupType: 'and', filters: [filter] },
+      ]),
+    );
+    expect(payload.rows).toEqual([
+      { keys: ['usa', 'shoes'], clicks: 5, impressions: 50 },
+      { keys: ['can', 'shoes'], clicks: 3, impressions: 30 },
+    ]);
+    expect(payload.orFilter).toEqual({ groups: 1, rowsScanned: 2, rowsMatched: 2 });
+    await expect(
+      handleSearchAnalytics(service, { siteUrl: SITE, days: 7, dimensions: ['query'], filterGroups: [COUNTRY_IN] }),
+    ).rejects.toThrow('the dimensions must include country');
+    await expect(
+      handleSearchAnalytics(service, {
+        siteUrl: SITE,
+        days: 7,
+        filters: [{ dimension: 'page', operator: 'includingRegex', expression: '(' }],
+      }),
+    ).rejects.toThrow('Invalid regular expression');
+  });
+
+  it('filters one page client-side and reports truncated when branches cannot be merged', async () => {
+    const { service, searchAnalytics } = serviceFiltering([
+      { keys: ['usa'], clicks: 5, impressions: 50 },
+      { keys: ['fra'], clicks: 4, impressions: 40 },
+      { keys: ['can'], clicks: 3, impressions: 30 },
+    ]);
+
+    const payload = parseResult<RowsPayload>(
+      await handleSearchAnalytics(service, {
+        siteUrl: SITE,
+        days: 7,
+        dimensions: ['country'],
+        rowLimit: 2,
+        startRow: 2,
+        filterGroups: [COUNTRY_IN],
+      }),
+    );
+
+    expect(searchAnalytics).toHaveBeenCalledTimes(1);
+    expect(searchAnalytics.mock.calls[0][1].dimensionFilterGroups).toBeUndefined();
+    expect(payload.rows).toEqual([{ keys: ['usa'], clicks: 5, impressions: 50 }]);
+    expect(payload.orFilter).toEqual({ groups: 1, rowsScanned: 2, rowsMatched: 1, truncated: true });
+  });
+
+  it('carries OR groups through cursor pages and computed tools', async () => {
+    const { service, searchAnalytics } = serviceFiltering([
+      { keys: ['usa'], clicks: 5, impressions: 50, ctr: 0.1, position: 2 },
+      { keys: ['fra'], clicks: 4, impressions: 40, ctr: 0.1, position: 2 },
+    ]);
+
+    const first = parseResult<RowsPayload>(
+      await handleSearchAnalyticsCursor(service, {
+        siteUrl: SITE,
+        days: 7,
+        dimensions: ['country'],
+        filterGroups: [COUNTRY_IN],
+        pageSize: 2,
+        maxRows: 4,
+      }),
+    );
+    expect(first.rows).toHaveLength(1);
+    expect(first.pageInfo).toMatchObject({ hasMore: true, fetchedRows: 2, matchedRows: 1 });
+    const second = parseResult<RowsPayload>(
+      await handleSearchAnalyticsCursor(service, { siteUrl: SITE, cursor: first.pageInfo.nextCursor }),
+    );
+    expect(second.rows.map((row) => row.keys?.[0])).toEqual(['usa']);
+
+    searchAnalytics.mockClear();
+    const compared = parseResult<ComparePayload>(
+      await handleComparePeriods(service, {
+        siteUrl: SITE,
+        days: 7,
+        dimensions: ['country'],
+        deviceFilter: 'MOBILE',
+        filterGroups: [COUNTRY_IN],
+      }),
+    );
+    // Three country branches for each period.
+    expect(searchAnalytics).toHaveBeenCalledTimes(6);
+    expect(searchAnalytics.mock.calls[0][1].dimensionFilterGroups).toEqual([
+      { groupType: 'and', filters: [{ dimension: 'device', operator: 'equals', expression: 'MOBILE' }] },
+      { groupType: 'and', filters: [COUNTRY_IN.filters[0]] },
+    ]);
+    expect(compared.comparisons.map((row) => row.keys[0])).toEqual(['usa']);
+    expect(compared.orFilter).toEqual({ groups: 1, rowsScanned: 2, rowsMatched: 2 });
+  });
+});
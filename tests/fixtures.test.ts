@@ -0,0 +1,192 @@
+import { mkdtempSync, readdirSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, expect, it, vi } from 'vitest';
+
+import { GSCCancelledError, GSCError, GSCQuotaError, type SearchConsoleService } from '../src/service.js';
+import { handleRunSeoAuditWorkflow } from '../src/tools/workflow.js';
+import { fixtureFileName, resolveFixtureConfig, withFixtures, type FixtureConfig } from '../src/utils/fixtures.js';
+import { parseResult } from './helpers.js';
+
+const SITE = 'sc-domain:example.com';
+
+function fixtureConfig(mode: FixtureConfig['mode']): FixtureConfig {
+  return { mode, dir: mkdtempSync(join(tmpdir(), 'gsc-fixtures-')) };
+}
+
+function offline(): SearchConsoleService {
+  return new Proxy({} as SearchConsoleService, {
+    get: () => () => {
+      throw new Error('network access in replay mode');
+    },
+  });
+}
+
+describe('resolveFixtureConfig', () => {
+  it('defaults to live mode and rejects unknown modes', () => {
+    expect(resolveFixtureConfig({}).mode).toBe('live');
+    expect(resolveFixtureConfig({ GSC_MODE: 'Replay', GSC_FIXTURES_DIR: '/tmp/gsc' })).toEqual({
+      mode: 'replay',
+      dir: '/tmp/gsc',
+    });
+    expect(() => resolveFixtureConfig({ GSC_MODE: 'mock' })).toThrow(/Unsupported GSC_MODE/);
+  });
+});
+
+describe('withFixtures', () => {
+  it('records redacted responses and replays them without the network', async () => {
+    const record = fixtureConfig('record');
+    const live = {
+      searchAnalytics: vi.fn().mockResolvedValue({
+        status: 200,
+        headers: { authorization: 'Bearer ya29.secret' },
+        config: { url: 'https://www.googleapis.com/' },
+        data: {
+          rows: [{ keys: ['shoes'], clicks: 1, impressions: 10, ctr: 0.1, position: 2 }],
+          access_token: 'leaked',
+        },
+      }),
+    } as unknown as SearchConsoleService;
+    const body = { startDate: '2024-01-01', endDate: '2024-01-07', dimensions: ['query'] };
+
+    await withFixtures(live, record).searchAnalytics(SITE, body);
+    const files = readdirSync(record.dir).sort();
+    const stored = JSON.parse(readFileSync(join(record.dir, files[0]!), 'utf8')) as Record<string, unknown>;
+    const replayed = await withFixtures(offline(), { ...record, mode: 'replay' }).searchAnalytics(SITE, body);
+
+    expect(files.map((file) => file.replace(/[0-9a-f]{16}/, '<hash>'))).toEqual([
+      'searchAnalytics-<hash>.json',
+      'searchAnalytics-exact-<hash>.json',
+    ]);
+    expect(stored).not.toHaveProperty('response.headers');
+    expect(stored).toHaveProperty('response.data.access_token', '[REDACTED]');
+    expect(replayed).toEqual({
+      status: 200,
+      data: {
+        rows: [{ keys: ['shoes'], clicks: 1, impressions: 10, ctr: 0.1, position: 2 }],
+        access_token: '[REDACTED]',
+      },
+    });
+  });
+
+  it('replays recorded API errors and reports missing fixtures', async () => {
+    const record = fixtureConfig('record');
+    const failing = {
+      indexInspect: vi.fn().mockRejectedValue(Object.assign(new Error('Forbidden'), { code: 403 })),
+      searchAnalytics: vi.fn().mockRejectedValue(new GSCQuotaError(undefined, 'dailyLimitExceeded', 60_000)),
+    } as unknown as SearchConsoleService;
+    const replay = withFixtures(offline(), { ...record, mode: 'replay' });
+
+    const inspect = (inspectionUrl: string) => ({ siteUrl: SITE, inspectionUrl });
+
+    await expect(withFixtures(failing, record).indexInspect(inspect('https://example.com/a'))).rejects.toThrow(
+      'Forbidden',
+    );
+    await expect(replay.indexInspect(inspect('https://example.com/a'))).rejects.toMatchObject({
+      message: 'Forbidden',
+      statusCode: 403,
+    });
+    await expect(replay.indexInspect(inspect('https://example.com/b'))).rejects.toMatchObject({
+      code: 'FIXTURE_NOT_FOUND',
+    });
+
+    const body = { startDate: '2024-01-01', endDate: '2024-01-07' };
+    await expect(withFixtures(failing, record).searchAnalytics(SITE, body)).rejects.toBeInstanceOf(GSCQuotaError);
+    const replayed = await replay.searchAnalytics(SITE, body).catch((error: unknown) => error);
+    expect(replayed).toBeInstanceOf(GSCQuotaError);
+    expect(replayed).toMatchObject({ code: 'QUOTA_ERROR', reason: 'dailyLimitExceeded', retryAfterMs: 60_000 });
+    expect((replayed as GSCQuotaError).daily).toBe(true);
+  });
+
+  it('keeps the recorded response when a later call fails locally', async () => {
+    const record = fixtureConfig('record');
+    const searchAnalytics = vi.fn().mockResolvedValueOnce({ status: 200, data: { rows: [{ keys: ['shoes'] }] } });
+    const recorder = withFixtures({ searchAnalytics } as unknown as SearchConsoleService, record);
+    const body = { startDate: '2024-01-01', endDate: '2024-01-07' };
+
+    await recorder.searchAnalytics(SITE, body);
+    for (const error of [
+      new GSCCancelledError('search_analytics was cancelled by the client.', 'CANCELLED'),
+      new GSCError('searchanalytics quota budget exhausted', 'QUOTA_BUDGET_EXCEEDED', 429),
+      new GSCQuotaError('searchanalytics API calls are paused', 'circuitOpen', 30_000),
+    ]) {
+      searchAnalytics.mockRejectedValueOnce(error);
+      await expect(recorder.searchAnalytics(SITE, body)).rejects.toBe(error);
+    }
+
+    await expect(withFixtures(offline(), { ...record, mode: 'replay' }).searchAnalytics(SITE, body)).resolves.toEqual({
+      status: 200,
+      data: { rows: [{ keys: ['shoes'] }] },
+    });
+  });
+
+  it('keys fixtures by date offsets so relative ranges replay on later days', () => {
+    const body = (startDate: string, endDate: string) => [SITE, { startDate, endDate, dimensions: ['page'] }];
+
+    const recordedOn = new Date('2024-01-31T10:00:00Z');
+    const name = fixtureFileName('searchAnalytics', body('2024-01-01', '2024-01-28'), recordedOn);
+
+    expect(fixtureFileName('searchAnalytics', body('2024-02-01', '2024-02-28'), new Date('2024-03-02T23:00:00Z'))).toBe(
+      name,
+    );
+    expect(fixtureFileName('searchAnalytics', body('2024-01-01', '2024-01-27'), recordedOn)).not.toBe(name);
+  });
+
+  it('replays calls with fixed dates from their own fixture on any run date', async () => {
+    const record = fixtureConfig('record');
+    const live = {
+      searchAnalytics: vi.fn(async (_siteUrl: string, body: { startDate: string }) => ({
+        status: 200,
+        data: { rows: [{ keys: [body.startDate] }] },
+      })),
+    } as unknown as SearchConsoleService;
+    const body = (startDate: string, endDate: string) => ({ startDate, endDate, dimensions: ['date'] });
+    const recorder = (now: string) => withFixtures(live, record, { now: () => new Date(now) });
+
+    // Both calls are 30 to 24 days back on their own recording day, so they share the offset key.
+    await recorder('2024-01-31T10:00:00Z').searchAnalytics(SITE, body('2024-01-01', '2024-01-07'));
+    await recorder('2024-02-01T10:00:00Z').searchAnalytics(SITE, body('2024-01-02', '2024-01-08'));
+    const replay = withFixtures(
+      offline(),
+      { ...record, mode: 'replay' },
+      { now: () => new Date('2024-06-01T10:00:00Z') },
+    );
+
+    await expect(replay.searchAnalytics(SITE, body('2024-01-01', '2024-01-07'))).resolves.toMatchObject({
+      data: { rows: [{ keys: ['2024-01-01'] }] },
+    });
+    await expect(replay.searchAnalytics(SITE, body('2024-05-02', '2024-05-08'))).resolves.toMatchObject({
+      data: { rows: [{ keys: ['2024-01-02'] }] },
+    });
+  });
+
+  it('replays run_seo_audit_workflow end to end with identical output', async () => {
+    const record = fixtureConfig('record');
+    const live = {
+      indexInspect: vi.fn().mockResolvedValue({
+        data: { inspectionResult: { indexStatusResult: { verdict: 'PASS' } } },
+      }),
+      searchAnalytics: vi.fn().mockResolvedValue({
+        data: {
+          rows: [{ keys: ['https://example.com/a'], clicks: 100, impressions: 1000, ctr: 0.1, position: 4 }],
+        },
+      }),
+      runPageSpeed: vi.fn().mockResolvedValue({
+        data: { lighthouseResult: { categories: { performance: { score: 0.8 }, seo: { score: 0.9 } } } },
+      }),
+      cruxQueryRecord: vi.fn().mockRejectedValue(new Error('No CrUX data')),
+    } as unknown as SearchConsoleService;
+    const args = { siteUrl: SITE, days: 7, profile: 'technical', urls: ['https://example.com/a'] };
+
+    vi.useFakeTimers({ now: new Date('2024-05-01T12:00:00Z'), toFake: ['Date'] });
+    const recorded = parseResult(await handleRunSeoAuditWorkflow(withFixtures(live, record), args));
+    const replayed = parseResult(
+      await handleRunSeoAuditWorkflow(withFixtures(offline(), { ...record, mode: 'replay' }), args),
+    );
+    vi.useRealTimers();
+
+    expect(live.searchAnalytics).toHaveBeenCalled();
+    expect(replayed).toEqual(recorded);
+  });
+});
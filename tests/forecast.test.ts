@@ -0,0 +1,197 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { ForecastTrafficSchema } from '../src/schemas/forecast.js';
+import { handleForecastTraffic } from '../src/tools/forecast.js';
+import { eachDate } from '../src/utils/dates.js';
+import { INTERVAL_Z, findIntervalBreaches, fitHoltWinters, projectHoltWinters } from '../src/utils/forecast.js';
+import type { SearchAnalyticsRow } from '../src/utils/types.js';
+import { parseResult, searchAnalyticsService } from './helpers.js';
+
+const SITE = 'sc-domain:example.com';
+const WEEK = [100, 120, 130, 125, 110, 60, 50];
+
+/** Weekly pattern with a deterministic wobble of up to ±5. */
+function weeklySeries(days: number): number[] {
+  return Array.from({ length: days }, (_, i) => WEEK[i % 7] + (((i * 37) % 11) - 5));
+}
+
+interface ForecastPayload {
+  history: Record<string, unknown>;
+  model: Record<string, unknown>;
+  forecast: Array<{ date: string; clicks: { expected: number } }>;
+  anomalies: Array<{ date: string; metric: string; direction: string; actual: number }>;
+}
+
+function serviceReturning(rows: SearchAnalyticsRow[]) {
+  return searchAnalyticsService(async (_siteUrl: string, _body: Record<string, unknown>) => ({ data: { rows } }));
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('forecast_traffic', () => {
+  it('projects the weekly pattern with intervals that widen with the horizon', () => {
+    const series = weeklySeries(84);
+    const model = fitHoltWinters(series);
+    const points = projectHoltWinters(model, 14, INTERVAL_Z[0.95]);
+
+    expect(fitHoltWinters(series)).toEqual(model);
+    expect(points).toHaveLength(14);
+    points.forEach((point, h) => {
+      expect(Math.abs(point.expected - WEEK[(84 + h) % 7])).toBeLessThan(12);
+      expect(point.lower).toBeLessThanOrEqual(point.expected);
+      expect(point.upper).toBeGreaterThanOrEqual(point.expected);
+    });
+    expect(points[13].upper - points[13].lower).toBeGreaterThan(points[0].upper - points[0].lower);
+    expect(findIntervalBreaches(series, model, INTERVAL_Z[0.99], 70)).toEqual([]);
+    expect(() => fitHoltWinters(series.slice(0, 10))).toThrow('at least 14 observations');
+  });
+
+  it('requires a target for every scope but the whole site', () => {
+    const issues = (input: Record<string, unknown>) =>
+      ForecastTrafficSchema.safeParse({ siteUrl: SITE, ...input }).error?.issues.map((issue) => issue.message) ?? [];
+
+    expect(ForecastTrafficSchema.parse({ siteUrl: SITE })).toMatchObject({
+      scope: 'site',
+      historyDays: 112,
+      horizonDays: 28,
+      confidence: 0.95,
+    });
+    expect(issues({ scope: 'page' })).toEqual(['target is required when scope is "page"']);
+    expect(issues({ target: 'blog' })).toEqual(['target is not used when scope is "site"']);
+    expect(issues({ scope: 'site', templateRules: [{ name: 'docs', pattern: '/help/' }] })).toEqual([]);
+  });
+
+  it('forecasts a page from finalized daily rows and flags recent actuals outside the interval', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-19T12:00:00.000Z'));
+    const dates = eachDate('2026-07-06', '2026-10-16');
+    const clicks = weeklySeries(dates.length);
+    clicks[dates.length - 2] = 400;
+    const { service, searchAnalytics } = serviceReturning(
+      dates.map((date, i) => ({ keys: [date], clicks: clicks[i], impressions: clicks[i] * 20 })),
+    );
+
+    const payload = parseResult<ForecastPayload>(
+      await handleForecastTraffic(service, {
+        siteUrl: SITE,
+        scope: 'page',
+        target: 'https://example.com/pricing',
+        horizonDays: 7,
+        anomalyWindowDays: 14,
+      }),
+    );
+
+    expect(searchAnalytics.mock.calls[0][1]).toMatchObject({
+      startDate: '2026-06-27',
+      endDate: '2026-10-16',
+      dimensions: ['date'],
+      dimensionFilterGroups: [
+        { groupType: 'and', filters: [{ dimension: 'page', operator: 'equals', expression: 'https://example.com/pricing' }] },
+      ],
+    });
+    // History starts at the first day with data and ends at endDate.
+    expect(payload.history).toMatchObject({ startDate: '2026-07-06', endDate: '2026-10-16', days: dates.length });
+    expect(payload.forecast.map((point) => point.date)).toEqual(eachDate('2026-10-17', '2026-10-23'));
+    expect(payload.model).toMatchObject({ method: 'holt-winters-additive-damped', seasonLength: 7 });
+    expect(payload.anomalies).toContainEqual(
+      expect.objectContaining({ date: '2026-10-15', metric: 'clicks', actual: 400, direction: 'above' }),
+    );
+    expect(payload.anomalies).toContainEqual(
+      expect.objectContaining({ date: '2026-10-15', metric: 'impressions', actual: 8000, direction: 'above' }),
+    );
+  });
+
+  it('fills days without rows up to endDate so traffic that stopped is flagged and not projected as live', async () => {
+    const dates = eachDate('2026-06-01', '2026-08-21');
+    const clicks = weeklySeries(dates.length);
+    // The query has no rows from 2026-08-15: it lost all traffic a week before endDate.
+    const { service } = serviceReturning(
+      dates
+        .filter((date) => date < '2026-08-15')
+        .map((date, i) => ({ keys: [date], clicks: clicks[i], impressions: clicks[i] * 20 })),
+    );
+
+    const payload = parseResult<ForecastPayload>(
+      await handleForecastTraffic(service, {
+        siteUrl: SITE,
+        scope: 'query',
+        target: 'running shoes',
+        endDate: '2026-08-21',
+        historyDays: 82,
+        horizonDays: 7,
+        anomalyWindowDays: 14,
+        dataSource: 'api',
+      }),
+    );
+
+    expect(payload.history).toMatchObject({ startDate: '2026-06-01', endDate: '2026-08-21', days: 82 });
+    expect(payload.forecast[0].date).toBe('2026-08-22');
+    expect(payload.forecast[0].clicks.expected).toBeLessThan(WEEK[82 % 7] / 2);
+    const dips = payload.anomalies.filter((anomaly) => anomaly.metric === 'clicks' && anomaly.direction === 'below');
+    expect(dips[0]).toMatchObject({ date: '2026-08-15', actual: 0 });
+  });
+
+  it('sums the rows of a query cluster or template and pages past 25K rows', async () => {
+    const dates = eachDate('2026-08-01', '2026-08-28');
+    const { service, searchAnalytics } = serviceReturning(
+      dates.flatMap((date) => [
+        { keys: [date, 'best running shoes'], clicks: 10, impressions: 100 },
+        { keys: [date, 'running shoes best'], clicks: 5, impressions: 50 },
+        { keys: [date, 'trail running shoes'], clicks: 99, impressions: 999 },
+      ]),
+    );
+
+    const cluster = parseResult<ForecastPayload>(
+      await handleForecastTraffic(service, {
+        siteUrl: SITE,
+        scope: 'queryCluster',
+        target: 'best-running-shoes',
+        endDate: '2026-08-28',
+        historyDays: 28,
+        maxRows: 30000,
+        dataSource: 'api',
+      }),
+    );
+
+    expect(searchAnalytics.mock.calls[0][1]).toMatchObject({
+      dimensions: ['date', 'query'],
+      rowLimit: 25000,
+      startRow: 0,
+      dimensionFilterGroups: [
+        {
+          groupType: 'and',
+          filters: ['best', 'running', 'shoes'].map((expression) => ({ dimension: 'query', operator: 'contains', expression })),
+        },
+      ],
+    });
+    expect(cluster.history).toMatchObject({ days: 28, clicks: 15 * 28, impressions: 150 * 28 });
+    expect(cluster).toMatchObject({ rowsScanned: 84, truncated: false });
+    expect(cluster.forecast[0].clicks.expected).toBeCloseTo(15, 0);
+
+    searchAnalytics.mockResolvedValueOnce({
+      data: {
+        rows: dates.flatMap((date) => [
+          { keys: [date, 'https://example.com/help/setup'], clicks: 3, impressions: 30 },
+          { keys: [date, 'https://example.com/blog/post'], clicks: 7, impressions: 70 },
+        ]),
+      },
+    });
+    const template = parseResult<ForecastPayload>(
+      await handleForecastTraffic(service, {
+        siteUrl: SITE,
+        scope: 'template',
+        target: 'docs',
+        templateRules: [{ name: 'docs', pattern: '/help/' }],
+        endDate: '2026-08-28',
+        historyDays: 28,
+        dataSource: 'api',
+      }),
+    );
+    expect(searchAnalytics.mock.calls[1][1].dimensionFilterGroups).toEqual([
+      { groupType: 'and', filters: [{ dimension: 'page', operator: 'contains', expression: '/help/' }] },
+    ]);
+    expect(template.history).toMatchObject({ clicks: 3 * 28, impressions: 30 * 28 });
+  });
+});
@@ -0,0 +1,21 @@
+import { vi } from 'vitest';
+
+import type { SearchConsoleService } from '../src/service.js';
+import type { ToolResult } from '../src/utils/types.js';
+
+/**
+ * Parse the JSON text of a tool result. `T` describes the fields a test
+ * reads; it is not checked against the payload.
+ */
+export function parseResult<T = Record<string, unknown>>(result: ToolResult): T {
+  return JSON.parse(result.content[0]?.text ?? '{}') as T;
+}
+
+/**
+ * A service stub whose `searchAnalytics` runs `answer`. The mock is returned
+ * too, so tests can read the request bodies or queue one-off responses.
+ */
+export function searchAnalyticsService<Body, Response>(answer: (siteUrl: string, body: Body) => Promise<Response>) {
+  const searchAnalytics = vi.fn(answer);
+  return { service: { searchAnalytics } as unknown as SearchConsoleService, searchAnalytics };
+}
@@ -0,0 +1,247 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { afterEach, describe, expect, it } from 'vitest';
+
+import {
+  resolveTransportConfig,
+  startHttpServer,
+  type HttpServerHandle,
+} from '../src/http-server.js';
+
+const AUTH_TOKEN = 'test-shared-token';
+const handles: HttpServerHandle[] = [];
+
+afterEach(async () => {
+  while (handles.length > 0) {
+    await handles.pop()?.close();
+  }
+});
+
+function createCountingServerFactory() {
+  const shared = { calls: 0 };
+  const factory = () => {
+    const server = new Server(
+      { name: 'http-test-server', version: '0.0.0' },
+      { capabilities: { tools: {} } },
+    );
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: [{ name: 'count', description: 'Increments a shared counter', inputSchema: { type: 'object' } }],
+    }));
+    server.setRequestHandler(CallToolRequestSchema, async () => {
+      shared.calls += 1;
+      return { content: [{ type: 'text', text: String(shared.calls) }] };
+    });
+    return server;
+  };
+  return { shared, factory };
+}
+
+async function startTestServer(
+  factory: () => Server,
+  limits: { sessionIdleTimeoutMs?: number; maxSessions?: number } = {},
+): Promise<HttpServerHandle> {
+  const handle = await startHttpServer(factory, { host: '127.0.0.1', port: 0, authToken: AUTH_TOKEN, ...limits });
+  handles.push(handle);
+  return handle;
+}
+
+const authHeaders = { Authorization: `Bearer ${AUTH_TOKEN}` };
+
+describe('resolveTransportConfig', () => {
+  it('defaults to stdio without requiring an auth token', () => {
+    expect(resolveTransportConfig([], {})).toEqual({
+      mode: 'stdio',
+      host: '127.0.0.1',
+      port: 3333,
+      authToken: null,
+      sessionIdleTimeoutMs: 30 * 60 * 1000,
+      maxSessions: 100,
+    });
+  });
+
+  it('lets CLI flags override environment variables', () => {
+    const config = resolveTransportConfig(['--transport', 'http', '--port=8080'], {
+      GSC_TRANSPORT: 'stdio',
+      GSC_HTTP_PORT: '9000',
+      GSC_HTTP_HOST: '0.0.0.0',
+      GSC_HTTP_AUTH_TOKEN: 'secret',
+      GSC_HTTP_SESSION_IDLE_TIMEOUT_MS: '60000',
+      GSC_HTTP_MAX_SESSIONS: '5',
+    });
+
+    expect(config).toEqual({
+      mode: 'http',
+      host: '0.0.0.0',
+      port: 8080,
+      authToken: 'secret',
+      sessionIdleTimeoutMs: 60000,
+      maxSessions: 5,
+    });
+  });
+
+  it('refuses to enable HTTP without a bearer token', () => {
+    expect(() => resolveTransportConfig(['--transport=http'], {})).toThrow(/GSC_HTTP_AUTH_TOKEN/);
+  });
+
+  it('rejects unknown transports and invalid ports', () => {
+    expect(() => resolveTransportConfig(['--transport=websocket'], {})).toThrow(/Unsupported transport/);
+    expect(() => resolveTransportConfig(['--port=abc'], {})).toThrow(/Invalid HTTP port/);
+    expect(() => resolveTransportConfig([], { GSC_HTTP_MAX_SESSIONS: '0' })).toThrow(/Invalid GSC_HTTP_MAX_SESSIONS/);
+  });
+});
+
+describe('HTTP transport', () => {
+  it('rejects requests without a valid bearer token', async () => {
+    const { factory } = createCountingServerFactory();
+    const handle = await startTestServer(factory);
+
+    const missing = await fetch(`${handle.url}/mcp`, { method: 'POST', body: '{}' });
+    const wrong = await fetch(`${handle.url}/mcp`, {
+      method: 'POST',
+      body: '{}',
+      headers: { Authorization: 'Bearer nope' },
+    });
+
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('www-authenticate')).toBe('Bearer');
+    expect(wrong.status).toBe(401);
+  });
+
+  it('serves multiple Streamable HTTP sessions that share process state', async () => {
+    const { shared, factory } = createCountingServerFactory();
+    const handle = await startTestServer(factory);
+
+    const clients = [0, 1].map(
+      () => new Client({ name: 'http-test-client', version: '0.0.0' }, { capabilities: {} }),
+    );
+
+    for (const client of clients) {
+      await client.connect(
+        new StreamableHTTPClientTransport(new URL(`${handle.url}/mcp`), {
+          requestInit: { headers: authHeaders },
+        }),
+      );
+    }
+
+    const tools = await clients[0].listTools();
+    await clients[0].callTool({ name: 'count', arguments: {} });
+    const second = await clients[1].callTool({ name: 'count', arguments: {} });
+
+    expect(tools.tools.map((tool) => tool.name)).toEqual(['count']);
+    expect(handle.activeSessions()).toBe(2);
+    expect(shared.calls).toBe(2);
+    expect((second.content as Array<{ text: string }>)[0]?.text).toBe('2');
+
+    await Promise.all(clients.map((client) => client.close()));
+  });
+
+  it('refuses sessions past maxSessions and evicts idle ones', async () => {
+    const { factory } = createCountingServerFactory();
+    const handle = await startTestServer(factory, { sessionIdleTimeoutMs: 200, maxSessions: 1 });
+    const connect = async () => {
+      const client = new Client({ name: 'http-test-client', version: '0.0.0' }, { capabilities: {} });
+      await client.connect(
+        new StreamableHTTPClientTransport(new URL(`${handle.url}/mcp`), {
+          requestInit: { headers: authHeaders },
+        }),
+      );
+      return client;
+    };
+
+    const first = await connect();
+    await expect(connect()).rejects.toThrow(/Too many open MCP sessions/);
+    expect(handle.activeSessions()).toBe(1);
+
+    // The client goes away without ending its session.
+    await new Promise((resolvePromise) => setTimeout(resolvePromise, 500));
+    expect(handle.activeSessions()).toBe(0);
+    await expect(first.listTools()).rejects.toThrow();
+
+    const second = await connect();
+    expect(handle.activeSessions()).toBe(1);
+    await Promise.all([first.close(), second.close()]);
+  });
+
+  it('holds a slot for initializes in flight and closes servers whose session ends or never starts', async () => {
+    const { factory } = createCountingServerFactory();
+    const closed = new Set<Server>();
+    const tracking = () => {
+      const server = factory();
+      server.onclose = () => closed.add(server);
+      return server;
+    };
+    const handle = await startTestServer(tracking, { maxSessions: 1 });
+    const connect = async () => {
+      const client = new Client({ name: 'http-test-client', version: '0.0.0' }, { capabilities: {} });
+      await client.connect(
+        new StreamableHTTPClientTransport(new URL(`${handle.url}/mcp`), {
+          requestInit: { headers: authHeaders },
+        }),
+      );
+      return client;
+    };
+
+    const results = await Promise.allSettled([connect(), connect()]);
+    expect(results.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(handle.activeSessions()).toBe(1);
+    const client = results.find((result) => result.status === 'fulfilled')!.value;
+    await (client.transport as StreamableHTTPClientTransport).terminateSession();
+    await client.close();
+    await expect.poll(() => handle.activeSessions()).toBe(0);
+    await expect.poll(() => closed.size).toBe(1);
+
+    // The transport rejects this initialize (no text/event-stream in Accept), so no session is registered.
+    const rejected = await fetch(`${handle.url}/mcp`, {
+      method: 'POST',
+      headers: { ...authHeaders, 'content-type': 'application/json', accept: 'application/json' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'x', version: '0' } },
+      }),
+    });
+    expect(rejected.status).toBe(406);
+    await expect.poll(() => closed.size).toBe(2);
+    expect(handle.activeSessions()).toBe(0);
+  });
+
+  it('falls back to the legacy SSE transport', async () => {
+    const { factory } = createCountingServerFactory();
+    const handle = await startTestServer(factory);
+    const client = new Client({ name: 'sse-test-client', version: '0.0.0' }, { capabilities: {} });
+
+    await client.connect(
+      new SSEClientTransport(new URL(`${handle.url}/sse`), {
+        eventSourceInit: {
+          fetch: (url, init) => fetch(url, { ...init, headers: { ...init?.headers, ...authHeaders } }),
+        },
+        requestInit: { headers: authHeaders },
+      }),
+    );
+
+    const result = await client.callTool({ name: 'count', arguments: {} });
+    expect((result.content as Array<{ text: string }>)[0]?.text).toBe('1');
+
+    await client.close();
+  });
+
+  it('rejects non-initialize requests without a session id', async () => {
+    const { factory } = createCountingServerFactory();
+    const handle = await startTestServer(factory);
+
+    const response = await fetch(`${handle.url}/mcp`, {
+      method: 'POST',
+      headers: { ...authHeaders, 'content-type': 'application/json', accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -68,6 +68,11 @@ describe('MCP stdio smoke test', () => {
       expect(toolNames).toContain('health_snapshot');
       expect(toolNames).toContain('search_analytics');
       expect(toolNames.length).toBeGreaterThanOrEqual(35);
+
+      const templates = await client.listResourceTemplates();
+      expect(templates.resourceTemplates.map((template) => template.uriTemplate)).toContain(
+        'gsc://{site}/reports/{requestId}',
+      );
     } catch (error) {
       const stderr = stderrChunks.join('').trim();
       const message =
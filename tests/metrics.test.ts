@@ -0,0 +1,91 @@
+import { afterEach, describe, expect, it } from 'vitest';
+
+import {
+  renderPrometheusMetrics,
+  resolveMetricsConfig,
+  startMetricsServer,
+  type MetricsServerHandle,
+} from '../src/metrics-server.js';
+import { GSCQuotaError, SearchConsoleService, type ApiCallEvent } from '../src/service.js';
+import { RuntimeCoordinator } from '../src/utils/runtime.js';
+
+const handles: MetricsServerHandle[] = [];
+
+afterEach(async () => {
+  await Promise.all(handles.splice(0).map((handle) => handle.close()));
+});
+
+function createRuntime(): RuntimeCoordinator {
+  return new RuntimeCoordinator({ persistencePath: null, cacheStore: null });
+}
+
+describe('Prometheus metrics', () => {
+  it('is disabled unless GSC_METRICS_PORT is set', () => {
+    expect(resolveMetricsConfig({})).toBeNull();
+    expect(resolveMetricsConfig({ GSC_METRICS_PORT: '9464' })).toEqual({ host: '127.0.0.1', port: 9464 });
+    expect(() => resolveMetricsConfig({ GSC_METRICS_PORT: 'abc' })).toThrow(/GSC_METRICS_PORT/);
+  });
+
+  it('reports API calls by family and error code from the service', async () => {
+    const events: ApiCallEvent[] = [];
+    const service = new SearchConsoleService('/tmp/fake-creds.json', undefined, {
+      onApiCall: (event) => events.push(event),
+    });
+    (service as unknown as { getWebmasters: () => Promise<unknown> }).getWebmasters = async () => ({
+      searchanalytics: {
+        query: async () => {
+          throw Object.assign(new Error("Quota exceeded for quota metric 'Queries per day'"), { code: 429 });
+        },
+      },
+      sitemaps: { list: async () => ({ data: { sitemap: [] } }) },
+    });
+
+    await expect(service.searchAnalytics('sc-domain:example.com', {})).rejects.toBeInstanceOf(GSCQuotaError);
+    await service.listSitemaps({ siteUrl: 'sc-domain:example.com' });
+
+    expect(events).toEqual([
+      expect.objectContaining({ family: 'searchanalytics', status: 'error', errorCode: 'QUOTA_ERROR' }),
+      expect.objectContaining({ family: 'sitemaps', siteUrl: 'sc-domain:example.com', status: 'success' }),
+    ]);
+  });
+
+  it('renders cumulative latency buckets, cache counters, and API errors', async () => {
+    const runtime = createRuntime();
+    runtime.recordToolExecution('search_analytics', 'success', 40);
+    runtime.recordToolExecution('search_analytics', 'failure', 45_000);
+    runtime.recordApiCall({ family: 'searchanalytics', method: 'query', latencyMs: 30, rateLimitWaitMs: 0, status: 'error', errorCode: 'QUOTA_ERROR' });
+    runtime.recordApiCall({ family: 'searchanalytics', method: 'query', latencyMs: 20, rateLimitWaitMs: 0, status: 'success' });
+    const cacheKey = runtime.buildCacheKey('list_sites', {});
+    await runtime.getCached(cacheKey);
+
+    const text = renderPrometheusMetrics(runtime.getMetricsSnapshot());
+
+    expect(text).toContain('# TYPE gsc_tool_latency_seconds histogram');
+    expect(text).toContain('gsc_tool_latency_seconds_bucket{tool="search_analytics",le="0.025"} 0');
+    expect(text).toContain('gsc_tool_latency_seconds_bucket{tool="search_analytics",le="0.05"} 1');
+    expect(text).toContain('gsc_tool_latency_seconds_bucket{tool="search_analytics",le="30"} 1');
+    expect(text).toContain('gsc_tool_latency_seconds_bucket{tool="search_analytics",le="+Inf"} 2');
+    expect(text).toContain('gsc_tool_latency_seconds_sum{tool="search_analytics"} 45.04');
+    expect(text).toContain('gsc_tool_calls_total{tool="search_analytics",status="failure"} 1');
+    expect(text).toContain('gsc_api_calls_total{family="searchanalytics",status="success"} 1');
+    expect(text).toContain('gsc_api_errors_total{family="searchanalytics",code="QUOTA_ERROR"} 1');
+    expect(text).toContain('gsc_cache_misses_total{store="memory"} 1');
+    expect(text).toContain('gsc_quota_global_budget_units 5000');
+    expect(text.endsWith('\n')).toBe(true);
+  });
+
+  it('serves /metrics over HTTP', async () => {
+    const runtime = createRuntime();
+    runtime.recordToolExecution('list_sites', 'success', 5);
+    const handle = await startMetricsServer(() => runtime.getMetricsSnapshot(), { host: '127.0.0.1', port: 0 });
+    handles.push(handle);
+
+    const response = await fetch(`${handle.url}/metrics`);
+    const missing = await fetch(`${handle.url}/other`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('text/plain; version=0.0.4');
+    expect(await response.text()).toContain('gsc_tool_calls_total{tool="list_sites",status="success"} 1');
+    expect(missing.status).toBe(404);
+  });
+});
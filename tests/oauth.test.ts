@@ -0,0 +1,190 @@
+import { mkdtempSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { GSCAuthError, SearchConsoleService } from '../src/service.js';
+import { createCredentialRouter } from '../src/utils/credentials.js';
+import {
+  loadOAuthClient,
+  resolveOAuthClientConfig,
+  runOAuthLogin,
+  type OAuthClientConfig,
+} from '../src/utils/oauth.js';
+
+interface TokenRequest {
+  grant_type: string | null;
+  refresh_token: string | null;
+  code: string | null;
+  code_verifier: string | null;
+}
+
+const servers: Server[] = [];
+
+afterEach(async () => {
+  while (servers.length > 0) {
+    const server = servers.pop()!;
+    await new Promise<void>((resolvePromise) => server.close(() => resolvePromise()));
+  }
+});
+
+/** A fake token endpoint that records requests and replies with `respond`. */
+async function startTokenEndpoint(
+  respond: (request: TokenRequest) => { status: number; body: Record<string, unknown> },
+): Promise<{ url: string; requests: TokenRequest[] }> {
+  const requests: TokenRequest[] = [];
+  const server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk: Buffer) => {
+      raw += chunk.toString('utf8');
+    });
+    req.on('end', () => {
+      const params = new URLSearchParams(raw);
+      const request = {
+        grant_type: params.get('grant_type'),
+        refresh_token: params.get('refresh_token'),
+        code: params.get('code'),
+        code_verifier: params.get('code_verifier'),
+      };
+      requests.push(request);
+      const { status, body } = respond(request);
+      res.writeHead(status, { 'content-type': 'application/json' }).end(JSON.stringify(body));
+    });
+  });
+  servers.push(server);
+  await new Promise<void>((resolvePromise) => server.listen(0, '127.0.0.1', resolvePromise));
+  return { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/token`, requests };
+}
+
+function createConfig(tokenUrl: string, stored?: Record<string, unknown>): OAuthClientConfig {
+  const tokenPath = join(mkdtempSync(join(tmpdir(), 'gsc-oauth-')), 'oauth-token.json');
+  if (stored) {
+    writeFileSync(tokenPath, JSON.stringify(stored));
+  }
+  return { clientId: 'client-id', clientSecret: 'client-secret', tokenPath, tokenUrl };
+}
+
+describe('OAuth client config', () => {
+  it('requires both client id and secret', () => {
+    expect(resolveOAuthClientConfig({ GSC_OAUTH_CLIENT_ID: 'id' })).toBeNull();
+    expect(
+      resolveOAuthClientConfig({
+        GSC_OAUTH_CLIENT_ID: 'id',
+        GSC_OAUTH_CLIENT_SECRET: 'secret',
+        GSC_OAUTH_TOKEN_PATH: '/tmp/token.json',
+      }),
+    ).toEqual({ clientId: 'id', clientSecret: 'secret', tokenPath: '/tmp/token.json' });
+  });
+
+  it('routes to an OAuth default account when no service account is configured', () => {
+    const router = createCredentialRouter({
+      GSC_OAUTH_CLIENT_ID: 'id',
+      GSC_OAUTH_CLIENT_SECRET: 'secret',
+      GSC_OAUTH_TOKEN_PATH: '/tmp/token.json',
+    });
+    const account = router!.resolve('sc-domain:example.com');
+
+    expect(account).toEqual({ id: 'default', oauthTokenFile: '/tmp/token.json', sites: ['*'] });
+    expect(router!.credentialsFor(account)).toEqual({
+      clientId: 'id',
+      clientSecret: 'secret',
+      tokenPath: '/tmp/token.json',
+    });
+  });
+});
+
+describe('OAuth token refresh', () => {
+  it('refreshes an expired access token and persists it alongside the refresh token', async () => {
+    const endpoint = await startTokenEndpoint(() => ({
+      status: 200,
+      body: { access_token: 'fresh-access', expires_in: 3600, token_type: 'Bearer' },
+    }));
+    const config = createConfig(endpoint.url, {
+      refresh_token: 'stored-refresh',
+      access_token: 'stale-access',
+      expiry_date: Date.now() - 1000,
+    });
+
+    const client = loadOAuthClient(config)!;
+    const { token } = await client.getAccessToken();
+    const persisted = JSON.parse(readFileSync(config.tokenPath, 'utf8')) as Record<string, unknown>;
+
+    expect(token).toBe('fresh-access');
+    expect(endpoint.requests).toEqual([
+      expect.objectContaining({ grant_type: 'refresh_token', refresh_token: 'stored-refresh' }),
+    ]);
+    expect(persisted).toMatchObject({ refresh_token: 'stored-refresh', access_token: 'fresh-access' });
+    expect(statSync(config.tokenPath).mode & 0o777).toBe(0o600);
+  });
+
+  it('surfaces a revoked refresh token as GSCAuthError', async () => {
+    const endpoint = await startTokenEndpoint(() => ({
+      status: 400,
+      body: { error: 'invalid_grant', error_description: 'Token has been expired or revoked.' },
+    }));
+    const config = createConfig(endpoint.url, { refresh_token: 'revoked-refresh' });
+    const service = new SearchConsoleService(config);
+
+    const error = await service.listSites().catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(GSCAuthError);
+    expect((error as GSCAuthError).message).toContain('auth login');
+  });
+
+  it('reports a missing token file as GSCAuthError', async () => {
+    const service = new SearchConsoleService(createConfig('http://127.0.0.1:1/token'));
+
+    await expect(service.listSites()).rejects.toThrow(/No OAuth refresh token found/);
+  });
+});
+
+describe('runOAuthLogin', () => {
+  it('exchanges the loopback redirect code with PKCE and stores the refresh token', async () => {
+    const endpoint = await startTokenEndpoint(() => ({
+      status: 200,
+      body: { access_token: 'new-access', refresh_token: 'new-refresh', expires_in: 3600, scope: 'webmasters' },
+    }));
+    const config = createConfig(endpoint.url);
+
+    const result = await runOAuthLogin(config, {
+      timeoutMs: 5000,
+      openUrl: async (authUrl) => {
+        const params = new URL(authUrl).searchParams;
+        const callback = new URL(params.get('redirect_uri')!);
+        callback.searchParams.set('code', 'auth-code');
+        callback.searchParams.set('state', params.get('state')!);
+        expect(params.get('access_type')).toBe('offline');
+        expect(params.get('code_challenge_method')).toBe('S256');
+        void fetch(callback);
+      },
+    });
+
+    expect(result).toEqual({ tokenPath: config.tokenPath, scope: 'webmasters' });
+    expect(endpoint.requests[0]).toMatchObject({ grant_type: 'authorization_code', code: 'auth-code' });
+    expect(endpoint.requests[0]?.code_verifier).toBeTruthy();
+    expect(JSON.parse(readFileSync(config.tokenPath, 'utf8'))).toMatchObject({ refresh_token: 'new-refresh' });
+  });
+
+  it('rejects a callback with a mismatched state', async () => {
+    const endpoint = await startTokenEndpoint(() => ({ status: 200, body: {} }));
+    const config = createConfig(endpoint.url);
+    let callbackStatus = 0;
+
+    await expect(
+      runOAuthLogin(config, {
+        timeoutMs: 300,
+        openUrl: async (authUrl) => {
+          const callback = new URL(new URL(authUrl).searchParams.get('redirect_uri')!);
+          callback.searchParams.set('code', 'auth-code');
+          callback.searchParams.set('state', 'forged');
+          callbackStatus = (await fetch(callback)).status;
+        },
+      }),
+    ).rejects.toThrow(/Timed out/);
+    expect(callbackStatus).toBe(400);
+    expect(endpoint.requests).toHaveLength(0);
+  });
+});
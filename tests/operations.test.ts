@@ -88,6 +88,7 @@ describe('Phase 6 observability utilities', () => {
       status: 'success',
       latencyMs: 50,
       retries: 0,
+      rateLimitWaitMs: 0,
       quotaUnitsEstimated: 0,
       quotaUnitsReserved: 0,
       cacheHit: false,
@@ -0,0 +1,171 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { OtlpTelemetrySink, resolveOtlpConfig, type OtlpConfig } from '../src/utils/otlp.js';
+import { withRetry } from '../src/utils/retry.js';
+import type { TelemetryEvent } from '../src/utils/telemetry.js';
+import { setSpanProcessor, traceApiClient, withSpan } from '../src/utils/tracing.js';
+
+interface CollectedRequest {
+  path: string;
+  headers: Record<string, string | string[] | undefined>;
+  body: Record<string, any>;
+}
+
+/** Minimal in-process OTLP/HTTP JSON collector. */
+async function startCollector(status = 200): Promise<{ url: string; requests: CollectedRequest[]; server: Server }> {
+  const requests: CollectedRequest[] = [];
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      requests.push({
+        path: req.url ?? '',
+        headers: req.headers,
+        body: JSON.parse(Buffer.concat(chunks).toString('utf8')) as Record<string, any>,
+      });
+      res.writeHead(status, { 'content-type': 'application/json' }).end('{}');
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, requests, server };
+}
+
+const servers: Server[] = [];
+
+afterEach(async () => {
+  setSpanProcessor(null);
+  await Promise.all(servers.splice(0).map((server) => new Promise((resolve) => server.close(resolve))));
+});
+
+function config(endpoint: string): OtlpConfig {
+  return {
+    endpoint,
+    headers: { authorization: 'Bearer test' },
+    serviceName: 'gsc-test',
+    spanFlushIntervalMs: 60_000,
+    metricExportIntervalMs: 60_000,
+    timeoutMs: 2_000,
+  };
+}
+
+function event(overrides: Partial<TelemetryEvent>): TelemetryEvent {
+  return {
+    timestamp: new Date().toISOString(),
+    requestId: 'req-1',
+    toolName: 'search_analytics',
+    mode: 'full',
+    status: 'success',
+    latencyMs: 40,
+    retries: 0,
+    rateLimitWaitMs: 0,
+    quotaUnitsEstimated: 1,
+    quotaUnitsReserved: 1,
+    cacheHit: false,
+    idempotencyReplay: false,
+    ...overrides,
+  };
+}
+
+describe('OTLP telemetry export', () => {
+  it('reads the standard OTEL exporter variables', () => {
+    expect(resolveOtlpConfig({})).toBeNull();
+    expect(
+      resolveOtlpConfig({
+        OTEL_EXPORTER_OTLP_ENDPOINT: 'http://collector:4318/',
+        OTEL_EXPORTER_OTLP_HEADERS: 'x-api-key=abc%3D,x-team=seo',
+        OTEL_BSP_SCHEDULE_DELAY: '1000',
+      }),
+    ).toMatchObject({
+      endpoint: 'http://collector:4318',
+      headers: { 'x-api-key': 'abc=', 'x-team': 'seo' },
+      serviceName: 'mcp-server-gsc-pro',
+      spanFlushIntervalMs: 1000,
+      metricExportIntervalMs: 60000,
+    });
+  });
+
+  it('exports a tool span with retry-attempt and googleapis child spans', async () => {
+    const collector = await startCollector();
+    servers.push(collector.server);
+    const sink = new OtlpTelemetrySink(config(collector.url));
+    setSpanProcessor(sink);
+
+    const client = traceApiClient(
+      {
+        searchanalytics: {
+          query: vi
+            .fn()
+            .mockRejectedValueOnce(Object.assign(new Error('backend error'), { code: 503 }))
+            .mockResolvedValue({ status: 200, data: { rows: [] } }),
+        },
+      },
+      'webmasters',
+    );
+
+    await withSpan('tools/call search_analytics', { attributes: { 'gsc.tool.name': 'search_analytics' } }, async () => {
+      await withRetry(() => client.searchanalytics.query({ siteUrl: 'sc-domain:example.com' }), { baseDelayMs: 1 });
+      sink.emit(event({ retries: 1 }));
+    });
+    await sink.flushSpans();
+
+    expect(collector.requests).toHaveLength(1);
+    const [request] = collector.requests;
+    expect(request!.path).toBe('/v1/traces');
+    expect(request!.headers.authorization).toBe('Bearer test');
+    const spans = request!.body.resourceSpans[0].scopeSpans[0].spans as Array<Record<string, any>>;
+    const byName = (name: string) => spans.filter((span) => span.name === name);
+    const [root] = byName('tools/call search_analytics');
+    const attempts = byName('retry.attempt');
+    const apiCalls = byName('webmasters.searchanalytics.query');
+
+    expect(root).toMatchObject({ kind: 1, status: { code: 1 } });
+    expect(root!.parentSpanId).toBeUndefined();
+    expect(root!.attributes).toContainEqual({ key: 'gsc.retries', value: { intValue: '1' } });
+    expect(attempts.map((span) => span.parentSpanId)).toEqual([root!.spanId, root!.spanId]);
+    expect(attempts.map((span) => span.status.code)).toEqual([2, 1]);
+    expect(apiCalls.map((span) => span.parentSpanId)).toEqual(attempts.map((span) => span.spanId));
+    expect(apiCalls[0]).toMatchObject({ kind: 3, status: { code: 2, message: 'backend error' } });
+    expect(apiCalls[0]!.attributes).toContainEqual({ key: 'http.response.status_code', value: { intValue: '503' } });
+    expect(new Set(spans.map((span) => span.traceId))).toEqual(new Set([root!.traceId]));
+  });
+
+  it('exports latency histograms and retry, cache-hit, and quota counters', async () => {
+    const collector = await startCollector();
+    servers.push(collector.server);
+    const sink = new OtlpTelemetrySink(config(collector.url));
+
+    sink.emit(event({ latencyMs: 40, retries: 2, quotaUnitsReserved: 5 }));
+    sink.emit(event({ latencyMs: 3, cacheHit: true, quotaUnitsReserved: 0 }));
+    sink.emit(event({ latencyMs: 45_000, status: 'error', errorCode: 'QUOTA_EXCEEDED' }));
+    await sink.exportMetrics();
+
+    const metrics = collector.requests[0]!.body.resourceMetrics[0].scopeMetrics[0].metrics as Array<Record<string, any>>;
+    const metric = (name: string) => metrics.find((entry) => entry.name === name)!;
+    const histogram = metric('gsc.tool.duration').histogram.dataPoints[0];
+    const sumOf = (name: string) =>
+      (metric(name).sum.dataPoints as Array<{ asInt: string }>).reduce((total, point) => total + Number(point.asInt), 0);
+
+    expect(collector.requests[0]!.path).toBe('/v1/metrics');
+    expect(histogram).toMatchObject({ count: '3', sum: 45_043, min: 3, max: 45_000 });
+    expect(histogram.bucketCounts).toEqual(['1', '0', '0', '1', '0', '0', '0', '0', '0', '0', '0', '0', '1']);
+    expect(sumOf('gsc.tool.retries')).toBe(2);
+    expect(sumOf('gsc.tool.cache_hits')).toBe(1);
+    expect(sumOf('gsc.tool.quota_units')).toBe(6);
+    expect(metric('gsc.tool.calls').sum.dataPoints).toHaveLength(2);
+  });
+
+  it('swallows collector failures', async () => {
+    const collector = await startCollector(503);
+    servers.push(collector.server);
+    const sink = new OtlpTelemetrySink(config(collector.url));
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    sink.emit(event({}));
+
+    await expect(sink.flush()).resolves.toBeUndefined();
+    expect(consoleError).toHaveBeenCalledTimes(1);
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import type { SearchConsoleService } from '../src/service.js';
+import { handleBatchInspect } from '../src/tools/computed.js';
+import { handleIndexingHealthReport } from '../src/tools/computed2.js';
+import { handleRunSeoAuditWorkflow } from '../src/tools/workflow.js';
+import { paginateSearchAnalytics } from '../src/utils/pagination.js';
+import {
+  ProgressReporter,
+  reportProgress,
+  withProgressReporter,
+  withProgressStep,
+  type ProgressUpdate,
+} from '../src/utils/progress.js';
+
+function collect(): { updates: ProgressUpdate[]; reporter: ProgressReporter } {
+  const updates: ProgressUpdate[] = [];
+  return { updates, reporter: new ProgressReporter((update) => updates.push(update)) };
+}
+
+const inspected = { data: { inspectionResult: { indexStatusResult: { verdict: 'PASS', coverageState: 'Indexed' } } } };
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('MCP progress notifications', () => {
+  it('only emits increasing progress and maps steps into the parent range', async () => {
+    const { updates, reporter } = collect();
+
+    await withProgressReporter(reporter, async () => {
+      reportProgress(0.5, 2, 'start');
+      reportProgress(0.5, 2, 'repeat');
+      await withProgressStep(1, 2, 'step 2/2: inner', async () => {
+        reportProgress(1, 2, 'half');
+      });
+    });
+    reportProgress(5, 5, 'outside any tool call');
+
+    expect(updates).toEqual([
+      { progress: 0.5, total: 2, message: 'start' },
+      { progress: 1, total: 2, message: 'step 2/2: inner' },
+      { progress: 1.495, total: 2, message: 'step 2/2: inner: half' },
+    ]);
+  });
+
+  it('reports inspected URLs for batch_inspect', async () => {
+    vi.useFakeTimers();
+    const { updates, reporter } = collect();
+    const service = { indexInspect: vi.fn().mockResolvedValue(inspected) } as unknown as SearchConsoleService;
+    const urls = ['https://example.com/a', 'https://example.com/b', 'https://example.com/c'];
+
+    const pending = withProgressReporter(reporter, () =>
+      handleBatchInspect(service, { siteUrl: 'sc-domain:example.com', urls }),
+    );
+    await vi.runAllTimersAsync();
+    await pending;
+
+    expect(updates.map((update) => update.message)).toEqual([
+      'inspected 1/3 URLs',
+      'inspected 2/3 URLs',
+      'inspected 3/3 URLs',
+    ]);
+    expect(updates.at(-1)).toMatchObject({ progress: 3, total: 3 });
+  });
+
+  it('reports pages fetched and indexing_health_report inspection progress', async () => {
+    vi.useFakeTimers();
+    const { updates, reporter } = collect();
+    const row = { keys: ['https://example.com/a'], clicks: 1, impressions: 1, ctr: 1, position: 1 };
+    const service = {
+      searchAnalytics: vi.fn().mockResolvedValue({ data: { rows: [row, row] } }),
+      indexInspect: vi.fn().mockResolvedValue(inspected),
+    } as unknown as SearchConsoleService;
+
+    await withProgressReporter(reporter, () =>
+      paginateSearchAnalytics(service, 'sc-domain:example.com', {}, { pageSize: 2, maxRows: 4 }),
+    );
+    expect(updates).toEqual([
+      { progress: 2, total: 4, message: 'fetched 2 rows' },
+      { progress: 4, total: 4, message: 'fetched 4 rows' },
+    ]);
+
+    const nested = collect();
+    const report = withProgressReporter(nested.reporter, () =>
+      handleIndexingHealthReport(service, {
+        siteUrl: 'sc-domain:example.com',
+        source: 'manual',
+        urls: ['https://example.com/a', 'https://example.com/b'],
+      }),
+    );
+    await vi.runAllTimersAsync();
+    await report;
+    expect(nested.updates.map((update) => update.message)).toEqual([
+      'inspecting URLs',
+      'inspecting URLs: inspected 1/2 URLs',
+      'inspecting URLs: inspected 2/2 URLs',
+    ]);
+  });
+
+  it('reports each run_seo_audit_workflow step', async () => {
+    const { updates, reporter } = collect();
+    const service = {
+      searchAnalytics: vi.fn().mockResolvedValue({ data: { rows: [] } }),
+      runPageSpeed: vi.fn().mockResolvedValue({ data: {} }),
+      cruxQueryRecord: vi.fn().mockRejectedValue(new Error('No CrUX data')),
+    } as unknown as SearchConsoleService;
+
+    await withProgressReporter(reporter, () =>
+      handleRunSeoAuditWorkflow(service, { siteUrl: 'sc-domain:example.com', days: 7, profile: 'content' }),
+    );
+
+    expect(updates.filter((update) => Number.isInteger(update.progress))).toEqual([
+      { progress: 0, total: 3, message: 'step 1/3: detect_quick_wins' },
+      { progress: 1, total: 3, message: 'step 2/3: detect_content_decay' },
+      { progress: 2, total: 3, message: 'step 3/3: recommend_next_actions' },
+    ]);
+  });
+});
@@ -0,0 +1,69 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { describe, expect, it, vi } from 'vitest';
+
+import { PROMPTS, attachPrompts, followUpChain, renderPrompt } from '../src/prompts.js';
+import { TOOL_REGISTRY } from '../src/tool-registry.js';
+import { jsonResult } from '../src/utils/types.js';
+
+const SITE = 'sc-domain:example.com';
+const SCHEMAS = new Map(TOOL_REGISTRY.map((tool) => [tool.name, tool.schema]));
+
+describe('MCP prompts', () => {
+  it('only references registered tools with arguments their schemas accept', () => {
+    for (const prompt of PROMPTS) {
+      const args = { siteUrl: SITE, page: 'https://example.com/a', sitemapUrl: 'https://example.com/sitemap.xml' };
+      for (const step of prompt.steps(args)) {
+        const schema = SCHEMAS.get(step.tool);
+        expect(schema, `${prompt.name} → ${step.tool}`).toBeDefined();
+        if (!JSON.stringify(step.args).includes('<')) {
+          expect(() => schema!.parse(step.args), `${prompt.name} → ${step.tool}`).not.toThrow();
+        }
+      }
+    }
+  });
+
+  it('renders numbered tool steps and the suggested follow-up chain', () => {
+    const result = renderPrompt('diagnose_traffic_drop', { siteUrl: SITE, days: '14' });
+    const text = result.messages[0]!.content.type === 'text' ? result.messages[0]!.content.text : '';
+
+    expect(text).toContain(`1. \`drop_alerts\` {"siteUrl":"${SITE}","days":14}`);
+    expect(text).toContain('<worst page from drop_alerts>');
+    expect(text).toContain(`page_health_dashboard → ${followUpChain('page_health_dashboard').join(' → ')}`);
+    expect(followUpChain('drop_alerts')).toEqual(['compare_periods', 'detect_content_decay']);
+  });
+
+  it('rejects unknown prompts and missing required arguments', () => {
+    expect(() => renderPrompt('nope', {})).toThrow(/Unknown prompt/);
+    expect(() => renderPrompt('triage_sitemap_indexing', { siteUrl: SITE })).toThrow(/sitemapUrl/);
+  });
+
+  it('lists prompts and completes siteUrl from list_sites', async () => {
+    const callTool = vi.fn(async () =>
+      jsonResult({ siteEntry: [{ siteUrl: SITE }, { siteUrl: 'https://shop.example.org/' }] }),
+    );
+    const server = new Server(
+      { name: 'prompts-test', version: '1.0.0' },
+      { capabilities: { prompts: {}, completions: {} } },
+    );
+    attachPrompts(server, callTool);
+    const client = new Client({ name: 'prompts-test-client', version: '1.0.0' }, { capabilities: {} });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    try {
+      const { prompts } = await client.listPrompts();
+      const completion = await client.complete({
+        ref: { type: 'ref/prompt', name: 'monthly_client_report' },
+        argument: { name: 'siteUrl', value: 'SHOP' },
+      });
+
+      expect(prompts.map((prompt) => prompt.name)).toEqual(PROMPTS.map((prompt) => prompt.name));
+      expect(completion.completion).toMatchObject({ values: ['https://shop.example.org/'], total: 1 });
+      expect(callTool).toHaveBeenCalledWith('list_sites', { mode: 'full' }, undefined);
+    } finally {
+      await client.close();
+    }
+  });
+});
@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { SearchConsoleService, type ApiCallEvent } from '../src/service.js';
+import type { ApiQuotaLimit } from '../src/utils/api-quota.js';
+import { withCancellationScope } from '../src/utils/cancellation.js';
+import { ApiRateLimiter, TokenBucket, withRateLimitTraceContext } from '../src/utils/rate-limiter.js';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('client-side rate limiting', () => {
+  it('serves a burst immediately, then queues callers in arrival order', () => {
+    const bucket = new TokenBucket(2, 1 / 1000, 0);
+
+    expect([bucket.take(0), bucket.take(0), bucket.take(0), bucket.take(0)]).toEqual([0, 0, 1000, 2000]);
+    expect(bucket.take(10_000)).toBe(0);
+  });
+
+  it('never lets a sliding 60-second window exceed the per-minute limit', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'Date'] });
+    vi.setSystemTime(0);
+    const limiter = new ApiRateLimiter([{ family: 'crux', window: 'minute', scope: 'project', limit: 150 }]);
+    const sentAt: number[] = [];
+
+    const requests = Array.from({ length: 400 }, () =>
+      limiter.acquire({ family: 'crux', method: 'queryRecord' }).then(() => sentAt.push(Date.now())),
+    );
+    await vi.runAllTimersAsync();
+    await Promise.all(requests);
+
+    const inWindow = (start: number) => sentAt.filter((time) => time >= start && time < start + 60_000).length;
+    const maxInWindow = Math.max(...sentAt.map(inWindow));
+    expect(sentAt).toHaveLength(400);
+    expect(maxInWindow).toBeLessThanOrEqual(150);
+    expect(maxInWindow).toBeGreaterThan(140);
+  });
+
+  it('keeps separate buckets per property for property-scoped limits', async () => {
+    const limits: ApiQuotaLimit[] = [
+      { family: 'urlInspection', window: 'minute', scope: 'property', limit: 20 },
+      { family: 'urlInspection', window: 'day', scope: 'property', limit: 1 },
+    ];
+    const limiter = new ApiRateLimiter(limits);
+    const inspect = (siteUrl: string) => limiter.acquire({ family: 'urlInspection', method: 'inspect', siteUrl });
+
+    expect(await inspect('sc-domain:a.example')).toBe(0);
+    expect(await inspect('sc-domain:b.example')).toBe(0);
+    expect(await limiter.acquire({ family: 'sitemaps', method: 'list' })).toBe(0);
+  });
+
+  it('returns the tokens of a call cancelled while it waits', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'Date'] });
+    vi.setSystemTime(0);
+    const limiter = new ApiRateLimiter([{ family: 'crux', window: 'minute', scope: 'project', limit: 20 }]);
+    const call = { family: 'crux', method: 'queryRecord' } as const;
+    const interval = Math.ceil(60_000 / 19);
+    const controller = new AbortController();
+
+    expect(await limiter.acquire(call)).toBe(0);
+    const cancelled = withCancellationScope({ signal: controller.signal, quotaUnitsSpent: 0 }, () =>
+      limiter.acquire(call),
+    );
+    controller.abort(new Error('cancelled'));
+    await expect(cancelled).rejects.toThrow('cancelled');
+    await expect(
+      withCancellationScope({ signal: controller.signal, quotaUnitsSpent: 0 }, () => limiter.acquire(call)),
+    ).rejects.toThrow('cancelled');
+
+    // Without the refunds this call would queue behind both cancelled ones.
+    const next = limiter.acquire(call);
+    await vi.runAllTimersAsync();
+    expect(await next).toBe(interval);
+  });
+
+  it('makes service fan-outs wait for tokens and reports the wait', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'Date'] });
+    vi.setSystemTime(0);
+    const events: ApiCallEvent[] = [];
+    const service = new SearchConsoleService('/tmp/fake-creds.json', 'key', {
+      rateLimiter: new ApiRateLimiter([{ family: 'crux', window: 'minute', scope: 'project', limit: 20 }]),
+      onApiCall: (event) => events.push(event),
+    });
+    const queryRecord = vi.fn().mockResolvedValue({ data: {} });
+    (service as unknown as { getCrUX: () => unknown }).getCrUX = () => ({ records: { queryRecord } });
+
+    const traced = withRateLimitTraceContext(() =>
+      Promise.all([1, 2, 3].map((n) => service.cruxQueryRecord({ origin: `https://${n}.example` }))),
+    );
+    await vi.runAllTimersAsync();
+    const { waitMs } = await traced;
+
+    // Bucket of 1 refilled at 19/min: the 2nd and 3rd calls wait one and two refill intervals.
+    const interval = Math.ceil(60_000 / 19);
+    expect(queryRecord).toHaveBeenCalledTimes(3);
+    expect(events.map((event) => event.rateLimitWaitMs)).toEqual([0, interval, 2 * interval]);
+    expect(waitMs).toBe(3 * interval);
+  });
+
+  it('admits and meters the permission-fallback request separately', async () => {
+    const acquire = vi.fn().mockResolvedValue(0);
+    const reserveApiQuota = vi.fn();
+    const service = new SearchConsoleService('/tmp/fake-creds.json', undefined, {
+      rateLimiter: { acquire },
+      reserveApiQuota,
+    });
+    const get = vi
+      .fn()
+      .mockRejectedValueOnce(Object.assign(new Error('Forbidden'), { code: 403 }))
+      .mockResolvedValueOnce({ data: { siteUrl: 'https://example.com/' } });
+    (service as unknown as { getWebmasters: () => Promise<unknown> }).getWebmasters = async () => ({ sites: { get } });
+
+    await service.getSite('example.com');
+
+    expect(get).toHaveBeenCalledTimes(2);
+    expect(acquire).toHaveBeenCalledTimes(2);
+    expect(reserveApiQuota).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,148 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { ResourceCatalog, parseResourceUri, siteResourceUri } from '../src/resources.js';
+import { RuntimeCoordinator } from '../src/utils/runtime.js';
+import { jsonResult, type ToolResult } from '../src/utils/types.js';
+
+const SITE = 'https://example.com/';
+
+const clients: Client[] = [];
+
+afterEach(async () => {
+  await Promise.all(clients.splice(0).map((client) => client.close()));
+});
+
+function fakeToolCaller() {
+  return vi.fn(async (name: string, args: Record<string, unknown>): Promise<ToolResult> => {
+    if (name === 'list_sites') {
+      return jsonResult({ siteEntry: [{ siteUrl: SITE }, { siteUrl: 'sc-domain:example.org' }] });
+    }
+    return jsonResult({ sitemap: [{ path: `${String(args.siteUrl)}sitemap.xml` }] });
+  });
+}
+
+function textOf(result: { contents: Array<Record<string, unknown>> }): string {
+  return String(result.contents[0]?.text ?? '');
+}
+
+async function connect(catalog: ResourceCatalog): Promise<Client> {
+  const server = new Server(
+    { name: 'resources-test', version: '1.0.0' },
+    { capabilities: { resources: { subscribe: true, listChanged: true } } },
+  );
+  catalog.attach(server);
+  const client = new Client({ name: 'resources-test-client', version: '1.0.0' }, { capabilities: {} });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  clients.push(client);
+  return client;
+}
+
+async function cacheReport(
+  runtime: RuntimeCoordinator,
+  catalog: ResourceCatalog,
+  requestId: string,
+  toolName: string,
+  payload: Record<string, unknown>,
+  refreshed = true,
+): Promise<void> {
+  const args = { siteUrl: SITE, days: 28 };
+  const cacheKey = runtime.buildCacheKey(toolName, args);
+  const result = jsonResult(payload);
+  await runtime.setCached(cacheKey, toolName, result);
+  catalog.recordReport({ requestId, toolName, args, cacheKey, result }, refreshed);
+}
+
+describe('MCP resources', () => {
+  it('round-trips site URIs', () => {
+    const uri = siteResourceUri(SITE, 'reports/abc-123');
+
+    expect(uri).toBe('gsc://https%3A%2F%2Fexample.com%2F/reports/abc-123');
+    expect(parseResourceUri(uri)).toEqual({ kind: 'report', siteUrl: SITE, requestId: 'abc-123' });
+    expect(parseResourceUri('gsc://sites')).toEqual({ kind: 'sites' });
+    expect(parseResourceUri(siteResourceUri(SITE, 'workflow/latest.html'))).toMatchObject({ document: 'html' });
+    expect(parseResourceUri('gsc://example.com/unknown')).toBeNull();
+  });
+
+  it('lists sites, per-site sitemaps, and cached reports', async () => {
+    const runtime = new RuntimeCoordinator({ persistencePath: null, cacheStore: null });
+    const callTool = fakeToolCaller();
+    const catalog = new ResourceCatalog(runtime, callTool);
+    await cacheReport(runtime, catalog, 'req-1', 'detect_quick_wins', { quickWins: [] });
+    await cacheReport(runtime, catalog, 'req-2', 'run_seo_audit_workflow', { markdownReport: '# Audit' });
+    const client = await connect(catalog);
+
+    const { resources } = await client.listResources();
+    const uris = resources.map((resource) => resource.uri);
+
+    expect(uris).toEqual([
+      'gsc://sites',
+      siteResourceUri(SITE, 'sitemaps'),
+      siteResourceUri('sc-domain:example.org', 'sitemaps'),
+      siteResourceUri(SITE, 'reports/req-1'),
+      siteResourceUri(SITE, 'reports/req-2'),
+      siteResourceUri(SITE, 'workflow/latest.md'),
+    ]);
+    expect((await client.listResourceTemplates()).resourceTemplates).toHaveLength(4);
+
+    const sitemaps = await client.readResource({ uri: siteResourceUri(SITE, 'sitemaps') });
+    expect(callTool).toHaveBeenCalledWith('list_sitemaps', { siteUrl: SITE, mode: 'full' }, undefined);
+    expect(JSON.parse(textOf(sitemaps))).toEqual({
+      sitemap: [{ path: 'https://example.com/sitemap.xml' }],
+    });
+  });
+
+  it('reads cached reports and the latest workflow document', async () => {
+    const runtime = new RuntimeCoordinator({ persistencePath: null, cacheStore: null });
+    const catalog = new ResourceCatalog(runtime, fakeToolCaller());
+    await cacheReport(runtime, catalog, 'req-1', 'detect_quick_wins', { quickWins: [{ query: 'shoes' }] });
+    await cacheReport(runtime, catalog, 'req-2', 'run_seo_audit_workflow', {
+      markdownReport: '# Audit',
+      htmlReport: '<h1>Audit</h1>',
+    });
+    const client = await connect(catalog);
+
+    const report = await client.readResource({ uri: siteResourceUri(SITE, 'reports/req-1') });
+    const html = await client.readResource({ uri: siteResourceUri(SITE, 'workflow/latest.html') });
+
+    expect(JSON.parse(textOf(report))).toEqual({ quickWins: [{ query: 'shoes' }] });
+    expect(html.contents[0]).toMatchObject({ mimeType: 'text/html', text: '<h1>Audit</h1>' });
+    await expect(
+      client.readResource({ uri: siteResourceUri('sc-domain:example.org', 'workflow/latest.md') }),
+    ).rejects.toThrow(/reportFormat/);
+    await expect(client.readResource({ uri: siteResourceUri(SITE, 'reports/missing') })).rejects.toThrow(
+      /No cached report/,
+    );
+  });
+
+  it('notifies subscribers when a cached report is refreshed', async () => {
+    const runtime = new RuntimeCoordinator({ persistencePath: null, cacheStore: null });
+    const catalog = new ResourceCatalog(runtime, fakeToolCaller());
+    await cacheReport(runtime, catalog, 'req-1', 'run_seo_audit_workflow', { markdownReport: '# v1' });
+    const client = await connect(catalog);
+    const updated: string[] = [];
+    const received = new Promise<void>((resolve) => {
+      client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+        updated.push(notification.params.uri);
+        if (updated.length === 2) resolve();
+      });
+    });
+
+    await client.subscribeResource({ uri: siteResourceUri(SITE, 'reports/req-1') });
+    await client.subscribeResource({ uri: siteResourceUri(SITE, 'workflow/latest.md') });
+    await cacheReport(runtime, catalog, 'req-hit', 'run_seo_audit_workflow', { markdownReport: '# v1' }, false);
+    await cacheReport(runtime, catalog, 'req-2', 'run_seo_audit_workflow', { markdownReport: '# v2' });
+    await received;
+
+    expect(updated.sort()).toEqual([
+      siteResourceUri(SITE, 'reports/req-1'),
+      siteResourceUri(SITE, 'workflow/latest.md'),
+    ]);
+    const latest = await client.readResource({ uri: siteResourceUri(SITE, 'reports/req-1') });
+    expect(JSON.parse(textOf(latest))).toEqual({ markdownReport: '# v2' });
+  });
+});
@@ -0,0 +1,91 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { GSCQuotaError, SearchConsoleService } from '../src/service.js';
+import { ApiCircuitBreaker } from '../src/utils/circuit-breaker.js';
+import { resolveRetryPolicies, withRetry, withRetryTraceContext } from '../src/utils/retry.js';
+
+function googleError(status: number, reason: string, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(`Google API error: ${reason}`), {
+    code: status,
+    response: { status, headers, data: { error: { code: status, errors: [{ reason }] } } },
+  });
+}
+
+function createService(query: () => Promise<unknown>, circuitBreaker?: ApiCircuitBreaker) {
+  const service = new SearchConsoleService('/tmp/fake-creds.json', undefined, { circuitBreaker });
+  (service as unknown as { getWebmasters: () => Promise<unknown> }).getWebmasters = async () => ({
+    searchanalytics: { query },
+  });
+  return service;
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('retry policy and circuit breakers', () => {
+  it('waits for Retry-After and fails fast when the hint exceeds the policy', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'Date'] });
+    vi.setSystemTime(0);
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(googleError(429, 'rateLimitExceeded', { 'retry-after': '7' }))
+      .mockResolvedValue('ok');
+
+    const pending = withRetry(fn);
+    await vi.advanceTimersByTimeAsync(6_999);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(pending).resolves.toBe('ok');
+
+    const tooLong = googleError(503, 'backendError', { 'retry-after': '120' });
+    await expect(withRetry(() => Promise.reject(tooLong))).rejects.toBe(tooLong);
+  });
+
+  it('never retries daily-limit exhaustion and surfaces the reason', async () => {
+    const query = vi.fn().mockRejectedValue(googleError(403, 'dailyLimitExceeded'));
+    const service = createService(query);
+
+    const error = await service.searchAnalytics('sc-domain:example.com', {}).catch((caught: unknown) => caught);
+
+    expect(query).toHaveBeenCalledTimes(1);
+    expect(error).toBeInstanceOf(GSCQuotaError);
+    expect(error).toMatchObject({ code: 'QUOTA_ERROR', reason: 'dailyLimitExceeded', daily: true });
+  });
+
+  it('opens the family circuit for every caller and closes it after a successful probe', async () => {
+    const breaker = new ApiCircuitBreaker({ failureThreshold: 2, cooldownMs: 30_000, dailyCooldownMs: 3_600_000 });
+    const query = vi.fn().mockRejectedValue(googleError(429, 'rateLimitExceeded', { 'retry-after': '0' }));
+    const first = createService(query, breaker);
+    const second = createService(vi.fn().mockResolvedValue({ data: { rows: [] } }), breaker);
+
+    await expect(withRetryTraceContext(() => first.searchAnalytics('sc-domain:a.example', {}), { maxRetries: 0 }))
+      .rejects.toMatchObject({ reason: 'rateLimitExceeded' });
+    await expect(withRetryTraceContext(() => first.searchAnalytics('sc-domain:a.example', {}), { maxRetries: 0 }))
+      .rejects.toMatchObject({ reason: 'rateLimitExceeded' });
+    await expect(second.searchAnalytics('sc-domain:b.example', {})).rejects.toMatchObject({
+      code: 'QUOTA_ERROR',
+      reason: 'circuitOpen',
+    });
+    expect(breaker.snapshot().searchanalytics).toMatchObject({ state: 'open', consecutiveFailures: 2 });
+
+    expect(() => breaker.check('searchanalytics', Date.now() + 30_000)).not.toThrow();
+    breaker.recordSuccess('searchanalytics');
+    await expect(second.searchAnalytics('sc-domain:b.example', {})).resolves.toBeDefined();
+    expect(breaker.snapshot()).toEqual({});
+  });
+
+  it('applies per-tool policies from GSC_RETRY_POLICY', async () => {
+    const policyFor = resolveRetryPolicies({
+      GSC_RETRY_POLICY: JSON.stringify({ default: { baseDelayMs: 0 }, tools: { batch_inspect: { maxRetries: 1 } } }),
+    });
+    expect(policyFor('batch_inspect')).toEqual({ baseDelayMs: 0, maxRetries: 1 });
+    expect(policyFor('search_analytics')).toEqual({ baseDelayMs: 0 });
+    expect(() => resolveRetryPolicies({ GSC_RETRY_POLICY: '{"default":{"retries":2}}' })).toThrow(/GSC_RETRY_POLICY/);
+
+    const fn = vi.fn().mockRejectedValue(googleError(503, 'backendError'));
+    const traced = withRetryTraceContext(() => withRetry(fn), policyFor('batch_inspect'));
+    await expect(traced).rejects.toMatchObject({ code: 503 });
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+});
@@ -8,7 +8,7 @@ import { jsonResult } from '../src/utils/types.js';
 import { normalizeQuotaTrackedArgs } from '../src/utils/quota.js';
 
 describe('RuntimeCoordinator', () => {
-  it('returns cached responses with cache age metadata', () => {
+  it('returns cached responses with cache age metadata', async () => {
     const runtime = new RuntimeCoordinator({ persistencePath: null });
     const cacheKey = runtime.buildCacheKey('search_analytics', {
       siteUrl: 'sc-domain:example.com',
@@ -16,8 +16,8 @@ describe('RuntimeCoordinator', () => {
       mode: 'compact',
     });
 
-    runtime.setCached(cacheKey, 'search_analytics', jsonResult({ rows: [{ clicks: 10 }] }));
-    const cached = runtime.getCached(cacheKey);
+    await runtime.setCached(cacheKey, 'search_analytics', jsonResult({ rows: [{ clicks: 10 }] }));
+    const cached = await runtime.getCached(cacheKey);
 
     expect(cached).not.toBeNull();
     expect(cached?.ageSec).toBeGreaterThanOrEqual(0);
@@ -53,14 +53,14 @@ describe('RuntimeCoordinator', () => {
     expect(a).toBe(b);
   });
 
-  it('reports health snapshot counters for cache, quota, and tool execution', () => {
+  it('reports health snapshot counters for cache, quota, and tool execution', async () => {
     const runtime = new RuntimeCoordinator({ persistencePath: null });
     const cacheKey = runtime.buildCacheKey('search_analytics', {
       siteUrl: 'sc-domain:example.com',
       days: 7,
     });
 
-    runtime.setCached(cacheKey, 'search_analytics', jsonResult({ rows: [] }));
+    await runtime.setCached(cacheKey, 'search_analytics', jsonResult({ rows: [] }));
     runtime.reserveQuota('index_inspect', 1);
     runtime.recordToolExecution('search_analytics', 'success', 42);
     runtime.recordToolExecution('search_analytics', 'failure', 21);
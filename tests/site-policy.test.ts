@@ -0,0 +1,178 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CallToolRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { startHttpServer, type HttpServerHandle } from '../src/http-server.js';
+import { attachPrompts } from '../src/prompts.js';
+import { ResourceCatalog, siteResourceUri, type ToolCaller } from '../src/resources.js';
+import type { SearchConsoleService } from '../src/service.js';
+import { SitePolicy, resolveSiteRules } from '../src/site-policy.js';
+import { handleListSites } from '../src/tools/analytics.js';
+import { parseServerConfig } from '../src/utils/config.js';
+import { RuntimeCoordinator } from '../src/utils/runtime.js';
+import { jsonResult } from '../src/utils/types.js';
+
+const handles: HttpServerHandle[] = [];
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  while (handles.length > 0) {
+    await handles.pop()?.close();
+  }
+});
+
+describe('per-site access policy', () => {
+  it('matches sc-domain and URL-prefix patterns and intersects server and client rules', () => {
+    const policy = new SitePolicy(
+      { read: ['sc-domain:example.com', 'https://shop.example.org/'], write: ['https://www.example.com/'] },
+      { agency: { read: ['https://blog.example.com/'] } },
+    );
+
+    expect(policy.isAllowed('https://blog.example.com/post', 'read')).toBe(true);
+    expect(policy.isAllowed('https://shop.example.org/cart', 'read')).toBe(true);
+    expect(policy.isAllowed('https://www.example.org/', 'read')).toBe(false);
+    expect(policy.isAllowed('https://www.example.com/', 'write')).toBe(true);
+    expect(policy.deniedReason('sc-domain:example.com', 'write')).toBe(
+      "write access to sc-domain:example.com is not allowed by this server's site policy",
+    );
+    expect(policy.isAllowed('https://blog.example.com/', 'read', 'agency')).toBe(true);
+    expect(policy.deniedReason('https://www.example.com/', 'read', 'agency')).toBe(
+      'read access to https://www.example.com/ is not allowed for client agency',
+    );
+    // A URL prefix only covers its own origin, not hosts that merely start with the same text.
+    const shop = new SitePolicy({ read: ['https://shop.example.org'] });
+    expect(shop.isAllowed('https://shop.example.org/cart', 'read')).toBe(true);
+    expect(shop.isAllowed('https://shop.example.org.evil.net/', 'read')).toBe(false);
+    expect(shop.isAllowed('https://shop.example.organic.com/', 'read')).toBe(false);
+    // Without rules nothing is restricted; `write` falls back to `read`.
+    expect(new SitePolicy().isAllowed('sc-domain:anything.net', 'write')).toBe(true);
+    expect(new SitePolicy({ read: ['sc-domain:example.com'] }).isAllowed('sc-domain:example.net', 'write')).toBe(false);
+  });
+
+  it('filters list_sites and site resources to allowed properties', async () => {
+    const service = {
+      listSites: async () => ({
+        data: { siteEntry: [{ siteUrl: 'sc-domain:example.com' }, { siteUrl: 'sc-domain:other.net' }] },
+      }),
+    } as unknown as SearchConsoleService;
+    const policy = new SitePolicy({ read: ['sc-domain:example.com'] });
+
+    const listed = await handleListSites([{ accountId: 'default', service }], undefined, (siteUrl) =>
+      policy.isAllowed(siteUrl, 'read'),
+    );
+    expect(listed.structuredContent).toMatchObject({
+      siteEntry: [{ siteUrl: 'sc-domain:example.com' }],
+      accounts: [{ id: 'default', siteCount: 1 }],
+    });
+
+    const runtime = new RuntimeCoordinator({ persistencePath: null, cacheStore: null });
+    const callTool = vi.fn(async () =>
+      jsonResult({ siteEntry: [{ siteUrl: 'sc-domain:example.com' }, { siteUrl: 'sc-domain:other.net' }] }),
+    );
+    const catalog = new ResourceCatalog(runtime, callTool, (siteUrl, clientId) =>
+      new SitePolicy({}, { agency: { read: ['sc-domain:example.com'] } }).isAllowed(siteUrl, 'read', clientId),
+    );
+    const uris = (await catalog.list('agency')).map((resource) => resource.uri);
+    expect(uris).toContain(siteResourceUri('sc-domain:example.com', 'sitemaps'));
+    expect(uris).not.toContain(siteResourceUri('sc-domain:other.net', 'sitemaps'));
+    await expect(catalog.read(siteResourceUri('sc-domain:other.net', 'sitemaps'), 'agency')).rejects.toThrow(
+      'Unknown resource',
+    );
+  });
+
+  it('applies the client policy to the sites resource and siteUrl completions', async () => {
+    const policy = new SitePolicy({}, { agency: { read: ['sc-domain:example.com'] } });
+    const sites = ['sc-domain:example.com', 'sc-domain:other.net'];
+    const callTool = vi.fn<ToolCaller>(async (_name, _args, clientId) =>
+      jsonResult({
+        siteEntry: sites
+          .filter((siteUrl) => policy.isAllowed(siteUrl, 'read', clientId))
+          .map((siteUrl) => ({ siteUrl })),
+      }),
+    );
+    const runtime = new RuntimeCoordinator({ persistencePath: null, cacheStore: null });
+    const catalog = new ResourceCatalog(runtime, callTool);
+    const read = await catalog.read('gsc://sites', 'agency');
+    expect(JSON.parse(read.text).siteEntry).toEqual([{ siteUrl: 'sc-domain:example.com' }]);
+    expect(callTool).toHaveBeenLastCalledWith('list_sites', { mode: 'full' }, 'agency');
+
+    const server = new Server({ name: 'policy-test', version: '0.0.0' }, { capabilities: { prompts: {}, completions: {} } });
+    attachPrompts(server, callTool);
+    const client = new Client({ name: 'policy-client', version: '0.0.0' }, { capabilities: {} });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    // Stand in for the HTTP transport, which attaches the client token's id to every request.
+    const send = clientTransport.send.bind(clientTransport);
+    clientTransport.send = (message, options) =>
+      send(message, { ...options, authInfo: { token: 'agency-token-0123456789', clientId: 'agency', scopes: [] } });
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    try {
+      const completion = await client.complete({
+        ref: { type: 'ref/prompt', name: 'monthly_client_report' },
+        argument: { name: 'siteUrl', value: 'sc-domain' },
+      });
+      expect(completion.completion).toMatchObject({ values: ['sc-domain:example.com'], total: 1 });
+    } finally {
+      await client.close();
+    }
+  });
+
+  it('passes the HTTP client token id to tool handlers as authInfo', async () => {
+    const seen: Array<string | undefined> = [];
+    const factory = () => {
+      const server = new Server({ name: 'policy-test', version: '0.0.0' }, { capabilities: { tools: {} } });
+      server.setRequestHandler(CallToolRequestSchema, async (_request, extra) => {
+        seen.push(extra.authInfo?.clientId);
+        return { content: [] };
+      });
+      return server;
+    };
+    const handle = await startHttpServer(factory, {
+      host: '127.0.0.1',
+      port: 0,
+      authToken: 'server-token',
+      clientTokens: [{ clientId: 'agency', token: 'agency-token-0123456789' }],
+    });
+    handles.push(handle);
+
+    for (const token of ['server-token', 'agency-token-0123456789']) {
+      const client = new Client({ name: 'policy-client', version: '0.0.0' }, { capabilities: {} });
+      await client.connect(
+        new StreamableHTTPClientTransport(new URL(`${handle.url}/mcp`), {
+          requestInit: { headers: { Authorization: `Bearer ${token}` } },
+        }),
+      );
+      await client.callTool({ name: 'anything', arguments: {} });
+      await client.close();
+    }
+
+    expect(seen).toEqual([undefined, 'agency']);
+  });
+
+  it('validates policy config and lets GSC_SITE_POLICY_* override the server rules', () => {
+    expect(() =>
+      parseServerConfig({
+        sitePolicy: {
+          read: ['example.com'],
+          clients: {
+            a: { token: 'shared-token-0123456789' },
+            b: { token: 'shared-token-0123456789' },
+          },
+        },
+      }),
+    ).toThrow('sitePolicy.read[0]: Expected "*", "sc-domain:<domain>" or an http(s) URL prefix');
+    expect(() =>
+      parseServerConfig({
+        sitePolicy: { clients: { a: { token: 'shared-token-0123456789' }, b: { token: 'shared-token-0123456789' } } },
+      }),
+    ).toThrow('sitePolicy.clients.b.token: Token is shared with another client');
+
+    vi.stubEnv('GSC_SITE_POLICY_READ', 'sc-domain:example.com, https://shop.example.org/');
+    expect(resolveSiteRules({ read: ['*'], write: ['sc-domain:example.com'] })).toEqual({
+      read: ['sc-domain:example.com', 'https://shop.example.org/'],
+      write: ['sc-domain:example.com'],
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { TOOL_GROUP_IDS, ToolAccess, resolveToolAccessPolicy } from '../src/tool-access.js';
+import { GOOGLE_WRITE_TOOLS, TOOL_NAME_SET, TOOL_REGISTRY } from '../src/tool-registry.js';
+import { parseServerConfig } from '../src/utils/config.js';
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('tool allow/deny lists and read-only mode', () => {
+  it('read-only mode disables exactly the tools that write to Google', () => {
+    const access = new ToolAccess({ readOnly: true });
+
+    const disabled = TOOL_REGISTRY.filter((tool) => !access.isEnabled(tool.name)).map((tool) => tool.name);
+    expect(disabled.sort()).toEqual(
+      ['add_site', 'delete_site', 'delete_sitemap', 'indexing_publish', 'submit_sitemap'].sort(),
+    );
+    expect([...GOOGLE_WRITE_TOOLS].sort()).toEqual(disabled);
+    expect(access.isEnabled('export_search_analytics')).toBe(true);
+    expect(access.disabledReason('submit_sitemap')).toBe('the server is in read-only mode');
+    expect(access.disabledReason('search_analytics')).toBeNull();
+  });
+
+  it('matches tool names and group ids, with the denylist winning over the allowlist', () => {
+    const access = new ToolAccess({ allow: ['operations', 'search_analytics'], deny: ['sync_search_analytics'] });
+
+    expect(access.isEnabled('health_snapshot')).toBe(true);
+    expect(access.isEnabled('search_analytics')).toBe(true);
+    expect(access.isEnabled('sync_search_analytics')).toBe(false);
+    expect(access.isEnabled('batch_inspect')).toBe(false);
+    expect(access.snapshot()).toMatchObject({
+      readOnly: false,
+      enabledTools: 3,
+      disabledTools: {
+        sync_search_analytics: 'denied by the tool denylist',
+        batch_inspect: 'not in the tool allowlist',
+      },
+    });
+  });
+
+  it('lets GSC_TOOLS_ALLOW, GSC_TOOLS_DENY and GSC_READ_ONLY override the config file', () => {
+    vi.stubEnv('GSC_TOOLS_DENY', 'adjacent, delete_site');
+    vi.stubEnv('GSC_READ_ONLY', 'true');
+    expect(resolveToolAccessPolicy({ allow: ['core'], deny: ['list_sites'], readOnly: false })).toEqual({
+      allow: ['core'],
+      deny: ['adjacent', 'delete_site'],
+      readOnly: true,
+    });
+
+    vi.stubEnv('GSC_TOOLS_ALLOW', 'core,search_analytic');
+    expect(() => resolveToolAccessPolicy()).toThrow('Invalid GSC_TOOLS_ALLOW: unknown tool or group "search_analytic"');
+  });
+
+  it('rejects unknown names in the config file with their path', () => {
+    expect(() =>
+      parseServerConfig(
+        { toolAccess: { allow: ['computed', 'batch_inspect'], deny: ['multi_api'] } },
+        { toolNames: TOOL_NAME_SET, toolGroups: TOOL_GROUP_IDS },
+      ),
+    ).toThrow('toolAccess.deny[0]: Unknown tool or group "multi_api"');
+    expect(() => parseServerConfig({ toolAccess: { readOnly: 'yes' } })).toThrow(
+      'toolAccess.readOnly: Expected boolean, received string',
+    );
+  });
+});
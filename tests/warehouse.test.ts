@@ -0,0 +1,219 @@
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, expect, it, vi } from 'vitest';
+
+import type { SearchConsoleService } from '../src/service.js';
+import { handleComparePeriods } from '../src/tools/computed.js';
+import { handleSyncSearchAnalytics } from '../src/tools/warehouse.js';
+import { comparePeriods, daysAgo, eachDate, formatDate } from '../src/utils/dates.js';
+import type { SearchAnalyticsRow } from '../src/utils/types.js';
+import { AnalyticsWarehouse, resolveDataSource, toWarehouseQuery } from '../src/utils/warehouse.js';
+import { parseResult } from './helpers.js';
+
+const SITE = 'sc-domain:example.com';
+
+function row(keys: string[], clicks: number, impressions: number, position: number): SearchAnalyticsRow {
+  return { keys, clicks, impressions, ctr: impressions > 0 ? clicks / impressions : 0, position };
+}
+
+describe('AnalyticsWarehouse', () => {
+  it('aggregates stored rows with impression-weighted position and filters', async () => {
+    const warehouse = await AnalyticsWarehouse.open(null);
+    warehouse.replaceDay(SITE, 'web', '2024-01-01', [
+      row(['shoes', 'https://example.com/a', 'usa', 'MOBILE'], 10, 100, 2),
+      row(['shoes', 'https://example.com/b', 'gbr', 'DESKTOP'], 5, 300, 6),
+    ]);
+    warehouse.replaceDay(SITE, 'web', '2024-01-02', [
+      row(['boots', 'https://example.com/a', 'usa', 'MOBILE'], 1, 50, 9),
+    ]);
+
+    const byQuery = warehouse.query({
+      siteUrl: SITE,
+      searchType: 'web',
+      startDate: '2024-01-01',
+      endDate: '2024-01-02',
+      dimensions: ['query'],
+    });
+    const mobilePages = warehouse.query({
+      siteUrl: SITE,
+      searchType: 'web',
+      startDate: '2024-01-01',
+      endDate: '2024-01-02',
+      dimensions: ['page'],
+      filters: [{ dimension: 'device', operator: 'equals', expression: 'mobile' }],
+    });
+
+    expect(byQuery).toEqual([
+      { keys: ['shoes'], clicks: 15, impressions: 400, ctr: 15 / 400, position: 5 },
+      { keys: ['boots'], clicks: 1, impressions: 50, ctr: 0.02, position: 9 },
+    ]);
+    expect(mobilePages).toEqual([
+      { keys: ['https://example.com/a'], clicks: 11, impressions: 150, ctr: 11 / 150, position: (200 + 450) / 150 },
+    ]);
+    expect(warehouse.missingDates(SITE, 'web', '2024-01-01', '2024-01-03')).toEqual(['2024-01-03']);
+    expect(warehouse.coverage(SITE, 'web')).toEqual({
+      firstDate: '2024-01-01',
+      lastDate: '2024-01-02',
+      days: 2,
+      rows: 3,
+    });
+  });
+
+  it('persists to disk and reopens', async () => {
+    const path = join(mkdtempSync(join(tmpdir(), 'gsc-warehouse-')), 'warehouse.sqlite');
+    const warehouse = await AnalyticsWarehouse.open(path);
+    warehouse.replaceDay(SITE, 'web', '2023-06-01', [row(['q', 'p', 'usa', 'MOBILE'], 3, 30, 4)]);
+    warehouse.save();
+    warehouse.close();
+
+    const reopened = await AnalyticsWarehouse.open(path);
+    expect(reopened.missingDates(SITE, 'web', '2023-06-01', '2023-06-01')).toEqual([]);
+    expect(reopened.coverage(SITE, 'image').days).toBe(0);
+  });
+
+  it('only translates requests the warehouse can answer', () => {
+    const base = { startDate: '2024-01-01', endDate: '2024-01-07' };
+
+    expect(toWarehouseQuery(SITE, { ...base, dimensions: ['query'], searchType: 'image' })).toMatchObject({
+      searchType: 'image',
+      dimensions: ['query'],
+    });
+    expect(toWarehouseQuery(SITE, { ...base, dimensions: ['searchAppearance'] })).toBeNull();
+    expect(
+      toWarehouseQuery(SITE, {
+        ...base,
+        dimensionFilterGroups: [{ filters: [{ dimension: 'query', operator: 'includingRegex', expression: '^a' }] }],
+      }),
+    ).toBeNull();
+  });
+});
+
+describe('sync_search_analytics', () => {
+  it('backfills only unsynced days, oldest first, up to maxDays', async () => {
+    const warehouse = await AnalyticsWarehouse.open(null);
+    warehouse.replaceDay(SITE, 'web', '2024-03-02', []);
+    const searchAnalytics = vi.fn(async (_siteUrl: string, body: Record<string, unknown>) => ({
+      data: { rows: [row(['q', 'https://example.com/', 'usa', 'MOBILE'], 1, 10, 3)], body },
+    }));
+    const service = { searchAnalytics } as unknown as SearchConsoleService;
+
+    const payload = parseResult(
+      await handleSyncSearchAnalytics(service, warehouse, {
+        siteUrl: SITE,
+        startDate: '2024-03-01',
+        endDate: '2024-03-05',
+        maxDays: 2,
+      }),
+    );
+
+    expect(searchAnalytics.mock.calls.map(([, body]) => body.startDate)).toEqual(['2024-03-01', '2024-03-03']);
+    expect(searchAnalytics.mock.calls[0]?.[1]).toMatchObject({
+      dimensions: ['query', 'page', 'country', 'device'],
+      dataState: 'final',
+      searchType: 'web',
+    });
+    expect(payload).toMatchObject({
+      rowsSynced: 2,
+      alreadySyncedDays: 1,
+      remainingDays: 2,
+      nextStartDate: '2024-03-04',
+    });
+    expect(warehouse.missingDates(SITE, 'web', '2024-03-01', '2024-03-05')).toEqual(['2024-03-04', '2024-03-05']);
+  });
+
+  it('never syncs days inside the final-data lag', async () => {
+    const warehouse = await AnalyticsWarehouse.open(null);
+    const searchAnalytics = vi.fn(async (_siteUrl: string, _body: Record<string, unknown>) => ({ data: { rows: [] } }));
+    const service = { searchAnalytics } as unknown as SearchConsoleService;
+    const lastFinalDate = formatDate(daysAgo(3));
+
+    const payload = parseResult(
+      await handleSyncSearchAnalytics(service, warehouse, {
+        siteUrl: SITE,
+        startDate: formatDate(daysAgo(5)),
+        endDate: formatDate(daysAgo(0)),
+      }),
+    );
+
+    expect(payload.range).toEqual({ startDate: formatDate(daysAgo(5)), endDate: lastFinalDate });
+    expect(searchAnalytics.mock.calls.map(([, body]) => body.startDate)).toEqual([
+      formatDate(daysAgo(5)),
+      formatDate(daysAgo(4)),
+      lastFinalDate,
+    ]);
+    expect(warehouse.missingDates(SITE, 'web', lastFinalDate, formatDate(daysAgo(0)))).toHaveLength(3);
+  });
+
+  it('refuses to run when the warehouse is disabled', async () => {
+    const service = { searchAnalytics: vi.fn() } as unknown as SearchConsoleService;
+    await expect(handleSyncSearchAnalytics(service, null, { siteUrl: SITE })).rejects.toThrow(/warehouse is disabled/);
+  });
+});
+
+describe('warehouse-backed computed tools', () => {
+  async function syncedWarehouse(dates: string[]): Promise<AnalyticsWarehouse> {
+    const warehouse = await AnalyticsWarehouse.open(null);
+    for (const date of dates) {
+      warehouse.replaceDay(SITE, 'web', date, [row(['shoes', 'https://example.com/', 'usa', 'MOBILE'], 2, 20, 3)]);
+    }
+    return warehouse;
+  }
+
+  it('compare_periods reads fully synced ranges from the warehouse', async () => {
+    const { periodA, periodB } = comparePeriods(7);
+    const warehouse = await syncedWarehouse(eachDate(periodB.startDate, periodA.endDate));
+    const service = { searchAnalytics: vi.fn() } as unknown as SearchConsoleService;
+
+    const payload = parseResult(await handleComparePeriods(service, { siteUrl: SITE, days: 7 }, warehouse));
+
+    expect(service.searchAnalytics).not.toHaveBeenCalled();
+    expect(payload.dataSource).toBe('warehouse');
+    expect((payload.comparisons as Array<Record<string, unknown>>)[0]).toMatchObject({
+      keys: ['shoes'],
+      periodA: { clicks: 14, impressions: 140 },
+      periodB: { clicks: 14, impressions: 140 },
+    });
+  });
+
+  it('reads both periods from the API when only one is synced in auto mode', async () => {
+    const { periodA } = comparePeriods(7);
+    const warehouse = await syncedWarehouse(eachDate(periodA.startDate, periodA.endDate));
+    const service = {
+      searchAnalytics: vi.fn().mockResolvedValue({ data: { rows: [row(['shoes'], 1, 10, 4)] } }),
+    } as unknown as SearchConsoleService;
+
+    const payload = parseResult(await handleComparePeriods(service, { siteUrl: SITE, days: 7 }, warehouse));
+
+    expect(service.searchAnalytics).toHaveBeenCalledTimes(2);
+    expect(payload.dataSource).toBe('api');
+  });
+
+  it('treats days synced with a truncated row set as missing when reading', async () => {
+    const { periodA, periodB } = comparePeriods(7);
+    const warehouse = await syncedWarehouse(eachDate(periodB.startDate, periodA.endDate));
+    warehouse.replaceDay(SITE, 'web', periodA.endDate, [], { truncated: true });
+    const bodies = [periodA, periodB].map((period) => ({ ...period, dimensions: ['query'], rowLimit: 10 }));
+
+    expect(resolveDataSource(warehouse, SITE, bodies)).toBe('api');
+    expect(resolveDataSource(warehouse, SITE, bodies.slice(1))).toBe('warehouse');
+    expect(warehouse.missingDates(SITE, 'web', periodA.startDate, periodA.endDate)).toEqual([]);
+    await expect(
+      handleComparePeriods(
+        { searchAnalytics: vi.fn() } as unknown as SearchConsoleService,
+        { siteUrl: SITE, days: 7, dataSource: 'warehouse' },
+        warehouse,
+      ),
+    ).rejects.toThrow(/not synced or were truncated/);
+  });
+
+  it('fails with WAREHOUSE_UNAVAILABLE when dataSource is warehouse and days are missing', async () => {
+    const warehouse = await syncedWarehouse([]);
+    const service = { searchAnalytics: vi.fn() } as unknown as SearchConsoleService;
+
+    await expect(
+      handleComparePeriods(service, { siteUrl: SITE, days: 7, dataSource: 'warehouse' }, warehouse),
+    ).rejects.toMatchObject({ code: 'WAREHOUSE_UNAVAILABLE' });
+  });
+});